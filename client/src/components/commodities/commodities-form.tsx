@@ -1,8 +1,9 @@
-import React from "react";
-import { useMutation } from "@tanstack/react-query";
+import React, { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { AlertCircle, Check, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
 import {
   Form,
   FormField,
@@ -19,96 +20,218 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage, getApiErrorBody } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import {
+  commodityClassLabels,
+  commodityTypeOptions,
+  findClassificationConflicts,
+  packagingOptions,
+  palletTypeOptions,
+  productMakeupOptions,
+  type ClassificationAnswers,
+  type ClassificationConflict,
+  type CommodityClassificationInput,
+  type CommodityClassificationResult,
+} from "@shared/commodity-classification";
+import {
+  sprinklerSystemOptions,
+  type ProtectionRequirements,
+  type ProtectionRequirementsInput,
+} from "@shared/protection-requirements";
+import { ProtectionRequirementsSummary } from "./protection-requirements";
 
 // Define commodities schema
 const commoditiesSchema = z.object({
   commodityTypes: z.array(z.string()).min(1, "Select at least one commodity type"),
   storageMethod: z.string().min(1, "Storage method is required"),
-  classification: z.string().min(1, "Classification is required"),
+  productMakeup: z.string().min(1, "Choose what the products are made of"),
+  groupAPlasticPercent: z.string().regex(/^(100|\d{1,2}(\.\d+)?)$/, "Enter a percentage from 0 to 100"),
+  expandedPlastic: z.boolean(),
+  freeFlowingPlastic: z.boolean(),
+  packaging: z.string().min(1, "Choose how the products are packaged"),
+  palletType: z.string().min(1, "Choose the pallet type"),
   additionalDetails: z.string().optional(),
+  // Kept as text so the fields can be left blank; blank means not known yet
+  rackHeight: z.string().regex(/^(\d+(\.\d+)?)?$/, "Enter a number of feet").optional(),
+  topOfStorageHeight: z.string().regex(/^(\d+(\.\d+)?)?$/, "Enter a number of feet").optional(),
+  storageArea: z.string().regex(/^(\d+(\.\d+)?)?$/, "Enter a number of square feet").optional(),
+  sprinklerSystem: z.string().optional(),
+  openToPublic: z.boolean(),
 });
 
+type CommoditiesFormValues = z.infer<typeof commoditiesSchema>;
+
+const steps: Array<{ title: string; fields: Array<keyof CommoditiesFormValues> }> = [
+  { title: "Commodities", fields: ["commodityTypes", "storageMethod"] },
+  { title: "Product Makeup", fields: ["productMakeup", "groupAPlasticPercent", "expandedPlastic", "freeFlowingPlastic"] },
+  { title: "Packaging & Pallets", fields: ["packaging", "palletType"] },
+  { title: "Classification", fields: ["rackHeight", "topOfStorageHeight", "storageArea", "sprinklerSystem", "openToPublic", "additionalDetails"] },
+];
+
+const storageMethodOptions = [
+  { id: "pallets", label: "Palletized Storage" },
+  { id: "racks", label: "Rack Storage" },
+  { id: "solid_pile", label: "Solid Pile Storage" },
+  { id: "shelves", label: "Shelf Storage" },
+  { id: "bins", label: "Bin Box Storage" },
+  { id: "back_to_back", label: "Back-to-Back Shelf Storage" },
+];
+
+function optionalNumber(value: string | undefined): number | null {
+  return value ? Number(value) : null;
+}
+
+// The answers given so far, in the shape the classification rules take
+function classificationInput(values: CommoditiesFormValues): Partial<CommodityClassificationInput> {
+  const percent = values.groupAPlasticPercent.trim();
+  return {
+    commodityTypes: values.commodityTypes,
+    productMakeup: (values.productMakeup || undefined) as ClassificationAnswers["productMakeup"] | undefined,
+    groupAPlasticPercent: percent !== "" && !isNaN(Number(percent)) ? Number(percent) : undefined,
+    expandedPlastic: values.expandedPlastic,
+    freeFlowingPlastic: values.freeFlowingPlastic,
+    packaging: (values.packaging || undefined) as ClassificationAnswers["packaging"] | undefined,
+    palletType: (values.palletType || undefined) as ClassificationAnswers["palletType"] | undefined,
+  };
+}
+
+function ConflictMessages({ conflicts }: { conflicts: ClassificationConflict[] }) {
+  if (conflicts.length === 0) return null;
+  return (
+    <ul className="space-y-1">
+      {conflicts.map(conflict => (
+        <li key={conflict.message} className="flex items-start gap-1.5 text-sm font-medium text-destructive">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          {conflict.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface CommoditiesFormProps {
   projectId: number;
   existingData: any | null;
   isLoading?: boolean;
 }
 
+/**
+ * A guided wizard for a project's commodities. The IFC commodity class is not
+ * chosen: it is computed on the server from the products, packaging and pallets,
+ * and shown with the rules that produced it. Answers that contradict each other
+ * are disabled or flagged before the class can be computed.
+ */
 export function CommoditiesForm({
   projectId,
   existingData,
   isLoading = false,
 }: CommoditiesFormProps) {
   const { toast } = useToast();
-  
-  const commodityTypeOptions = [
-    { id: "paper", label: "Paper Products (Class III)" },
-    { id: "wood", label: "Wood Products (Class III)" },
-    { id: "textiles", label: "Textiles (Class III)" },
-    { id: "furniture", label: "Furniture (Class IV)" },
-    { id: "plastic", label: "Plastics (Group A)" },
-    { id: "rubber", label: "Rubber (Group A)" },
-    { id: "electronics", label: "Electronics (Group A)" },
-    { id: "food", label: "Food Products (Class I)" },
-    { id: "metal", label: "Metal Products (Class I)" },
-    { id: "glass", label: "Glass Products (Class I)" },
-    { id: "other", label: "Other" },
-  ];
-  
-  const storageMethodOptions = [
-    { id: "pallets", label: "Palletized Storage" },
-    { id: "racks", label: "Rack Storage" },
-    { id: "solid_pile", label: "Solid Pile Storage" },
-    { id: "shelves", label: "Shelf Storage" },
-    { id: "bins", label: "Bin Box Storage" },
-    { id: "back_to_back", label: "Back-to-Back Shelf Storage" },
-  ];
-  
-  const classificationOptions = [
-    { id: "class_i", label: "Class I - Noncombustible" },
-    { id: "class_ii", label: "Class II - Limited Combustible" },
-    { id: "class_iii", label: "Class III - Combustible" },
-    { id: "class_iv", label: "Class IV - Limited High-Hazard" },
-    { id: "group_a_exposed", label: "Group A Plastics - Exposed" },
-    { id: "group_a_unexposed", label: "Group A Plastics - Unexposed" },
-    { id: "mixed", label: "Mixed Commodities" },
-  ];
-  
+  const [step, setStep] = useState(0);
+  const answers: Partial<ClassificationAnswers> = existingData?.classificationInputs ?? {};
+
   // Set up form with existing data if available
-  const form = useForm<z.infer<typeof commoditiesSchema>>({
+  const form = useForm<CommoditiesFormValues>({
     resolver: zodResolver(commoditiesSchema),
     defaultValues: {
       commodityTypes: existingData?.commodityTypes || [],
       storageMethod: existingData?.storageMethod || "",
-      classification: existingData?.classification || "",
+      productMakeup: answers.productMakeup ?? "",
+      groupAPlasticPercent: answers.groupAPlasticPercent?.toString() ?? "0",
+      expandedPlastic: answers.expandedPlastic ?? false,
+      freeFlowingPlastic: answers.freeFlowingPlastic ?? false,
+      packaging: answers.packaging ?? "",
+      palletType: answers.palletType ?? "",
       additionalDetails: existingData?.additionalDetails || "",
+      rackHeight: existingData?.rackHeight?.toString() ?? "",
+      topOfStorageHeight: existingData?.topOfStorageHeight?.toString() ?? "",
+      storageArea: existingData?.storageArea?.toString() ?? "",
+      sprinklerSystem: existingData?.sprinklerSystem ?? "",
+      openToPublic: existingData?.openToPublic ?? false,
+    },
+  });
+
+  const values = form.watch();
+  const input = classificationInput(values);
+  const conflicts = findClassificationConflicts(input);
+  const conflictsFor = (...fields: Array<keyof CommodityClassificationInput>) =>
+    conflicts.filter(conflict => fields.includes(conflict.field));
+  // An option is offered only if choosing it wouldn't contradict the other answers
+  const wouldConflict = <K extends keyof CommodityClassificationInput>(field: K, value: CommodityClassificationInput[K]) =>
+    findClassificationConflicts({ ...input, [field]: value }).length > conflicts.length;
+
+  const isLastStep = step === steps.length - 1;
+  const { data: result, error: classifyError, isFetching: isClassifying } = useQuery<CommodityClassificationResult, Error>({
+    queryKey: ["/api/commodities/classify", input],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/commodities/classify", input);
+      return await res.json();
     },
+    enabled: isLastStep && conflicts.length === 0,
+    retry: false,
   });
-  
+  const serverConflicts = classifyError
+    ? getApiErrorBody<{ conflicts?: ClassificationConflict[] }>(classifyError)?.conflicts ?? []
+    : [];
+
+  // Once the class and storage facts are in, preview what IFC Table 3206.2 will ask for
+  const protectionInput: ProtectionRequirementsInput | null =
+    result && Number(values.storageArea) > 0 && Number(values.topOfStorageHeight) > 0 && values.sprinklerSystem
+      ? {
+        classification: result.classification,
+        storageArea: Number(values.storageArea),
+        topOfStorageHeight: Number(values.topOfStorageHeight),
+        sprinklerSystem: values.sprinklerSystem as ProtectionRequirementsInput["sprinklerSystem"],
+        openToPublic: values.openToPublic,
+      }
+      : null;
+  const { data: protection } = useQuery<ProtectionRequirements>({
+    queryKey: ["/api/protection-requirements/calculate", protectionInput],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/protection-requirements/calculate", protectionInput);
+      return await res.json();
+    },
+    enabled: !!protectionInput,
+    retry: false,
+  });
+
   // Save commodities mutation
   const saveCommoditiesMutation = useMutation({
-    mutationFn: async (values: z.infer<typeof commoditiesSchema>) => {
+    mutationFn: async (values: CommoditiesFormValues) => {
       const formattedValues = {
         projectId,
         commodityTypes: values.commodityTypes,
         storageMethod: values.storageMethod,
-        classification: values.classification,
+        classificationInputs: {
+          productMakeup: values.productMakeup,
+          groupAPlasticPercent: Number(values.groupAPlasticPercent),
+          expandedPlastic: values.expandedPlastic,
+          freeFlowingPlastic: values.freeFlowingPlastic,
+          packaging: values.packaging,
+          palletType: values.palletType,
+        },
         additionalDetails: values.additionalDetails,
+        rackHeight: optionalNumber(values.rackHeight),
+        topOfStorageHeight: optionalNumber(values.topOfStorageHeight),
+        storageArea: optionalNumber(values.storageArea),
+        sprinklerSystem: values.sprinklerSystem || null,
+        openToPublic: values.openToPublic,
       };
-      
-      // Use PUT if updating, POST if creating
+
+      // PATCH the existing data so the change is recorded as a revision; POST only the first time
       const method = existingData ? "PATCH" : "POST";
-      const endpoint = existingData 
-        ? `/api/projects/${projectId}/commodities/${existingData.id}` 
+      const endpoint = existingData
+        ? `/api/projects/${projectId}/commodities/${existingData.id}`
         : `/api/projects/${projectId}/commodities`;
-      
+
       const res = await apiRequest(method, endpoint, formattedValues);
       return await res.json();
     },
@@ -118,30 +241,40 @@ export function CommoditiesForm({
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] }); // Refresh project list
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] }); // Refresh project details
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] }); // Refresh activity log
-      
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/requirements`] }); // Required documents depend on these facts
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/protection-requirements`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/commodity-revisions`] });
+
       toast({
         title: "Commodities Information Saved",
         description: "The commodities information has been saved successfully.",
       });
-      
+
       // Force page reload to ensure all components show the latest data
       setTimeout(() => {
         window.location.reload();
       }, 1500); // Delay to allow the toast to be visible
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to Save",
-        description: "There was an error saving the commodities information. Please try again.",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       });
     },
   });
-  
-  const onSubmit = (values: z.infer<typeof commoditiesSchema>) => {
+
+  const goToNextStep = async () => {
+    const valid = await form.trigger(steps[step].fields);
+    if (valid && conflictsFor(...(steps[step].fields as Array<keyof CommodityClassificationInput>)).length === 0) {
+      setStep(step + 1);
+    }
+  };
+
+  const onSubmit = (values: CommoditiesFormValues) => {
     saveCommoditiesMutation.mutate(values);
   };
-  
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -154,155 +287,463 @@ export function CommoditiesForm({
       </div>
     );
   }
-  
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-        <FormField
-          control={form.control}
-          name="commodityTypes"
-          render={() => (
-            <FormItem>
-              <FormLabel>Commodity Types</FormLabel>
-              <FormDescription>
-                Select all commodity types that will be stored in this facility.
-              </FormDescription>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
-                {commodityTypeOptions.map((option) => (
-                  <FormField
-                    key={option.id}
-                    control={form.control}
-                    name="commodityTypes"
-                    render={({ field }) => {
-                      return (
-                        <FormItem
-                          key={option.id}
-                          className="flex flex-row items-start space-x-3 space-y-0"
-                        >
-                          <FormControl>
-                            <Checkbox
-                              checked={field.value?.includes(option.id)}
-                              onCheckedChange={(checked) => {
-                                const currentValue = field.value || [];
-                                return checked
-                                  ? field.onChange([...currentValue, option.id])
-                                  : field.onChange(
-                                      currentValue.filter((value) => value !== option.id)
-                                    );
-                              }}
-                            />
-                          </FormControl>
-                          <FormLabel className="text-sm font-normal cursor-pointer">
-                            {option.label}
-                          </FormLabel>
-                        </FormItem>
-                      );
-                    }}
-                  />
-                ))}
-              </div>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <FormField
-            control={form.control}
-            name="storageMethod"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Storage Method</FormLabel>
-                <FormDescription>
-                  Select the primary method used to store commodities.
-                </FormDescription>
-                <Select
-                  onValueChange={field.onChange}
-                  defaultValue={field.value}
-                >
+        <ol className="flex flex-wrap gap-2">
+          {steps.map((wizardStep, index) => (
+            <li
+              key={wizardStep.title}
+              className={`flex items-center gap-2 rounded-full px-3 py-1 text-sm ${
+                index === step ? "bg-primary text-primary-foreground" : index < step ? "bg-muted text-foreground" : "text-muted-foreground"
+              }`}
+            >
+              <span className="flex h-5 w-5 items-center justify-center rounded-full border text-xs">
+                {index < step ? <Check className="h-3 w-3" /> : index + 1}
+              </span>
+              {wizardStep.title}
+            </li>
+          ))}
+        </ol>
+
+        {existingData && !existingData.classificationInputs && existingData.classification && (
+          <p className="text-sm text-muted-foreground">
+            Previously filed as {commodityClassLabels[existingData.classification] ?? existingData.classification}.
+            Answer the questions below to have the class worked out from the IFC rules.
+          </p>
+        )}
+
+        {step === 0 && (
+          <>
+            <FormField
+              control={form.control}
+              name="commodityTypes"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Commodity Types</FormLabel>
+                  <FormDescription>
+                    Select all commodity types that will be stored in this facility.
+                  </FormDescription>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+                    {commodityTypeOptions.map((option) => (
+                      <FormField
+                        key={option.id}
+                        control={form.control}
+                        name="commodityTypes"
+                        render={({ field }) => {
+                          return (
+                            <FormItem
+                              key={option.id}
+                              className="flex flex-row items-start space-x-3 space-y-0"
+                            >
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value?.includes(option.id)}
+                                  onCheckedChange={(checked) => {
+                                    const currentValue = field.value || [];
+                                    return checked
+                                      ? field.onChange([...currentValue, option.id])
+                                      : field.onChange(
+                                          currentValue.filter((value) => value !== option.id)
+                                        );
+                                  }}
+                                />
+                              </FormControl>
+                              <FormLabel className="text-sm font-normal cursor-pointer">
+                                {option.label}
+                              </FormLabel>
+                            </FormItem>
+                          );
+                        }}
+                      />
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="storageMethod"
+              render={({ field }) => (
+                <FormItem className="md:w-1/2">
+                  <FormLabel>Storage Method</FormLabel>
+                  <FormDescription>
+                    Select the primary method used to store commodities.
+                  </FormDescription>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select storage method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {storageMethodOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        {step === 1 && (
+          <>
+            <FormField
+              control={form.control}
+              name="productMakeup"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What are the products made of?</FormLabel>
+                  <FormDescription>
+                    Leave Group A plastics (polystyrene, polyethylene, ABS and the like) out; their share is asked for next.
+                  </FormDescription>
                   <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select storage method" />
-                    </SelectTrigger>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                      {productMakeupOptions.map((option) => (
+                        <div key={option.id} className="flex items-start gap-2">
+                          <RadioGroupItem
+                            value={option.id}
+                            id={`makeup-${option.id}`}
+                            disabled={wouldConflict("productMakeup", option.id)}
+                            className="mt-0.5"
+                          />
+                          <label htmlFor={`makeup-${option.id}`} className="text-sm cursor-pointer">
+                            <span className="font-medium">{option.label}</span>
+                            <span className="block text-muted-foreground">{option.description}</span>
+                          </label>
+                        </div>
+                      ))}
+                    </RadioGroup>
                   </FormControl>
-                  <SelectContent>
-                    {storageMethodOptions.map((option) => (
-                      <SelectItem key={option.id} value={option.id}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          
-          <FormField
-            control={form.control}
-            name="classification"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Commodity Classification</FormLabel>
-                <FormDescription>
-                  Select the commodity classification based on IFC Chapter 32.
-                </FormDescription>
-                <Select
-                  onValueChange={field.onChange}
-                  defaultValue={field.value}
-                >
+                  <ConflictMessages conflicts={conflictsFor("productMakeup")} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="groupAPlasticPercent"
+              render={({ field }) => (
+                <FormItem className="md:w-1/2">
+                  <FormLabel>Group A Plastics (%)</FormLabel>
+                  <FormDescription>
+                    Share of Group A plastics in the products and their packaging: by volume for foam, otherwise by weight.
+                  </FormDescription>
                   <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select classification" />
-                    </SelectTrigger>
+                    <Input inputMode="decimal" placeholder="e.g. 10" {...field} />
                   </FormControl>
-                  <SelectContent>
-                    {classificationOptions.map((option) => (
-                      <SelectItem key={option.id} value={option.id}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </div>
-        
-        <FormField
-          control={form.control}
-          name="additionalDetails"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Additional Details</FormLabel>
-              <FormDescription>
-                Provide any additional details about the commodities or storage arrangements.
-              </FormDescription>
-              <FormControl>
-                <Textarea
-                  placeholder="Enter additional details about commodities and storage..."
-                  rows={4}
-                  {...field}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-        
-        <div className="flex justify-end">
-          <Button 
-            type="submit" 
-            disabled={saveCommoditiesMutation.isPending}
+                  <ConflictMessages conflicts={conflictsFor("groupAPlasticPercent")} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <FormField
+                control={form.control}
+                name="expandedPlastic"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={!field.value && wouldConflict("expandedPlastic", true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-sm font-normal cursor-pointer">
+                      The plastics are expanded (foam)
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="freeFlowingPlastic"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        disabled={!field.value && wouldConflict("freeFlowingPlastic", true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-sm font-normal cursor-pointer">
+                      The plastics are free-flowing pellets, flakes or powder
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+              <ConflictMessages conflicts={conflictsFor("expandedPlastic", "freeFlowingPlastic")} />
+            </div>
+          </>
+        )}
+
+        {step === 2 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="packaging"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Packaging</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                      {packagingOptions.map((option) => (
+                        <div key={option.id} className="flex items-start gap-2">
+                          <RadioGroupItem
+                            value={option.id}
+                            id={`packaging-${option.id}`}
+                            disabled={wouldConflict("packaging", option.id)}
+                            className="mt-0.5"
+                          />
+                          <label htmlFor={`packaging-${option.id}`} className="text-sm cursor-pointer">
+                            <span className="font-medium">{option.label}</span>
+                            <span className="block text-muted-foreground">{option.description}</span>
+                          </label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <ConflictMessages conflicts={conflictsFor("packaging")} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="palletType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pallets</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                      {palletTypeOptions.map((option) => (
+                        <div key={option.id} className="flex items-center gap-2">
+                          <RadioGroupItem
+                            value={option.id}
+                            id={`pallet-${option.id}`}
+                            disabled={wouldConflict("palletType", option.id)}
+                          />
+                          <label htmlFor={`pallet-${option.id}`} className="text-sm cursor-pointer">
+                            {option.label}
+                          </label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {isLastStep && (
+          <>
+            <div className="rounded-md border p-4 space-y-3">
+              {isClassifying ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Working out the commodity class...
+                </div>
+              ) : result ? (
+                <>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Commodity Classification</p>
+                    <p className="text-lg font-semibold">{result.label}</p>
+                    <p className="text-sm">{result.rule}</p>
+                  </div>
+                  <ol className="list-decimal pl-5 space-y-0.5 text-sm text-muted-foreground">
+                    {result.reasoning.map(line => <li key={line}>{line}</li>)}
+                  </ol>
+                </>
+              ) : (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>The commodity can't be classified yet</AlertTitle>
+                  <AlertDescription>
+                    {serverConflicts.length > 0 || conflicts.length > 0
+                      ? <ConflictMessages conflicts={serverConflicts.length > 0 ? serverConflicts : conflicts} />
+                      : classifyError ? getApiErrorMessage(classifyError) : "Go back and answer every question."}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="rackHeight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rack Height (ft)</FormLabel>
+                    <FormDescription>
+                      Height of the tallest storage rack.
+                    </FormDescription>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="e.g. 24" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="topOfStorageHeight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Top of Storage (ft)</FormLabel>
+                    <FormDescription>
+                      Floor to the top of stored commodities.
+                    </FormDescription>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="e.g. 22" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="storageArea"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Storage Area (sq ft)</FormLabel>
+                    <FormDescription>
+                      Total high-piled storage area.
+                    </FormDescription>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="e.g. 12000" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="sprinklerSystem"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sprinkler System</FormLabel>
+                    <FormDescription>
+                      What protects the storage area today.
+                    </FormDescription>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select sprinkler system" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {sprinklerSystemOptions.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="openToPublic"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 md:pt-8">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="text-sm font-normal cursor-pointer">
+                        The storage area is open to the public
+                      </FormLabel>
+                      <FormDescription>
+                        Retail warehouses and other stores customers walk through.
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {protection && <ProtectionRequirementsSummary requirements={protection} />}
+
+            <FormField
+              control={form.control}
+              name="additionalDetails"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Additional Details</FormLabel>
+                  <FormDescription>
+                    Provide any additional details about the commodities or storage arrangements.
+                  </FormDescription>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Enter additional details about commodities and storage..."
+                      rows={4}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setStep(step - 1)}
+            disabled={step === 0}
           >
-            {saveCommoditiesMutation.isPending 
-              ? "Saving..." 
-              : existingData 
-                ? "Update Commodities Information" 
-                : "Save Commodities Information"
-            }
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Back
           </Button>
+          {isLastStep ? (
+            <Button
+              type="submit"
+              disabled={!result || saveCommoditiesMutation.isPending}
+            >
+              {saveCommoditiesMutation.isPending
+                ? "Saving..."
+                : existingData
+                  ? "Update Commodities Information"
+                  : "Save Commodities Information"
+              }
+            </Button>
+          ) : (
+            <Button type="button" onClick={goToNextStep}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          )}
         </div>
       </form>
     </Form>
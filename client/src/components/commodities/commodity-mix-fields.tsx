@@ -0,0 +1,233 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, getApiErrorMessage, getApiErrorBody } from "@/lib/queryClient";
+import {
+  commodityTypeOptions,
+  findClassificationConflicts,
+  packagingOptions,
+  palletTypeOptions,
+  productMakeupOptions,
+  type ClassificationAnswers,
+  type ClassificationConflict,
+  type CommodityClassificationInput,
+  type CommodityClassificationResult,
+} from "@shared/commodity-classification";
+
+// The commodity questions a storage array is classified from, edited as text where they are numbers
+export interface CommodityMix {
+  commodityTypes: string[];
+  productMakeup: string;
+  groupAPlasticPercent: string;
+  expandedPlastic: boolean;
+  freeFlowingPlastic: boolean;
+  packaging: string;
+  palletType: string;
+}
+
+export const emptyCommodityMix: CommodityMix = {
+  commodityTypes: [],
+  productMakeup: "",
+  groupAPlasticPercent: "0",
+  expandedPlastic: false,
+  freeFlowingPlastic: false,
+  packaging: "",
+  palletType: "",
+};
+
+export function commodityMixFrom(commodityTypes: unknown, classificationInputs: unknown): CommodityMix {
+  const answers = classificationInputs as ClassificationAnswers;
+  return {
+    commodityTypes: commodityTypes as string[],
+    productMakeup: answers.productMakeup,
+    groupAPlasticPercent: String(answers.groupAPlasticPercent),
+    expandedPlastic: answers.expandedPlastic,
+    freeFlowingPlastic: answers.freeFlowingPlastic,
+    packaging: answers.packaging,
+    palletType: answers.palletType,
+  };
+}
+
+// The answers as saved with a storage array
+export function classificationInputsFrom(mix: CommodityMix) {
+  return {
+    productMakeup: mix.productMakeup,
+    groupAPlasticPercent: Number(mix.groupAPlasticPercent),
+    expandedPlastic: mix.expandedPlastic,
+    freeFlowingPlastic: mix.freeFlowingPlastic,
+    packaging: mix.packaging,
+    palletType: mix.palletType,
+  };
+}
+
+// The answers given so far, in the shape the classification rules take
+function classificationInput(mix: CommodityMix): Partial<CommodityClassificationInput> {
+  const percent = mix.groupAPlasticPercent.trim();
+  return {
+    commodityTypes: mix.commodityTypes,
+    productMakeup: (mix.productMakeup || undefined) as ClassificationAnswers["productMakeup"] | undefined,
+    groupAPlasticPercent: percent !== "" && !isNaN(Number(percent)) ? Number(percent) : undefined,
+    expandedPlastic: mix.expandedPlastic,
+    freeFlowingPlastic: mix.freeFlowingPlastic,
+    packaging: (mix.packaging || undefined) as ClassificationAnswers["packaging"] | undefined,
+    palletType: (mix.palletType || undefined) as ClassificationAnswers["palletType"] | undefined,
+  };
+}
+
+export interface CommodityMixClassification {
+  result: CommodityClassificationResult | undefined;
+  conflicts: ClassificationConflict[];
+  error: Error | null;
+  isClassifying: boolean;
+}
+
+/**
+ * Classifies the commodity mix on the server once every question is answered
+ * and the answers don't contradict each other.
+ */
+export function useCommodityMixClassification(mix: CommodityMix, enabled: boolean): CommodityMixClassification {
+  const input = classificationInput(mix);
+  const conflicts = findClassificationConflicts(input);
+  const answered = !!(input.commodityTypes?.length && input.productMakeup && input.groupAPlasticPercent !== undefined && input.packaging && input.palletType);
+
+  const { data: result, error, isFetching } = useQuery<CommodityClassificationResult, Error>({
+    queryKey: ["/api/commodities/classify", input],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/commodities/classify", input);
+      return await res.json();
+    },
+    enabled: enabled && answered && conflicts.length === 0,
+    retry: false,
+  });
+  const serverConflicts = error
+    ? getApiErrorBody<{ conflicts?: ClassificationConflict[] }>(error)?.conflicts ?? []
+    : [];
+
+  return {
+    result: conflicts.length === 0 ? result : undefined,
+    conflicts: serverConflicts.length > 0 ? serverConflicts : conflicts,
+    error,
+    isClassifying: isFetching,
+  };
+}
+
+/**
+ * The commodity questions for a storage array and the class they come to.
+ */
+export function CommodityMixFields({ idPrefix, mix, onChange, classification }: {
+  idPrefix: string;
+  mix: CommodityMix;
+  onChange: (changes: Partial<CommodityMix>) => void;
+  classification: CommodityMixClassification;
+}) {
+  const { result, conflicts, error, isClassifying } = classification;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {commodityTypeOptions.map(option => (
+          <label key={option.id} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={mix.commodityTypes.includes(option.id)}
+              onCheckedChange={(checked) => onChange({
+                commodityTypes: checked === true
+                  ? [...mix.commodityTypes, option.id]
+                  : mix.commodityTypes.filter(type => type !== option.id),
+              })}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label>Product Makeup</Label>
+          <Select value={mix.productMakeup} onValueChange={(value) => onChange({ productMakeup: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select makeup" />
+            </SelectTrigger>
+            <SelectContent>
+              {productMakeupOptions.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-group-a`}>Group A Plastics (%)</Label>
+          <Input
+            id={`${idPrefix}-group-a`}
+            inputMode="decimal"
+            value={mix.groupAPlasticPercent}
+            onChange={(e) => onChange({ groupAPlasticPercent: e.target.value.replace(/[^\d.]/g, "") })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Packaging</Label>
+          <Select value={mix.packaging} onValueChange={(value) => onChange({ packaging: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select packaging" />
+            </SelectTrigger>
+            <SelectContent>
+              {packagingOptions.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Pallets</Label>
+          <Select value={mix.palletType} onValueChange={(value) => onChange({ palletType: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select pallets" />
+            </SelectTrigger>
+            <SelectContent>
+              {palletTypeOptions.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center gap-2 text-sm cursor-pointer md:pt-8">
+          <Checkbox checked={mix.expandedPlastic} onCheckedChange={(checked) => onChange({ expandedPlastic: checked === true })} />
+          Expanded (foam) plastics
+        </label>
+        <label className="flex items-center gap-2 text-sm cursor-pointer md:pt-8">
+          <Checkbox checked={mix.freeFlowingPlastic} onCheckedChange={(checked) => onChange({ freeFlowingPlastic: checked === true })} />
+          Free-flowing plastics
+        </label>
+      </div>
+
+      <div className="rounded-md border p-3 text-sm">
+        {conflicts.length > 0 ? (
+          <ul className="space-y-1">
+            {conflicts.map(conflict => (
+              <li key={conflict.message} className="flex items-start gap-1.5 font-medium text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                {conflict.message}
+              </li>
+            ))}
+          </ul>
+        ) : isClassifying ? (
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Working out the commodity class...
+          </span>
+        ) : result ? (
+          <>
+            <p className="font-semibold">{result.label}</p>
+            <p className="text-muted-foreground">{result.rule}</p>
+          </>
+        ) : (
+          <span className="text-muted-foreground">
+            {error ? getApiErrorMessage(error) : "Answer the commodity questions to work out the class."}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
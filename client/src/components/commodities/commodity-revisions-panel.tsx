@@ -0,0 +1,129 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowRight, FileText, History, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RevisionAction, type FieldChange } from "@shared/commodity-revisions";
+import type { CommodityRevision, Document } from "@shared/schema";
+
+// As returned by GET /api/projects/:id/commodity-revisions
+interface CommodityRevisionView extends CommodityRevision {
+  changedByName: string | null;
+}
+
+interface CommodityRevisionsPanelProps {
+  projectId: number;
+  documents: Document[];
+}
+
+const actionLabels: Record<string, string> = {
+  [RevisionAction.CREATED]: "Added",
+  [RevisionAction.UPDATED]: "Updated",
+  [RevisionAction.DELETED]: "Removed",
+};
+
+/**
+ * Every change to a project's commodity and storage array data, with the
+ * before and after value of each field and the generated documents that
+ * were based on each revision.
+ */
+export function CommodityRevisionsPanel({ projectId, documents }: CommodityRevisionsPanelProps) {
+  const { data: revisions = [], isLoading } = useQuery<CommodityRevisionView[]>({
+    queryKey: [`/api/projects/${projectId}/commodity-revisions`],
+    enabled: projectId > 0,
+  });
+
+  const generatedFrom = (revisionId: number) => documents.filter(document => document.commodityRevisionId === revisionId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          {revisions.length > 0
+            ? `Commodity data is at revision ${revisions[0].revisionNumber}`
+            : "Changes to the commodities and storage arrays are recorded here"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Rev.</TableHead>
+                <TableHead>Changed</TableHead>
+                <TableHead>What</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Used By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin inline-block text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : revisions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No revisions yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                revisions.map(revision => (
+                  <TableRow key={revision.id} className="align-top">
+                    <TableCell className="font-medium">{revision.revisionNumber}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {revision.changedAt ? format(new Date(revision.changedAt), "MMM d, yyyy h:mm a") : "-"}
+                      <div className="text-xs text-muted-foreground">{revision.changedByName ?? "Unknown user"}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {revision.subjectName}
+                      <div>
+                        <Badge variant="outline">{actionLabels[revision.action] ?? revision.action}</Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <ul className="space-y-0.5 text-sm">
+                        {(revision.changes as FieldChange[]).map(change => (
+                          <li key={change.field} className="flex flex-wrap items-center gap-1">
+                            <span className="text-muted-foreground">{change.label}:</span>
+                            {revision.action === RevisionAction.UPDATED ? (
+                              <>
+                                <span className="line-through text-muted-foreground">{change.before ?? "none"}</span>
+                                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                                <span>{change.after ?? "none"}</span>
+                              </>
+                            ) : (
+                              <span>{change.after ?? change.before}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {generatedFrom(revision.id).map(document => (
+                        <div key={document.id} className="flex items-center gap-1.5">
+                          <FileText className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                          <span className="truncate max-w-[12rem]" title={document.fileName}>
+                            {document.fileName} (v{document.version})
+                          </span>
+                        </div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
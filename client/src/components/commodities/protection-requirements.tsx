@@ -0,0 +1,101 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Circle, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type {
+  ProjectProtectionRequirements,
+  ProtectionRequirements,
+} from "@shared/protection-requirements";
+
+/**
+ * The features IFC Table 3206.2 requires for a storage area, each with its
+ * citation, and anything the table leaves to the fire code official.
+ */
+export function ProtectionRequirementsSummary({ requirements, title = "Protection Requirements (IFC Table 3206.2)" }: {
+  requirements: ProtectionRequirements;
+  title?: string;
+}) {
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div>
+        <p className="text-sm text-muted-foreground">{title}</p>
+        <p className="text-sm font-medium">
+          {requirements.tableRow
+            ? `${requirements.tableRow} of ${requirements.highHazard ? "high-hazard" : "Class I-IV"} storage`
+            : "Not high-piled storage"}
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {requirements.features.map(feature => (
+          <li key={feature.id} className="flex items-start gap-2">
+            {feature.required ? (
+              <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+            ) : (
+              <Circle className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+            )}
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className={`text-sm ${feature.required ? "font-medium" : "text-muted-foreground"}`}>{feature.label}</span>
+                {feature.required && <Badge variant="secondary">Required</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">{feature.reason} ({feature.citation})</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {requirements.warnings.length > 0 && (
+        <ul className="space-y-1">
+          {requirements.warnings.map(warning => (
+            <li key={warning} className="flex items-start gap-1.5 text-sm text-amber-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The protection requirements for each of a project's storage arrays, or for
+ * its saved commodity data when it has no arrays, or else what still has to be
+ * entered before they can be worked out.
+ */
+export function ProjectProtectionRequirements({ projectId }: { projectId: number }) {
+  const { data, isLoading } = useQuery<ProjectProtectionRequirements>({
+    queryKey: [`/api/projects/${projectId}/protection-requirements`],
+    enabled: !!projectId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!data) return null;
+
+  if (data.areas.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Enter the {data.missing.join(", ").toLowerCase()} in the commodities form, or add storage arrays, to see which fire protection features the storage needs.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {data.areas.map(area => (
+        <ProtectionRequirementsSummary
+          key={area.storageArrayId ?? "commodities"}
+          requirements={area.requirements}
+          title={area.storageArrayId === null ? undefined : `${area.name} (IFC Table 3206.2)`}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { sprinklerSystemOptions } from "@shared/protection-requirements";
+import { RackType, rackTypeLabels } from "@shared/storage-arrays";
+import type { ImportedStorageArray, RackLayoutPreview } from "@shared/rack-layout-import";
+import type { StorageArray } from "@shared/schema";
+import {
+  CommodityMixFields,
+  classificationInputsFrom,
+  emptyCommodityMix,
+  useCommodityMixClassification,
+  type CommodityMix,
+} from "./commodity-mix-fields";
+
+interface RackLayoutImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number;
+  onImported: () => void;
+}
+
+// An array from the preview with the values that can be corrected before importing
+interface ImportRow {
+  include: boolean;
+  name: string;
+  rackHeight: string;
+  topOfStorageHeight: string;
+  imported: ImportedStorageArray;
+}
+
+const sketchColors = ["#2563eb", "#16a34a", "#d97706", "#9333ea", "#dc2626", "#0891b2"];
+
+const toText = (value: number | null) => value === null ? "" : String(value);
+const optionalNumber = (value: string) => value.trim() ? Number(value) : null;
+
+async function uploadLayout(projectId: number, file: File): Promise<RackLayoutPreview> {
+  const body = new FormData();
+  body.append("file", file);
+  const res = await fetch(`/api/projects/${projectId}/storage-arrays/import/preview`, {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    // Same shape as apiRequest errors, so getApiErrorMessage can read them
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return await res.json();
+}
+
+// Plan view of the imported rack outlines, one colour per array; DXF y runs up the page
+function LayoutSketch({ arrays }: { arrays: ImportedStorageArray[] }) {
+  const points = arrays.flatMap(array => (array.footprints ?? []).flatMap(footprint => footprint.points));
+  if (points.length === 0) return null;
+
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const maxY = Math.max(...ys);
+  const width = Math.max(Math.max(...xs) - minX, 1);
+  const height = Math.max(maxY - Math.min(...ys), 1);
+  const margin = Math.max(width, height) * 0.02;
+
+  return (
+    <svg
+      className="w-full h-48 rounded-md border bg-muted/30"
+      viewBox={`${minX - margin} ${-maxY - margin} ${width + 2 * margin} ${height + 2 * margin}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {arrays.map((array, index) => (array.footprints ?? []).map((footprint, footprintIndex) => (
+        <polygon
+          key={`${index}-${footprintIndex}`}
+          points={footprint.points.map(([x, y]) => `${x},${-y}`).join(" ")}
+          fill={sketchColors[index % sketchColors.length]}
+          fillOpacity={0.35}
+          stroke={sketchColors[index % sketchColors.length]}
+          strokeWidth={Math.max(width, height) / 500}
+        >
+          <title>{array.name}</title>
+        </polygon>
+      )))}
+    </svg>
+  );
+}
+
+/**
+ * Imports storage arrays from a racking vendor's CSV rack schedule or DXF
+ * layout. The file is read into proposed arrays first, with anything that
+ * couldn't be mapped listed, and nothing is added until the import is
+ * confirmed with the commodity and sprinkler answers for the arrays.
+ */
+export function RackLayoutImportDialog({ isOpen, onClose, projectId, onImported }: RackLayoutImportDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<RackLayoutPreview | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [sprinklerSystem, setSprinklerSystem] = useState("");
+  const [mix, setMix] = useState<CommodityMix>(emptyCommodityMix);
+  const classification = useCommodityMixClassification(mix, isOpen && !!preview);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setPreview(null);
+      setRows([]);
+      setSprinklerSystem("");
+      setMix(emptyCommodityMix);
+    }
+  }, [isOpen]);
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) =>
+    setRows(current => current.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row));
+
+  const readLayout = useMutation({
+    mutationFn: async () => await uploadLayout(projectId, file!),
+    onSuccess: (result) => {
+      setPreview(result);
+      setRows(result.arrays.map(array => ({
+        include: true,
+        name: array.name,
+        rackHeight: toText(array.rackHeight),
+        // Without a top of storage in the file, the rack height is the likeliest answer
+        topOfStorageHeight: toText(array.topOfStorageHeight ?? array.rackHeight),
+        imported: array,
+      })));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Read Layout",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const included = rows.filter(row => row.include);
+
+  const importArrays = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/storage-arrays/import`, {
+        arrays: included.map(({ name, rackHeight, topOfStorageHeight, imported }) => ({
+          name,
+          storageArea: imported.storageArea,
+          rackType: imported.rackType,
+          rackHeight: imported.rackType === RackType.SOLID_PILE ? null : optionalNumber(rackHeight),
+          topOfStorageHeight: Number(topOfStorageHeight),
+          longitudinalFlueSpace: imported.longitudinalFlueSpace,
+          transverseFlueSpace: imported.transverseFlueSpace,
+          aisleWidth: imported.aisleWidth,
+          tiers: imported.tiers,
+          footprints: imported.footprints,
+          sprinklerSystem,
+          commodityTypes: mix.commodityTypes,
+          classificationInputs: classificationInputsFrom(mix),
+        })),
+      });
+      return await res.json() as StorageArray[];
+    },
+    onSuccess: (created) => {
+      onImported();
+      toast({
+        title: "Storage Arrays Imported",
+        description: `${created.length} array${created.length === 1 ? "" : "s"} added from ${preview?.fileName}.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Import Layout",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const names = included.map(row => row.name.trim().toLowerCase());
+  const canImport = included.length > 0
+    && included.every(row => row.name.trim() && Number(row.topOfStorageHeight) > 0)
+    && new Set(names).size === names.length
+    && !!sprinklerSystem && !!classification.result && !importArrays.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Rack Layout</DialogTitle>
+          <DialogDescription>
+            Read storage arrays from the racking vendor's CSV rack schedule or DXF drawing, then check them before they are added.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rack-layout-file">Layout File</Label>
+              <Input
+                id="rack-layout-file"
+                type="file"
+                accept=".csv,.dxf,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-muted-foreground">
+                CSV schedules need a header row with length and depth (or area) columns; array, rack type, quantity,
+                height, top of storage, aisle width and levels columns are read when present. DXF drawings are read
+                from closed polylines and blocks on layers named for racks.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm">
+                {preview.arrays.length === 0
+                  ? `No racks could be read from ${preview.fileName}.`
+                  : `${preview.arrays.length} array${preview.arrays.length === 1 ? "" : "s"} with ${preview.totalStorageArea.toLocaleString()} sq ft of rack footprint read from ${preview.fileName}.`}
+              </p>
+              <LayoutSketch arrays={preview.arrays} />
+              {preview.warnings.length > 0 && (
+                <ul className="space-y-1">
+                  {preview.warnings.map(warning => (
+                    <li key={warning} className="flex items-start gap-1.5 text-sm text-amber-700">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      {warning}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {rows.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Array</TableHead>
+                      <TableHead>Racks</TableHead>
+                      <TableHead>Area</TableHead>
+                      <TableHead>Aisle / Flues</TableHead>
+                      <TableHead className="w-24">Rack Height (ft)</TableHead>
+                      <TableHead className="w-24">Top of Storage (ft)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={index} className="align-top">
+                        <TableCell>
+                          <Checkbox checked={row.include} onCheckedChange={(checked) => updateRow(index, { include: checked === true })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input value={row.name} maxLength={100} onChange={(e) => updateRow(index, { name: e.target.value })} />
+                          <div className="text-xs text-muted-foreground mt-1">{row.imported.source}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {rackTypeLabels[row.imported.rackType] ?? row.imported.rackType}
+                          <div className="text-xs text-muted-foreground">
+                            {row.imported.rackCount} rack{row.imported.rackCount === 1 ? "" : "s"}
+                            {row.imported.tiers !== null && `, ${row.imported.tiers} levels`}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{row.imported.storageArea.toLocaleString()} sq ft</TableCell>
+                        <TableCell className="text-sm">
+                          {row.imported.aisleWidth !== null ? `${row.imported.aisleWidth} in aisle` : "No aisle"}
+                          <div className="text-xs text-muted-foreground">
+                            {[
+                              row.imported.longitudinalFlueSpace !== null && `${row.imported.longitudinalFlueSpace} in longitudinal`,
+                              row.imported.transverseFlueSpace !== null && `${row.imported.transverseFlueSpace} in transverse`,
+                            ].filter(Boolean).join(", ") || "No flue spaces"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {row.imported.rackType !== RackType.SOLID_PILE && (
+                            <Input
+                              inputMode="decimal"
+                              value={row.rackHeight}
+                              onChange={(e) => updateRow(index, { rackHeight: e.target.value.replace(/[^\d.]/g, "") })}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            inputMode="decimal"
+                            value={row.topOfStorageHeight}
+                            onChange={(e) => updateRow(index, { topOfStorageHeight: e.target.value.replace(/[^\d.]/g, "") })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {preview.unmapped.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">Not Imported</h4>
+                <ul className="space-y-0.5 text-sm">
+                  {preview.unmapped.map(entity => (
+                    <li key={`${entity.source}-${entity.reason}`}>
+                      {entity.source}: <span className="text-muted-foreground">{entity.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {rows.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Commodities and Sprinklers</h4>
+                <p className="text-xs text-muted-foreground">
+                  Every imported array starts with these answers; edit an array afterwards where its commodities differ.
+                </p>
+                <div className="space-y-2 max-w-sm">
+                  <Label>Sprinkler System</Label>
+                  <Select value={sprinklerSystem} onValueChange={setSprinklerSystem}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select sprinkler system" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sprinklerSystemOptions.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <CommodityMixFields
+                  idPrefix="import"
+                  mix={mix}
+                  onChange={(changes) => setMix(current => ({ ...current, ...changes }))}
+                  classification={classification}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          {!preview ? (
+            <Button onClick={() => readLayout.mutate()} disabled={!file || readLayout.isPending}>
+              {readLayout.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+              Read Layout
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)}>Choose Another File</Button>
+              <Button onClick={() => importArrays.mutate()} disabled={!canImport}>
+                {importArrays.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {included.length} Array{included.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
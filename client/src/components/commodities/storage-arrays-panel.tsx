@@ -0,0 +1,420 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus, Trash2, Upload, Warehouse } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { commodityClassLabels } from "@shared/commodity-classification";
+import { sprinklerSystemOptions } from "@shared/protection-requirements";
+import { RackType, rackTypeLabels, rackTypeOptions, shelfTypeOptions, ShelfType } from "@shared/storage-arrays";
+import type { StorageArray } from "@shared/schema";
+import {
+  CommodityMixFields,
+  classificationInputsFrom,
+  commodityMixFrom,
+  emptyCommodityMix,
+  useCommodityMixClassification,
+  type CommodityMix,
+} from "./commodity-mix-fields";
+import { RackLayoutImportDialog } from "./rack-layout-import-dialog";
+
+const sprinklerLabels: Record<string, string> = Object.fromEntries(
+  sprinklerSystemOptions.map(option => [option.id, option.label])
+);
+
+// Every field is edited as text so it can be blank while being typed
+interface ArrayFormState {
+  name: string;
+  storageArea: string;
+  rackType: string;
+  rackHeight: string;
+  topOfStorageHeight: string;
+  shelfType: string;
+  longitudinalFlueSpace: string;
+  transverseFlueSpace: string;
+  aisleWidth: string;
+  tiers: string;
+  sprinklerSystem: string;
+  mix: CommodityMix;
+}
+
+const emptyForm: ArrayFormState = {
+  name: "",
+  storageArea: "",
+  rackType: RackType.SELECTIVE,
+  rackHeight: "",
+  topOfStorageHeight: "",
+  shelfType: ShelfType.NONE,
+  longitudinalFlueSpace: "",
+  transverseFlueSpace: "",
+  aisleWidth: "",
+  tiers: "",
+  sprinklerSystem: "",
+  mix: emptyCommodityMix,
+};
+
+const toText = (value: number | null | undefined) => value === null || value === undefined ? "" : String(value);
+const optionalNumber = (value: string) => value.trim() ? Number(value) : null;
+
+function formFromArray(array: StorageArray | null): ArrayFormState {
+  if (!array) return emptyForm;
+  return {
+    name: array.name,
+    storageArea: toText(array.storageArea),
+    rackType: array.rackType,
+    rackHeight: toText(array.rackHeight),
+    topOfStorageHeight: toText(array.topOfStorageHeight),
+    shelfType: array.shelfType,
+    longitudinalFlueSpace: toText(array.longitudinalFlueSpace),
+    transverseFlueSpace: toText(array.transverseFlueSpace),
+    aisleWidth: toText(array.aisleWidth),
+    tiers: toText(array.tiers),
+    sprinklerSystem: array.sprinklerSystem,
+    mix: commodityMixFrom(array.commodityTypes, array.classificationInputs),
+  };
+}
+
+function invalidateStorageArrays(projectId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/storage-arrays`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+  // Required documents and protection features are worked out from the arrays
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/requirements`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/protection-requirements`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/commodity-revisions`] });
+}
+
+/**
+ * A project's high-piled storage arrays, each with its own racks, heights and
+ * commodity class. Once a project has arrays the submittal requirements and
+ * protection requirements are worked out from them.
+ */
+export function StorageArraysPanel({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<StorageArray | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const { data: arrays = [], isLoading } = useQuery<StorageArray[]>({
+    queryKey: [`/api/projects/${projectId}/storage-arrays`],
+    enabled: projectId > 0,
+  });
+
+  const deleteArray = useMutation({
+    mutationFn: async (array: StorageArray) => {
+      await apiRequest("DELETE", `/api/storage-arrays/${array.id}`);
+      return array;
+    },
+    onSuccess: (array) => {
+      invalidateStorageArrays(projectId);
+      toast({ title: "Storage Array Removed", description: `${array.name} was removed.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Remove Array",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalArea = arrays.reduce((total, array) => total + array.storageArea, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5" />
+            Storage Arrays
+          </CardTitle>
+          <CardDescription>
+            {arrays.length > 0
+              ? `${arrays.length} array${arrays.length === 1 ? "" : "s"}, ${totalArea.toLocaleString()} sq ft of high-piled storage in all`
+              : "Each high-piled storage area with its own racks, heights and commodities"}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setShowImport(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Layout
+          </Button>
+          <Button size="sm" onClick={() => { setEditing(null); setShowDialog(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Array
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Array</TableHead>
+                <TableHead>Area</TableHead>
+                <TableHead>Storage</TableHead>
+                <TableHead>Top of Storage</TableHead>
+                <TableHead>Class</TableHead>
+                <TableHead>Sprinklers</TableHead>
+                <TableHead className="w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin inline-block text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : arrays.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No storage arrays yet; the commodities form data is used until one is added
+                  </TableCell>
+                </TableRow>
+              ) : (
+                arrays.map(array => (
+                  <TableRow key={array.id} className="hover:bg-muted/50 align-top">
+                    <TableCell className="font-medium">{array.name}</TableCell>
+                    <TableCell className="text-sm">{array.storageArea.toLocaleString()} sq ft</TableCell>
+                    <TableCell className="text-sm">
+                      {rackTypeLabels[array.rackType] ?? array.rackType}
+                      <div className="text-xs text-muted-foreground">
+                        {[
+                          array.rackHeight !== null && `${array.rackHeight} ft racks`,
+                          array.tiers !== null && `${array.tiers} tier${array.tiers === 1 ? "" : "s"}`,
+                          array.aisleWidth !== null && `${array.aisleWidth} in aisles`,
+                        ].filter(Boolean).join(", ")}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{array.topOfStorageHeight} ft</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{commodityClassLabels[array.classification] ?? array.classification}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{sprinklerLabels[array.sprinklerSystem] ?? array.sprinklerSystem}</TableCell>
+                    <TableCell>
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" onClick={() => { setEditing(array); setShowDialog(true); }}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteArray.isPending}
+                          onClick={() => {
+                            if (confirm(`Remove storage array "${array.name}"?`)) {
+                              deleteArray.mutate(array);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <StorageArrayDialog
+        isOpen={showDialog}
+        onClose={() => setShowDialog(false)}
+        projectId={projectId}
+        array={editing}
+      />
+      <RackLayoutImportDialog
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        projectId={projectId}
+        onImported={() => invalidateStorageArrays(projectId)}
+      />
+    </Card>
+  );
+}
+
+interface StorageArrayDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number;
+  // The array being edited; null to add one
+  array: StorageArray | null;
+}
+
+function NumberField({ id, label, value, onChange, placeholder }: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        inputMode="decimal"
+        value={value}
+        onChange={(e) => onChange(e.target.value.replace(/[^\d.]/g, ""))}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+}
+
+function StorageArrayDialog({ isOpen, onClose, projectId, array }: StorageArrayDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ArrayFormState>(emptyForm);
+  const update = (changes: Partial<ArrayFormState>) => setForm(current => ({ ...current, ...changes }));
+
+  useEffect(() => {
+    if (isOpen) setForm(formFromArray(array));
+  }, [isOpen, array]);
+
+  const classification = useCommodityMixClassification(form.mix, isOpen);
+
+  const saveArray = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        storageArea: Number(form.storageArea),
+        rackType: form.rackType,
+        rackHeight: form.rackType === RackType.SOLID_PILE ? null : optionalNumber(form.rackHeight),
+        topOfStorageHeight: Number(form.topOfStorageHeight),
+        shelfType: form.shelfType,
+        longitudinalFlueSpace: optionalNumber(form.longitudinalFlueSpace),
+        transverseFlueSpace: optionalNumber(form.transverseFlueSpace),
+        aisleWidth: optionalNumber(form.aisleWidth),
+        tiers: optionalNumber(form.tiers),
+        sprinklerSystem: form.sprinklerSystem,
+        commodityTypes: form.mix.commodityTypes,
+        classificationInputs: classificationInputsFrom(form.mix),
+      };
+      const res = array
+        ? await apiRequest("PUT", `/api/storage-arrays/${array.id}`, body)
+        : await apiRequest("POST", `/api/projects/${projectId}/storage-arrays`, body);
+      return await res.json() as StorageArray;
+    },
+    onSuccess: (saved) => {
+      invalidateStorageArrays(projectId);
+      toast({
+        title: array ? "Storage Array Updated" : "Storage Array Added",
+        description: `${saved.name}: ${commodityClassLabels[saved.classification] ?? saved.classification}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Save Array",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = !!form.name.trim() && Number(form.storageArea) > 0 && Number(form.topOfStorageHeight) > 0
+    && !!form.sprinklerSystem && !!classification.result && !saveArray.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{array ? `Edit ${array.name}` : "Add Storage Array"}</DialogTitle>
+          <DialogDescription>
+            The racks, heights and commodities of one high-piled storage area, as shown on the floor plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="array-name">Name</Label>
+              <Input id="array-name" value={form.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Array A" maxLength={100} />
+            </div>
+            <NumberField id="array-area" label="Area (sq ft)" value={form.storageArea} onChange={(value) => update({ storageArea: value })} placeholder="e.g. 12000" />
+            <NumberField id="array-top" label="Top of Storage (ft)" value={form.topOfStorageHeight} onChange={(value) => update({ topOfStorageHeight: value })} placeholder="e.g. 22" />
+            <div className="space-y-2">
+              <Label>Rack Type</Label>
+              <Select value={form.rackType} onValueChange={(value) => update({ rackType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rackTypeOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.rackType !== RackType.SOLID_PILE && (
+              <NumberField id="array-rack-height" label="Rack Height (ft)" value={form.rackHeight} onChange={(value) => update({ rackHeight: value })} placeholder="e.g. 24" />
+            )}
+            <div className="space-y-2">
+              <Label>Shelves</Label>
+              <Select value={form.shelfType} onValueChange={(value) => update({ shelfType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {shelfTypeOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <NumberField id="array-longitudinal-flue" label="Longitudinal Flue (in)" value={form.longitudinalFlueSpace} onChange={(value) => update({ longitudinalFlueSpace: value })} placeholder="e.g. 6" />
+            <NumberField id="array-transverse-flue" label="Transverse Flue (in)" value={form.transverseFlueSpace} onChange={(value) => update({ transverseFlueSpace: value })} placeholder="e.g. 3" />
+            <NumberField id="array-aisle" label="Narrowest Aisle (in)" value={form.aisleWidth} onChange={(value) => update({ aisleWidth: value })} placeholder="e.g. 96" />
+            <NumberField id="array-tiers" label="Tiers" value={form.tiers} onChange={(value) => update({ tiers: value.replace(/\D/g, "") })} placeholder="e.g. 5" />
+            <div className="space-y-2 col-span-2">
+              <Label>Sprinkler System</Label>
+              <Select value={form.sprinklerSystem} onValueChange={(value) => update({ sprinklerSystem: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select sprinkler system" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sprinklerSystemOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Commodities</h4>
+            <CommodityMixFields
+              idPrefix="array"
+              mix={form.mix}
+              onChange={(changes) => update({ mix: { ...form.mix, ...changes } })}
+              classification={classification}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveArray.mutate()} disabled={!canSave}>
+            {saveArray.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {array ? "Save Changes" : "Add Array"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -133,7 +133,7 @@ export function ActivityTimeline({
                 </div>
                 <div className="min-w-0 flex-1 pt-1.5 flex justify-between space-x-4">
                   <div>
-                    <p className="text-sm text-muted-foreground">
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">
                       {activity.description}
                     </p>
                   </div>
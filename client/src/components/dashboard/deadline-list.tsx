@@ -1,23 +1,83 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Clock } from "lucide-react";
-import { formatDeadline } from "@/lib/utils/date-utils";
+import { Clock, FileWarning } from "lucide-react";
+import { formatDeadline, formatDate } from "@/lib/utils/date-utils";
+import { formatDocumentCategory } from "@/lib/utils/document-utils";
 import { Link } from "wouter";
 
 interface Deadline {
   id: number;
   name: string;
   status: string;
-  deadline: string;
+  deadline: string | Date;
+}
+
+// As returned by GET /api/document-expirations
+export interface DocumentExpiration {
+  documentId: number;
+  projectId: number;
+  projectName: string;
+  fileName: string;
+  category: string;
+  version: number;
+  effectiveDate: string | null;
+  expiresAt: string;
+  requiredValidUntil: string | null;
+  daysUntilExpiry: number;
+  expired: boolean;
+  conflict: boolean;
+  flaggedAt: string | null;
 }
 
 interface DeadlineListProps {
   deadlines: Deadline[];
+  expirations?: DocumentExpiration[];
   isLoading?: boolean;
 }
 
-export function DeadlineList({ deadlines, isLoading = false }: DeadlineListProps) {
+function ExpirationItem({ expiration }: { expiration: DocumentExpiration }) {
+  const { daysUntilExpiry, expired, conflict } = expiration;
+  let urgencyClass = "bg-yellow-100 dark:bg-yellow-900 text-yellow-500";
+  if (expired || conflict || daysUntilExpiry <= 7) {
+    urgencyClass = "bg-red-100 text-red-500";
+  }
+
+  return (
+    <li className="py-3">
+      <Link href={`/project/${expiration.projectId}`}>
+        <div className="flex items-center justify-between cursor-pointer">
+          <div className="flex items-center min-w-0">
+            <div className={`flex-shrink-0 h-10 w-10 rounded-full ${urgencyClass} flex items-center justify-center`}>
+              <FileWarning className="h-6 w-6" />
+            </div>
+            <div className="ml-3 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate" title={expiration.fileName}>{expiration.fileName}</p>
+              <p className="text-sm text-muted-foreground truncate">
+                {formatDocumentCategory(expiration.category)} · {expiration.projectName}
+              </p>
+              {conflict && expiration.requiredValidUntil && (
+                <p className="text-xs text-red-600">
+                  Needed until {formatDate(expiration.requiredValidUntil)}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="text-right flex-shrink-0 ml-2">
+            <p className={`text-sm font-medium ${expired || conflict ? "text-red-600" : "text-gray-900"}`}>
+              {formatDate(expiration.expiresAt)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {expired ? "Expired" : daysUntilExpiry === 1 ? "Expires in 1 day" : `Expires in ${daysUntilExpiry} days`}
+            </p>
+          </div>
+        </div>
+      </Link>
+    </li>
+  );
+}
+
+export function DeadlineList({ deadlines, expirations = [], isLoading = false }: DeadlineListProps) {
   if (isLoading) {
     return (
       <ul className="divide-y divide-gray-200">
@@ -43,11 +103,11 @@ export function DeadlineList({ deadlines, isLoading = false }: DeadlineListProps
   }
 
   // If no deadlines, show empty state
-  if (deadlines.length === 0) {
+  if (deadlines.length === 0 && expirations.length === 0) {
     return (
       <div className="py-8 text-center">
         <Clock className="h-10 w-10 text-gray-400 mx-auto mb-3" />
-        <p className="text-muted-foreground">No upcoming deadlines</p>
+        <p className="text-muted-foreground">No upcoming deadlines or expiring documents</p>
       </div>
     );
   }
@@ -94,6 +154,14 @@ export function DeadlineList({ deadlines, isLoading = false }: DeadlineListProps
           </li>
         );
       })}
+      {expirations.length > 0 && (
+        <li className="pt-4 pb-1">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Expiring Documents</p>
+        </li>
+      )}
+      {expirations.map(expiration => (
+        <ExpirationItem key={expiration.documentId} expiration={expiration} />
+      ))}
       <li className="pt-6">
         <Button variant="outline" className="w-full">
           <Link href="/calendar">View full calendar</Link>
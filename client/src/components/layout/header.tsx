@@ -22,6 +22,7 @@ import { Input } from "@/components/ui/input";
 import { Command, CommandInput, CommandList, CommandEmpty, CommandGroup, CommandItem } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useQuery } from "@tanstack/react-query";
+import { formatDocumentCategory } from "@/lib/utils/document-utils";
 
 interface BreadcrumbItem {
   label: string;
@@ -64,13 +65,34 @@ export function Header({ breadcrumb = [] }: HeaderProps) {
   );
 }
 
+// Snippets mark matched terms with <mark> tags; render them as highlights without injecting HTML
+function SearchSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
 function SearchComponent() {
   const [open, setOpen] = useState(false);
   const [searchValue, setSearchValue] = useState('');
   
   // Search across projects, documents, and users
-  const { data: searchResults = [], isLoading } = useQuery({
+  const { data: searchResults = [], isLoading } = useQuery<any[]>({
     queryKey: ['/api/search', searchValue],
+    queryFn: async () => {
+      const res = await fetch(`/api/search?searchValue=${encodeURIComponent(searchValue)}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return await res.json();
+    },
     enabled: searchValue.length > 2,
     staleTime: 5000,
   });
@@ -82,8 +104,9 @@ function SearchComponent() {
           <SearchIcon className="h-5 w-5 text-muted-foreground" />
         </Button>
       </PopoverTrigger>
-      <PopoverContent className="w-80 p-0" align="end">
-        <Command>
+      <PopoverContent className="w-96 p-0" align="end">
+        {/* Results are already filtered on the server, including matches inside document text */}
+        <Command shouldFilter={false}>
           <CommandInput 
             placeholder="Search projects, documents..." 
             value={searchValue}
@@ -123,9 +146,18 @@ function SearchComponent() {
                           setOpen(false);
                         }}
                       >
-                        <div className="flex flex-col">
-                          <span className="font-medium">{document.filename}</span>
-                          <span className="text-sm text-muted-foreground">{document.category}</span>
+                        <div className="flex flex-col min-w-0">
+                          <span className="font-medium truncate">
+                            {document.fileName}
+                            {document.version > 1 && <span className="text-muted-foreground font-normal"> (v{document.version})</span>}
+                          </span>
+                          <span className="text-sm text-muted-foreground">{formatDocumentCategory(document.category)}</span>
+                          {document.matches?.map((match: any, index: number) => (
+                            <span key={index} className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                              {match.pageNumber !== null && <span className="font-medium">p. {match.pageNumber}: </span>}
+                              <SearchSnippet snippet={match.snippet} />
+                            </span>
+                          ))}
                         </div>
                       </CommandItem>
                     ))}
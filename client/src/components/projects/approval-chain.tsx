@@ -0,0 +1,300 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, Check, Circle, Clock, GitBranch, Loader2, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import {
+  ApprovalStageStatus,
+  StakeholderRole,
+  UserRole,
+  type ApprovalChainStage,
+  type Document,
+  type DocumentApprovalStage,
+} from "@shared/schema";
+
+// As returned by GET /api/documents/:id/approval
+export interface DocumentApproval {
+  stages: Array<DocumentApprovalStage & { signedOffByName: string | null; checklistRequired: boolean }>;
+  activeStageId: number | null;
+  canSignOff: boolean;
+}
+
+// As returned by GET /api/projects/:id/approval-chains
+interface ApprovalChain {
+  category: string;
+  title: string;
+  stages: ApprovalChainStage[];
+}
+
+interface StageDraft {
+  name: string;
+  role: string;
+}
+
+const MAX_STAGES = 8;
+
+const stageRoles: string[] = [UserRole.SPECIALIST, ...Object.values(StakeholderRole)];
+
+function formatApprovalRole(role: string): string {
+  if (role === UserRole.SPECIALIST) return "Permit Specialist";
+  return role.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+/**
+ * Loads where a document version is in its approval chain. A version whose
+ * category has no chain comes back with no stages.
+ */
+export function useDocumentApproval(document: Document | null) {
+  const { data: approval, isLoading } = useQuery<DocumentApproval>({
+    queryKey: [`/api/documents/${document?.id}/approval`],
+    enabled: !!document,
+  });
+
+  const activeStage = approval?.stages.find(stage => stage.id === approval.activeStageId) ?? null;
+  return { approval, isLoading, hasChain: !!approval && approval.stages.length > 0, activeStage };
+}
+
+const stageIcons: Record<string, React.ReactNode> = {
+  [ApprovalStageStatus.SIGNED_OFF]: <Check className="h-3.5 w-3.5 text-green-600" />,
+  [ApprovalStageStatus.ACTIVE]: <Clock className="h-3.5 w-3.5 text-amber-600" />,
+  [ApprovalStageStatus.REJECTED]: <X className="h-3.5 w-3.5 text-red-600" />,
+  [ApprovalStageStatus.WAITING]: <Circle className="h-3.5 w-3.5 text-muted-foreground" />,
+};
+
+/**
+ * The stages of a version's approval chain with who signed each one off.
+ */
+export function ApprovalChainProgress({ approval }: { approval: DocumentApproval }) {
+  return (
+    <ol className="space-y-2">
+      {approval.stages.map(stage => (
+        <li key={stage.id} className="flex items-start gap-2 text-sm">
+          <span className="mt-0.5">{stageIcons[stage.status] ?? stageIcons[ApprovalStageStatus.WAITING]}</span>
+          <div className="min-w-0">
+            <div className={stage.status === ApprovalStageStatus.ACTIVE ? "font-medium" : undefined}>
+              {stage.name}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {formatApprovalRole(stage.role)}
+              {stage.signedOffAt && (
+                <>
+                  {" · "}
+                  {stage.status === ApprovalStageStatus.REJECTED ? "Rejected" : "Signed off"} by {stage.signedOffByName ?? "Unknown user"}, {format(new Date(stage.signedOffAt), "MMM d, yyyy h:mm a")}
+                </>
+              )}
+              {stage.status === ApprovalStageStatus.ACTIVE && " · Awaiting sign-off"}
+            </div>
+            {stage.comments && (
+              <div className="text-xs whitespace-pre-wrap mt-0.5">{stage.comments}</div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * The project's approval chain for each document category. Specialists can
+ * edit them; categories without a chain are approved in a single step.
+ */
+export function ApprovalChainsPanel({ projectId }: { projectId: number }) {
+  const { user } = useAuth();
+  const [editing, setEditing] = useState<ApprovalChain | null>(null);
+  const { data: chains = [], isLoading } = useQuery<ApprovalChain[]>({
+    queryKey: [`/api/projects/${projectId}/approval-chains`],
+    enabled: projectId > 0,
+  });
+  const isSpecialist = user?.role === UserRole.SPECIALIST;
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-0">
+        <div className="p-4 border-b border-border">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Approval Chains
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Documents in a category with a chain are approved only after every stage has signed off.
+          </p>
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {chains.map(chain => (
+              <div key={chain.category} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium text-sm">{chain.title}</div>
+                  {chain.stages.length === 0 ? (
+                    <div className="text-xs text-muted-foreground">Approved in one step</div>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      {chain.stages.map((stage, index) => (
+                        <React.Fragment key={stage.id}>
+                          {index > 0 && <span className="text-muted-foreground text-xs">→</span>}
+                          <Badge variant="outline" title={formatApprovalRole(stage.role)}>{stage.name}</Badge>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {isSpecialist && (
+                  <Button variant="outline" size="sm" onClick={() => setEditing(chain)}>
+                    Edit
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {editing && (
+        <EditApprovalChainDialog
+          projectId={projectId}
+          chain={editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+function EditApprovalChainDialog({ projectId, chain, onClose }: {
+  projectId: number;
+  chain: ApprovalChain;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [stages, setStages] = useState<StageDraft[]>(
+    chain.stages.map(stage => ({ name: stage.name, role: stage.role }))
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/projects/${projectId}/approval-chains/${chain.category}`, {
+        stages: stages.map(stage => ({ name: stage.name.trim(), role: stage.role })),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/approval-chains`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+      toast({ title: "Approval chain saved", description: `${chain.title} approval chain updated.` });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save approval chain",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    setStages(current => current.map((stage, i) => i === index ? { ...stage, ...changes } : stage));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setStages(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const isValid = stages.every(stage => stage.name.trim() && stage.role);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{chain.title} Approval Chain</DialogTitle>
+          <DialogDescription>
+            Each stage is signed off in order. Versions already part-way through the current chain keep it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {stages.length === 0 && (
+            <p className="text-sm text-muted-foreground">No stages: documents are approved in one step.</p>
+          )}
+          {stages.map((stage, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-5 text-sm text-muted-foreground">{index + 1}.</span>
+              <Input
+                value={stage.name}
+                onChange={(e) => updateStage(index, { name: e.target.value })}
+                placeholder="Stage name, e.g. Engineer review"
+                maxLength={100}
+                className="flex-1"
+              />
+              <Select value={stage.role} onValueChange={(role) => updateStage(index, { role })}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Signed off by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stageRoles.map(role => (
+                    <SelectItem key={role} value={role}>{formatApprovalRole(role)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStage(index, -1)} title="Move up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" disabled={index === stages.length - 1} onClick={() => moveStage(index, 1)} title="Move down">
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setStages(current => current.filter((_, i) => i !== index))}
+                title="Remove stage"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={stages.length >= MAX_STAGES}
+            onClick={() => setStages(current => [...current, { name: "", role: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Stage
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!isValid || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Chain
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
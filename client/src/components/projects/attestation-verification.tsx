@@ -0,0 +1,160 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+// As returned by GET /api/projects/:id/attestations/verify
+interface AttestationVerification {
+  verifiedAt: string;
+  attestationCount: number;
+  chainIntact: boolean;
+  chainProblems: Array<{ attestationId: number; sequence: number; problem: string }>;
+  documents: Array<{
+    documentId: number;
+    fileName: string;
+    version: number;
+    decision: string;
+    attestedAt: string;
+    attestedHash: string;
+    currentHash: string | null;
+    status: "verified" | "modified" | "missing" | "deleted";
+  }>;
+  flaggedCount: number;
+}
+
+const statusBadges: Record<AttestationVerification["documents"][number]["status"], { label: string; className: string }> = {
+  verified: { label: "Verified", className: "bg-green-100 text-green-800 border-green-200" },
+  modified: { label: "Content changed", className: "bg-red-100 text-red-800 border-red-200" },
+  missing: { label: "Content missing", className: "bg-red-100 text-red-800 border-red-200" },
+  deleted: { label: "Deleted", className: "bg-muted text-muted-foreground" },
+};
+
+function shortHash(hash: string | null): string {
+  return hash ? `${hash.slice(0, 12)}…` : "—";
+}
+
+/**
+ * Checks that every recorded review decision is still intact and that the
+ * documents it covers still have the bytes that were reviewed.
+ */
+export function AttestationVerificationDialog({ projectId, open, onOpenChange }: {
+  projectId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: verification, isFetching, error, refetch } = useQuery<AttestationVerification>({
+    queryKey: [`/api/projects/${projectId}/attestations/verify`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Verify Approvals</DialogTitle>
+          <DialogDescription>
+            Each approval and rejection is recorded with a SHA-256 of the exact file reviewed, chained to the one before it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching && !verification ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Verification failed</AlertTitle>
+            <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+          </Alert>
+        ) : verification && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {verification.chainIntact && verification.flaggedCount === 0 ? (
+              <Alert>
+                <ShieldCheck className="h-4 w-4 text-green-600" />
+                <AlertTitle>All {verification.attestationCount} attestation{verification.attestationCount === 1 ? "" : "s"} verified</AlertTitle>
+                <AlertDescription>
+                  Checked {format(new Date(verification.verifiedAt), "MMM d, yyyy h:mm a")}.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert variant="destructive">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>
+                  {verification.chainIntact
+                    ? `${verification.flaggedCount} document${verification.flaggedCount === 1 ? "" : "s"} no longer match what was reviewed`
+                    : "The attestation record has been altered"}
+                </AlertTitle>
+                <AlertDescription>
+                  {verification.chainProblems.length > 0 && (
+                    <ul className="list-disc pl-4 mt-1">
+                      {verification.chainProblems.map((problem, index) => (
+                        <li key={index}>Attestation {problem.sequence}: {problem.problem}</li>
+                      ))}
+                    </ul>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {verification.documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No review decisions have been recorded for this project yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 pr-2 font-medium">Document</th>
+                    <th className="py-2 pr-2 font-medium">Last decision</th>
+                    <th className="py-2 pr-2 font-medium">Attested hash</th>
+                    <th className="py-2 pr-2 font-medium">Current hash</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {verification.documents.map(document => (
+                    <tr key={document.documentId} className="border-b last:border-0">
+                      <td className="py-2 pr-2">
+                        {document.fileName} <span className="text-xs text-muted-foreground">v{document.version}</span>
+                      </td>
+                      <td className="py-2 pr-2 text-xs">
+                        {document.decision.replace(/_/g, " ")}, {format(new Date(document.attestedAt), "MMM d, yyyy")}
+                      </td>
+                      <td className="py-2 pr-2 font-mono text-xs" title={document.attestedHash}>{shortHash(document.attestedHash)}</td>
+                      <td className="py-2 pr-2 font-mono text-xs" title={document.currentHash ?? undefined}>{shortHash(document.currentHash)}</td>
+                      <td className="py-2">
+                        <Badge variant="outline" className={statusBadges[document.status].className}>
+                          {statusBadges[document.status].label}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            {isFetching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Verify Again
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage, getApiErrorBody } from "@/lib/queryClient";
+import { formatDocumentCategory } from "@/lib/utils/document-utils";
+import { BulkReviewAction, type BulkReviewActionType, type Document } from "@shared/schema";
+import { RejectionReasonPicker } from "./rejection-reasons";
+
+// As returned in the body of a 409 from POST /api/documents/bulk-review
+interface BulkReviewProblem {
+  documentId: number;
+  fileName: string;
+  problem: string;
+  unsatisfiedItems?: Array<{ id: string; label: string }>;
+}
+
+const actionDetails: Record<BulkReviewActionType, { title: string; verb: string; done: string }> = {
+  [BulkReviewAction.APPROVE]: { title: "Approve Documents", verb: "Approve", done: "approved" },
+  [BulkReviewAction.REJECT]: { title: "Reject Documents", verb: "Reject", done: "rejected" },
+  [BulkReviewAction.REQUEST_CHANGES]: { title: "Request Changes", verb: "Request Changes", done: "kept in review with your comments" },
+};
+
+/**
+ * Applies one review decision and comment to every selected document. The
+ * server checks each document the way a single review would and changes none
+ * of them if any can't be reviewed.
+ */
+export function BulkReviewDialog({ projectId, documents, action, onClose, onReviewed }: {
+  projectId: number;
+  documents: Document[];
+  action: BulkReviewActionType | null;
+  onClose: () => void;
+  onReviewed: () => void;
+}) {
+  const { toast } = useToast();
+  const [comments, setComments] = useState("");
+  const [reasonCodes, setReasonCodes] = useState<string[]>([]);
+  const [problems, setProblems] = useState<BulkReviewProblem[]>([]);
+
+  useEffect(() => {
+    setComments("");
+    setReasonCodes([]);
+    setProblems([]);
+  }, [action]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/documents/bulk-review", {
+        documentIds: documents.map(document => document.id),
+        action,
+        comments: comments.trim() || null,
+        ...(action === BulkReviewAction.REJECT && { reasonCodes }),
+      });
+      return await res.json() as { documents: Document[] };
+    },
+    onSuccess: ({ documents: reviewed }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/documents`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] }); // Refresh project list for progress bar
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+
+      toast({
+        title: "Documents Reviewed",
+        description: `${reviewed.length} document${reviewed.length === 1 ? " was" : "s were"} ${action ? actionDetails[action].done : "reviewed"}.`,
+      });
+      onReviewed();
+    },
+    onError: (error: Error) => {
+      const body = getApiErrorBody<{ problems?: BulkReviewProblem[] }>(error);
+      setProblems(body?.problems ?? []);
+      toast({
+        title: "Review Failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!action) return null;
+  const details = actionDetails[action];
+  const isValid = action === BulkReviewAction.REJECT
+    ? reasonCodes.length > 0
+    : action === BulkReviewAction.REQUEST_CHANGES
+      ? comments.trim() !== ""
+      : true;
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{details.title}</DialogTitle>
+          <DialogDescription>
+            {documents.length} document{documents.length === 1 ? "" : "s"} selected. The same decision and comment apply to each.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ul className="text-sm max-h-32 overflow-y-auto border rounded-md divide-y">
+            {documents.map(document => (
+              <li key={document.id} className="px-3 py-1.5 flex justify-between gap-2">
+                <span className="truncate">{document.fileName}</span>
+                <span className="text-muted-foreground text-xs whitespace-nowrap">{formatDocumentCategory(document.category)}</span>
+              </li>
+            ))}
+          </ul>
+
+          {problems.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Nothing was changed</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 mt-1 space-y-1">
+                  {problems.map(problem => (
+                    <li key={problem.documentId}>
+                      <span className="font-medium">{problem.fileName}:</span> {problem.problem}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {action === BulkReviewAction.REJECT && (
+            <div>
+              <p className="text-sm font-medium mb-1">Rejection Reasons</p>
+              <RejectionReasonPicker
+                categories={documents.map(document => document.category)}
+                value={reasonCodes}
+                onChange={setReasonCodes}
+              />
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium mb-1">
+              Comments{action !== BulkReviewAction.REQUEST_CHANGES && <span className="text-muted-foreground font-normal"> (optional)</span>}
+            </p>
+            <Textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder={action === BulkReviewAction.REQUEST_CHANGES
+                ? "Describe the changes needed..."
+                : "Add a comment for all selected documents..."}
+              maxLength={5000}
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => reviewMutation.mutate()}
+            disabled={!isValid || reviewMutation.isPending}
+            className={action === BulkReviewAction.REJECT ? "bg-red-600 hover:bg-red-700" : undefined}
+          >
+            {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {details.verb} {documents.length}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,770 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, FileText, Loader2, MessageSquareWarning, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { downloadCorrectionResponseLetter } from "@/lib/utils/file-download";
+import { formatDocumentCategory } from "@/lib/utils/document-utils";
+import {
+  CorrectionStatus,
+  DocumentCategory,
+  UserRole,
+  type CorrectionComment,
+  type CorrectionStatusType,
+  type Document,
+  type ProjectStakeholder,
+} from "@shared/schema";
+
+// As returned by GET /api/projects/:id/correction-comments
+interface CorrectionCommentView extends CorrectionComment {
+  assigneeName: string | null;
+  documentFileName: string | null;
+  documentVersion: number | null;
+  resolvedByName: string | null;
+}
+
+// As returned by GET /api/projects/:id/stakeholders
+interface StakeholderView extends ProjectStakeholder {
+  user: { fullName: string; email: string; username: string } | null;
+}
+
+interface CorrectionCommentsPanelProps {
+  projectId: number;
+  documents: Document[];
+}
+
+// Select items can't have an empty value, so "none" stands in for null
+const NONE = "none";
+
+const statusLabels: Record<string, string> = {
+  [CorrectionStatus.OPEN]: "Open",
+  [CorrectionStatus.IN_PROGRESS]: "In Progress",
+  [CorrectionStatus.RESOLVED]: "Resolved",
+};
+
+const statusClasses: Record<string, string> = {
+  [CorrectionStatus.OPEN]: "bg-red-100 text-red-800 border-red-200",
+  [CorrectionStatus.IN_PROGRESS]: "bg-amber-100 text-amber-800 border-amber-200",
+  [CorrectionStatus.RESOLVED]: "bg-green-100 text-green-800 border-green-200",
+};
+
+function fromSelect(value: string): number | null {
+  return value === NONE ? null : Number(value);
+}
+
+function invalidateCorrections(projectId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/correction-comments`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+}
+
+/**
+ * The building department's plan-check corrections for a project, grouped by
+ * submittal, with who is answering each one and how it was resolved.
+ */
+export function CorrectionCommentsPanel({ projectId, documents }: CorrectionCommentsPanelProps) {
+  const [submission, setSubmission] = useState<number | null>(null);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [editingComment, setEditingComment] = useState<CorrectionCommentView | null>(null);
+
+  const { data: comments = [], isLoading } = useQuery<CorrectionCommentView[]>({
+    queryKey: [`/api/projects/${projectId}/correction-comments`],
+    enabled: projectId > 0,
+  });
+
+  const { data: stakeholders = [] } = useQuery<StakeholderView[]>({
+    queryKey: [`/api/projects/${projectId}/stakeholders`],
+    enabled: projectId > 0,
+  });
+
+  const submissions = Array.from(new Set(comments.map(comment => comment.submissionNumber))).sort((a, b) => a - b);
+  const latestSubmission = submissions.length > 0 ? submissions[submissions.length - 1] : 1;
+  const currentSubmission = submission !== null && submissions.includes(submission) ? submission : latestSubmission;
+  const visible = comments.filter(comment => comment.submissionNumber === currentSubmission);
+  const resolvedCount = visible.filter(comment => comment.status === CorrectionStatus.RESOLVED).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquareWarning className="h-5 w-5" />
+            Plan-Check Corrections
+          </CardTitle>
+          <CardDescription>
+            Comments returned by the jurisdiction, and how each one was addressed
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Letter
+          </Button>
+          <Button size="sm" onClick={() => setShowAddDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Comment
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {submissions.length > 0 && (
+          <div className="flex items-center justify-between gap-2">
+            <Tabs value={String(currentSubmission)} onValueChange={(value) => setSubmission(Number(value))}>
+              <TabsList>
+                {submissions.map(number => (
+                  <TabsTrigger key={number} value={String(number)}>Submittal {number}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-muted-foreground">
+                {resolvedCount} of {visible.length} resolved
+              </span>
+              <ResponseLetterMenu projectId={projectId} submissionNumber={currentSubmission} />
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">No.</TableHead>
+                <TableHead>Comment</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Assigned To</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-20"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin inline-block text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No correction comments have been recorded
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map(comment => (
+                  <TableRow key={comment.id} className="hover:bg-muted/50 align-top">
+                    <TableCell className="font-medium">{comment.commentNumber}</TableCell>
+                    <TableCell>
+                      <p className="text-sm whitespace-pre-wrap">{comment.text}</p>
+                      {comment.resolution && (
+                        <p className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap">
+                          Response: {comment.resolution}
+                          {comment.revisedSheetReference && ` (see ${comment.revisedSheetReference})`}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {comment.category && <div className="text-sm">{formatDocumentCategory(comment.category)}</div>}
+                      {comment.documentFileName && (
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                          <FileText className="h-3 w-3" />
+                          {comment.documentFileName} v{comment.documentVersion}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{comment.assigneeName ?? <span className="text-muted-foreground">Unassigned</span>}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusClasses[comment.status]}>
+                        {statusLabels[comment.status] ?? comment.status}
+                      </Badge>
+                      {comment.resolvedAt && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {format(new Date(comment.resolvedAt), "MMM dd, yyyy")}
+                          {comment.resolvedByName && ` by ${comment.resolvedByName}`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingComment(comment)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <AddCorrectionDialog
+        isOpen={showAddDialog}
+        onClose={() => setShowAddDialog(false)}
+        projectId={projectId}
+        documents={documents}
+        stakeholders={stakeholders}
+        defaultSubmission={latestSubmission}
+      />
+      <ImportCorrectionsDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        projectId={projectId}
+        defaultSubmission={submissions.length > 0 ? latestSubmission + 1 : 1}
+        onImported={setSubmission}
+      />
+      <EditCorrectionDialog
+        comment={editingComment}
+        onClose={() => setEditingComment(null)}
+        documents={documents}
+        stakeholders={stakeholders}
+      />
+    </Card>
+  );
+}
+
+function ResponseLetterMenu({ projectId, submissionNumber }: { projectId: number; submissionNumber: number }) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+
+  const download = async (letterFormat: "docx" | "pdf") => {
+    setDownloading(true);
+    try {
+      await downloadCorrectionResponseLetter(projectId, submissionNumber, letterFormat);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not download the response letter.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={downloading}>
+          {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Response Letter
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("docx")}>Word (.docx)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("pdf")}>PDF</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface TargetFieldsProps {
+  documents: Document[];
+  stakeholders: StakeholderView[];
+  category: string;
+  documentId: string;
+  stakeholderId: string;
+  onChange: (changes: { category?: string; documentId?: string; stakeholderId?: string }) => void;
+}
+
+// Category, document version and assignee pickers shared by the add and edit dialogs
+function TargetFields({ documents, stakeholders, category, documentId, stakeholderId, onChange }: TargetFieldsProps) {
+  const versions = category === NONE ? documents : documents.filter(document => document.category === category);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Document category</Label>
+          <Select value={category} onValueChange={(value) => onChange({ category: value, documentId: NONE })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>General</SelectItem>
+              {Object.values(DocumentCategory).map(value => (
+                <SelectItem key={value} value={value}>{formatDocumentCategory(value)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Document version</Label>
+          <Select
+            value={documentId}
+            onValueChange={(value) => {
+              const document = documents.find(doc => String(doc.id) === value);
+              onChange(document ? { documentId: value, category: document.category } : { documentId: value });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Any version</SelectItem>
+              {versions.map(document => (
+                <SelectItem key={document.id} value={String(document.id)}>
+                  {document.fileName} (v{document.version})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Assigned to</Label>
+        <Select value={stakeholderId} onValueChange={(value) => onChange({ stakeholderId: value })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Unassigned</SelectItem>
+            {stakeholders.map(stakeholder => (
+              <SelectItem key={stakeholder.id} value={String(stakeholder.id)}>
+                {stakeholder.user?.fullName ?? `Stakeholder ${stakeholder.id}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
+interface AddCorrectionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number;
+  documents: Document[];
+  stakeholders: StakeholderView[];
+  defaultSubmission: number;
+}
+
+function AddCorrectionDialog({ isOpen, onClose, projectId, documents, stakeholders, defaultSubmission }: AddCorrectionDialogProps) {
+  const { toast } = useToast();
+  const [submissionNumber, setSubmissionNumber] = useState(String(defaultSubmission));
+  const [commentNumber, setCommentNumber] = useState("");
+  const [text, setText] = useState("");
+  const [target, setTarget] = useState({ category: NONE, documentId: NONE, stakeholderId: NONE });
+
+  useEffect(() => {
+    if (isOpen) setSubmissionNumber(String(defaultSubmission));
+  }, [isOpen, defaultSubmission]);
+
+  const addComment = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/correction-comments`, {
+        submissionNumber: Number(submissionNumber),
+        commentNumber,
+        text,
+        category: target.category === NONE ? null : target.category,
+        documentId: fromSelect(target.documentId),
+        assignedStakeholderId: fromSelect(target.stakeholderId),
+      });
+      return await res.json() as CorrectionComment;
+    },
+    onSuccess: (comment) => {
+      invalidateCorrections(projectId);
+      toast({
+        title: "Comment Added",
+        description: `Comment ${comment.commentNumber} was added to submittal ${comment.submissionNumber}.`,
+      });
+      setCommentNumber("");
+      setText("");
+      setTarget({ category: NONE, documentId: NONE, stakeholderId: NONE });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Add Comment",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Correction Comment</DialogTitle>
+          <DialogDescription>Record a comment from the jurisdiction's plan review.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="correction-submission">Submittal</Label>
+              <Input
+                id="correction-submission"
+                type="number"
+                min={1}
+                value={submissionNumber}
+                onChange={(e) => setSubmissionNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correction-number">Comment number</Label>
+              <Input
+                id="correction-number"
+                value={commentNumber}
+                onChange={(e) => setCommentNumber(e.target.value)}
+                placeholder="e.g. 3 or B-2"
+                maxLength={20}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correction-text">Comment</Label>
+            <Textarea
+              id="correction-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="As written by the plan reviewer"
+              maxLength={10000}
+              rows={4}
+            />
+          </div>
+          <TargetFields
+            documents={documents}
+            stakeholders={stakeholders}
+            category={target.category}
+            documentId={target.documentId}
+            stakeholderId={target.stakeholderId}
+            onChange={(changes) => setTarget(current => ({ ...current, ...changes }))}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => addComment.mutate()}
+            disabled={!commentNumber.trim() || !text.trim() || Number(submissionNumber) < 1 || addComment.isPending}
+          >
+            {addComment.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add Comment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ImportCorrectionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: number;
+  defaultSubmission: number;
+  onImported: (submissionNumber: number) => void;
+}
+
+function ImportCorrectionsDialog({ isOpen, onClose, projectId, defaultSubmission, onImported }: ImportCorrectionsDialogProps) {
+  const { toast } = useToast();
+  const [submissionNumber, setSubmissionNumber] = useState(String(defaultSubmission));
+  const [category, setCategory] = useState(NONE);
+  const [text, setText] = useState("");
+  const [preview, setPreview] = useState<Array<{ commentNumber: string; text: string }> | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setSubmissionNumber(String(defaultSubmission));
+  }, [isOpen, defaultSubmission]);
+
+  const importLetter = useMutation({
+    mutationFn: async (previewOnly: boolean) => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/correction-comments/import`, {
+        text,
+        submissionNumber: Number(submissionNumber),
+        category: category === NONE ? null : category,
+        preview: previewOnly,
+      });
+      return await res.json() as Array<{ commentNumber: string; text: string }>;
+    },
+    onSuccess: (comments, previewOnly) => {
+      if (previewOnly) {
+        setPreview(comments);
+        return;
+      }
+      invalidateCorrections(projectId);
+      toast({
+        title: "Corrections Imported",
+        description: `${comments.length} comment${comments.length === 1 ? " was" : "s were"} added to submittal ${submissionNumber}.`,
+      });
+      onImported(Number(submissionNumber));
+      setText("");
+      setPreview(null);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Correction Letter</DialogTitle>
+          <DialogDescription>
+            Paste the jurisdiction's correction letter. Each numbered item becomes a separate comment.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="import-submission">Submittal</Label>
+              <Input
+                id="import-submission"
+                type="number"
+                min={1}
+                value={submissionNumber}
+                onChange={(e) => setSubmissionNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Document category (optional)</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>General</SelectItem>
+                  {Object.values(DocumentCategory).map(value => (
+                    <SelectItem key={value} value={value}>{formatDocumentCategory(value)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {preview ? (
+            <div className="max-h-[45vh] overflow-y-auto rounded border divide-y">
+              {preview.map((comment, index) => (
+                <div key={index} className="p-2 text-sm flex gap-3">
+                  <span className="font-medium w-10 flex-shrink-0">{comment.commentNumber}</span>
+                  <span className="whitespace-pre-wrap">{comment.text}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={"1. Provide the fire sprinkler design criteria on sheet FP-1.\n2. Show the commodity classification for each storage area."}
+              rows={12}
+            />
+          )}
+        </div>
+        <DialogFooter>
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)}>Back</Button>
+              <Button onClick={() => importLetter.mutate(false)} disabled={importLetter.isPending}>
+                {importLetter.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {preview.length} Comment{preview.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                onClick={() => importLetter.mutate(true)}
+                disabled={!text.trim() || Number(submissionNumber) < 1 || importLetter.isPending}
+              >
+                {importLetter.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface EditCorrectionDialogProps {
+  comment: CorrectionCommentView | null;
+  onClose: () => void;
+  documents: Document[];
+  stakeholders: StakeholderView[];
+}
+
+function EditCorrectionDialog({ comment, onClose, documents, stakeholders }: EditCorrectionDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [target, setTarget] = useState({ category: NONE, documentId: NONE, stakeholderId: NONE });
+  const [status, setStatus] = useState<CorrectionStatusType>(CorrectionStatus.OPEN);
+  const [resolution, setResolution] = useState("");
+  const [revisedSheetReference, setRevisedSheetReference] = useState("");
+
+  useEffect(() => {
+    if (!comment) return;
+    setText(comment.text);
+    setTarget({
+      category: comment.category ?? NONE,
+      documentId: comment.documentId ? String(comment.documentId) : NONE,
+      stakeholderId: comment.assignedStakeholderId ? String(comment.assignedStakeholderId) : NONE,
+    });
+    setStatus(comment.status as CorrectionStatusType);
+    setResolution(comment.resolution ?? "");
+    setRevisedSheetReference(comment.revisedSheetReference ?? "");
+  }, [comment]);
+
+  const canDelete = !!comment && (comment.createdById === user?.id || user?.role === UserRole.SPECIALIST);
+
+  const saveComment = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("PATCH", `/api/correction-comments/${id}`, {
+        text,
+        category: target.category === NONE ? null : target.category,
+        documentId: fromSelect(target.documentId),
+        assignedStakeholderId: fromSelect(target.stakeholderId),
+        status,
+        resolution,
+        revisedSheetReference,
+      });
+      return await res.json() as CorrectionComment;
+    },
+    onSuccess: (updated) => {
+      invalidateCorrections(updated.projectId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Comment Not Saved",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteComment = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/correction-comments/${id}`);
+    },
+    onSuccess: () => {
+      if (comment) invalidateCorrections(comment.projectId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Delete Comment",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!comment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Comment {comment?.commentNumber}</DialogTitle>
+          <DialogDescription>Submittal {comment?.submissionNumber}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            <Label htmlFor="edit-correction-text">Comment</Label>
+            <Textarea
+              id="edit-correction-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={10000}
+              rows={3}
+            />
+          </div>
+          <TargetFields
+            documents={documents}
+            stakeholders={stakeholders}
+            category={target.category}
+            documentId={target.documentId}
+            stakeholderId={target.stakeholderId}
+            onChange={(changes) => setTarget(current => ({ ...current, ...changes }))}
+          />
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as CorrectionStatusType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(CorrectionStatus).map(value => (
+                  <SelectItem key={value} value={value}>{statusLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correction-resolution">Response</Label>
+            <Textarea
+              id="correction-resolution"
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value)}
+              placeholder="Quoted under the comment in the response letter"
+              maxLength={10000}
+              rows={4}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correction-sheet">Revised sheet reference</Label>
+            <Input
+              id="correction-sheet"
+              value={revisedSheetReference}
+              onChange={(e) => setRevisedSheetReference(e.target.value)}
+              placeholder="e.g. FP-1, detail 3"
+              maxLength={200}
+            />
+          </div>
+        </div>
+        <DialogFooter className="sm:justify-between">
+          {canDelete ? (
+            <Button
+              variant="ghost"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => comment && deleteComment.mutate(comment.id)}
+              disabled={deleteComment.isPending}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={() => comment && saveComment.mutate(comment.id)}
+              disabled={!text.trim() || (status === CorrectionStatus.RESOLVED && !resolution.trim()) || saveComment.isPending}
+            >
+              {saveComment.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,433 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CheckCircle2, Circle, Loader2, MapPin, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AnnotationShape, type AnnotationShapeType, type DocumentAnnotation } from "@shared/schema";
+
+// As returned by GET /api/documents/:id/annotations
+export interface DocumentAnnotationView extends DocumentAnnotation {
+  authorName: string | null;
+  resolvedByName: string | null;
+}
+
+export type AnnotationTool = "select" | AnnotationShapeType;
+
+// A shape that has been drawn but not saved yet
+export interface AnnotationDraft {
+  pageNumber: number;
+  shape: AnnotationShapeType;
+  x: number;
+  y: number;
+  width: number | null;
+  height: number | null;
+}
+
+// Drags smaller than this fraction of the page are treated as stray clicks
+const MIN_SHAPE_SIZE = 0.01;
+const CLOUD_SCALLOP_RADIUS = 8;
+
+const OPEN_COLOR = "#dc2626";
+const RESOLVED_COLOR = "#16a34a";
+
+/**
+ * Loads a document version's annotations along with the mutations to add,
+ * update and delete them.
+ */
+export function useDocumentAnnotations(documentId: number) {
+  const { toast } = useToast();
+  const queryKey = [`/api/documents/${documentId}/annotations`];
+
+  const { data: annotations = [], isLoading } = useQuery<DocumentAnnotationView[]>({ queryKey });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Annotation Error",
+      description: getApiErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey });
+
+  const createAnnotation = useMutation({
+    mutationFn: async (annotation: AnnotationDraft & { text: string }) => {
+      const res = await apiRequest("POST", `/api/documents/${documentId}/annotations`, annotation);
+      return await res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const updateAnnotation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; text?: string; resolved?: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/annotations/${id}`, data);
+      return await res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteAnnotation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/annotations/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  return { annotations, isLoading, createAnnotation, updateAnnotation, deleteAnnotation };
+}
+
+function useElementSize(ref: React.RefObject<HTMLElement>) {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!ref.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+}
+
+// Revision-cloud outline: a rectangle traced clockwise with outward-bulging arcs
+function cloudPath(x: number, y: number, width: number, height: number): string {
+  const corners = [[x, y], [x + width, y], [x + width, y + height], [x, y + height]];
+  let path = `M ${x} ${y}`;
+  corners.forEach(([startX, startY], index) => {
+    const [endX, endY] = corners[(index + 1) % corners.length];
+    const length = Math.hypot(endX - startX, endY - startY);
+    const count = Math.max(1, Math.round(length / (CLOUD_SCALLOP_RADIUS * 2)));
+    const radius = length / count / 2;
+    for (let step = 1; step <= count; step++) {
+      const pointX = startX + ((endX - startX) * step) / count;
+      const pointY = startY + ((endY - startY) * step) / count;
+      path += ` A ${radius} ${radius} 0 0 1 ${pointX} ${pointY}`;
+    }
+  });
+  return `${path} Z`;
+}
+
+interface AnnotationLayerProps {
+  pageNumber: number;
+  annotations: DocumentAnnotationView[];
+  // Position of each annotation in the list, used to number the markers
+  labels: Map<number, number>;
+  tool: AnnotationTool;
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+  onCreate: (draft: AnnotationDraft, text: string) => Promise<unknown>;
+}
+
+/**
+ * Draws a page's annotations over its preview image and, with a drawing tool
+ * selected, lets the user drag out a new one and type its comment.
+ */
+export function AnnotationLayer({ pageNumber, annotations, labels, tool, selectedId, onSelect, onCreate }: AnnotationLayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { width, height } = useElementSize(containerRef);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragEnd, setDragEnd] = useState<{ x: number; y: number } | null>(null);
+  const [pending, setPending] = useState<AnnotationDraft | null>(null);
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const isDrawing = tool !== "select";
+
+  const toPagePoint = (event: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!isDrawing || pending) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPagePoint(event);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragStart) setDragEnd(toPagePoint(event));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!dragStart || !isDrawing) return;
+    const end = toPagePoint(event);
+    setDragStart(null);
+    setDragEnd(null);
+
+    if (tool === AnnotationShape.PIN) {
+      setPending({ pageNumber, shape: tool, x: end.x, y: end.y, width: null, height: null });
+      return;
+    }
+
+    const draftWidth = Math.abs(end.x - dragStart.x);
+    const draftHeight = Math.abs(end.y - dragStart.y);
+    if (draftWidth < MIN_SHAPE_SIZE || draftHeight < MIN_SHAPE_SIZE) return;
+    setPending({
+      pageNumber,
+      shape: tool,
+      x: Math.min(end.x, dragStart.x),
+      y: Math.min(end.y, dragStart.y),
+      width: draftWidth,
+      height: draftHeight,
+    });
+  };
+
+  const cancelPending = () => {
+    setPending(null);
+    setText("");
+  };
+
+  const savePending = async () => {
+    if (!pending || !text.trim()) return;
+    setSaving(true);
+    try {
+      await onCreate(pending, text.trim());
+      cancelPending();
+    } catch {
+      // The mutation reports the error; keep the draft so the text isn't lost
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderShape = (shape: AnnotationShapeType, x: number, y: number, w: number, h: number, color: string, props: React.SVGProps<SVGElement>) => {
+    const common = { fill: `${color}14`, stroke: color, ...props } as React.SVGProps<SVGRectElement & SVGPathElement>;
+    return shape === AnnotationShape.CLOUD
+      ? <path d={cloudPath(x * width, y * height, w * width, h * height)} {...common} />
+      : <rect x={x * width} y={y * height} width={w * width} height={h * height} {...common} />;
+  };
+
+  const dragBox = dragStart && dragEnd && tool !== AnnotationShape.PIN && {
+    x: Math.min(dragStart.x, dragEnd.x),
+    y: Math.min(dragStart.y, dragEnd.y),
+    w: Math.abs(dragEnd.x - dragStart.x),
+    h: Math.abs(dragEnd.y - dragStart.y),
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0"
+      style={{ cursor: isDrawing ? "crosshair" : "default", pointerEvents: isDrawing ? "auto" : "none", touchAction: isDrawing ? "none" : "auto" }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {width > 0 && (
+        <svg className="absolute inset-0 overflow-visible" width={width} height={height}>
+          {annotations
+            .filter(annotation => annotation.shape !== AnnotationShape.PIN && annotation.width && annotation.height)
+            .map(annotation => (
+              <g
+                key={annotation.id}
+                style={{ pointerEvents: isDrawing ? "none" : "auto", cursor: "pointer" }}
+                onClick={() => onSelect(annotation.id)}
+              >
+                {renderShape(
+                  annotation.shape as AnnotationShapeType,
+                  annotation.x,
+                  annotation.y,
+                  annotation.width!,
+                  annotation.height!,
+                  annotation.resolved ? RESOLVED_COLOR : OPEN_COLOR,
+                  {
+                    strokeWidth: annotation.id === selectedId ? 3 : 2,
+                    strokeDasharray: annotation.resolved ? "6 4" : undefined,
+                  }
+                )}
+              </g>
+            ))}
+          {dragBox && renderShape(tool as AnnotationShapeType, dragBox.x, dragBox.y, dragBox.w, dragBox.h, OPEN_COLOR, { strokeWidth: 2, strokeDasharray: "4 3" })}
+          {pending && pending.shape !== AnnotationShape.PIN && renderShape(pending.shape, pending.x, pending.y, pending.width!, pending.height!, OPEN_COLOR, { strokeWidth: 2 })}
+        </svg>
+      )}
+
+      {annotations.map(annotation => {
+        const color = annotation.resolved ? RESOLVED_COLOR : OPEN_COLOR;
+        // Rectangles and clouds get their number at the top-left corner; pins sit on their point
+        const isPin = annotation.shape === AnnotationShape.PIN;
+        return (
+          <button
+            key={annotation.id}
+            type="button"
+            title={annotation.text}
+            onClick={() => onSelect(annotation.id)}
+            className={`absolute flex items-center justify-center ${isPin ? "-translate-x-1/2 -translate-y-full" : "-translate-x-1/2 -translate-y-1/2"}`}
+            style={{
+              left: `${annotation.x * 100}%`,
+              top: `${annotation.y * 100}%`,
+              pointerEvents: isDrawing ? "none" : "auto",
+            }}
+          >
+            {isPin ? (
+              <span className="relative flex flex-col items-center">
+                <MapPin
+                  className={`h-7 w-7 drop-shadow ${annotation.id === selectedId ? "scale-125" : ""}`}
+                  style={{ color, fill: "white" }}
+                />
+                <span className="absolute top-1 text-[10px] font-bold" style={{ color }}>
+                  {labels.get(annotation.id)}
+                </span>
+              </span>
+            ) : (
+              <span
+                className="flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[10px] font-bold text-white shadow"
+                style={{ backgroundColor: color }}
+              >
+                {labels.get(annotation.id)}
+              </span>
+            )}
+          </button>
+        );
+      })}
+
+      {pending && (
+        <>
+          {pending.shape === AnnotationShape.PIN && (
+            <MapPin
+              className="absolute h-7 w-7 -translate-x-1/2 -translate-y-full drop-shadow"
+              style={{ left: `${pending.x * 100}%`, top: `${pending.y * 100}%`, color: OPEN_COLOR, fill: "white" }}
+            />
+          )}
+          <div
+            className="absolute z-20 w-64 rounded-md border bg-popover p-2 shadow-lg"
+            style={{
+              left: `${Math.min(pending.x, 0.6) * 100}%`,
+              top: `${Math.min(pending.y + (pending.height ?? 0), 0.85) * 100}%`,
+              cursor: "default",
+            }}
+            onPointerDown={event => event.stopPropagation()}
+            onPointerUp={event => event.stopPropagation()}
+          >
+            <Textarea
+              autoFocus
+              value={text}
+              onChange={event => setText(event.target.value)}
+              onKeyDown={event => {
+                if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) savePending();
+                if (event.key === "Escape") cancelPending();
+              }}
+              placeholder="e.g. Dead-end aisle exceeds 50 ft"
+              className="min-h-[72px] text-sm"
+              maxLength={2000}
+            />
+            <div className="mt-2 flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={cancelPending} disabled={saving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={savePending} disabled={saving || !text.trim()}>
+                {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Add
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface AnnotationListProps {
+  annotations: DocumentAnnotationView[];
+  labels: Map<number, number>;
+  selectedId: number | null;
+  onSelect: (id: number) => void;
+  canModerate: (annotation: DocumentAnnotationView) => boolean;
+  onToggleResolved: (annotation: DocumentAnnotationView) => void;
+  onDelete: (annotation: DocumentAnnotationView) => void;
+}
+
+/**
+ * Side list of a version's annotations in page order, where they can be
+ * resolved, reopened or deleted.
+ */
+export function AnnotationList({ annotations, labels, selectedId, onSelect, canModerate, onToggleResolved, onDelete }: AnnotationListProps) {
+  const selectedRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selectedId]);
+
+  if (annotations.length === 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">
+        No annotations yet. Pick a pin, rectangle or cloud and mark up the page.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {annotations.map(annotation => (
+        <li
+          key={annotation.id}
+          ref={annotation.id === selectedId ? selectedRef : undefined}
+          className={`p-3 text-sm cursor-pointer ${annotation.id === selectedId ? "bg-muted" : "hover:bg-muted/50"}`}
+          onClick={() => onSelect(annotation.id)}
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <span
+              className="flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[10px] font-bold text-white"
+              style={{ backgroundColor: annotation.resolved ? RESOLVED_COLOR : OPEN_COLOR }}
+            >
+              {labels.get(annotation.id)}
+            </span>
+            <span className="text-xs text-muted-foreground">Page {annotation.pageNumber}</span>
+            {annotation.carriedFromId && (
+              <Badge variant="outline" className="text-[10px] px-1 py-0">From earlier version</Badge>
+            )}
+          </div>
+          <p className={`whitespace-pre-wrap break-words ${annotation.resolved ? "text-muted-foreground line-through" : ""}`}>
+            {annotation.text}
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {annotation.authorName ?? "Unknown"}
+            {annotation.createdAt && ` · ${new Date(annotation.createdAt).toLocaleDateString()}`}
+            {annotation.resolved && annotation.resolvedByName && ` · Resolved by ${annotation.resolvedByName}`}
+          </p>
+          {canModerate(annotation) && (
+            <div className="mt-2 flex gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs"
+                onClick={event => {
+                  event.stopPropagation();
+                  onToggleResolved(annotation);
+                }}
+              >
+                {annotation.resolved
+                  ? <><Circle className="h-3 w-3 mr-1" />Reopen</>
+                  : <><CheckCircle2 className="h-3 w-3 mr-1" />Resolve</>}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                onClick={event => {
+                  event.stopPropagation();
+                  onDelete(annotation);
+                }}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
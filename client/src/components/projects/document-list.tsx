@@ -13,25 +13,32 @@ import {
   Check,
   X,
   Upload,
-  Trash
+  Trash,
+  CalendarClock
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Document, DocumentStatus } from "@shared/schema";
+import { BulkReviewAction, Document, DocumentStatus, type BulkReviewActionType } from "@shared/schema";
 import { 
   getDocumentStatusColor, 
   getDocumentStatusLabel, 
   formatDocumentCategory,
   getDocumentCategoryDescription
 } from "@/lib/utils/document-utils";
-import { formatDateTime } from "@/lib/utils/date-utils";
+import { formatDate, formatDateTime } from "@/lib/utils/date-utils";
 import { DocumentVersionHistory } from "./document-version-history";
 import { DocumentPreviewDialog } from "./document-preview-dialog";
 import { DocumentViewDialog } from "./document-view-dialog";
 import { DocumentUploadDialog } from "./document-upload-dialog";
-import { getChecklistForCategory } from "@/lib/utils/checklist-data";
+import { DocumentThumbnail } from "./document-page-previews";
+import { getChecklistForCategory } from "@shared/checklists";
+import { ReviewChecklistProgress } from "./review-checklist";
+import { RejectionReasonPicker, RejectionReasonList } from "./rejection-reasons";
+import { BulkReviewDialog } from "./bulk-review-dialog";
+import { DocumentValidityDialog } from "./document-validity-dialog";
 import { downloadDocument } from "@/lib/utils/file-download";
 import { StakeholderAssignmentWidget } from "@/components/stakeholders/stakeholder-assignment-widget";
 import {
@@ -89,6 +96,10 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [reviewStatus, setReviewStatus] = useState<string>(DocumentStatus.APPROVED);
   const [reviewComment, setReviewComment] = useState("");
+  const [rejectionCodes, setRejectionCodes] = useState<string[]>([]);
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<number[]>([]);
+  const [bulkAction, setBulkAction] = useState<BulkReviewActionType | null>(null);
+  const [validityDocument, setValidityDocument] = useState<Document | null>(null);
   
   // Group documents by category
   const documentsByCategory = documents.reduce((acc, doc) => {
@@ -100,7 +111,11 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
   }, {} as Record<string, Document[]>);
   
   // Get the latest version of each document category
-  const latestDocuments = Object.entries(documentsByCategory).map(([category, docs]) => {
+  const latestDocuments = Object.entries(documentsByCategory).map(([category, allDocs]) => {
+    // Superseded versions have been replaced within their lineage, so they never represent the category
+    const currentDocs = allDocs.filter(doc => doc.status !== DocumentStatus.SUPERSEDED);
+    const docs = currentDocs.length > 0 ? currentDocs : allDocs;
+    
     // First check if any document in this category is approved
     const approvedDoc = docs.find(doc => doc.status === 'approved');
     if (approvedDoc) {
@@ -191,6 +206,7 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
       const res = await apiRequest("PATCH", `/api/documents/${selectedDocument.id}`, {
         status: reviewStatus,
         comments: reviewComment,
+        ...(reviewStatus === DocumentStatus.REJECTED && { reasonCodes: rejectionCodes }),
       });
       return await res.json();
     },
@@ -204,6 +220,7 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
       setReviewDialogOpen(false);
       setSelectedDocument(null);
       setReviewComment("");
+      setRejectionCodes([]);
       
       toast({
         title: "Document Reviewed",
@@ -215,10 +232,10 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
         window.location.reload();
       }, 1500); // Delay to allow toast to be visible
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Review Failed",
-        description: "There was an error reviewing the document. Please try again.",
+        description: getApiErrorMessage(error) || "There was an error reviewing the document. Please try again.",
         variant: "destructive",
       });
     }
@@ -228,6 +245,7 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
     setSelectedDocument(document);
     setReviewStatus(document.status || DocumentStatus.PENDING_REVIEW);
     setReviewComment(document.comments || "");
+    setRejectionCodes(document.rejectionReasons ?? []);
     setReviewDialogOpen(true);
   };
 
@@ -277,6 +295,7 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
   // Upload dialog state
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [selectedUploadCategory, setSelectedUploadCategory] = useState<string>("");
+  const [newVersionTarget, setNewVersionTarget] = useState<Document | null>(null);
   
   // Create a map of all categories with their documents (or null if no document exists)
   const categoriesWithDocuments = categories.map(category => {
@@ -292,6 +311,16 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
     .filter(item => item.document !== null)
     .map(item => item.document) as Document[];
   
+  // Specialists can select documents to approve, reject or request changes on together
+  const isSpecialist = user?.role === "specialist";
+  const selectableDocuments = orderedDocuments.filter(doc => doc.status !== DocumentStatus.SUPERSEDED);
+  const selectedDocuments = selectableDocuments.filter(doc => selectedDocumentIds.includes(doc.id));
+  const allSelected = selectableDocuments.length > 0 && selectedDocuments.length === selectableDocuments.length;
+  
+  const toggleSelected = (docId: number, selected: boolean) => {
+    setSelectedDocumentIds(current => selected ? [...current, docId] : current.filter(id => id !== docId));
+  };
+  
   if (isLoading) {
     return (
       <div className="p-4">
@@ -319,11 +348,67 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
   // Handler for category-specific uploads
   const handleCategoryUpload = (category: string) => {
     setSelectedUploadCategory(category);
+    setNewVersionTarget(null);
+    setUploadDialogOpen(true);
+  };
+  
+  // Handler for uploading the next version of an existing document
+  const handleNewVersionUpload = (document: Document) => {
+    setSelectedUploadCategory(document.category);
+    setNewVersionTarget(document);
+    setVersionHistoryDialogOpen(false);
     setUploadDialogOpen(true);
   };
 
   return (
     <div className="overflow-hidden">
+      {isSpecialist && selectableDocuments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-border bg-muted/40">
+          <Checkbox
+            id="select-all-documents"
+            checked={allSelected}
+            onCheckedChange={(checked) => setSelectedDocumentIds(checked === true ? selectableDocuments.map(doc => doc.id) : [])}
+          />
+          <label htmlFor="select-all-documents" className="text-sm cursor-pointer">
+            {selectedDocuments.length > 0 ? `${selectedDocuments.length} selected` : "Select all"}
+          </label>
+          {selectedDocuments.length > 0 && (
+            <div className="flex flex-wrap gap-2 ml-auto">
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-green-50 dark:bg-green-900 border-green-200 dark:border-green-700 text-green-700 hover:bg-green-100"
+                onClick={() => setBulkAction(BulkReviewAction.APPROVE)}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100"
+                onClick={() => setBulkAction(BulkReviewAction.REQUEST_CHANGES)}
+              >
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Request Changes
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="bg-red-50 dark:bg-red-900 border-red-200 dark:border-red-700 text-red-700 hover:bg-red-100"
+                onClick={() => setBulkAction(BulkReviewAction.REJECT)}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedDocumentIds([])}>
+                Clear
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+      
       {categoriesWithDocuments.map(({ category, document }) => {
         // Create a unique key for each category row
         const rowKey = document ? `doc-${document.id}` : `category-${category}`;
@@ -379,6 +464,15 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
               onClick={() => toggleExpand(doc.id)}
             >
               <div className="w-full md:w-auto flex items-center">
+                {isSpecialist && doc.status !== DocumentStatus.SUPERSEDED && (
+                  <Checkbox
+                    className="mr-3"
+                    checked={selectedDocumentIds.includes(doc.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onCheckedChange={(checked) => toggleSelected(doc.id, checked === true)}
+                    aria-label={`Select ${doc.fileName}`}
+                  />
+                )}
                 <FileText className="h-6 w-6 text-muted-foreground mr-3" />
                 <div>
                   <h3 className="font-medium">{formatDocumentCategory(doc.category)}</h3>
@@ -423,7 +517,18 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
                 <div className="p-3 bg-card rounded-lg border border-border">
                   <div className="flex items-center justify-between mb-3">
                     <div className="flex items-center">
-                      <FileText className="h-5 w-5 text-primary mr-2" />
+                      <button
+                        type="button"
+                        className="mr-3 flex-shrink-0"
+                        title="Preview"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelectedDocument(doc);
+                          setViewDialogOpen(true);
+                        }}
+                      >
+                        <DocumentThumbnail document={doc} />
+                      </button>
                       <span className="font-medium">{doc.fileName}</span>
                       {doc.version > 1 && (
                         <span className="ml-2 text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
@@ -431,101 +536,125 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
                         </span>
                       )}
                     </div>
-                    <div className="text-sm text-muted-foreground">
-                      Uploaded {formatDateTime(doc.uploadedAt)}
+                    <div className="text-sm text-muted-foreground text-right">
+                      <div>Uploaded {formatDateTime(doc.uploadedAt)}</div>
+                      {doc.expiresAt && (
+                        <div
+                          className={doc.expiryFlaggedAt || new Date(doc.expiresAt) <= new Date() ? "text-red-600 font-medium" : undefined}
+                          title={doc.expiryFlaggedAt ? "Expires before the project deadline or the permit expires" : undefined}
+                        >
+                          {doc.effectiveDate ? `Valid ${formatDate(doc.effectiveDate)} – ${formatDate(doc.expiresAt)}` : `Expires ${formatDate(doc.expiresAt)}`}
+                        </div>
+                      )}
                     </div>
                   </div>
                   
                   {/* Show appropriate content based on document status */}
-                  {doc.status === DocumentStatus.REJECTED && doc.comments && (
+                  {doc.status === DocumentStatus.REJECTED && (!!doc.comments || !!doc.rejectionReasons?.length) && (
                     <div className="mb-3 p-3 rounded border bg-red-50 dark:bg-red-900 border-red-200 dark:border-red-700">
                       <div className="flex items-center mb-1 text-red-700 font-medium text-sm">
                         <AlertCircle className="h-4 w-4 mr-1.5" />
                         Rejection Reason
                       </div>
-                      <p className="text-sm text-red-700 whitespace-pre-wrap">{doc.comments}</p>
+                      <div className="text-sm text-red-700">
+                        <RejectionReasonList codes={doc.rejectionReasons} />
+                      </div>
+                      {doc.comments && <p className="text-sm text-red-700 whitespace-pre-wrap">{doc.comments}</p>}
                     </div>
                   )}
                   
                   {/* Show checklist for Approved documents */}
-                  {doc.status === DocumentStatus.APPROVED && doc.comments && (
+                  {doc.status === DocumentStatus.APPROVED && (
                     <div className="mb-3 p-3 rounded border bg-green-50 dark:bg-green-900 border-green-200 dark:border-green-700">
                       <div className="flex items-center mb-2 text-green-700 font-medium text-sm">
                         <Check className="h-4 w-4 mr-1.5" />
                         Approval Checklist
                       </div>
                       
-                      {(() => {
-                        const parsedChecklist = parseChecklistFromComments(doc.comments);
-                        
-                        if (parsedChecklist && parsedChecklist.items.length > 0) {
-                          // Render checklist items
-                          return (
-                            <div className="space-y-1.5">
-                              {parsedChecklist.items.map((item, idx) => (
-                                <div key={idx} className="flex items-start gap-2">
-                                  <div className="h-4 w-4 mt-0.5 rounded border border-green-500 bg-green-100 flex items-center justify-center">
-                                    <Check className="h-3 w-3 text-green-600" />
-                                  </div>
-                                  <span className="text-sm text-green-700">{item.label}</span>
+                      <ReviewChecklistProgress
+                        document={doc}
+                        tone="approved"
+                        fallback={doc.comments && (
+                          (() => {
+                            const parsedChecklist = parseChecklistFromComments(doc.comments);
+                            
+                            if (parsedChecklist && parsedChecklist.items.length > 0) {
+                              // Render checklist items
+                              return (
+                                <div className="space-y-1.5">
+                                  {parsedChecklist.items.map((item, idx) => (
+                                    <div key={idx} className="flex items-start gap-2">
+                                      <div className="h-4 w-4 mt-0.5 rounded border border-green-500 bg-green-100 flex items-center justify-center">
+                                        <Check className="h-3 w-3 text-green-600" />
+                                      </div>
+                                      <span className="text-sm text-green-700">{item.label}</span>
+                                    </div>
+                                  ))}
                                 </div>
-                              ))}
-                            </div>
-                          );
-                        } else {
-                          // Fallback to showing comments
-                          return <p className="text-sm text-green-700">{doc.comments}</p>;
-                        }
-                      })()}
+                              );
+                            } else {
+                              // Fallback to showing comments
+                              return <p className="text-sm text-green-700">{doc.comments}</p>;
+                            }
+                          })()
+                        )}
+                      />
                     </div>
                   )}
                   
                   {/* Show partial checklist for In Review documents */}
-                  {doc.status === DocumentStatus.PENDING_REVIEW && doc.comments && (
+                  {doc.status === DocumentStatus.PENDING_REVIEW && (
                     <div className="mb-3 p-3 rounded border bg-amber-50 border-amber-200">
                       <div className="flex items-center mb-2 text-amber-700 font-medium text-sm">
                         <History className="h-4 w-4 mr-1.5" />
                         Review Progress
                       </div>
                       
-                      {(() => {
-                        const parsedChecklist = parseChecklistFromComments(doc.comments);
-                        
-                        if (parsedChecklist && parsedChecklist.items.length > 0) {
-                          // Get category checklist to ensure we show all items
-                          const categoryChecklist = getChecklistForCategory(doc.category);
-                          // Map parsed items to category items for display
-                          const displayItems = categoryChecklist.items.map(item => {
-                            const parsedItem = parsedChecklist.items.find(
-                              parsed => parsed.label.toLowerCase() === item.label.toLowerCase()
-                            );
-                            return {
-                              ...item,
-                              checked: parsedItem ? parsedItem.checked : false
-                            };
-                          });
-                          
-                          return (
-                            <div className="space-y-1.5">
-                              {displayItems.map((item, idx) => (
-                                <div key={idx} className="flex items-start gap-2">
-                                  {item.checked ? (
-                                    <div className="h-4 w-4 mt-0.5 rounded border border-amber-500 bg-amber-100 flex items-center justify-center">
-                                      <Check className="h-3 w-3 text-amber-600" />
+                      <ReviewChecklistProgress
+                        document={doc}
+                        fallback={doc.comments ? (
+                          (() => {
+                            const parsedChecklist = parseChecklistFromComments(doc.comments);
+                            
+                            if (parsedChecklist && parsedChecklist.items.length > 0) {
+                              // Get category checklist to ensure we show all items
+                              const categoryChecklist = getChecklistForCategory(doc.category);
+                              // Map parsed items to category items for display
+                              const displayItems = categoryChecklist.items.map(item => {
+                                const parsedItem = parsedChecklist.items.find(
+                                  parsed => parsed.label.toLowerCase() === item.label.toLowerCase()
+                                );
+                                return {
+                                  ...item,
+                                  checked: parsedItem ? parsedItem.checked : false
+                                };
+                              });
+                              
+                              return (
+                                <div className="space-y-1.5">
+                                  {displayItems.map((item, idx) => (
+                                    <div key={idx} className="flex items-start gap-2">
+                                      {item.checked ? (
+                                        <div className="h-4 w-4 mt-0.5 rounded border border-amber-500 bg-amber-100 flex items-center justify-center">
+                                          <Check className="h-3 w-3 text-amber-600" />
+                                        </div>
+                                      ) : (
+                                        <div className="h-4 w-4 mt-0.5 rounded border border-amber-300 bg-card"></div>
+                                      )}
+                                      <span className="text-sm text-amber-700">{item.label}</span>
                                     </div>
-                                  ) : (
-                                    <div className="h-4 w-4 mt-0.5 rounded border border-amber-300 bg-card"></div>
-                                  )}
-                                  <span className="text-sm text-amber-700">{item.label}</span>
+                                  ))}
                                 </div>
-                              ))}
-                            </div>
-                          );
-                        } else {
-                          // Fallback to showing comments
-                          return <p className="text-sm text-amber-700">{doc.comments}</p>;
-                        }
-                      })()}
+                              );
+                            } else {
+                              // Fallback to showing comments
+                              return <p className="text-sm text-amber-700">{doc.comments}</p>;
+                            }
+                          })()
+                        ) : (
+                          <p className="text-sm text-amber-700">No checklist items have been checked yet.</p>
+                        )}
+                      />
                     </div>
                   )}
                   
@@ -538,17 +667,10 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
                         onClick={async (e) => {
                           e.stopPropagation();
                           try {
-                            // Since we now exclude fileContent from list view, fetch it first
-                            const response = await fetch(`/api/documents/${doc.id}/content`, {
-                              credentials: 'include'
-                            });
-                            if (!response.ok) throw new Error('Failed to fetch document content');
-                            const fullDoc = await response.json();
-                            
                             const success = await downloadDocument(
-                              fullDoc.fileName,
-                              fullDoc.fileContent,
-                              fullDoc.fileType
+                              doc.id,
+                              doc.fileName,
+                              doc.fileType
                             );
                             
                             if (success) {
@@ -596,6 +718,30 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
                         <History className="h-4 w-4 mr-1" />
                         Version History
                       </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        className="flex items-center"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleNewVersionUpload(doc);
+                        }}
+                      >
+                        <Upload className="h-4 w-4 mr-1" />
+                        Upload New Version
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        className="flex items-center"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setValidityDocument(doc);
+                        }}
+                      >
+                        <CalendarClock className="h-4 w-4 mr-1" />
+                        Validity
+                      </Button>
                       {user?.role === "specialist" && doc.status !== DocumentStatus.APPROVED && (
                         <Button 
                           variant="outline" 
@@ -676,11 +822,31 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
       {/* Document Upload Dialog */}
       <DocumentUploadDialog
         isOpen={uploadDialogOpen}
-        onClose={() => setUploadDialogOpen(false)}
+        onClose={() => {
+          setUploadDialogOpen(false);
+          setNewVersionTarget(null);
+        }}
         projectId={projectId}
         category={selectedUploadCategory}
+        previousVersion={newVersionTarget}
       />
 
+      <BulkReviewDialog
+        projectId={projectId}
+        documents={selectedDocuments}
+        action={bulkAction}
+        onClose={() => setBulkAction(null)}
+        onReviewed={() => {
+          setBulkAction(null);
+          setSelectedDocumentIds([]);
+        }}
+      />
+      
+      <DocumentValidityDialog
+        document={validityDocument}
+        onClose={() => setValidityDocument(null)}
+      />
+      
       {/* Review Dialog */}
       <Dialog open={reviewDialogOpen} onOpenChange={setReviewDialogOpen}>
         <DialogContent>
@@ -717,36 +883,33 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
                 </Select>
               </div>
               
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-1">
-                  <p className="text-sm font-medium">Comments</p>
-                  {reviewStatus === DocumentStatus.REJECTED && (
+              {reviewStatus === DocumentStatus.REJECTED && (
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm font-medium">Rejection Reasons</p>
                     <span className="text-red-500 text-xs font-medium flex items-center">
                       <AlertCircle className="h-3 w-3 mr-1" />
-                      Required for rejection
+                      At least one required
                     </span>
-                  )}
+                  </div>
+                  <RejectionReasonPicker
+                    categories={[selectedDocument.category]}
+                    value={rejectionCodes}
+                    onChange={setRejectionCodes}
+                  />
                 </div>
+              )}
+              
+              <div className="mb-4">
+                <p className="text-sm font-medium mb-1">Comments</p>
                 <Textarea 
                   value={reviewComment} 
                   onChange={(e) => setReviewComment(e.target.value)}
                   placeholder={reviewStatus === DocumentStatus.REJECTED 
-                    ? "Please specify why this document is being rejected..." 
+                    ? "Any detail the submitter needs to fix this document..." 
                     : "Add comments about this document..."}
                   rows={4}
-                  className={`${
-                    reviewStatus === DocumentStatus.REJECTED 
-                      ? (!reviewComment || reviewComment.trim() === '') 
-                        ? 'border-red-300 focus-visible:ring-red-500' 
-                        : 'border-green-300 focus-visible:ring-green-500'
-                      : ''
-                  }`}
                 />
-                {reviewStatus === DocumentStatus.REJECTED && (!reviewComment || reviewComment.trim() === '') && (
-                  <p className="text-xs text-red-500 mt-1">
-                    You must provide a reason for rejecting this document.
-                  </p>
-                )}
               </div>
             </div>
           )}
@@ -761,10 +924,10 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
             <Button 
               onClick={() => {
                 // If the document is being rejected, ensure there's a reason provided
-                if (reviewStatus === DocumentStatus.REJECTED && (!reviewComment || reviewComment.trim() === '')) {
+                if (reviewStatus === DocumentStatus.REJECTED && rejectionCodes.length === 0) {
                   toast({
                     title: "Rejection Reason Required",
-                    description: "Please provide a reason for rejecting this document in the comments field.",
+                    description: "Please choose at least one reason for rejecting this document.",
                     variant: "destructive"
                   });
                   return;
@@ -787,6 +950,7 @@ export function DocumentList({ documents, projectId, isLoading = false }: Docume
           onClose={() => setVersionHistoryDialogOpen(false)}
           document={selectedDocument}
           projectId={projectId}
+          onUploadNewVersion={handleNewVersionUpload}
         />
       )}
       
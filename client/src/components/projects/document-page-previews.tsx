@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileText, Loader2 } from "lucide-react";
+import type { Document } from "@shared/schema";
+
+interface DocumentPreviewManifest {
+  status: "pending" | "ready" | "unsupported" | "failed";
+  pageCount: number;
+  thumbnailUrl: string | null;
+  pages: { pageNumber: number; url: string }[];
+}
+
+// Only these file types get server-rendered previews (see server/document-previews.ts)
+const PREVIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/jpg", "image/gif", "image/webp"];
+
+export function hasPagePreviews(document: Pick<Document, "fileType" | "previewStatus">): boolean {
+  return PREVIEWABLE_TYPES.includes(document.fileType)
+    && document.previewStatus !== "unsupported"
+    && document.previewStatus !== "failed";
+}
+
+interface DocumentThumbnailProps {
+  document: Document;
+  className?: string;
+}
+
+/**
+ * Small first-page image for lists. Falls back to a file icon for types
+ * without previews, or if the thumbnail can't be loaded.
+ */
+export function DocumentThumbnail({ document, className = "h-12 w-10" }: DocumentThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (failed || !hasPagePreviews(document)) {
+    return (
+      <div className={`${className} flex items-center justify-center rounded border bg-muted/30`}>
+        <FileText className="h-5 w-5 text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={`/api/documents/${document.id}/thumbnail`}
+      alt={`First page of ${document.fileName}`}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={`${className} rounded border bg-white object-contain`}
+    />
+  );
+}
+
+interface DocumentPagePreviewsProps {
+  document: Document;
+  // Shown when the file type has no previews or rendering failed
+  fallback: React.ReactNode;
+  // Drawn over each page image, sized to it (used for annotations)
+  renderPageOverlay?: (pageNumber: number) => React.ReactNode;
+}
+
+/**
+ * Scrollable stack of server-rendered page images, so a dialog never has to
+ * download or embed the original file.
+ */
+export function DocumentPagePreviews({ document, fallback, renderPageOverlay }: DocumentPagePreviewsProps) {
+  const { data: manifest, isLoading, error } = useQuery<DocumentPreviewManifest>({
+    queryKey: [`/api/documents/${document.id}/previews`],
+    enabled: hasPagePreviews(document),
+    // Previews are rendered in the background after upload; poll until they are ready
+    refetchInterval: (query) => query.state.data?.status === "pending" ? 3000 : false,
+  });
+
+  if (!hasPagePreviews(document) || error || manifest?.status === "unsupported" || manifest?.status === "failed") {
+    return <>{fallback}</>;
+  }
+
+  if (isLoading || !manifest || manifest.status === "pending") {
+    return (
+      <div className="w-full h-full flex items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-sm text-muted-foreground">Preparing page previews...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full overflow-auto p-4 space-y-4">
+      {manifest.pages.map(page => (
+        <div key={page.pageNumber} id={`document-page-${page.pageNumber}`} className="mx-auto max-w-4xl">
+          <div className="relative">
+            <img
+              src={page.url}
+              alt={`Page ${page.pageNumber} of ${document.fileName}`}
+              loading="lazy"
+              className="w-full border rounded bg-white shadow-sm"
+            />
+            {renderPageOverlay?.(page.pageNumber)}
+          </div>
+          {manifest.pageCount > 1 && (
+            <p className="mt-1 text-center text-xs text-muted-foreground">
+              Page {page.pageNumber} of {manifest.pageCount}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
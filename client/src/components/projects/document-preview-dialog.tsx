@@ -9,11 +9,12 @@ import {
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Document, DocumentStatus } from "@shared/schema";
-import { getChecklistForCategory } from "@/lib/utils/checklist-data";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   formatDocumentCategory,
   getDocumentStatusColor,
@@ -32,6 +33,11 @@ import {
 } from "lucide-react";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { PDFViewer } from "@/components/ui/pdf-viewer";
+import { hasPagePreviews } from "./document-page-previews";
+import { useReviewChecklist, ReviewChecklistProgress } from "./review-checklist";
+import { useDocumentApproval, ApprovalChainProgress } from "./approval-chain";
+import { RejectionReasonPicker, RejectionReasonList } from "./rejection-reasons";
+import { downloadDocument, getDocumentContentUrl } from "@/lib/utils/file-download";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -52,73 +58,23 @@ interface DocumentPreviewDialogProps {
 
 export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }: DocumentPreviewDialogProps) {
   const { toast } = useToast();
-  const [checklist, setChecklist] = useState(() => 
-    document ? getChecklistForCategory(document.category) : { title: "", items: [] }
-  );
-  const [reviewStatus, setReviewStatus] = useState<string>(
-    document?.status || DocumentStatus.PENDING_REVIEW
-  );
+  const { user } = useAuth();
+  const isSpecialist = user?.role === "specialist";
+  const { checklist, responses, unsatisfied, isComplete: checklistComplete, saveItem } = useReviewChecklist(document);
+  const { approval, hasChain, activeStage } = useDocumentApproval(document);
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
   const [reviewComment, setReviewComment] = useState<string>(document?.comments || "");
   const [isPreviewLoading, setIsPreviewLoading] = useState(true);
   const [showRejectDialog, setShowRejectDialog] = useState(false);
-  const [initialChecklist, setInitialChecklist] = useState<{title: string, items: {id: string, label: string, checked: boolean}[]}>({ title: "", items: [] });
-  
-  // Parse existing comments to extract saved checklist state if available
-  const parseChecklistFromComments = useCallback((comments: string) => {
-    if (!comments) return null;
-    
-    // Check if the comments contain a checklist format
-    const checklistMatch = comments.match(/\[(x| )\] .+/g);
-    if (!checklistMatch) return null;
-    
-    const title = comments.split('\n')[0];
-    
-    const items = checklistMatch.map((line, idx) => {
-      const checked = line.startsWith('[x]');
-      const label = line.replace(/\[(x| )\] /, '');
-      return {
-        id: `existing-${idx}`,
-        label,
-        checked
-      };
-    });
-    
-    return { title, items };
-  }, []);
+  const [rejectionCodes, setRejectionCodes] = useState<string[]>([]);
   
   // Reset state when document changes
   React.useEffect(() => {
     if (document) {
-      const categoryChecklist = getChecklistForCategory(document.category);
-      setChecklist(categoryChecklist);
-      setReviewStatus(document.status || DocumentStatus.PENDING_REVIEW);
+      setNoteDrafts({});
       setReviewComment(document.comments || "");
       setShowRejectDialog(false);
-      
-      // Try to parse existing checklist from document comments
-      // Only do this for PENDING_REVIEW documents
-      if (document.status === DocumentStatus.PENDING_REVIEW && document.comments) {
-        const parsedChecklist = parseChecklistFromComments(document.comments);
-        if (parsedChecklist && parsedChecklist.items.length > 0) {
-          // If we have a previously saved checklist, merge it with our category checklist
-          // to preserve the checked state
-          const updatedItems = categoryChecklist.items.map(item => {
-            // Try to find a matching item from parsed checklist
-            const matchingItem = parsedChecklist.items.find(
-              parsed => parsed.label.toLowerCase() === item.label.toLowerCase()
-            );
-            return matchingItem ? { ...item, checked: matchingItem.checked } : item;
-          });
-          
-          setChecklist({
-            ...categoryChecklist,
-            items: updatedItems
-          });
-        }
-        
-        // Store the initial checklist state for comparison
-        setInitialChecklist(categoryChecklist);
-      }
+      setRejectionCodes([]);
       
       // Simulate document preview loading
       setIsPreviewLoading(true);
@@ -128,54 +84,34 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
       
       return () => clearTimeout(timer);
     }
-  }, [document, parseChecklistFromComments]);
+  }, [document]);
   
-  const toggleChecklistItem = useCallback((itemId: string) => {
-    setChecklist(prevChecklist => ({
-      ...prevChecklist,
-      items: prevChecklist.items.map(item => 
-        item.id === itemId ? { ...item, checked: !item.checked } : item
-      )
-    }));
-  }, []);
+  const toggleChecklistItem = useCallback((itemId: string, checked: boolean) => {
+    saveItem.mutate({ itemId, checked });
+  }, [saveItem]);
   
-  const checklistComplete = checklist.items.every(item => item.checked);
+  // Notes are saved when the field loses focus rather than on every keystroke
+  const saveChecklistNote = useCallback((itemId: string) => {
+    const draft = noteDrafts[itemId];
+    if (draft === undefined || draft.trim() === (responses[itemId]?.note ?? "")) return;
+    saveItem.mutate({ itemId, checked: responses[itemId]?.checked ?? false, note: draft });
+  }, [noteDrafts, responses, saveItem]);
   
-  // Review document mutation
+  // Review document mutation. The checklist itself is saved as it is filled in,
+  // and the server records it in the activity log when the document is approved.
   const reviewMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ status, comments, reasonCodes }: { status: string; comments?: string | null; reasonCodes?: string[] }) => {
       if (!document) return;
       
-      let comments = "";
-      
-      // Different comment handling based on status
-      if (reviewStatus === DocumentStatus.REJECTED) {
-        // For rejections, just use the rejection reason
-        comments = reviewComment.trim();
-      } else if (reviewStatus === DocumentStatus.APPROVED) {
-        // For approvals, include the full checklist with review comments
-        comments = reviewComment.trim() 
-          ? `${reviewComment}\n\n${checklist.title}:\n${checklist.items
-              .map(item => `[${item.checked ? 'x' : ' '}] ${item.label}`)
-              .join("\n")}`
-          : `${checklist.title}:\n${checklist.items
-              .map(item => `[${item.checked ? 'x' : ' '}] ${item.label}`)
-              .join("\n")}`;
-      } else if (reviewStatus === DocumentStatus.PENDING_REVIEW) {
-        // For "Keep in Review", just save the checklist state
-        comments = `${checklist.title}:\n${checklist.items
-          .map(item => `[${item.checked ? 'x' : ' '}] ${item.label}`)
-          .join("\n")}`;
-      }
-      
       const res = await apiRequest("PATCH", `/api/documents/${document.id}`, {
-        status: reviewStatus,
-        comments: comments,
+        status,
+        ...(comments !== undefined && { comments }),
+        ...(reasonCodes && { reasonCodes }),
       });
       
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { status }) => {
       // Invalidate multiple queries to ensure UI updates properly
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/documents`] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] }); // Refresh project list for progress bar
@@ -186,7 +122,7 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
       
       toast({
         title: "Document Reviewed",
-        description: `Document has been ${reviewStatus.replace('_', ' ')}.`,
+        description: `Document has been ${status.replace('_', ' ')}.`,
       });
       
       // Force page reload to ensure everything is up-to-date
@@ -197,52 +133,111 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
     onError: (error: Error) => {
       toast({
         title: "Review Failed",
-        description: error.message || "There was an error reviewing the document. Please try again.",
+        description: getApiErrorMessage(error) || "There was an error reviewing the document. Please try again.",
         variant: "destructive",
       });
     }
   });
   
+  // Categories with an approval chain are approved by signing off each stage in turn
+  const signOffMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/documents/${document!.id}/approval/sign-off`, {});
+      return await res.json() as { document: Document };
+    },
+    onSuccess: ({ document: updated }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${updated.id}/approval`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/documents`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/tasks`] });
+      
+      if (updated.status === DocumentStatus.APPROVED) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] }); // Refresh project list for progress bar
+        queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+        onClose();
+        toast({
+          title: "Document Approved",
+          description: "The final stage was signed off and the document is approved.",
+        });
+      } else {
+        toast({
+          title: "Stage Signed Off",
+          description: `${activeStage?.name ?? "The stage"} was signed off; the next stage has been notified.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sign-Off Failed",
+        description: getApiErrorMessage(error) || "There was an error signing off this stage. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // The checklist only gates the stage that carries it when there is a chain
+  const checklistRequired = !hasChain || !!activeStage?.checklistRequired;
+  const canApprove = (!checklistRequired || checklistComplete) && (!hasChain || !!approval?.canSignOff);
+  
   const handleApprove = () => {
+    if (hasChain) {
+      if (checklistRequired && !checklistComplete) {
+        toast({
+          title: "Checklist Incomplete",
+          description: "All required checklist items must be completed before signing off this stage.",
+          variant: "destructive"
+        });
+        return;
+      }
+      signOffMutation.mutate();
+      return;
+    }
+    
     if (!checklistComplete) {
       toast({
         title: "Checklist Incomplete",
-        description: "All checklist items must be completed before approving this document.",
+        description: "All required checklist items must be completed before approving this document.",
         variant: "destructive"
       });
       return;
     }
     
-    setReviewStatus(DocumentStatus.APPROVED);
-    reviewMutation.mutate();
+    // Clears any earlier rejection reason
+    reviewMutation.mutate({ status: DocumentStatus.APPROVED, comments: null });
   };
   
   const handleReject = () => {
     setReviewComment(""); // Clear any existing comment
+    setRejectionCodes([]);
     setShowRejectDialog(true);
   };
   
   const handleKeepInReview = () => {
-    setReviewStatus(DocumentStatus.PENDING_REVIEW);
-    reviewMutation.mutate();
+    reviewMutation.mutate({ status: DocumentStatus.PENDING_REVIEW });
   };
   
   const submitRejection = () => {
-    if (!reviewComment || reviewComment.trim() === '') {
+    if (rejectionCodes.length === 0) {
       toast({
         title: "Rejection Reason Required",
-        description: "Please provide a reason for rejecting this document.",
+        description: "Please choose at least one reason for rejecting this document.",
         variant: "destructive"
       });
       return;
     }
     
-    setReviewStatus(DocumentStatus.REJECTED);
-    reviewMutation.mutate();
+    reviewMutation.mutate({
+      status: DocumentStatus.REJECTED,
+      comments: reviewComment.trim() || null,
+      reasonCodes: rejectionCodes,
+    });
   };
   
   if (!document) return null;
   
+  const isRejectedWithReason = document.status === DocumentStatus.REJECTED &&
+    (!!document.comments || !!document.rejectionReasons?.length);
+  
   return (
     <>
       <Dialog open={isOpen} onOpenChange={onClose}>
@@ -257,11 +252,12 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
             </DialogDescription>
           </DialogHeader>
           
-          {document.status === DocumentStatus.REJECTED && document.comments && (
+          {isRejectedWithReason && (
             <Alert variant="destructive" className="mt-2 mb-2">
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Rejection Reason</AlertTitle>
               <AlertDescription className="max-h-[100px] overflow-y-auto whitespace-pre-wrap">
+                <RejectionReasonList codes={document.rejectionReasons} />
                 {document.comments}
               </AlertDescription>
             </Alert>
@@ -277,8 +273,10 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
                 </div>
               ) : (
                 <>
-                  {/* For PDFs, embed the PDF viewer using blob URL for better compatibility */}
-                  {document.fileType === 'application/pdf' || document.fileType === 'text/plain' ? (
+                  {/* PDFs and images are shown as server-rendered page images with review annotations; text files and anything without previews are embedded */}
+                  {hasPagePreviews(document) ? (
+                    <PDFViewer document={document} />
+                  ) : document.fileType === 'application/pdf' || document.fileType === 'text/plain' ? (
                     <>
                       <PDFViewer document={document} />
                       {/* Add Open in New Window button at bottom right */}
@@ -288,22 +286,7 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
                           size="sm"
                           className="bg-primary/90 text-white hover:bg-primary backdrop-blur"
                           onClick={() => {
-                            try {
-                              // Just use direct data URL as most reliable method - other methods don't work for PDFs reliably
-                              // Check for placeholder text which causes errors
-                              const content = document.fileContent;
-                              if (content.includes('[Your Name]') || content.includes('[') && content.includes(']')) {
-                                console.error("Document contains placeholder text which is invalid for PDF");
-                                alert("This document contains invalid placeholder text. Please regenerate the cover letter.");
-                                return;
-                              }
-                              
-                              const url = `data:${document.fileType};base64,${content}`;
-                              window.open(url, '_blank');
-                            } catch (error: any) {
-                              console.error("Error opening file:", error);
-                              alert("Error: " + (error.message || "Could not open file in new window"));
-                            }
+                            window.open(getDocumentContentUrl(document.id), '_blank');
                           }}
                         >
                           <ExternalLink className="h-4 w-4 mr-2" />
@@ -331,22 +314,7 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
                           variant="secondary" 
                           size="sm"
                           onClick={() => {
-                            // Use direct data URI which is more reliable and skips atob
-                            try {
-                              // Check for placeholder text which causes errors
-                              const content = document.fileContent;
-                              if (content.includes('[Your Name]') || content.includes('[') && content.includes(']')) {
-                                console.error("Document contains placeholder text which is invalid for PDF");
-                                alert("This document contains invalid placeholder text. Please regenerate the cover letter.");
-                                return;
-                              }
-                              
-                              const url = `data:${document.fileType};base64,${content}`;
-                              window.open(url, '_blank');
-                            } catch (error) {
-                              console.error("Error opening in new window:", error);
-                              alert("Error: Could not open file in new window. Please try the download option instead.");
-                            }
+                            window.open(getDocumentContentUrl(document.id), '_blank');
                           }}
                         >
                           <ExternalLink className="h-4 w-4 mr-2" />
@@ -357,18 +325,10 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
                           variant="outline" 
                           size="sm"
                           onClick={async () => {
-                            // Check for placeholder text which causes errors
-                            const content = document.fileContent;
-                            if (content.includes('[Your Name]') || content.includes('[') && content.includes(']')) {
-                              console.error("Document contains placeholder text which is invalid for PDF");
-                              alert("This document contains invalid placeholder text. Please regenerate the cover letter.");
-                              return;
-                            }
-                            
                             try {
                               const success = await downloadDocument(
+                                document.id,
                                 document.fileName,
-                                document.fileContent,
                                 document.fileType
                               );
                               
@@ -399,52 +359,92 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
               </div>
               
               <div className="flex-1 overflow-auto p-3">              
-                {/* Show only the checklist when in review mode */}
-                {(document.status === DocumentStatus.PENDING_REVIEW || reviewStatus === DocumentStatus.PENDING_REVIEW) && (
+                {hasChain && approval && (
+                  <div className="mb-4 pb-4 border-b">
+                    <h4 className="font-medium text-sm mb-2">Approval Chain</h4>
+                    <ApprovalChainProgress approval={approval} />
+                    {activeStage && !approval.canSignOff && document.status !== DocumentStatus.APPROVED && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Waiting for the {activeStage.name} stage to be signed off.
+                      </p>
+                    )}
+                  </div>
+                )}
+                
+                {/* The checklist has to be completed before a version can be approved */}
+                {document.status !== DocumentStatus.APPROVED && (
                   <>
-                    <h4 className="font-medium text-sm mb-3">Review Checklist</h4>
-                    <div className="space-y-2">
-                      {checklist.items.map((item) => (
-                        <div key={item.id} className="flex items-start gap-2">
-                          <Checkbox
-                            id={item.id}
-                            checked={item.checked}
-                            onCheckedChange={() => toggleChecklistItem(item.id)}
-                          />
-                          <Label
-                            htmlFor={item.id}
-                            className="text-sm leading-tight cursor-pointer"
-                          >
-                            {item.label}
-                          </Label>
-                        </div>
-                      ))}
-                    </div>
+                    <h4 className="font-medium text-sm mb-3">{checklist?.title ?? "Review Checklist"}</h4>
+                    {!checklist ? (
+                      <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {checklist.items.map((item) => (
+                          <div key={item.id} className="space-y-1.5">
+                            <div className="flex items-start gap-2">
+                              <Checkbox
+                                id={item.id}
+                                checked={responses[item.id]?.checked ?? false}
+                                onCheckedChange={(checked) => toggleChecklistItem(item.id, checked === true)}
+                              />
+                              <Label
+                                htmlFor={item.id}
+                                className="text-sm leading-tight cursor-pointer"
+                              >
+                                {item.label}
+                                {!item.required && (
+                                  <span className="text-xs text-muted-foreground"> (if applicable)</span>
+                                )}
+                              </Label>
+                            </div>
+                            {item.expectation && (
+                              <p className="ml-6 text-xs text-muted-foreground">{item.expectation}</p>
+                            )}
+                            <Textarea
+                              value={noteDrafts[item.id] ?? responses[item.id]?.note ?? ""}
+                              onChange={(e) => setNoteDrafts(drafts => ({ ...drafts, [item.id]: e.target.value }))}
+                              onBlur={() => saveChecklistNote(item.id)}
+                              placeholder="Note (optional)"
+                              maxLength={2000}
+                              className="ml-6 w-[calc(100%-1.5rem)] min-h-[32px] py-1 text-xs"
+                              rows={1}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     
-                    {!checklistComplete && (
+                    {checklist && !checklistComplete && (
                       <div className="mt-4 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-700">
-                        <strong>Note:</strong> All checklist items must be completed to approve this document.
+                        <strong>Note:</strong> {unsatisfied.length} required item{unsatisfied.length === 1 ? "" : "s"} must be checked to approve this document.
                       </div>
                     )}
                   </>
                 )}
                 
                 {/* Show rejection reason if document is rejected */}
-                {document.status === DocumentStatus.REJECTED && document.comments && (
-                  <div className="mt-2">
+                {isRejectedWithReason && (
+                  <div className="mt-4">
                     <h4 className="font-medium text-sm mb-2">Rejection Reason</h4>
-                    <div className="p-3 bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-700 rounded text-sm text-red-700 whitespace-pre-wrap">
-                      {document.comments}
+                    <div className="p-3 bg-red-50 dark:bg-red-900 border border-red-200 dark:border-red-700 rounded text-sm text-red-700 whitespace-pre-wrap space-y-2">
+                      <RejectionReasonList codes={document.rejectionReasons} />
+                      {document.comments && <div>{document.comments}</div>}
                     </div>
                   </div>
                 )}
                 
                 {/* Show saved checklist if document is approved */}
-                {document.status === DocumentStatus.APPROVED && document.comments && (
+                {document.status === DocumentStatus.APPROVED && (
                   <div className="mt-2">
                     <h4 className="font-medium text-sm mb-2">Approval Checklist</h4>
                     <div className="p-3 bg-green-50 dark:bg-green-900 border border-green-200 dark:border-green-700 rounded text-sm">
-                      <div className="whitespace-pre-wrap">{document.comments}</div>
+                      <ReviewChecklistProgress
+                        document={document}
+                        tone="approved"
+                        fallback={<div className="whitespace-pre-wrap">{document.comments || "No checklist was recorded for this version."}</div>}
+                      />
                     </div>
                   </div>
                 )}
@@ -460,40 +460,46 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
                     Close
                   </Button>
                   <div className="flex gap-3 flex-wrap min-w-0">
-                    <Button 
-                      variant="outline"
-                      size="sm"
-                      onClick={handleKeepInReview}
-                      disabled={reviewMutation.isPending}
-                      className="bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100 whitespace-nowrap"
-                    >
-                      <Clock className="h-4 w-4 mr-1" />
-                      Keep in Review
-                    </Button>
-                    <Button 
-                      variant="outline"
-                      size="sm"
-                      onClick={handleReject}
-                      disabled={reviewMutation.isPending}
-                      className="bg-red-50 dark:bg-red-900 border-red-200 dark:border-red-700 text-red-700 hover:bg-red-100 whitespace-nowrap"
-                    >
-                      <ThumbsDown className="h-4 w-4 mr-1" />
-                      Reject
-                    </Button>
-                    <Button 
-                      variant="outline"
-                      size="sm"
-                      onClick={handleApprove}
-                      disabled={!checklistComplete || reviewMutation.isPending}
-                      className={`whitespace-nowrap ${
-                        checklistComplete 
-                          ? "bg-green-50 dark:bg-green-900 border-green-200 dark:border-green-700 text-green-700 hover:bg-green-100" 
-                          : "bg-muted border-border text-gray-400 cursor-not-allowed"
-                      }`}
-                    >
-                      <ThumbsUp className="h-4 w-4 mr-1" />
-                      Approve
-                    </Button>
+                    {isSpecialist && (
+                      <>
+                        <Button 
+                          variant="outline"
+                          size="sm"
+                          onClick={handleKeepInReview}
+                          disabled={reviewMutation.isPending}
+                          className="bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100 whitespace-nowrap"
+                        >
+                          <Clock className="h-4 w-4 mr-1" />
+                          Keep in Review
+                        </Button>
+                        <Button 
+                          variant="outline"
+                          size="sm"
+                          onClick={handleReject}
+                          disabled={reviewMutation.isPending}
+                          className="bg-red-50 dark:bg-red-900 border-red-200 dark:border-red-700 text-red-700 hover:bg-red-100 whitespace-nowrap"
+                        >
+                          <ThumbsDown className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {(isSpecialist || hasChain) && (
+                      <Button 
+                        variant="outline"
+                        size="sm"
+                        onClick={handleApprove}
+                        disabled={!canApprove || reviewMutation.isPending || signOffMutation.isPending}
+                        className={`whitespace-nowrap ${
+                          canApprove 
+                            ? "bg-green-50 dark:bg-green-900 border-green-200 dark:border-green-700 text-green-700 hover:bg-green-100" 
+                            : "bg-muted border-border text-gray-400 cursor-not-allowed"
+                        }`}
+                      >
+                        <ThumbsUp className="h-4 w-4 mr-1" />
+                        {hasChain ? "Sign Off" : "Approve"}
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -508,28 +514,33 @@ export function DocumentPreviewDialog({ isOpen, onClose, document, projectId }:
           <AlertDialogHeader>
             <AlertDialogTitle>Rejection Reason</AlertDialogTitle>
             <AlertDialogDescription>
-              Please provide a reason for rejecting this document.
+              Choose why this document is being rejected, and add any detail the submitter needs.
             </AlertDialogDescription>
           </AlertDialogHeader>
-          <div className="py-4">
+          <div className="py-4 space-y-3">
+            <RejectionReasonPicker
+              categories={[document.category]}
+              value={rejectionCodes}
+              onChange={setRejectionCodes}
+            />
+            {rejectionCodes.length === 0 && (
+              <p className="text-xs text-red-500">
+                At least one rejection reason is required
+              </p>
+            )}
             <textarea
               className="w-full min-h-[100px] rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              placeholder="Enter rejection reason..."
+              placeholder="Additional detail (optional)..."
               value={reviewComment}
               onChange={(e) => setReviewComment(e.target.value)}
             />
-            {(!reviewComment || reviewComment.trim() === '') && (
-              <p className="text-xs text-red-500 mt-1">
-                A rejection reason is required
-              </p>
-            )}
           </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
               onClick={submitRejection}
               className="bg-red-600 hover:bg-red-700"
-              disabled={!reviewComment || reviewComment.trim() === ''}
+              disabled={rejectionCodes.length === 0}
             >
               Reject Document
             </AlertDialogAction>
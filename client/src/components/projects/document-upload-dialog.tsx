@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { FileUpload } from "@/components/ui/file-upload";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { uploadDocumentInChunks, type UploadProgress } from "@/lib/utils/chunked-upload";
 import { useToast } from "@/hooks/use-toast";
 import { formatDocumentCategory } from "@/lib/utils/document-utils";
+import type { Document } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -17,27 +19,30 @@ interface DocumentUploadDialogProps {
   onClose: () => void;
   projectId: number;
   category?: string; // Optional pre-selected category
+  previousVersion?: Document | null; // Upload a new version of this document instead of a new document
 }
 
-export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: DocumentUploadDialogProps) {
+export function DocumentUploadDialog({ isOpen, onClose, projectId, category, previousVersion }: DocumentUploadDialogProps) {
   const { toast } = useToast();
   const [isUploading, setIsUploading] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [dialogWidth, setDialogWidth] = useState("max-w-md");
   
   const uploadMutation = useMutation({
-    mutationFn: async ({ file, base64, category }: { file: File, base64: string, category: string }) => {
+    mutationFn: async ({ file, category, onProgress }: {
+      file: File,
+      category: string,
+      onProgress: (progress: UploadProgress) => void
+    }) => {
       setIsUploading(true);
-      const res = await apiRequest("POST", `/api/projects/${projectId}/documents`, {
+      return await uploadDocumentInChunks({
         projectId,
         category,
-        fileName: file.name,
-        fileType: file.type,
-        fileSize: file.size,
-        fileContent: base64,
+        file,
+        previousVersionId: previousVersion?.id,
         status: "pending_review",
+        onProgress,
       });
-      return await res.json();
     },
     onSuccess: () => {
       // Invalidate multiple queries to ensure UI updates properly
@@ -45,12 +50,9 @@ export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: D
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] }); // Refresh project list for progress bar
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] }); // Refresh project details
       queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] }); // Refresh activity log
-      
-      onClose();
-      toast({
-        title: "Document Uploaded",
-        description: "Your document has been uploaded successfully and is pending review.",
-      });
+      if (previousVersion) {
+        queryClient.invalidateQueries({ queryKey: [`/api/documents/${previousVersion.id}/versions`] });
+      }
       
       // No page reload needed - query invalidation handles updates
     },
@@ -58,14 +60,13 @@ export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: D
       console.error('Document upload error:', error);
       let errorMessage = "There was an error uploading your document. Please try again.";
       
-      if (error.message.includes('413') || error.message.includes('too large') || error.message.includes('INSUFFICIENT_RESOURCES')) {
-        errorMessage = "File size too large. Please use a file smaller than 50MB.";
-      } else if (error.message.includes('408') || error.message.includes('timeout')) {
-        errorMessage = "Upload timeout. Please try with a smaller file or check your connection.";
-      } else if (error.message.includes('aborted') || error.message.includes('ERR_INSUFFICIENT_RESOURCES') || error.message.includes('Failed to fetch')) {
-        errorMessage = "Upload failed. Please try again or use a smaller file.";
-      } else if (error.message.includes('response is too large')) {
-        errorMessage = "File too large for database. Please use a file smaller than 50MB.";
+      if (error.message.includes('413') || error.message.includes('too large')) {
+        errorMessage = "File size too large. Please use a file smaller than 500MB.";
+      } else if (error.message.includes('408') || error.message.includes('timeout') || error.message.includes('Network error') || error.message.includes('Failed to fetch')) {
+        // Chunks that made it to the server are kept, so retrying only sends the rest
+        errorMessage = "The connection was interrupted. Select the same file again to resume where the upload stopped.";
+      } else if (error.message.includes('422') || error.message.includes('Checksum mismatch')) {
+        errorMessage = "The file was corrupted in transit. Please try the upload again.";
       }
       
       toast({
@@ -107,8 +108,25 @@ export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: D
     }
   }, [selectedFiles]);
 
-  const handleFileSelect = (file: File, base64: string, category: string) => {
-    uploadMutation.mutate({ file, base64, category });
+  const handleFileSelect = (file: File, category: string, onProgress: (progress: UploadProgress) => void) => {
+    return uploadMutation.mutateAsync({ file, category, onProgress });
+  };
+
+  const handleUploadComplete = (uploadedCount: number) => {
+    onClose();
+    if (previousVersion) {
+      toast({
+        title: "New Version Uploaded",
+        description: `The new version of "${previousVersion.fileName}" is pending review. Earlier versions are now marked as superseded.`,
+      });
+      return;
+    }
+    toast({
+      title: uploadedCount === 1 ? "Document Uploaded" : "Documents Uploaded",
+      description: uploadedCount === 1
+        ? "Your document has been uploaded successfully and is pending review."
+        : `${uploadedCount} documents have been uploaded successfully and are pending review.`,
+    });
   };
 
   const handleFilesChange = (files: File[]) => {
@@ -116,9 +134,12 @@ export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: D
   };
 
   // Determine the dialog title based on whether a category is selected
-  const dialogTitle = category 
-    ? `Upload ${formatDocumentCategory(category)} Documents` 
-    : "Upload Documents";
+  const uploadCategory = previousVersion?.category ?? category;
+  const dialogTitle = previousVersion
+    ? "Upload New Version"
+    : category 
+      ? `Upload ${formatDocumentCategory(category)} Documents` 
+      : "Upload Documents";
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -126,7 +147,9 @@ export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: D
         <DialogHeader>
           <DialogTitle>{dialogTitle}</DialogTitle>
           <DialogDescription>
-            {category 
+            {previousVersion
+              ? `Select the file that replaces "${previousVersion.fileName}" (v${previousVersion.version}). It can have a different name; it will be tracked as the next version of this document.`
+              : category 
               ? `Select one or more documents to upload for the ${formatDocumentCategory(category)} category. All documents will be reviewed by a permit specialist.`
               : "Select one or more documents to upload for this project. You can upload multiple files at once in the same category. All documents will be reviewed by a permit specialist."
             }
@@ -137,10 +160,12 @@ export function DocumentUploadDialog({ isOpen, onClose, projectId, category }: D
           <FileUpload 
             onFileSelect={handleFileSelect}
             onFilesChange={handleFilesChange}
+            onComplete={handleUploadComplete}
             acceptedFileTypes=".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png"
-            disabled={isUploading || uploadMutation.isPending}
-            maxSizeMB={50} // 50MB for database compatibility
-            category={category} // Pass the pre-selected category
+            disabled={isUploading}
+            maxSizeMB={500}
+            category={uploadCategory} // Pass the pre-selected category
+            multiple={!previousVersion}
           />
         </div>
       </DialogContent>
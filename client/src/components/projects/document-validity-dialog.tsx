@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils/date-utils";
+import { getSuggestedValidityMonths, suggestExpiryDate } from "@shared/document-validity";
+import type { Document } from "@shared/schema";
+
+const toDateInput = (date: Date | string | null) => date ? format(new Date(date), "yyyy-MM-dd") : "";
+
+// Date inputs give a calendar day; read it as local midnight rather than UTC
+const fromDateInput = (value: string) => value ? new Date(`${value}T00:00:00`) : null;
+
+/**
+ * Sets the effective and expiry dates of a time-limited document version.
+ * The expiry date is suggested from the category's usual validity period
+ * until it is entered by hand.
+ */
+export function DocumentValidityDialog({ document, onClose }: {
+  document: Document | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [expiryEdited, setExpiryEdited] = useState(false);
+
+  useEffect(() => {
+    setEffectiveDate(toDateInput(document?.effectiveDate ?? null));
+    setExpiresAt(toDateInput(document?.expiresAt ?? null));
+    setExpiryEdited(!!document?.expiresAt);
+  }, [document]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (validity: { effectiveDate: Date | null; expiresAt: Date | null }) => {
+      const res = await apiRequest("PUT", `/api/documents/${document!.id}/validity`, validity);
+      return await res.json() as Document;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${updated.projectId}/documents`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${updated.projectId}/activities`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/document-expirations"] });
+      toast({
+        title: "Validity Updated",
+        description: updated.expiresAt
+          ? `${updated.fileName} is valid until ${formatDate(updated.expiresAt)}.`
+          : `${updated.fileName} no longer has an expiry date.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!document) return null;
+  const suggestedMonths = getSuggestedValidityMonths(document.category);
+
+  const handleEffectiveDateChange = (value: string) => {
+    setEffectiveDate(value);
+    const date = fromDateInput(value);
+    if (!expiryEdited && date) {
+      setExpiresAt(toDateInput(suggestExpiryDate(document.category, date)));
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Validity Period</DialogTitle>
+          <DialogDescription>
+            {document.fileName}
+            {suggestedMonths
+              ? ` — documents in this category are usually valid for ${suggestedMonths} months.`
+              : " — this category has no usual validity period; enter the expiry date if the document has one."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="validity-effective-date">Effective</Label>
+            <Input
+              id="validity-effective-date"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => handleEffectiveDateChange(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="validity-expires-at">Expires</Label>
+            <Input
+              id="validity-expires-at"
+              type="date"
+              value={expiresAt}
+              onChange={(e) => {
+                setExpiresAt(e.target.value);
+                setExpiryEdited(true);
+              }}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => saveMutation.mutate({ effectiveDate: null, expiresAt: null })}
+            disabled={saveMutation.isPending || (!document.effectiveDate && !document.expiresAt)}
+          >
+            Remove Dates
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate({ effectiveDate: fromDateInput(effectiveDate), expiresAt: fromDateInput(expiresAt) })}
+              disabled={!expiresAt || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
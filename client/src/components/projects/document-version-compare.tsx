@@ -0,0 +1,263 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, FilePlus2, FileMinus2, FileDiff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+interface ComparedDocument {
+  id: number;
+  version: number;
+  fileName: string;
+}
+
+interface ComparedPage {
+  pageNumber: number;
+  status: "unchanged" | "changed" | "added" | "removed";
+  changedPixels: number;
+  changedRatio: number;
+  overlayUrl: string | null;
+  addedLines: string[];
+  removedLines: string[];
+}
+
+interface DocumentComparisonResult {
+  id: number;
+  status: "ready";
+  basePageCount: number;
+  targetPageCount: number;
+  truncated: boolean;
+  pages: ComparedPage[];
+  summary: {
+    changedPages: number;
+    addedPages: number;
+    removedPages: number;
+    addedLines: number;
+    removedLines: number;
+  };
+}
+
+// As returned by GET /api/document-comparisons/:id. New comparisons run in the
+// background on the server, so they start out pending.
+type ComparisonState =
+  | { id: number; status: "pending" }
+  | { id: number; status: "failed"; message: string }
+  | DocumentComparisonResult;
+
+// As returned by POST /api/documents/:id/compare
+type RequestedComparison = ComparisonState & {
+  baseDocument: ComparedDocument;
+  targetDocument: ComparedDocument;
+};
+
+interface DocumentVersionCompareProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The two versions to compare; the server always treats the older one as the base
+  versionIds: [number, number];
+}
+
+const pageStatusLabels: Record<ComparedPage["status"], string> = {
+  unchanged: "No changes",
+  changed: "Changed",
+  added: "Added page",
+  removed: "Removed page",
+};
+
+export function DocumentVersionCompare({ isOpen, onClose, versionIds }: DocumentVersionCompareProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [documentId, otherId] = versionIds;
+
+  // Rendering and diffing runs in the background on the server and can take a while for
+  // large drawing sets; the result is cached there, so re-opening the same pair is quick
+  const { data: requested, isLoading: isRequesting, error: requestError } = useQuery<RequestedComparison, Error>({
+    queryKey: [`/api/documents/${documentId}/compare`, otherId],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/documents/${documentId}/compare`, { otherId });
+      return await res.json();
+    },
+    enabled: isOpen,
+    retry: false,
+  });
+  const { data: polled, error: pollError } = useQuery<ComparisonState, Error>({
+    queryKey: [`/api/document-comparisons/${requested?.id}`],
+    enabled: isOpen && requested?.status === "pending",
+    refetchInterval: (query) => query.state.data?.status === "ready" || query.state.data?.status === "failed" ? false : 3000,
+  });
+
+  const state = polled ?? requested;
+  const comparison = state?.status === "ready" ? state : undefined;
+  const isLoading = isRequesting || state?.status === "pending";
+  const error = requestError ?? pollError ?? (state?.status === "failed" ? new Error(state.message) : null);
+
+  const visiblePages = comparison?.pages.filter(page => showUnchanged || page.status !== "unchanged") ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            {requested
+              ? `v${requested.baseDocument.version} (${requested.baseDocument.fileName}) compared with v${requested.targetDocument.version} (${requested.targetDocument.fileName})`
+              : "Highlighting what changed between the selected versions"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-grow overflow-auto p-1">
+          {isLoading ? (
+            <div className="py-12 flex flex-col items-center gap-3 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <p>Rendering and comparing pages. This can take a minute for large drawing sets...</p>
+            </div>
+          ) : error ? (
+            <div className="py-8 flex items-center justify-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              <p>{getApiErrorMessage(error)}</p>
+            </div>
+          ) : comparison ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary">
+                  <FileDiff className="h-3 w-3 mr-1" />
+                  {comparison.summary.changedPages} changed page{comparison.summary.changedPages === 1 ? "" : "s"}
+                </Badge>
+                {comparison.summary.addedPages > 0 && (
+                  <Badge variant="secondary">
+                    <FilePlus2 className="h-3 w-3 mr-1" />
+                    {comparison.summary.addedPages} added
+                  </Badge>
+                )}
+                {comparison.summary.removedPages > 0 && (
+                  <Badge variant="secondary">
+                    <FileMinus2 className="h-3 w-3 mr-1" />
+                    {comparison.summary.removedPages} removed
+                  </Badge>
+                )}
+                <Badge variant="outline" className="text-red-700 border-red-200">
+                  +{comparison.summary.addedLines} text line{comparison.summary.addedLines === 1 ? "" : "s"}
+                </Badge>
+                <Badge variant="outline" className="text-green-700 border-green-200">
+                  -{comparison.summary.removedLines} text line{comparison.summary.removedLines === 1 ? "" : "s"}
+                </Badge>
+
+                <div className="ml-auto flex items-center gap-2">
+                  <Switch id="show-unchanged-pages" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                  <Label htmlFor="show-unchanged-pages" className="text-sm">Show unchanged pages</Label>
+                </div>
+              </div>
+
+              <div className="p-3 bg-blue-50 rounded-lg text-sm text-blue-700 flex flex-wrap gap-4">
+                <span className="flex items-center gap-2">
+                  <span className="inline-block h-3 w-3 rounded-sm bg-red-600" />
+                  Added in v{requested!.targetDocument.version}
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="inline-block h-3 w-3 rounded-sm bg-green-600" />
+                  Removed from v{requested!.baseDocument.version}
+                </span>
+              </div>
+
+              {comparison.truncated && (
+                <div className="p-3 bg-amber-50 rounded-lg text-sm text-amber-700 flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  Only the first {comparison.pages.length} of {Math.max(comparison.basePageCount, comparison.targetPageCount)} pages were compared.
+                </div>
+              )}
+
+              {visiblePages.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  <p>No visual or text differences were found between these versions.</p>
+                </div>
+              ) : (
+                visiblePages.map(page => (
+                  <div key={page.pageNumber} className="border rounded-lg bg-card">
+                    <div className="flex items-center justify-between px-4 py-2 border-b">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">Page {page.pageNumber}</span>
+                        <Badge variant={page.status === "unchanged" ? "outline" : "secondary"}>
+                          {pageStatusLabels[page.status]}
+                        </Badge>
+                      </div>
+                      {page.status === "changed" && (
+                        <span className="text-xs text-muted-foreground">
+                          {(page.changedRatio * 100).toFixed(2)}% of the page differs
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="grid gap-4 p-4 lg:grid-cols-[2fr_1fr]">
+                      {page.overlayUrl ? (
+                        <a href={page.overlayUrl} target="_blank" rel="noopener noreferrer">
+                          <img
+                            src={page.overlayUrl}
+                            alt={`Differences on page ${page.pageNumber}`}
+                            loading="lazy"
+                            className="w-full border rounded bg-white"
+                          />
+                        </a>
+                      ) : (
+                        <div className="flex items-center justify-center border rounded bg-muted/30 text-sm text-muted-foreground min-h-[120px]">
+                          Page is visually identical
+                        </div>
+                      )}
+
+                      <div className="text-sm space-y-3">
+                        {page.addedLines.length === 0 && page.removedLines.length === 0 ? (
+                          <p className="text-muted-foreground">No text changes on this page.</p>
+                        ) : (
+                          <>
+                            {page.removedLines.length > 0 && (
+                              <div>
+                                <p className="font-medium text-xs text-muted-foreground mb-1">Removed text</p>
+                                <ul className="space-y-1">
+                                  {page.removedLines.map((line, index) => (
+                                    <li key={index} className="px-2 py-1 rounded bg-green-50 text-green-800 line-through break-words">
+                                      {line}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                            {page.addedLines.length > 0 && (
+                              <div>
+                                <p className="font-medium text-xs text-muted-foreground mb-1">Added text</p>
+                                <ul className="space-y-1">
+                                  {page.addedLines.map((line, index) => (
+                                    <li key={index} className="px-2 py-1 rounded bg-red-50 text-red-800 break-words">
+                                      {line}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { FileText, Eye, GitCompare, Trash2, AlertTriangle, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { FileText, Eye, GitCompare, Trash2, AlertTriangle, CheckCircle2, XCircle, Clock, Upload, ArrowUpRight, PenLine } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -12,7 +12,7 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Document } from "@shared/schema";
+import { Document, DocumentStatus } from "@shared/schema";
 import { 
   getDocumentStatusColor, 
   getDocumentStatusLabel,
@@ -21,26 +21,30 @@ import {
 import { formatDateTime } from "@/lib/utils/date-utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { DocumentVersionCompare } from "./document-version-compare";
 
 interface DocumentVersionHistoryProps {
   isOpen: boolean;
   onClose: () => void;
   document: Document;
   projectId: number;
+  onUploadNewVersion?: (document: Document) => void;
 }
 
 export function DocumentVersionHistory({ 
   isOpen, 
   onClose, 
   document, 
-  projectId 
+  projectId,
+  onUploadNewVersion
 }: DocumentVersionHistoryProps) {
   const [selectedVersionIds, setSelectedVersionIds] = useState<number[]>([]);
   const [mode, setMode] = useState<'compare' | 'delete'>('compare');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [compareIds, setCompareIds] = useState<[number, number] | null>(null);
   const { toast } = useToast();
   
-  // Fetch all versions of this specific document (same filename in same category)
+  // Fetch every version in this document's lineage, including versions uploaded under other file names
   const { data: allVersions = [], isLoading } = useQuery<Document[]>({
     queryKey: [`/api/documents/${document.id}/versions`],
     enabled: isOpen,
@@ -48,6 +52,8 @@ export function DocumentVersionHistory({
   
   // Sort versions in descending order (newest first)
   const sortedVersions = [...allVersions].sort((a, b) => b.version - a.version);
+  const versionsById = new Map(sortedVersions.map(v => [v.id, v]));
+  const latestVersion = sortedVersions.find(v => v.status !== DocumentStatus.SUPERSEDED) ?? sortedVersions[0];
   
   const handleVersionSelect = (docId: number) => {
     if (selectedVersionIds.includes(docId)) {
@@ -66,6 +72,8 @@ export function DocumentVersionHistory({
   };
   
   const canCompare = selectedVersionIds.length === 2 && mode === 'compare';
+  // Visual comparison renders pages, so it is only offered for PDFs
+  const selectedArePdfs = selectedVersionIds.every(id => versionsById.get(id)?.fileType === "application/pdf");
   const canDelete = selectedVersionIds.length > 0 && mode === 'delete';
   
   // Delete mutation
@@ -144,7 +152,7 @@ export function DocumentVersionHistory({
           <DialogHeader>
             <DialogTitle>Document Version History</DialogTitle>
             <DialogDescription>
-              {formatDocumentCategory(document.category)} - Manage document versions
+              {formatDocumentCategory(document.category)} - Every version of this document, including uploads under a different file name
             </DialogDescription>
           </DialogHeader>
           
@@ -163,7 +171,7 @@ export function DocumentVersionHistory({
             <TabsContent value="compare" className="flex-grow overflow-auto p-1">
               <div className="mb-4 p-3 bg-blue-50 rounded-lg">
                 <p className="text-sm text-blue-700">
-                  Select up to 2 versions to compare their differences.
+                  Select 2 versions to compare their differences. Changed pages are highlighted for PDF documents.
                 </p>
               </div>
             </TabsContent>
@@ -198,16 +206,19 @@ export function DocumentVersionHistory({
                 <p>No versions found</p>
               </div>
             ) : (
-              <div className="space-y-4">
-                {sortedVersions.map((ver) => {
+              <div className="space-y-4 border-l-2 border-muted pl-4">
+                {sortedVersions.map((ver, index) => {
                   const isSelected = selectedVersionIds.includes(ver.id);
                   const { bg, text } = getDocumentStatusColor(ver.status);
-                  const isCurrentVersion = ver.id === document.id;
+                  const isCurrentVersion = ver.id === latestVersion?.id;
+                  const olderVersion = sortedVersions[index + 1];
+                  const renamedFrom = olderVersion && olderVersion.fileName !== ver.fileName ? olderVersion.fileName : null;
+                  const supersededBy = ver.supersededById ? versionsById.get(ver.supersededById) : undefined;
                   
                   return (
                     <div 
                       key={ver.id} 
-                      className={`p-4 border rounded-lg ${isSelected ? 'bg-primary/5 border-primary' : 'bg-card'} ${isCurrentVersion ? 'ring-2 ring-primary/20' : ''}`}
+                      className={`p-4 border rounded-lg ${isSelected ? 'bg-primary/5 border-primary' : 'bg-card'} ${isCurrentVersion ? 'ring-2 ring-primary/20' : ''} ${ver.status === DocumentStatus.SUPERSEDED ? 'opacity-80' : ''}`}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center">
@@ -235,6 +246,21 @@ export function DocumentVersionHistory({
                                 {getDocumentStatusLabel(ver.status)}
                               </span>
                             </div>
+                            {renamedFrom && (
+                              <div className="text-xs text-muted-foreground flex items-center mt-1">
+                                <PenLine className="h-3 w-3 mr-1" />
+                                <span>Renamed from "{renamedFrom}"</span>
+                              </div>
+                            )}
+                            {ver.status === DocumentStatus.SUPERSEDED && ver.supersededById && (
+                              <div className="text-xs text-muted-foreground flex items-center mt-1">
+                                <ArrowUpRight className="h-3 w-3 mr-1" />
+                                <span>
+                                  Superseded by {supersededBy ? `v${supersededBy.version}` : "a newer version"}
+                                  {ver.supersededAt && ` on ${formatDateTime(ver.supersededAt)}`}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                         <div>
@@ -296,8 +322,19 @@ export function DocumentVersionHistory({
               <Button variant="outline" onClick={onClose}>
                 Close
               </Button>
+              {onUploadNewVersion && latestVersion && mode === 'compare' && (
+                <Button variant="outline" onClick={() => onUploadNewVersion(latestVersion)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload New Version
+                </Button>
+              )}
               {canCompare && (
-                <Button>
+                <Button
+                  onClick={() => setCompareIds([selectedVersionIds[0], selectedVersionIds[1]])}
+                  disabled={!selectedArePdfs}
+                  title={selectedArePdfs ? undefined : "Only PDF versions can be compared"}
+                >
+                  <GitCompare className="h-4 w-4 mr-2" />
                   Compare Selected Versions
                 </Button>
               )}
@@ -316,6 +353,14 @@ export function DocumentVersionHistory({
         </DialogContent>
       </Dialog>
       
+      {compareIds && (
+        <DocumentVersionCompare
+          isOpen={compareIds !== null}
+          onClose={() => setCompareIds(null)}
+          versionIds={compareIds}
+        />
+      )}
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -19,8 +19,11 @@ import {
   FileCode 
 } from "lucide-react";
 import { PDFViewer } from "@/components/ui/pdf-viewer";
+import { hasPagePreviews } from "./document-page-previews";
+import { RejectionReasonList } from "./rejection-reasons";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { downloadDocument, getDocumentContentUrl } from "@/lib/utils/file-download";
 
 interface DocumentViewDialogProps {
   isOpen: boolean;
@@ -66,11 +69,12 @@ export function DocumentViewDialog({ isOpen, onClose, document }: DocumentViewDi
           </DialogDescription>
         </DialogHeader>
         
-        {document.status === DocumentStatus.REJECTED && document.comments && (
+        {document.status === DocumentStatus.REJECTED && (!!document.comments || !!document.rejectionReasons?.length) && (
           <Alert variant="destructive" className="mt-2 mb-2">
             <AlertCircle className="h-4 w-4" />
             <AlertTitle>Document Rejected</AlertTitle>
             <AlertDescription>
+              <RejectionReasonList codes={document.rejectionReasons} />
               {document.comments}
             </AlertDescription>
           </Alert>
@@ -84,8 +88,10 @@ export function DocumentViewDialog({ isOpen, onClose, document }: DocumentViewDi
             </div>
           ) : (
             <>
-              {/* Use our file viewer component which now handles both PDFs and text files */}
-              {document.fileType === 'application/pdf' || document.fileType === 'text/plain' ? (
+              {/* PDFs and images are shown as server-rendered page images with review annotations; text files and anything without previews are embedded */}
+              {hasPagePreviews(document) ? (
+                <PDFViewer document={document} />
+              ) : document.fileType === 'application/pdf' || document.fileType === 'text/plain' ? (
                 <>
                   <PDFViewer document={document} />
                   {/* Add Open in New Window button at bottom right */}
@@ -95,40 +101,7 @@ export function DocumentViewDialog({ isOpen, onClose, document }: DocumentViewDi
                       size="sm"
                       className="bg-primary/90 text-white hover:bg-primary backdrop-blur"
                       onClick={() => {
-                        try {
-                          // Create safe URL method with fallbacks
-                          let url;
-                          
-                          // Try direct data URL first as the most reliable method
-                          url = `data:${document.fileType};base64,${document.fileContent}`;
-                          window.open(url, '_blank');
-                          return;
-                          
-                          /* Keeping the below code commented out as a fallback if we need more complex handling later 
-                          // For text files - simple approach
-                          if (document.fileType === 'text/plain') {
-                            try {
-                              // Try to decode from base64 - might not always work if the encoding is invalid
-                              // Instead use a direct data URL which browsers handle better
-                              url = `data:text/plain;base64,${document.fileContent}`;
-                              window.open(url, '_blank');
-                              return;
-                            } catch (textError) {
-                              console.error("Error processing text:", textError);
-                              // Fall through to data URI approach
-                            }
-                          }
-                          
-                          // For other file types or as fallback for text
-                          url = `data:${document.fileType};base64,${document.fileContent}`;
-                          */
-                          
-                          // Open in new window
-                          window.open(url, '_blank');
-                        } catch (error: any) {
-                          console.error("Error opening file:", error);
-                          alert("Error: " + (error.message || "Could not open file in new window"));
-                        }
+                        window.open(getDocumentContentUrl(document.id), '_blank');
                       }}
                     >
                       <ExternalLink className="h-4 w-4 mr-2" />
@@ -154,14 +127,7 @@ export function DocumentViewDialog({ isOpen, onClose, document }: DocumentViewDi
                       variant="secondary" 
                       size="sm"
                       onClick={() => {
-                        // Use direct data URI which is more reliable and skips atob
-                        try {
-                          const url = `data:${document.fileType};base64,${document.fileContent}`;
-                          window.open(url, '_blank');
-                        } catch (error) {
-                          console.error("Error opening in new window:", error);
-                          alert("Error: Could not open file in new window. Please try the download option instead.");
-                        }
+                        window.open(getDocumentContentUrl(document.id), '_blank');
                       }}
                     >
                       <ExternalLink className="h-4 w-4 mr-2" />
@@ -174,8 +140,8 @@ export function DocumentViewDialog({ isOpen, onClose, document }: DocumentViewDi
                       onClick={async () => {
                         try {
                           const success = await downloadDocument(
+                            document.id,
                             document.fileName,
-                            document.fileContent,
                             document.fileType
                           );
                           
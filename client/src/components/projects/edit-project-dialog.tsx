@@ -3,6 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
+import { format } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -33,6 +34,7 @@ const editProjectSchema = z.object({
   contactEmail: z.string().email("Please enter a valid email").optional(),
   contactPhone: z.string().optional(),
   permitNumber: z.string().optional(),
+  permitExpiresAt: z.string().optional(),
   zipCode: z.string().optional(),
 });
 
@@ -59,13 +61,17 @@ export function EditProjectDialog({ project, open, onOpenChange }: EditProjectDi
       contactEmail: project.contactEmail || "",
       contactPhone: project.contactPhone || "",
       permitNumber: project.permitNumber || "",
+      permitExpiresAt: project.permitExpiresAt ? format(new Date(project.permitExpiresAt), "yyyy-MM-dd") : "",
       zipCode: project.zipCode || "",
     }
   });
 
   const updateProjectMutation = useMutation({
     mutationFn: async (data: EditProjectFormValues) => {
-      return await apiRequest('PATCH', `/api/projects/${project.id}`, data);
+      return await apiRequest('PATCH', `/api/projects/${project.id}`, {
+        ...data,
+        permitExpiresAt: data.permitExpiresAt || null,
+      });
     },
     onSuccess: () => {
       toast({
@@ -249,23 +255,43 @@ export function EditProjectDialog({ project, open, onOpenChange }: EditProjectDi
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="permitNumber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Permit Number (Optional)</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="Enter permit number if available"
-                      {...field}
-                      data-testid="input-permit-number"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="permitNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permit Number (Optional)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="Enter permit number if available"
+                        {...field}
+                        data-testid="input-permit-number"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="permitExpiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permit Expires (Optional)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="date"
+                        {...field}
+                        data-testid="input-permit-expires-at"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <div className="flex justify-end space-x-3">
               <Button 
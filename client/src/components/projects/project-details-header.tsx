@@ -3,7 +3,7 @@ import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Edit, Send, HelpCircle, MessageCircle } from "lucide-react";
 import { getProjectStatusColor, getProjectStatusLabel } from "@/lib/utils/status-utils";
-import { Project, ProjectStatus } from "@shared/schema";
+import { Project, ProjectStatus, UserRole } from "@shared/schema";
 import {
   Tooltip,
   TooltipContent,
@@ -12,20 +12,21 @@ import {
 } from "@/components/ui/tooltip";
 import { EditProjectDialog } from "./edit-project-dialog";
 import { MessageDialog } from "@/components/messaging/message-dialog";
+import { ProjectStatusMenu } from "./project-status-menu";
+import { useAuth } from "@/hooks/use-auth";
 
 /**
- * Project Status Progression:
+ * Project Status Progression (enforced by server/project-status.ts):
  * 
  * 1. Not Started: Initial state when a project is created
  * 2. In Progress: When documents are being uploaded but not all required ones are approved
- * 3. Ready for Submission: When documentProgress reaches 100% (all required docs approved)
- * 4. Submitted: When the project has been submitted to the municipality
- * 5. Under Review: When the municipality is reviewing the permit application
- * 6. Approved: When the permit is approved by the municipality
- * 7. Rejected: When the permit is rejected by the municipality
+ * 3. Ready for Submission: Allowed once every required category has an approved document
+ * 4. Under Review: Allowed once the submission to the authority has been recorded
+ * 5. Approved: When the permit is approved by the municipality
+ * 6. Rejected: When the permit is rejected; the project goes back to In Progress for revisions
  * 
- * The Submit button is enabled when documentProgress is 100% and status is not already
- * 'ready_for_submission' or 'approved'.
+ * Specialists change status from the Status menu, which only offers the next
+ * allowed states. Anything else needs an override with a reason.
  */
 
 interface ProjectDetailsHeaderProps {
@@ -36,6 +37,7 @@ interface ProjectDetailsHeaderProps {
 
 export function ProjectDetailsHeader({ project, documentProgress, onSubmit }: ProjectDetailsHeaderProps) {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const { user } = useAuth();
   
   const { bg, text } = getProjectStatusColor(project.status);
   const isSubmittable = documentProgress === 100 && 
@@ -63,7 +65,7 @@ export function ProjectDetailsHeader({ project, documentProgress, onSubmit }: Pr
                   <strong>Documents Progress:</strong> {documentProgress}% complete
                 </p>
                 <p className="text-xs mt-1">
-                  Your project becomes "Ready for Submission" when document progress reaches 100%.
+                  A specialist can mark your project "Ready for Submission" once every required document is approved.
                 </p>
               </TooltipContent>
             </Tooltip>
@@ -91,6 +93,7 @@ export function ProjectDetailsHeader({ project, documentProgress, onSubmit }: Pr
           <Edit className="h-4 w-4 mr-1" />
           Edit
         </Button>
+        {user?.role === UserRole.SPECIALIST && <ProjectStatusMenu project={project} />}
         <Button 
           onClick={onSubmit} 
           className="flex items-center"
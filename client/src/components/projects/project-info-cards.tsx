@@ -5,15 +5,17 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Plus, Users } from "lucide-react";
 import { formatDeadline } from "@/lib/utils/date-utils";
-import { DocumentCategory } from "@shared/schema";
 import { 
-  calculateProjectDocumentProgress 
+  calculateProjectDocumentProgress,
+  formatDocumentCategory
 } from "@/lib/utils/document-utils";
+import type { ProjectRequirements } from "@/hooks/use-project-requirements";
 import { AssignTaskDialog } from "@/components/stakeholders/assign-task-dialog";
 
 interface ProjectInfoCardsProps {
   project: any;
   documents: any[];
+  requirements?: ProjectRequirements;
   stakeholders: any[];
   isLoading?: boolean;
   onAddStakeholder: () => void;
@@ -23,6 +25,7 @@ interface ProjectInfoCardsProps {
 export function ProjectInfoCards({ 
   project, 
   documents, 
+  requirements,
   stakeholders, 
   isLoading = false,
   onAddStakeholder,
@@ -41,16 +44,12 @@ export function ProjectInfoCards({
 
   const deadlineInfo = project.deadline ? formatDeadline(project.deadline) : null;
   
-  // Calculate document progress by category
-  const documentProgress: Record<string, { complete: boolean, progress: number }> = {
-    [DocumentCategory.SITE_PLAN]: { complete: false, progress: 0 },
-    [DocumentCategory.FACILITY_PLAN]: { complete: false, progress: 0 },
-    [DocumentCategory.EGRESS_PLAN]: { complete: false, progress: 0 },
-    [DocumentCategory.STRUCTURAL_PLANS]: { complete: false, progress: 0 },
-    [DocumentCategory.COMMODITIES]: { complete: false, progress: 0 },
-    [DocumentCategory.FIRE_PROTECTION]: { complete: false, progress: 0 },
-    [DocumentCategory.SPECIAL_INSPECTION]: { complete: false, progress: 0 },
-  };
+  // Calculate document progress for each category the submittal rules require
+  const requiredCategories = requirements?.required ?? [];
+  const documentProgress: Record<string, { complete: boolean, progress: number }> = {};
+  requiredCategories.forEach(category => {
+    documentProgress[category] = { complete: false, progress: 0 };
+  });
   
   // Update progress based on document status
   documents.forEach(doc => {
@@ -58,13 +57,13 @@ export function ProjectInfoCards({
       if (doc.status === 'approved') {
         documentProgress[doc.category].complete = true;
         documentProgress[doc.category].progress = 100;
-      } else if (doc.status === 'pending_review') {
+      } else if (doc.status === 'pending_review' && !documentProgress[doc.category].complete) {
         documentProgress[doc.category].progress = 50;
-      } else if (doc.status === 'not_submitted') {
-        documentProgress[doc.category].progress = 0;
       }
     }
   });
+  const reasonFor = (category: string) => requirements?.categories.find(item => item.category === category)?.reason;
+  const notRequired = requirements?.categories.filter(item => !item.required) ?? [];
 
   return (
     <>
@@ -113,16 +112,7 @@ export function ProjectInfoCards({
             {Object.entries(documentProgress).map(([category, { complete, progress }]) => (
               <div key={category}>
                 <div className="flex justify-between text-sm mb-1">
-                  <span>
-                    {category === DocumentCategory.SITE_PLAN ? 'Site Plan' :
-                     category === DocumentCategory.FACILITY_PLAN ? 'Facility Plan' :
-                     category === DocumentCategory.EGRESS_PLAN ? 'Egress Plan' :
-                     category === DocumentCategory.STRUCTURAL_PLANS ? 'Structural Plans' :
-                     category === DocumentCategory.COMMODITIES ? 'Commodities Form' :
-                     category === DocumentCategory.FIRE_PROTECTION ? 'Fire Protection' :
-                     category === DocumentCategory.SPECIAL_INSPECTION ? 'Special Inspection' :
-                     category}
-                  </span>
+                  <span title={reasonFor(category)}>{formatDocumentCategory(category)}</span>
                   <span className={complete ? "text-green-600" : progress > 0 ? "text-yellow-600" : "text-red-600"}>
                     {complete ? 'Complete' : progress > 0 ? 'In Progress' : 'Not Started'}
                   </span>
@@ -138,10 +128,17 @@ export function ProjectInfoCards({
               </div>
             ))}
             
+            {notRequired.map(item => (
+              <div key={item.category} className="flex justify-between text-sm text-muted-foreground">
+                <span title={item.reason}>{item.title}</span>
+                <span>Not Required</span>
+              </div>
+            ))}
+            
             <div className="mt-2 pt-2 border-t border-border">
               <div className="flex justify-between font-medium">
                 <span>Overall Progress</span>
-                <span>{calculateProjectDocumentProgress(documents)}%</span>
+                <span>{calculateProjectDocumentProgress(documents, requiredCategories)}%</span>
               </div>
             </div>
           </div>
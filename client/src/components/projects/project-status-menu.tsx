@@ -0,0 +1,391 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowRight, ChevronDown, History, Loader2, ShieldAlert, Stamp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { getProjectStatusLabel } from "@/lib/utils/status-utils";
+import {
+  ProjectStatus,
+  type AuthoritySubmission,
+  type Project,
+  type ProjectStatusChange,
+  type ProjectStatusType,
+} from "@shared/schema";
+
+// As returned by GET /api/projects/:id/status
+interface ProjectStatusOverview {
+  status: string;
+  transitions: Array<{ status: ProjectStatusType; blockers: string[] }>;
+  submissions: AuthoritySubmission[];
+  history: Array<ProjectStatusChange & { changedByName: string | null }>;
+}
+
+const submissionMethods = ["Online portal", "Email", "In person", "Mail"];
+
+function invalidateProjectStatus(projectId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/status`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+}
+
+/**
+ * Specialist controls for moving a project through its statuses. Only the next
+ * statuses the server allows are offered; blocked ones show what is missing.
+ */
+export function ProjectStatusMenu({ project }: { project: Project }) {
+  const { toast } = useToast();
+  const [showSubmissionDialog, setShowSubmissionDialog] = useState(false);
+  const [showOverrideDialog, setShowOverrideDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+
+  const { data: overview } = useQuery<ProjectStatusOverview>({
+    queryKey: [`/api/projects/${project.id}/status`],
+  });
+
+  const changeStatus = useMutation({
+    mutationFn: async (status: ProjectStatusType) => {
+      const res = await apiRequest("POST", `/api/projects/${project.id}/status`, { status });
+      return await res.json() as Project;
+    },
+    onSuccess: (updated) => {
+      invalidateProjectStatus(project.id);
+      toast({
+        title: "Status Updated",
+        description: `The project is now ${getProjectStatusLabel(updated.status)}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Status Not Changed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex items-center" disabled={changeStatus.isPending}>
+            {changeStatus.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ArrowRight className="h-4 w-4 mr-1" />}
+            Status
+            <ChevronDown className="h-4 w-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Move to</DropdownMenuLabel>
+          {!overview ? (
+            <div className="px-2 py-1.5">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : overview.transitions.length === 0 ? (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No further status changes</p>
+          ) : (
+            overview.transitions.map(transition => (
+              <DropdownMenuItem
+                key={transition.status}
+                disabled={transition.blockers.length > 0}
+                onClick={() => changeStatus.mutate(transition.status)}
+                className="flex-col items-start"
+              >
+                <span>{getProjectStatusLabel(transition.status)}</span>
+                {transition.blockers.map(blocker => (
+                  <span key={blocker} className="text-xs text-muted-foreground">{blocker}</span>
+                ))}
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setShowSubmissionDialog(true)}>
+            <Stamp className="h-4 w-4 mr-2" />
+            Record Authority Submission
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowHistoryDialog(true)}>
+            <History className="h-4 w-4 mr-2" />
+            Status History
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowOverrideDialog(true)} className="text-amber-700">
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            Override Status
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <RecordSubmissionDialog
+        project={project}
+        isOpen={showSubmissionDialog}
+        onClose={() => setShowSubmissionDialog(false)}
+        nextSubmission={(overview?.submissions[0]?.submissionNumber ?? 0) + 1}
+      />
+      <OverrideStatusDialog project={project} isOpen={showOverrideDialog} onClose={() => setShowOverrideDialog(false)} />
+      <StatusHistoryDialog overview={overview} isOpen={showHistoryDialog} onClose={() => setShowHistoryDialog(false)} />
+    </>
+  );
+}
+
+interface RecordSubmissionDialogProps {
+  project: Project;
+  isOpen: boolean;
+  onClose: () => void;
+  nextSubmission: number;
+}
+
+function RecordSubmissionDialog({ project, isOpen, onClose, nextSubmission }: RecordSubmissionDialogProps) {
+  const { toast } = useToast();
+  const [submittedAt, setSubmittedAt] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [method, setMethod] = useState(submissionMethods[0]);
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const recordSubmission = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/projects/${project.id}/authority-submissions`, {
+        // Local midnight, so the date doesn't shift a day when shown back
+        submittedAt: new Date(`${submittedAt}T00:00:00`).toISOString(),
+        method,
+        referenceNumber: referenceNumber || null,
+        notes: notes || null,
+      });
+      return await res.json() as { submission: AuthoritySubmission; project: Project };
+    },
+    onSuccess: ({ submission, project: updated }) => {
+      invalidateProjectStatus(project.id);
+      toast({
+        title: "Submission Recorded",
+        description: updated.status === ProjectStatus.UNDER_REVIEW && project.status !== ProjectStatus.UNDER_REVIEW
+          ? `Submittal ${submission.submissionNumber} was recorded and the project is now under review.`
+          : `Submittal ${submission.submissionNumber} was recorded.`,
+      });
+      setReferenceNumber("");
+      setNotes("");
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Record Submission",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Submittal {nextSubmission}</DialogTitle>
+          <DialogDescription>
+            {project.status === ProjectStatus.READY_FOR_SUBMISSION
+              ? `Records that the permit package was sent to ${project.jurisdiction} and moves the project to Under Review.`
+              : `Records that the permit package was sent to ${project.jurisdiction}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="submitted-at">Date submitted</Label>
+              <Input id="submitted-at" type="date" value={submittedAt} onChange={(e) => setSubmittedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {submissionMethods.map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="submission-reference">Authority reference number (optional)</Label>
+            <Input
+              id="submission-reference"
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+              placeholder="Intake or tracking number"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="submission-notes">Notes (optional)</Label>
+            <Textarea id="submission-notes" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={5000} rows={3} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => recordSubmission.mutate()} disabled={!submittedAt || recordSubmission.isPending}>
+            {recordSubmission.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Submission
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function OverrideStatusDialog({ project, isOpen, onClose }: { project: Project; isOpen: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("");
+  const [reason, setReason] = useState("");
+
+  const overrideStatus = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/projects/${project.id}/status`, { status, override: true, reason });
+      return await res.json() as Project;
+    },
+    onSuccess: (updated) => {
+      invalidateProjectStatus(project.id);
+      toast({
+        title: "Status Overridden",
+        description: `The project is now ${getProjectStatusLabel(updated.status)}. The override has been logged.`,
+      });
+      setStatus("");
+      setReason("");
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Override Failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Override Project Status</DialogTitle>
+          <DialogDescription>
+            Sets the status without the usual checks. The reason is recorded in the status history and activity log.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>New status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a status" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ProjectStatus)
+                  .filter(value => value !== project.status)
+                  .map(value => (
+                    <SelectItem key={value} value={value}>{getProjectStatusLabel(value)}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Reason</Label>
+            <Textarea
+              id="override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Permit was approved over the counter before documents were uploaded"
+              maxLength={2000}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => overrideStatus.mutate()} disabled={!status || !reason.trim() || overrideStatus.isPending}>
+            {overrideStatus.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface StatusHistoryDialogProps {
+  overview: ProjectStatusOverview | undefined;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function StatusHistoryDialog({ overview, isOpen, onClose }: StatusHistoryDialogProps) {
+  const formatDate = (date: Date | string | null) => date ? format(new Date(date), "MMM dd, yyyy h:mm a") : "";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Status History</DialogTitle>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          <div className="space-y-2">
+            {!overview || overview.history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No status changes have been recorded</p>
+            ) : (
+              overview.history.map(change => (
+                <div key={change.id} className="rounded border p-2 text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span>{getProjectStatusLabel(change.fromStatus)}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span className="font-medium">{getProjectStatusLabel(change.toStatus)}</span>
+                    {change.override && (
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">Override</Badge>
+                    )}
+                  </div>
+                  {change.reason && <p className="text-muted-foreground whitespace-pre-wrap">{change.reason}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {change.changedByName ?? "Unknown"} - {formatDate(change.changedAt)}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+          {overview && overview.submissions.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Authority Submissions</h3>
+              {overview.submissions.map(submission => (
+                <div key={submission.id} className="rounded border p-2 text-sm">
+                  <div className="font-medium">
+                    Submittal {submission.submissionNumber} - {format(new Date(submission.submittedAt), "MMM dd, yyyy")}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[submission.method, submission.referenceNumber && `Ref. ${submission.referenceNumber}`].filter(Boolean).join(" - ")}
+                  </p>
+                  {submission.notes && <p className="text-muted-foreground whitespace-pre-wrap">{submission.notes}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { getCommonRejectionReasons, getRejectionReasonLabel } from "@shared/rejection-reasons";
+
+/**
+ * Checkboxes for the reason codes of the given categories: checklist items
+ * first, then the reasons that apply to any document. With several
+ * categories only the reasons they all share are offered.
+ */
+export function RejectionReasonPicker({ categories, value, onChange }: {
+  categories: string[];
+  value: string[];
+  onChange: (codes: string[]) => void;
+}) {
+  const reasons = getCommonRejectionReasons(categories);
+  const groups = [
+    { title: "Checklist items not met", reasons: reasons.filter(reason => reason.checklistItemId) },
+    { title: "General", reasons: reasons.filter(reason => !reason.checklistItemId) },
+  ].filter(group => group.reasons.length > 0);
+
+  const toggle = (code: string, checked: boolean) => {
+    onChange(checked ? [...value, code] : value.filter(selected => selected !== code));
+  };
+
+  return (
+    <div className="space-y-3 max-h-64 overflow-y-auto pr-1">
+      {groups.map(group => (
+        <div key={group.title}>
+          <p className="text-xs font-medium text-muted-foreground mb-1.5">{group.title}</p>
+          <div className="space-y-1.5">
+            {group.reasons.map(reason => (
+              <div key={reason.code} className="flex items-start gap-2">
+                <Checkbox
+                  id={`rejection-${reason.code}`}
+                  checked={value.includes(reason.code)}
+                  onCheckedChange={(checked) => toggle(reason.code, checked === true)}
+                />
+                <Label htmlFor={`rejection-${reason.code}`} className="text-sm leading-tight font-normal cursor-pointer">
+                  {reason.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function RejectionReasonList({ codes }: { codes: string[] | null | undefined }) {
+  if (!codes || codes.length === 0) return null;
+  return (
+    <ul className="list-disc pl-4 space-y-0.5">
+      {codes.map(code => (
+        <li key={code}>{getRejectionReasonLabel(code)}</li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,165 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check } from "lucide-react";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Document } from "@shared/schema";
+
+export interface ChecklistItemResponse {
+  checked: boolean;
+  note: string | null;
+}
+
+// As returned by GET /api/documents/:id/checklist
+export interface DocumentChecklistView {
+  title: string;
+  // expectation is what IFC Table 3206.2 asks of the project, on Fire Protection and Facility Plan items
+  items: Array<{ id: string; label: string; required: boolean; expectation: string | null }>;
+  reviewers: Array<{
+    reviewerId: number;
+    reviewerName: string | null;
+    updatedAt: string | null;
+    responses: Record<string, ChecklistItemResponse>;
+  }>;
+}
+
+export interface ChecklistItemUpdate {
+  itemId: string;
+  checked: boolean;
+  note?: string | null;
+}
+
+/**
+ * Loads a document version's review checklist and the current user's answers.
+ * Each change is saved straight away, so a half-finished review survives
+ * closing the dialog.
+ */
+export function useReviewChecklist(document: Document | null) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryKey = [`/api/documents/${document?.id}/checklist`];
+
+  const { data: checklist, isLoading } = useQuery<DocumentChecklistView>({
+    queryKey,
+    enabled: !!document,
+  });
+
+  const responses = checklist?.reviewers.find(reviewer => reviewer.reviewerId === user?.id)?.responses ?? {};
+  const unsatisfied = checklist?.items.filter(item => item.required && !responses[item.id]?.checked) ?? [];
+
+  const saveItem = useMutation({
+    mutationFn: async (item: ChecklistItemUpdate) => {
+      const res = await apiRequest("PUT", `/api/documents/${document!.id}/checklist`, { items: [item] });
+      return await res.json() as DocumentChecklistView;
+    },
+    onMutate: async (item) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<DocumentChecklistView>(queryKey);
+      if (previous && user) {
+        const existing = previous.reviewers.find(reviewer => reviewer.reviewerId === user.id);
+        const response = {
+          checked: item.checked,
+          note: item.note === undefined ? existing?.responses[item.itemId]?.note ?? null : item.note,
+        };
+        const reviewers = existing
+          ? previous.reviewers.map(reviewer => reviewer === existing
+            ? { ...reviewer, responses: { ...reviewer.responses, [item.itemId]: response } }
+            : reviewer)
+          : [...previous.reviewers, {
+            reviewerId: user.id,
+            reviewerName: user.fullName,
+            updatedAt: null,
+            responses: { [item.itemId]: response },
+          }];
+        queryClient.setQueryData<DocumentChecklistView>(queryKey, { ...previous, reviewers });
+      }
+      return { previous };
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(queryKey, updated);
+    },
+    onError: (error: Error, _item, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({
+        title: "Checklist Not Saved",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    checklist,
+    isLoading,
+    responses,
+    unsatisfied,
+    isComplete: !!checklist && unsatisfied.length === 0,
+    saveItem,
+  };
+}
+
+const progressTones = {
+  review: { text: "text-amber-700", muted: "text-amber-600", checked: "border-amber-500 bg-amber-100", unchecked: "border-amber-300", icon: "text-amber-600" },
+  approved: { text: "text-green-700", muted: "text-green-600", checked: "border-green-500 bg-green-100", unchecked: "border-green-300", icon: "text-green-600" },
+};
+
+interface ReviewChecklistProgressProps {
+  document: Document;
+  tone?: keyof typeof progressTones;
+  // Shown when nobody has started the checklist on this version
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Read-only view of every reviewer's progress on a version's checklist, for
+ * the expanded rows of the document list.
+ */
+export function ReviewChecklistProgress({ document, tone = "review", fallback = null }: ReviewChecklistProgressProps) {
+  const colors = progressTones[tone];
+  const { data: checklist } = useQuery<DocumentChecklistView>({
+    queryKey: [`/api/documents/${document.id}/checklist`],
+  });
+
+  if (!checklist || checklist.reviewers.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {checklist.items.map(item => {
+        const checkedBy = checklist.reviewers.filter(reviewer => reviewer.responses[item.id]?.checked);
+        const notes = checklist.reviewers.filter(reviewer => reviewer.responses[item.id]?.note);
+        return (
+          <div key={item.id} className="flex items-start gap-2">
+            {checkedBy.length > 0 ? (
+              <div className={`h-4 w-4 mt-0.5 flex-shrink-0 rounded border ${colors.checked} flex items-center justify-center`}>
+                <Check className={`h-3 w-3 ${colors.icon}`} />
+              </div>
+            ) : (
+              <div className={`h-4 w-4 mt-0.5 flex-shrink-0 rounded border ${colors.unchecked} bg-card`}></div>
+            )}
+            <div className="min-w-0">
+              <span className={`text-sm ${colors.text}`}>
+                {item.label}
+                {!item.required && <span className={`text-xs ${colors.muted}`}> (if applicable)</span>}
+              </span>
+              {checklist.reviewers.length > 1 && checkedBy.length > 0 && (
+                <p className={`text-xs ${colors.muted}`}>
+                  Checked by {checkedBy.map(reviewer => reviewer.reviewerName ?? "Unknown").join(", ")}
+                </p>
+              )}
+              {notes.map(reviewer => (
+                <p key={reviewer.reviewerId} className={`text-xs ${colors.muted} whitespace-pre-wrap`}>
+                  {reviewer.reviewerName ?? "Unknown"}: {reviewer.responses[item.id].note}
+                </p>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ThumbsDown } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface RejectionReasonCount {
+  code: string;
+  label: string;
+  count: number;
+}
+
+interface RejectionReasonGroup {
+  key: string;
+  label: string;
+  rejectionCount: number;
+  reasons: RejectionReasonCount[];
+}
+
+// As returned by GET /api/reports/rejection-reasons
+interface RejectionReasonReport {
+  since: string | null;
+  rejectionCount: number;
+  topReasons: RejectionReasonCount[];
+  byCategory: RejectionReasonGroup[];
+  byCompany: RejectionReasonGroup[];
+  byJurisdiction: RejectionReasonGroup[];
+}
+
+type Grouping = "byCategory" | "byCompany" | "byJurisdiction";
+
+const groupingLabels: Record<Grouping, string> = {
+  byCategory: "Category",
+  byCompany: "Stakeholder Company",
+  byJurisdiction: "Jurisdiction",
+};
+
+const REASONS_PER_GROUP = 3;
+
+/**
+ * Why documents were rejected over the selected period: the most common
+ * reason codes overall and for each category, company and jurisdiction.
+ */
+export function RejectionReasonsCard({ days }: { days: string }) {
+  const [grouping, setGrouping] = useState<Grouping>("byCategory");
+  const { data: report, isLoading } = useQuery<RejectionReasonReport>({
+    queryKey: [`/api/reports/rejection-reasons?days=${days}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ThumbsDown className="h-5 w-5" />
+          Rejection Reasons
+        </CardTitle>
+        <CardDescription>
+          {report
+            ? `${report.rejectionCount} rejection${report.rejectionCount === 1 ? "" : "s"} in the last ${days} days`
+            : "Why documents were sent back for revision"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !report || report.rejectionCount === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No documents were rejected in this period</p>
+        ) : (
+          <>
+            <div>
+              <h3 className="text-sm font-medium mb-2">Most Common Reasons</h3>
+              <div className="space-y-2">
+                {report.topReasons.slice(0, 5).map(reason => (
+                  <div key={reason.code} className="flex items-center gap-3 text-sm">
+                    <div className="flex-1 min-w-0 truncate" title={reason.label}>{reason.label}</div>
+                    <div className="w-32 h-2 rounded bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-red-500"
+                        style={{ width: `${(reason.count / report.topReasons[0].count) * 100}%` }}
+                      />
+                    </div>
+                    <div className="w-8 text-right tabular-nums">{reason.count}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Tabs value={grouping} onValueChange={(value) => setGrouping(value as Grouping)}>
+                <TabsList>
+                  {(Object.keys(groupingLabels) as Grouping[]).map(key => (
+                    <TabsTrigger key={key} value={key}>By {groupingLabels[key]}</TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <div className="rounded-md border mt-3">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{groupingLabels[grouping]}</TableHead>
+                      <TableHead className="w-28">Rejections</TableHead>
+                      <TableHead>Top Reasons</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report[grouping].map(group => (
+                      <TableRow key={group.key}>
+                        <TableCell className="font-medium">{group.label}</TableCell>
+                        <TableCell>{group.rejectionCount}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {group.reasons.slice(0, REASONS_PER_GROUP).map(reason => (
+                              <Badge key={reason.code} variant="outline" className="font-normal" title={reason.label}>
+                                <span className="max-w-[16rem] truncate">{reason.label}</span>
+                                <span className="ml-1 text-muted-foreground">×{reason.count}</span>
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
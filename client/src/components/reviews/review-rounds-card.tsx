@@ -0,0 +1,434 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CheckCircle, ClipboardList, Download, Eye, FileText, Loader2, Lock, Plus, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { downloadCommentLetter } from "@/lib/utils/file-download";
+import { formatDocumentCategory } from "@/lib/utils/document-utils";
+import {
+  ReviewRoundStatus,
+  UserRole,
+  type Document,
+  type Project,
+  type ReviewRound,
+  type ReviewRoundDecision,
+  type ReviewRoundStatusType,
+} from "@shared/schema";
+
+// As returned by GET /api/review-rounds
+interface ReviewRoundView extends ReviewRound {
+  projectName: string;
+  openedByName: string | null;
+  closedByName: string | null;
+  documentCount: number;
+  decidedCount: number;
+}
+
+// As returned by GET /api/review-rounds/:id
+interface ReviewRoundDetail {
+  round: ReviewRound;
+  documents: Array<{
+    document: Document;
+    decisions: Array<ReviewRoundDecision & { reviewerName: string | null }>;
+    openAnnotationCount: number;
+  }>;
+}
+
+// Round lists are keyed by their status filter, so match on the URL prefix
+function invalidateReviewRounds(projectId: number) {
+  queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/review-rounds"),
+  });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/activities`] });
+}
+
+function formatDate(date: Date | string | null) {
+  return date ? format(new Date(date), "MMM dd, yyyy") : "";
+}
+
+/**
+ * Open and closed plan-review rounds across all projects, with the actions to
+ * start a round, close one and download its comment letter.
+ */
+export function ReviewRoundsCard() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<ReviewRoundStatusType>(ReviewRoundStatus.OPEN);
+  const [showOpenDialog, setShowOpenDialog] = useState(false);
+  const [closingRound, setClosingRound] = useState<ReviewRoundView | null>(null);
+  const [viewingRoundId, setViewingRoundId] = useState<number | null>(null);
+  const isSpecialist = user?.role === UserRole.SPECIALIST;
+
+  const { data: rounds = [], isLoading } = useQuery<ReviewRoundView[]>({
+    queryKey: [`/api/review-rounds?status=${status}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Review Rounds
+          </CardTitle>
+          <CardDescription>
+            Each round covers the document versions awaiting review when it was opened
+          </CardDescription>
+        </div>
+        {isSpecialist && (
+          <Button size="sm" onClick={() => setShowOpenDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Open Round
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ReviewRoundStatusType)}>
+          <TabsList>
+            <TabsTrigger value={ReviewRoundStatus.OPEN}>Open</TabsTrigger>
+            <TabsTrigger value={ReviewRoundStatus.CLOSED}>Closed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead>Round</TableHead>
+                <TableHead>Opened</TableHead>
+                <TableHead>Documents Decided</TableHead>
+                {status === ReviewRoundStatus.CLOSED && <TableHead>Closed</TableHead>}
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin inline-block text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : rounds.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {status === ReviewRoundStatus.OPEN ? "No review rounds are open" : "No review rounds have been closed yet"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rounds.map(round => (
+                  <TableRow key={round.id} className="hover:bg-muted/50">
+                    <TableCell>
+                      <Link href={`/project/${round.projectId}`} className="text-blue-600 hover:underline">
+                        {round.projectName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>Round {round.roundNumber}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatDate(round.openedAt)}</div>
+                      <div className="text-xs text-muted-foreground">{round.openedByName}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={round.decidedCount === round.documentCount ? "default" : "outline"}>
+                        {round.decidedCount} / {round.documentCount}
+                      </Badge>
+                    </TableCell>
+                    {status === ReviewRoundStatus.CLOSED && (
+                      <TableCell>
+                        <div className="text-sm">{formatDate(round.closedAt)}</div>
+                        <div className="text-xs text-muted-foreground">{round.closedByName}</div>
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setViewingRoundId(round.id)}>
+                          <Eye className="h-4 w-4 mr-2" />
+                          Details
+                        </Button>
+                        {round.status === ReviewRoundStatus.OPEN
+                          ? isSpecialist && (
+                            <Button variant="outline" size="sm" onClick={() => setClosingRound(round)}>
+                              <Lock className="h-4 w-4 mr-2" />
+                              Close
+                            </Button>
+                          )
+                          : <CommentLetterMenu roundId={round.id} />}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <OpenReviewRoundDialog isOpen={showOpenDialog} onClose={() => setShowOpenDialog(false)} />
+      <CloseReviewRoundDialog round={closingRound} onClose={() => setClosingRound(null)} />
+      <ReviewRoundDetailDialog roundId={viewingRoundId} onClose={() => setViewingRoundId(null)} />
+    </Card>
+  );
+}
+
+function CommentLetterMenu({ roundId }: { roundId: number }) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+
+  const download = async (letterFormat: "docx" | "pdf") => {
+    setDownloading(true);
+    try {
+      await downloadCommentLetter(roundId, letterFormat);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not download the comment letter.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={downloading}>
+          {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Comment Letter
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("docx")}>Word (.docx)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("pdf")}>PDF</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function OpenReviewRoundDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const [projectId, setProjectId] = useState<string>("");
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: isOpen,
+  });
+
+  const openRound = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/projects/${id}/review-rounds`);
+      return await res.json() as ReviewRoundDetail;
+    },
+    onSuccess: ({ round, documents }) => {
+      invalidateReviewRounds(round.projectId);
+      toast({
+        title: "Review Round Opened",
+        description: `Round ${round.roundNumber} covers ${documents.length} document${documents.length === 1 ? "" : "s"}.`,
+      });
+      setProjectId("");
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Open Round",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open Review Round</DialogTitle>
+          <DialogDescription>
+            The round will cover every document version in the project that is currently awaiting review.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Project</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => openRound.mutate(Number(projectId))} disabled={!projectId || openRound.isPending}>
+            {openRound.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Open Round
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CloseReviewRoundDialog({ round, onClose }: { round: ReviewRoundView | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [summary, setSummary] = useState("");
+
+  const closeRound = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/review-rounds/${id}/close`, { summary });
+      return await res.json() as ReviewRoundDetail;
+    },
+    onSuccess: async ({ round: closed }) => {
+      invalidateReviewRounds(closed.projectId);
+      setSummary("");
+      onClose();
+      toast({
+        title: "Review Round Closed",
+        description: `The comment letter for round ${closed.roundNumber} is ready.`,
+      });
+      try {
+        await downloadCommentLetter(closed.id, "docx");
+      } catch (error) {
+        toast({
+          title: "Download Failed",
+          description: error instanceof Error ? error.message : "Could not download the comment letter.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Close Round",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const undecided = round ? round.documentCount - round.decidedCount : 0;
+
+  return (
+    <Dialog open={!!round} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close Review Round {round?.roundNumber}</DialogTitle>
+          <DialogDescription>
+            Closing the round generates the consolidated comment letter for {round?.projectName}. It can't be reopened.
+          </DialogDescription>
+        </DialogHeader>
+        {undecided > 0 && (
+          <div className="p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-700">
+            {undecided} document{undecided === 1 ? " has" : "s have"} no decision yet and will be listed as not reviewed.
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="round-summary">General remarks (optional)</Label>
+          <Textarea
+            id="round-summary"
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="Printed at the top of the comment letter"
+            maxLength={5000}
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => round && closeRound.mutate(round.id)} disabled={closeRound.isPending}>
+            {closeRound.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Close Round
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReviewRoundDetailDialog({ roundId, onClose }: { roundId: number | null; onClose: () => void }) {
+  const { data: detail, isLoading } = useQuery<ReviewRoundDetail>({
+    queryKey: [`/api/review-rounds/${roundId}`],
+    enabled: roundId !== null,
+  });
+
+  return (
+    <Dialog open={roundId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review Round {detail?.round.roundNumber}</DialogTitle>
+          <DialogDescription>
+            {detail && (detail.round.status === ReviewRoundStatus.OPEN
+              ? `Opened ${formatDate(detail.round.openedAt)}`
+              : `Closed ${formatDate(detail.round.closedAt)}`)}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !detail ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-3">
+            {detail.documents.map(({ document, decisions, openAnnotationCount }) => (
+              <div key={document.id} className="rounded border p-3 space-y-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="font-medium truncate">{document.fileName}</span>
+                    <span className="text-xs text-muted-foreground">v{document.version}</span>
+                  </div>
+                  <Badge variant="outline">{formatDocumentCategory(document.category)}</Badge>
+                </div>
+                {decisions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No decision yet</p>
+                ) : (
+                  decisions.map(decision => (
+                    <div key={decision.id} className="text-sm flex items-start gap-1.5">
+                      {decision.decision === "rejected"
+                        ? <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-600" />
+                        : <CheckCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />}
+                      <span>
+                        <span className="font-medium">{decision.reviewerName ?? "Unknown"}</span>
+                        {decision.decision === "rejected" ? " requested revisions" : " approved"}
+                        {decision.comments && <span className="text-muted-foreground">: {decision.comments}</span>}
+                      </span>
+                    </div>
+                  ))
+                )}
+                {openAnnotationCount > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {openAnnotationCount} open annotation{openAnnotationCount === 1 ? "" : "s"}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
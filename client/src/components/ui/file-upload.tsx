@@ -7,10 +7,14 @@ import { DocumentCategory } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { CustomFileInput } from "./CustomFileInput";
 import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import type { UploadProgress } from "@/lib/utils/chunked-upload";
 
 interface FileUploadProps {
-  onFileSelect: (file: File, base64: string, category: string) => void;
+  // Uploads one file; resolves once the server has stored it
+  onFileSelect: (file: File, category: string, onProgress: (progress: UploadProgress) => void) => Promise<unknown>;
   onFilesChange?: (files: File[]) => void;
+  onComplete?: (uploadedCount: number) => void;
   acceptedFileTypes?: string;
   category?: string;
   disabled?: boolean;
@@ -21,18 +25,19 @@ interface FileUploadProps {
 export function FileUpload({
   onFileSelect,
   onFilesChange,
+  onComplete,
   acceptedFileTypes = ".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png",
   category,
   disabled = false,
-  maxSizeMB = 50, // 50MB - realistic database limit
+  maxSizeMB = 500,
   multiple = true
 }: FileUploadProps) {
   const [files, setFiles] = useState<File[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>(category || "");
-  const [currentFileIndex, setCurrentFileIndex] = useState<number>(0);
   const [uploadedCount, setUploadedCount] = useState<number>(0);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
   
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
   
@@ -52,7 +57,7 @@ export function FileUpload({
         // Check file size
         if (file.size > maxSizeBytes) {
           const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
-          setError(`File "${file.name}" (${fileSizeMB}MB) exceeds the 50MB limit. Please use a smaller file.`);
+          setError(`File "${file.name}" (${fileSizeMB}MB) exceeds the ${maxSizeMB}MB limit. Please use a smaller file.`);
           continue;
         }
         
@@ -71,13 +76,14 @@ export function FileUpload({
       }
       
       if (newFiles.length > 0) {
-        setFiles(prevFiles => [...prevFiles, ...newFiles]);
+        // In single-file mode a new selection replaces the previous one
+        setFiles(prevFiles => multiple ? [...prevFiles, ...newFiles] : newFiles.slice(0, 1));
       }
       
       // Reset the input value to allow selecting the same file again
       e.target.value = '';
     },
-    [acceptedFileTypes, maxSizeBytes, maxSizeMB]
+    [acceptedFileTypes, maxSizeBytes, maxSizeMB, multiple]
   );
   
   const handleRemoveFile = useCallback((index: number) => {
@@ -91,43 +97,6 @@ export function FileUpload({
     []
   );
   
-  const convertToBase64 = useCallback((file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        if (typeof reader.result === "string") {
-          // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
-          const base64 = reader.result.split(",")[1];
-          resolve(base64);
-        } else {
-          reject(new Error("Failed to convert file to base64"));
-        }
-      };
-      reader.onerror = error => reject(error);
-    });
-  }, []);
-  
-  const uploadCurrentFile = useCallback(async () => {
-    if (currentFileIndex >= files.length) {
-      return false; // No more files to upload
-    }
-    
-    const currentFile = files[currentFileIndex];
-    
-    try {
-      const base64 = await convertToBase64(currentFile);
-      await onFileSelect(currentFile, base64, selectedCategory || category || "");
-      setUploadedCount(prev => prev + 1);
-      setCurrentFileIndex(prev => prev + 1);
-      return true; // Successfully uploaded file
-    } catch (err) {
-      setError(`Error uploading "${currentFile.name}": ${err instanceof Error ? err.message : String(err)}`);
-      setLoading(false); // Stop the upload loop on error
-      return false; // Failed to upload
-    }
-  }, [files, currentFileIndex, convertToBase64, onFileSelect, selectedCategory, category]);
-  
   const handleUpload = useCallback(async () => {
     if (files.length === 0) {
       setError("Please select at least one file to upload.");
@@ -142,15 +111,14 @@ export function FileUpload({
     setLoading(true);
     setError(null);
     setUploadedCount(0);
-    setCurrentFileIndex(0);
     
     try {
       // Process files one by one
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         try {
-          const base64 = await convertToBase64(file);
-          await onFileSelect(file, base64, selectedCategory || category || "");
+          setProgress({ uploadedBytes: 0, totalBytes: file.size, resumed: false });
+          await onFileSelect(file, selectedCategory || category || "", setProgress);
           setUploadedCount(prev => prev + 1);
         } catch (err) {
           setError(`Error uploading "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
@@ -162,14 +130,16 @@ export function FileUpload({
       // Clear files list after successful upload of all files
       setFiles([]);
       onFilesChange?.([]);
+      onComplete?.(files.length);
       
     } catch (err) {
       setError("An error occurred while processing the files.");
       console.error(err);
     } finally {
       setLoading(false);
+      setProgress(null);
     }
-  }, [files, convertToBase64, onFileSelect, selectedCategory, category, onFilesChange]);
+  }, [files, onFileSelect, selectedCategory, category, onFilesChange, onComplete]);
   
   return (
     <div className="space-y-4">
@@ -190,7 +160,7 @@ export function FileUpload({
           multiple={multiple}
         />
         <p className="text-xs text-muted-foreground">
-          Max file size: {maxSizeMB}MB. For best results, keep files under 10MB. Accepted file types: {acceptedFileTypes}
+          Max file size: {maxSizeMB}MB. Interrupted uploads resume when you select the same file again. Accepted file types: {acceptedFileTypes}
         </p>
       </div>
       
@@ -264,9 +234,17 @@ export function FileUpload({
         </div>
       )}
       
-      {loading && uploadedCount > 0 && (
-        <div className="text-sm text-center text-muted-foreground">
-          Uploaded {uploadedCount}/{files.length} files...
+      {loading && progress && (
+        <div className="space-y-1">
+          <Progress value={progress.totalBytes > 0 ? (progress.uploadedBytes / progress.totalBytes) * 100 : 0} />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {progress.resumed ? "Resuming" : "Uploading"} file {Math.min(uploadedCount + 1, files.length)} of {files.length}
+            </span>
+            <span>
+              {(progress.uploadedBytes / (1024 * 1024)).toFixed(1)} / {(progress.totalBytes / (1024 * 1024)).toFixed(1)} MB
+            </span>
+          </div>
         </div>
       )}
       
@@ -1,12 +1,160 @@
-import React, { useState, useEffect } from 'react';
-import { Document } from '@shared/schema';
-import { Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Document, DocumentStatus, AnnotationShape, UserRole } from '@shared/schema';
+import { Cloud, ExternalLink, Loader2, MapPin, MessageSquare, MousePointer2, Square } from 'lucide-react';
+import { fetchDocumentContent, getDocumentContentUrl } from '@/lib/utils/file-download';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/hooks/use-auth';
+import { DocumentPagePreviews, hasPagePreviews } from '@/components/projects/document-page-previews';
+import {
+  AnnotationLayer,
+  AnnotationList,
+  useDocumentAnnotations,
+  type AnnotationTool,
+  type DocumentAnnotationView
+} from '@/components/projects/document-annotations';
 
 interface PDFViewerProps {
   document: Document;
 }
 
+/**
+ * Shows a document for review. PDFs and images are drawn from their
+ * server-rendered page previews, with the version's annotations on top;
+ * anything else is embedded as-is.
+ */
 export function PDFViewer({ document }: PDFViewerProps) {
+  if (hasPagePreviews(document)) {
+    return <AnnotatedDocumentViewer document={document} />;
+  }
+  return <EmbeddedDocumentViewer document={document} />;
+}
+
+function AnnotatedDocumentViewer({ document }: PDFViewerProps) {
+  const { user } = useAuth();
+  const { annotations, createAnnotation, updateAnnotation, deleteAnnotation } = useDocumentAnnotations(document.id);
+  const [tool, setTool] = useState<AnnotationTool>('select');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [isPanelOpen, setIsPanelOpen] = useState(true);
+  
+  // Markup on a superseded version has already moved to the newer one
+  const isReadOnly = document.status === DocumentStatus.SUPERSEDED;
+  
+  const visibleAnnotations = useMemo(
+    () => annotations.filter(annotation => showResolved || !annotation.resolved),
+    [annotations, showResolved]
+  );
+  // Numbered in page order, matching the list
+  const labels = useMemo(
+    () => new Map(visibleAnnotations.map((annotation, index) => [annotation.id, index + 1])),
+    [visibleAnnotations]
+  );
+  const openCount = annotations.filter(annotation => !annotation.resolved).length;
+  
+  const canModerate = (annotation: DocumentAnnotationView) =>
+    !!user && (annotation.authorId === user.id || user.role === UserRole.SPECIALIST);
+  
+  const selectAnnotation = (id: number | null) => {
+    setSelectedId(id);
+    const annotation = annotations.find(candidate => candidate.id === id);
+    if (annotation) {
+      setIsPanelOpen(true);
+      window.document
+        .getElementById(`document-page-${annotation.pageNumber}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  };
+  
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-3 border-b bg-background px-3 py-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={tool}
+          onValueChange={(value) => value && setTool(value as AnnotationTool)}
+        >
+          <ToggleGroupItem value="select" aria-label="Select annotations" title="Select">
+            <MousePointer2 className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value={AnnotationShape.PIN} aria-label="Add pin" title="Pin" disabled={isReadOnly}>
+            <MapPin className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value={AnnotationShape.RECTANGLE} aria-label="Add rectangle" title="Rectangle" disabled={isReadOnly}>
+            <Square className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value={AnnotationShape.CLOUD} aria-label="Add revision cloud" title="Revision cloud" disabled={isReadOnly}>
+            <Cloud className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+        
+        <div className="flex items-center gap-2">
+          <Switch id={`show-resolved-${document.id}`} checked={showResolved} onCheckedChange={setShowResolved} />
+          <Label htmlFor={`show-resolved-${document.id}`} className="text-sm">Show resolved</Label>
+        </div>
+        
+        {isReadOnly && (
+          <span className="text-xs text-muted-foreground">Superseded version: annotations are read-only</span>
+        )}
+        
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsPanelOpen(open => !open)}>
+            <MessageSquare className="h-4 w-4 mr-1" />
+            {openCount} open
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.open(getDocumentContentUrl(document.id), '_blank')}>
+            <ExternalLink className="h-4 w-4 mr-1" />
+            Open Original
+          </Button>
+        </div>
+      </div>
+      
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1 min-w-0">
+          <DocumentPagePreviews
+            document={document}
+            fallback={<EmbeddedDocumentViewer document={document} />}
+            renderPageOverlay={(pageNumber) => (
+              <AnnotationLayer
+                pageNumber={pageNumber}
+                annotations={visibleAnnotations.filter(annotation => annotation.pageNumber === pageNumber)}
+                labels={labels}
+                tool={isReadOnly ? 'select' : tool}
+                selectedId={selectedId}
+                onSelect={selectAnnotation}
+                onCreate={(draft, text) => createAnnotation.mutateAsync({ ...draft, text })}
+              />
+            )}
+          />
+        </div>
+        
+        {isPanelOpen && (
+          <div className="w-72 shrink-0 border-l overflow-y-auto bg-background">
+            <AnnotationList
+              annotations={visibleAnnotations}
+              labels={labels}
+              selectedId={selectedId}
+              onSelect={selectAnnotation}
+              canModerate={canModerate}
+              onToggleResolved={(annotation) => updateAnnotation.mutate({ id: annotation.id, resolved: !annotation.resolved })}
+              onDelete={(annotation) => {
+                if (window.confirm('Delete this annotation?')) {
+                  deleteAnnotation.mutate(annotation.id);
+                }
+              }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Text files are shown inline; other files are embedded from the blob store
+function EmbeddedDocumentViewer({ document }: PDFViewerProps) {
   const [fileUrl, setFileUrl] = useState<string>('');
   const [fileContent, setFileContent] = useState<string>('');
   const [loading, setLoading] = useState(true);
@@ -14,74 +162,37 @@ export function PDFViewer({ document }: PDFViewerProps) {
   const [viewerSwitchCount, setViewerSwitchCount] = useState(0);
   
   useEffect(() => {
-    if (document?.fileContent) {
-      try {
-        // Check for placeholder text which causes errors
-        if (document.fileContent.includes('[Your Name]') || 
-            (document.fileContent.includes('[') && document.fileContent.includes(']'))) {
-          console.error("Document contains placeholder text which is invalid");
-          setError("This document contains invalid placeholder text. Please regenerate the cover letter.");
-          setLoading(false);
-          return;
-        }
-        
-        // For text files, just decode and display the text content directly
-        if (document.fileType === 'text/plain') {
-          try {
-            // Base64 to text conversion
-            const decodedContent = atob(document.fileContent);
-            setFileContent(decodedContent);
-            setLoading(false);
-          } catch (textError) {
-            console.error("Error decoding text content:", textError);
-            setError("Error displaying text content. The file may be corrupted.");
-            setLoading(false);
-          }
-          return;
-        }
-        
-        // For PDFs and other binary files, use direct data URL first
-        try {
-          // Try direct data URL method first
-          const url = `data:${document.fileType};base64,${document.fileContent}`;
-          setFileUrl(url);
-          setLoading(false);
-        } catch (directError) {
-          console.error("Error with direct URL, falling back to blob:", directError);
-          
-          // Fall back to blob method
-          try {
-            // Base64 to binary conversion
-            const byteCharacters = atob(document.fileContent);
-            const byteNumbers = new Array(byteCharacters.length);
-            for (let i = 0; i < byteCharacters.length; i++) {
-              byteNumbers[i] = byteCharacters.charCodeAt(i);
-            }
-            const byteArray = new Uint8Array(byteNumbers);
-            
-            // Create blob and URL
-            const blob = new Blob([byteArray], { type: document.fileType });
-            const blobUrl = URL.createObjectURL(blob);
-            
-            setFileUrl(blobUrl);
-            setLoading(false);
-            
-            // Clean up the URL on unmount
-            return () => {
-              if (blobUrl) URL.revokeObjectURL(blobUrl);
-            };
-          } catch (binaryError) {
-            console.error("Error creating binary file preview:", binaryError);
-            setError("Error creating file preview. The file may be corrupted.");
-            setLoading(false);
-          }
-        }
-      } catch (error: any) {
-        console.error("Error creating file preview:", error);
-        setError(`Error: ${error.message || "Unknown error creating preview"}`);
-        setLoading(false);
-      }
+    if (!document) return;
+    
+    setError(null);
+    setFileContent('');
+    
+    // Binary files are streamed straight from the blob store, so the browser can embed them
+    if (document.fileType !== 'text/plain') {
+      setFileUrl(getDocumentContentUrl(document.id));
+      setLoading(false);
+      return;
     }
+    
+    // For text files, fetch and display the text content directly
+    let cancelled = false;
+    setLoading(true);
+    fetchDocumentContent(document.id)
+      .then((content) => {
+        if (cancelled) return;
+        setFileContent(new TextDecoder().decode(content));
+        setLoading(false);
+      })
+      .catch((textError) => {
+        if (cancelled) return;
+        console.error("Error loading text content:", textError);
+        setError("Error displaying text content. The file may be corrupted.");
+        setLoading(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
   }, [document]);
   
   if (loading) {
@@ -0,0 +1,65 @@
+import { useQueries, useQuery } from "@tanstack/react-query";
+
+// As returned by GET /api/projects/:id/requirements (server/submittal-rules.ts)
+export interface CategoryRequirement {
+  category: string;
+  title: string;
+  required: boolean;
+  reason: string;
+}
+
+export interface ProjectRequirements {
+  facts: {
+    classification: string | null;
+    storageMethod: string | null;
+    rackHeight: number | null;
+    topOfStorageHeight: number | null;
+    storageArea: number | null;
+  } | null;
+  categories: CategoryRequirement[];
+  required: string[];
+}
+
+/**
+ * The document categories a project's submittal needs, derived on the server
+ * from its commodity and storage data.
+ */
+export function useProjectRequirements(projectId: number) {
+  const { data: requirements, isLoading } = useQuery<ProjectRequirements>({
+    queryKey: [`/api/projects/${projectId}/requirements`],
+    enabled: projectId > 0,
+  });
+
+  return {
+    requirements,
+    isLoading,
+    requiredCategories: requirements?.required ?? [],
+  };
+}
+
+/**
+ * The required categories of each of the given projects, keyed by project id.
+ * Each project is its own query, shared with useProjectRequirements, so a new
+ * project is fetched as soon as it appears and a change to one project's data
+ * refreshes only that project.
+ */
+export function useRequiredCategoriesByProject(projectIds: number[]) {
+  return useQueries({
+    queries: projectIds.map(projectId => ({
+      queryKey: [`/api/projects/${projectId}/requirements`],
+    })),
+    combine: (results) => {
+      const requiredByProject: Record<number, string[]> = {};
+      results.forEach((result, index) => {
+        const requirements = result.data as ProjectRequirements | undefined;
+        if (requirements) {
+          requiredByProject[projectIds[index]] = requirements.required;
+        }
+      });
+      return {
+        requiredByProject,
+        isLoading: results.some(result => result.isLoading),
+      };
+    },
+  });
+}
@@ -7,6 +7,30 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's message from an apiRequest error, which looks like `409: {"message":"..."}`
+export function getApiErrorMessage(error: Error): string {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  if (match) {
+    try {
+      return JSON.parse(match[1]).message ?? match[1];
+    } catch {
+      return match[1];
+    }
+  }
+  return error.message;
+}
+
+// The whole JSON body of an apiRequest error, for responses that carry more than a message
+export function getApiErrorBody<T>(error: Error): T | null {
+  const match = error.message.match(/^\d+: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as T;
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
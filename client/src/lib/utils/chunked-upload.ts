@@ -0,0 +1,180 @@
+import type { Document } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+/**
+ * Client side of the resumable upload protocol (see server/uploads.ts).
+ *
+ * A file is sent as a series of chunks, each with its SHA-256 so the server can
+ * reject corrupted parts. The session id is remembered in localStorage, so if
+ * the tab is closed or the connection drops, selecting the same file again
+ * picks up from the last chunk the server acknowledged.
+ */
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 4;
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+  // True when this upload continued an earlier, interrupted session
+  resumed: boolean;
+}
+
+interface UploadSessionState {
+  id: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: string;
+}
+
+interface ChunkedUploadOptions {
+  projectId: number;
+  category: string;
+  file: File;
+  // Upload the file as the next version of this document rather than a new one
+  previousVersionId?: number;
+  status?: string;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+function resumeKey(projectId: number, category: string, file: File, previousVersionId?: number): string {
+  const target = previousVersionId ? `v${previousVersionId}` : category;
+  return `chunkedUpload:${projectId}:${target}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// Returns the saved session for this exact file, if the server still has it
+async function findResumableSession(key: string): Promise<UploadSessionState | null> {
+  const sessionId = localStorage.getItem(key);
+  if (!sessionId) return null;
+
+  const res = await fetch(`/api/uploads/${sessionId}`, { credentials: "include" });
+  if (!res.ok) {
+    localStorage.removeItem(key);
+    return null;
+  }
+
+  const uploadSession: UploadSessionState = await res.json();
+  return uploadSession.status === "pending" ? uploadSession : null;
+}
+
+/**
+ * Returns true if an interrupted upload of this file can be resumed.
+ */
+export function hasResumableUpload(projectId: number, category: string, file: File, previousVersionId?: number): boolean {
+  return localStorage.getItem(resumeKey(projectId, category, file, previousVersionId)) !== null;
+}
+
+// A failed chunk request, with its HTTP status when the server (or the timeout) gave one
+class HttpError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// XMLHttpRequest rather than fetch so we get upload progress events
+function putChunk(
+  sessionId: string,
+  index: number,
+  data: ArrayBuffer,
+  checksum: string,
+  onProgress: (loaded: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", `/api/uploads/${sessionId}/chunks/${index}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.setRequestHeader("X-Chunk-Sha256", checksum);
+
+    xhr.upload.onprogress = event => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new HttpError(`${xhr.status}: ${xhr.responseText || xhr.statusText}`, xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(new HttpError("Network error while uploading chunk"));
+    xhr.ontimeout = () => reject(new HttpError("408: Chunk upload timed out", 408));
+
+    xhr.send(data);
+  });
+}
+
+function isRetryable(error: unknown): boolean {
+  const status = error instanceof HttpError ? error.status : undefined;
+  // Network failures have no status; 422 means the chunk arrived corrupted
+  return status === undefined || status === 408 || status === 422 || status === 429 || status >= 500;
+}
+
+export async function uploadDocumentInChunks({
+  projectId,
+  category,
+  file,
+  previousVersionId,
+  status = "pending_review",
+  onProgress,
+}: ChunkedUploadOptions): Promise<Document> {
+  const key = resumeKey(projectId, category, file, previousVersionId);
+
+  let uploadSession = await findResumableSession(key);
+  const resumed = uploadSession !== null;
+
+  if (!uploadSession) {
+    const res = await apiRequest("POST", `/api/projects/${projectId}/uploads`, {
+      category,
+      fileName: file.name,
+      fileType: file.type || "application/octet-stream",
+      fileSize: file.size,
+      chunkSize: CHUNK_SIZE,
+      previousVersionId,
+    });
+    uploadSession = (await res.json()) as UploadSessionState;
+    localStorage.setItem(key, uploadSession.id);
+  }
+
+  const { id: sessionId, chunkSize, totalChunks } = uploadSession;
+  const received = new Set(uploadSession.receivedChunks);
+
+  const chunkLength = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+  let completedBytes = Array.from(received).reduce((sum, index) => sum + chunkLength(index), 0);
+  const report = (inFlight: number) =>
+    onProgress?.({ uploadedBytes: completedBytes + inFlight, totalBytes: file.size, resumed });
+
+  report(0);
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * chunkSize;
+    const data = await file.slice(start, start + chunkLength(index)).arrayBuffer();
+    const checksum = await sha256Hex(data);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await putChunk(sessionId, index, data, checksum, report);
+        break;
+      } catch (error) {
+        if (attempt >= MAX_CHUNK_ATTEMPTS || !isRetryable(error)) throw error;
+        report(0);
+        await new Promise(resolve => setTimeout(resolve, 500 * 2 ** attempt));
+      }
+    }
+
+    completedBytes += data.byteLength;
+    report(0);
+  }
+
+  const res = await apiRequest("POST", `/api/uploads/${sessionId}/complete`, { status });
+  const document: Document = await res.json();
+  localStorage.removeItem(key);
+  return document;
+}
@@ -1,20 +1,8 @@
-import { DocumentCategory, DocumentCategoryType, DocumentStatus, DocumentStatusType } from "@shared/schema";
+import { DocumentCategory, DocumentCategoryLabels, DocumentCategoryType, DocumentStatus, DocumentStatusType } from "@shared/schema";
 
 export function formatDocumentCategory(category: DocumentCategoryType | string): string {
-  // Map of categories to formatted display names
-  const displayNames: Record<string, string> = {
-    [DocumentCategory.SITE_PLAN]: "Site Plan",
-    [DocumentCategory.FACILITY_PLAN]: "Facility Plan",
-    [DocumentCategory.EGRESS_PLAN]: "Egress Plan",
-    [DocumentCategory.STRUCTURAL_PLANS]: "Structural Plans",
-    [DocumentCategory.COMMODITIES]: "Commodities Form",
-    [DocumentCategory.FIRE_PROTECTION]: "Fire Protection",
-    [DocumentCategory.SPECIAL_INSPECTION]: "Special Inspection",
-    [DocumentCategory.COVER_LETTER]: "Cover Letter",
-  };
-  
   // Return the mapped display name or fallback to properly formatted category
-  return displayNames[category] || category
+  return (DocumentCategoryLabels as Record<string, string>)[category] || category
     .split('_')
     .map(word => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
@@ -51,6 +39,8 @@ export function getDocumentStatusColor(status: DocumentStatusType | string): { b
       return { bg: "bg-yellow-100 dark:bg-yellow-900", text: "text-yellow-800" };
     case DocumentStatus.REJECTED:
       return { bg: "bg-red-100", text: "text-red-800" };
+    case DocumentStatus.SUPERSEDED:
+      return { bg: "bg-slate-100 dark:bg-slate-800", text: "text-slate-600" };
     case DocumentStatus.NOT_SUBMITTED:
     default:
       return { bg: "bg-muted", text: "text-gray-800" };
@@ -65,6 +55,8 @@ export function getDocumentStatusLabel(status: DocumentStatusType | string): str
       return "In Review";
     case DocumentStatus.REJECTED:
       return "Rejected";
+    case DocumentStatus.SUPERSEDED:
+      return "Superseded";
     case DocumentStatus.NOT_SUBMITTED:
       return "Not Submitted";
     default:
@@ -72,22 +64,20 @@ export function getDocumentStatusLabel(status: DocumentStatusType | string): str
   }
 }
 
-export function calculateProjectDocumentProgress(documents: any[]): number {
-  if (!documents || documents.length === 0) {
+// Share of the project's required categories (GET /api/projects/:id/requirements)
+// that have an approved document
+export function calculateProjectDocumentProgress(documents: any[], requiredCategories: string[]): number {
+  if (!documents || documents.length === 0 || requiredCategories.length === 0) {
     return 0;
   }
   
-  // For simplicity, count each document category only once (use the latest version)
-  const categories = new Set(documents.map(doc => doc.category));
-  const totalCategories = 7; // 7 standard categories excluding cover letter
-  
   // Count approved documents by category
-  const approvedCategories = new Set();
+  const approvedCategories = new Set<string>();
   documents.forEach(doc => {
-    if (doc.status === DocumentStatus.APPROVED && doc.category !== DocumentCategory.COVER_LETTER) {
+    if (doc.status === DocumentStatus.APPROVED && requiredCategories.includes(doc.category)) {
       approvedCategories.add(doc.category);
     }
   });
   
-  return Math.round((approvedCategories.size / totalCategories) * 100);
+  return Math.round((approvedCategories.size / requiredCategories.length) * 100);
 }
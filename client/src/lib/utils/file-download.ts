@@ -358,24 +358,125 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
+// URL that streams a document's bytes from the blob store
+export function getDocumentContentUrl(documentId: number, options: { download?: boolean } = {}): string {
+  return `/api/documents/${documentId}/content${options.download ? '?download=1' : ''}`;
+}
+
+// Fetch the raw bytes of a stored document
+export async function fetchDocumentContent(documentId: number): Promise<Uint8Array> {
+  const response = await fetch(getDocumentContentUrl(documentId), {
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document content (${response.status})`);
+  }
+  
+  return new Uint8Array(await response.arrayBuffer());
+}
+
 // Download document with file picker
 export async function downloadDocument(
+  documentId: number,
   fileName: string,
-  fileContent: string,
   mimeType: string
 ): Promise<boolean> {
   try {
-    // Handle the case where fileContent might be null/undefined (from list view)
-    if (!fileContent) {
-      console.warn('No file content available for download');
-      return false;
-    }
-    
-    const content = base64ToUint8Array(fileContent);
+    const content = await fetchDocumentContent(documentId);
     const savedPath = await saveFileWithPicker(fileName, content, mimeType);
     return savedPath !== null;
   } catch (error) {
     console.error('Error downloading document:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Reads the file name the server suggested, preferring the UTF-8 form
+function fileNameFromContentDisposition(header: string | null): string | null {
+  if (!header) return null;
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1]);
+    } catch {
+      // Fall through to the plain filename
+    }
+  }
+  return header.match(/filename="([^"]+)"/i)?.[1] ?? null;
+}
+
+// Request a file the server generates (POST by default), then save what comes back.
+// Resolves to false if the user cancelled the save dialog.
+async function downloadGeneratedFile(
+  url: string,
+  fallbackFileName: string,
+  mimeType: string,
+  method: 'GET' | 'POST' = 'POST'
+): Promise<boolean> {
+  const response = await fetch(url, {
+    method,
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    let message = `Request failed (${response.status})`;
+    try {
+      message = (await response.json()).message ?? message;
+    } catch {
+      // Not a JSON error body; keep the generic message
+    }
+    throw new Error(message);
+  }
+
+  const fileName = fileNameFromContentDisposition(response.headers.get('Content-Disposition')) ?? fallbackFileName;
+  const content = new Uint8Array(await response.arrayBuffer());
+  const savedPath = await saveFileWithPicker(fileName, content, mimeType);
+  return savedPath !== null;
+}
+
+// Have the server build a project's submission package ZIP, then save it
+export async function downloadSubmissionPackage(projectId: number): Promise<boolean> {
+  return await downloadGeneratedFile(
+    `/api/projects/${projectId}/submission-package`,
+    `Project_${projectId}_Submission_Package.zip`,
+    'application/zip'
+  );
+}
+
+// Have the server bind a project's approved documents into one PDF, then save it
+export async function downloadSubmittalPdf(projectId: number): Promise<boolean> {
+  return await downloadGeneratedFile(
+    `/api/projects/${projectId}/submittal-pdf`,
+    `Project_${projectId}_Submittal.pdf`,
+    'application/pdf'
+  );
+}
+
+// Save the comment letter of a closed review round as Word or PDF
+export async function downloadCommentLetter(roundId: number, format: 'docx' | 'pdf'): Promise<boolean> {
+  return await downloadGeneratedFile(
+    `/api/review-rounds/${roundId}/comment-letter?format=${format}`,
+    `Review_Round_${roundId}_Comments.${format}`,
+    format === 'pdf'
+      ? 'application/pdf'
+      : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'GET'
+  );
+}
+
+// Save the point-by-point response to one submittal's correction comments
+export async function downloadCorrectionResponseLetter(
+  projectId: number,
+  submissionNumber: number,
+  format: 'docx' | 'pdf'
+): Promise<boolean> {
+  return await downloadGeneratedFile(
+    `/api/projects/${projectId}/correction-response-letter?submission=${submissionNumber}&format=${format}`,
+    `Project_${projectId}_Correction_Response_${submissionNumber}.${format}`,
+    format === 'pdf'
+      ? 'application/pdf'
+      : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'GET'
+  );
+}
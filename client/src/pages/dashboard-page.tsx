@@ -27,7 +27,9 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRequiredCategoriesByProject } from "@/hooks/use-project-requirements";
 import { ActivityTimeline } from "@/components/dashboard/activity-timeline";
+import { DeadlineList, type DocumentExpiration } from "@/components/dashboard/deadline-list";
 
 type ProjectRow = {
   id: number;
@@ -122,7 +124,12 @@ export default function DashboardPage({}: DashboardPageProps) {
     enabled: projects.length > 0,
   });
   
-  const isLoading = isLoadingProjects || isLoadingDocuments;
+  // Required categories differ per project, so progress is measured against each one's own list
+  const { requiredByProject, isLoading: isLoadingRequirements } = useRequiredCategoriesByProject(
+    projects.map(project => project.id)
+  );
+  
+  const isLoading = isLoadingProjects || isLoadingDocuments || isLoadingRequirements;
   
   // Prepare metrics
   const totalProjects = projects.length;
@@ -136,7 +143,7 @@ export default function DashboardPage({}: DashboardPageProps) {
   // Prepare table data
   const projectsTableData: ProjectRow[] = projects.map(project => {
     const documents = documentsByProject[project.id] || [];
-    const progress = calculateProjectDocumentProgress(documents);
+    const progress = calculateProjectDocumentProgress(documents, requiredByProject[project.id] || []);
     
     return {
       id: project.id,
@@ -316,6 +323,11 @@ export default function DashboardPage({}: DashboardPageProps) {
     .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
     .slice(0, 3);
   
+  // Current documents that have expired, expire soon or lapse before their project's deadline or permit
+  const { data: expirations = [], isLoading: isLoadingExpirations } = useQuery<DocumentExpiration[]>({
+    queryKey: ["/api/document-expirations"],
+  });
+  
 
   
   return (
@@ -491,80 +503,14 @@ export default function DashboardPage({}: DashboardPageProps) {
               <Card>
                 <CardContent className="p-0">
                   <div className="p-4 border-b border-border">
-                    <h2 className="text-lg font-semibold">Upcoming Deadlines</h2>
+                    <h2 className="text-lg font-semibold">Upcoming Deadlines & Expirations</h2>
                   </div>
                   <div className="p-4">
-                    <ul className="divide-y divide-gray-200">
-                      {isLoading ? (
-                        Array(3).fill(0).map((_, i) => (
-                          <li key={i} className="py-3">
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center">
-                                <Skeleton className="h-10 w-10 rounded-full" />
-                                <div className="ml-3 space-y-1">
-                                  <Skeleton className="h-4 w-32" />
-                                  <Skeleton className="h-3 w-24" />
-                                </div>
-                              </div>
-                              <div className="text-right space-y-1">
-                                <Skeleton className="h-4 w-20" />
-                                <Skeleton className="h-3 w-16" />
-                              </div>
-                            </div>
-                          </li>
-                        ))
-                      ) : upcomingDeadlines.length > 0 ? (
-                        upcomingDeadlines.map((project) => {
-                          const { text, isUrgent, daysLeft } = formatDeadline(project.deadline);
-                          let urgencyClass = "bg-green-100 text-green-500";
-                          
-                          if (daysLeft && daysLeft <= 3) {
-                            urgencyClass = "bg-red-100 text-red-500";
-                          } else if (daysLeft && daysLeft <= 7) {
-                            urgencyClass = "bg-yellow-100 dark:bg-yellow-900 text-yellow-500";
-                          }
-                          
-                          return (
-                            <li key={project.id} className="py-3">
-                              <div className="flex items-center justify-between">
-                                <div className="flex items-center">
-                                  <div className={`flex-shrink-0 h-10 w-10 rounded-full ${urgencyClass} flex items-center justify-center`}>
-                                    <Clock className="h-6 w-6" />
-                                  </div>
-                                  <div className="ml-3">
-                                    <p className="text-sm font-medium text-gray-900">{project.name}</p>
-                                    <p className="text-sm text-muted-foreground">
-                                      {project.status === "under_review" 
-                                        ? "Follow up with reviewer" 
-                                        : project.status === "rejected" 
-                                          ? "Resubmit revised documents" 
-                                          : "Submit to authority"}
-                                    </p>
-                                  </div>
-                                </div>
-                                <div className="text-right">
-                                  <p className={`text-sm font-medium ${isUrgent ? "text-red-600" : "text-gray-900"}`}>
-                                    {formatDeadline(project.deadline).text.split(" (")[0]}
-                                  </p>
-                                  <p className="text-xs text-muted-foreground">
-                                    {daysLeft === 1 ? "1 day left" : `${daysLeft} days left`}
-                                  </p>
-                                </div>
-                              </div>
-                            </li>
-                          );
-                        })
-                      ) : (
-                        <li className="py-6 text-center text-muted-foreground">
-                          No upcoming deadlines
-                        </li>
-                      )}
-                    </ul>
-                    <div className="mt-6">
-                      <Button variant="outline" className="w-full">
-                        View full calendar
-                      </Button>
-                    </div>
+                    <DeadlineList
+                      deadlines={upcomingDeadlines}
+                      expirations={expirations.slice(0, 5)}
+                      isLoading={isLoading || isLoadingExpirations}
+                    />
                   </div>
                 </CardContent>
               </Card>
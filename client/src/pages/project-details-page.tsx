@@ -10,10 +10,13 @@ import { DocumentUploadDialog } from "@/components/projects/document-upload-dial
 import { ActivityTimeline } from "@/components/dashboard/activity-timeline";
 import { AddStakeholderDialog } from "@/components/stakeholders/add-stakeholder-dialog";
 import { TeamManagementPanel } from "@/components/stakeholders/team-management-panel";
+import { ApprovalChainsPanel } from "@/components/projects/approval-chain";
+import { AttestationVerificationDialog } from "@/components/projects/attestation-verification";
+import { CorrectionCommentsPanel } from "@/components/projects/correction-comments-panel";
 import { Button } from "@/components/ui/button";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { AlertTriangle, Send } from "lucide-react";
+import { AlertTriangle, Send, ShieldCheck } from "lucide-react";
 import { 
   Dialog, 
   DialogContent, 
@@ -33,10 +36,14 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { CommoditiesForm } from "@/components/commodities/commodities-form";
+import { ProjectProtectionRequirements } from "@/components/commodities/protection-requirements";
+import { StorageArraysPanel } from "@/components/commodities/storage-arrays-panel";
+import { CommodityRevisionsPanel } from "@/components/commodities/commodity-revisions-panel";
 import { calculateProjectDocumentProgress } from "@/lib/utils/document-utils";
-import { ProjectStatus } from "@shared/schema";
+import { ProjectStatus, type Document } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
-import { createSubmissionZipNative } from "@/lib/utils/zip-creator";
+import { useProjectRequirements } from "@/hooks/use-project-requirements";
+import { downloadSubmissionPackage, downloadSubmittalPdf } from "@/lib/utils/file-download";
 
 export default function ProjectDetailsPage() {
   const { id } = useParams<{ id: string }>();
@@ -50,6 +57,7 @@ export default function ProjectDetailsPage() {
   const [isSubmitDialogOpen, setIsSubmitDialogOpen] = useState(false);
 
   const [isCoverLetterDialogOpen, setIsCoverLetterDialogOpen] = useState(false);
+  const [isVerifyDialogOpen, setIsVerifyDialogOpen] = useState(false);
   
   // Form state with localStorage persistence
   const [editableContactEmail, setEditableContactEmail] = useState(() => 
@@ -74,59 +82,28 @@ export default function ProjectDetailsPage() {
     localStorage.getItem('coverLetter_jurisdictionAddress') || ""
   );
 
-  // Export documents mutation
+  // Export documents mutation. The server assembles the package from the approved
+  // current versions, so nothing has to be downloaded into the browser first
   const exportMutation = useMutation({
-    mutationFn: async () => {
-      // Get all documents with content for export
-      const documentsWithContent = await Promise.all(
-        documents.map(async (doc) => {
-          const response = await fetch(`/api/documents/${doc.id}/content`, {
-            credentials: 'include'
-          });
-          if (!response.ok) throw new Error('Failed to fetch document content');
-          return response.json();
-        })
-      );
-
-      // Find cover letter
-      const coverLetterDoc = documentsWithContent.find(doc => 
-        doc.category === 'cover_letter' || doc.fileName.toLowerCase().includes('cover')
-      );
-
-      if (!coverLetterDoc) {
-        throw new Error('Cover letter not found');
-      }
-
-      // Create export package using the new ZIP creator
-      return await createSubmissionZipNative(
-        atob(coverLetterDoc.fileContent),
-        documentsWithContent
-          .filter(doc => doc.category !== 'cover_letter')
-          .map(doc => ({
-            fileName: doc.fileName,
-            fileContent: doc.fileContent,
-            category: doc.category
-          })),
-        project.name
-      );
-    },
-    onSuccess: (success) => {
-      if (success) {
-        // Success message is handled by the zip creator notification
-        console.log('Document package export completed successfully');
-      } else {
-        toast({
-          title: "Export Failed", 
-          description: "Could not create document package. Try downloading files individually.",
-          variant: "destructive",
-        });
-      }
-    },
-    onError: (error) => {
+    mutationFn: async () => await downloadSubmissionPackage(projectId),
+    onError: (error: Error) => {
       console.error('Export error:', error);
       toast({
         title: "Export Error",
-        description: "Failed to export documents.",
+        description: error.message || "Failed to export documents.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Single bound PDF, for departments that want one file instead of a ZIP
+  const submittalPdfMutation = useMutation({
+    mutationFn: async () => await downloadSubmittalPdf(projectId),
+    onError: (error: Error) => {
+      console.error('Submittal PDF error:', error);
+      toast({
+        title: "Export Error",
+        description: error.message || "Failed to generate the submittal PDF.",
         variant: "destructive",
       });
     }
@@ -199,8 +176,11 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
     enabled: !!projectId,
   });
 
+  // Required document categories, derived from the commodity and storage data
+  const { requirements, requiredCategories } = useProjectRequirements(projectId);
+
   // Load project documents
-  const { data: documents = [], isLoading: isLoadingDocuments } = useQuery({
+  const { data: documents = [], isLoading: isLoadingDocuments } = useQuery<Document[]>({
     queryKey: [`/api/projects/${projectId}/documents`],
     enabled: !!projectId,
   });
@@ -338,22 +318,11 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
   }
 
   // Calculate document progress
-  const progress = calculateProjectDocumentProgress(documents);
+  const progress = calculateProjectDocumentProgress(documents, requiredCategories);
   
   // Check if project is ready for submission
   const isReadyForSubmission = progress === 100 && documents.some(doc => doc.category === 'cover_letter');
   
-  // All required document categories that must be approved before generating a cover letter
-  const requiredDocumentCategories = [
-    "site_plan",
-    "facility_plan",
-    "egress_plan",
-    "structural_plans",
-    "commodities",
-    "fire_protection",
-    "special_inspection"
-  ];
-  
   const handleGenerateCoverLetter = () => {
     // Use stored values if they exist, otherwise fall back to project defaults
     const defaultEmail = editableContactEmail || (project as any)?.contactEmail || (user as any)?.defaultContactEmail || (user as any)?.email || "permits@intralog.io";
@@ -419,6 +388,7 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
                 <ProjectInfoCards 
                   project={project} 
                   documents={documents} 
+                  requirements={requirements}
                   stakeholders={stakeholders}
                   onAddStakeholder={() => setIsStakeholderDialogOpen(true)}
                 />
@@ -428,6 +398,7 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
                 <TabsList>
                   <TabsTrigger value="documents">Documents</TabsTrigger>
                   <TabsTrigger value="team">Team</TabsTrigger>
+                  <TabsTrigger value="corrections">Corrections</TabsTrigger>
                   <TabsTrigger value="commodities">Commodities Form</TabsTrigger>
                   <TabsTrigger value="activity">Activity Timeline</TabsTrigger>
                 </TabsList>
@@ -451,6 +422,15 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
                               {exportMutation.isPending ? "Exporting..." : "Export"}
                             </Button>
                           )}
+                          {documents.some(doc => doc.status === 'approved' && doc.category !== 'cover_letter') && (
+                            <Button 
+                              variant="outline"
+                              onClick={() => submittalPdfMutation.mutate()}
+                              disabled={submittalPdfMutation.isPending}
+                            >
+                              {submittalPdfMutation.isPending ? "Binding PDF..." : "Bound PDF"}
+                            </Button>
+                          )}
                           <Button onClick={() => setIsUploadDialogOpen(true)}>
                             Upload Document
                           </Button>
@@ -466,6 +446,11 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
                 
                 <TabsContent value="team" className="mt-6">
                   <TeamManagementPanel projectId={projectId} />
+                  <ApprovalChainsPanel projectId={projectId} />
+                </TabsContent>
+                
+                <TabsContent value="corrections" className="mt-6">
+                  <CorrectionCommentsPanel projectId={projectId} documents={documents} />
                 </TabsContent>
                 
                 <TabsContent value="commodities" className="mt-6">
@@ -479,13 +464,29 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
                       />
                     </CardContent>
                   </Card>
+                  <div className="mt-6">
+                    <StorageArraysPanel projectId={projectId} />
+                  </div>
+                  <Card className="mt-6">
+                    <CardContent className="p-6">
+                      <h2 className="text-lg font-semibold mb-4">Fire Protection Requirements</h2>
+                      <ProjectProtectionRequirements projectId={projectId} />
+                    </CardContent>
+                  </Card>
+                  <div className="mt-6">
+                    <CommodityRevisionsPanel projectId={projectId} documents={documents} />
+                  </div>
                 </TabsContent>
                 
                 <TabsContent value="activity" className="mt-6">
                   <Card>
                     <CardContent className="p-0">
-                      <div className="p-4 border-b border-border">
+                      <div className="p-4 border-b border-border flex justify-between items-center">
                         <h2 className="text-lg font-semibold">Activity Timeline</h2>
+                        <Button variant="outline" size="sm" onClick={() => setIsVerifyDialogOpen(true)}>
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                          Verify Approvals
+                        </Button>
                       </div>
                       <div className="p-4">
                         <ActivityTimeline activities={activities} />
@@ -498,6 +499,12 @@ ${user?.defaultContactPhone || '(714) 697-6431'}`;
           )}
         </div>
         
+        <AttestationVerificationDialog
+          projectId={projectId}
+          open={isVerifyDialogOpen}
+          onOpenChange={setIsVerifyDialogOpen}
+        />
+        
         {/* Upload Document Dialog */}
         <DocumentUploadDialog 
           isOpen={isUploadDialogOpen}
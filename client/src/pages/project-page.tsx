@@ -21,6 +21,7 @@ import { insertProjectSchema } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRequiredCategoriesByProject } from "@/hooks/use-project-requirements";
 import { navigate } from "wouter/use-browser-location";
 // Create a custom form schema specifically for the client-side form
 
@@ -33,7 +34,6 @@ const clientFormSchema = z.object({
   contactEmail: z.string().optional(),
   contactPhone: z.string().optional(),
   zipCode: z.string().optional(),
-  status: z.string().default("not_started"),
   deadline: z.string().optional(),
 });
 
@@ -132,7 +132,12 @@ export default function ProjectPage() {
     enabled: (projects as any[]).length > 0,
   });
   
-  const isLoading = isLoadingProjects || isLoadingDocuments;
+  // Required categories differ per project, so progress is measured against each one's own list
+  const { requiredByProject, isLoading: isLoadingRequirements } = useRequiredCategoriesByProject(
+    (projects as any[]).map(project => project.id)
+  );
+  
+  const isLoading = isLoadingProjects || isLoadingDocuments || isLoadingRequirements;
   
   // Form for creating new project
   const form = useForm<ProjectFormValues>({
@@ -145,7 +150,6 @@ export default function ProjectPage() {
       contactEmail: "",
       contactPhone: "",
       zipCode: "",
-      status: "not_started",
       deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
     },
   });
@@ -204,7 +208,7 @@ export default function ProjectPage() {
   // Prepare table data
   const projectsTableData: ProjectRow[] = (projects as any[]).map((project: any) => {
     const documents = documentsByProject[project.id] || [];
-    const progress = calculateProjectDocumentProgress(documents);
+    const progress = calculateProjectDocumentProgress(documents, requiredByProject[project.id] || []);
     
     return {
       id: project.id,
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { FileText, TrendingUp, Clock, CheckCircle, XCircle, AlertTriangle, Download, Calendar, Building, Users } from "lucide-react";
 import { format, subDays, startOfMonth, endOfMonth } from "date-fns";
+import { RejectionReasonsCard } from "@/components/reports/rejection-reasons-card";
 
 export default function ReportsPage() {
   const { user } = useAuth();
@@ -250,6 +251,8 @@ export default function ReportsPage() {
         </Card>
       </div>
 
+      <RejectionReasonsCard days={dateRange} />
+
       {/* Recent Activity */}
       <Card>
         <CardHeader>
@@ -1,6 +1,9 @@
-import React, { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import React, { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { formatDocumentCategory } from "@/lib/utils/document-utils";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,66 +11,138 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FileText, Search, Calendar, Clock, CheckCircle, XCircle, AlertTriangle, Eye } from "lucide-react";
-import { format, formatDistanceToNow } from "date-fns";
+import { FileText, Search, Clock, AlertTriangle, UserX, Eye, Users } from "lucide-react";
+import { format } from "date-fns";
 import { Link } from "wouter";
+import { ReviewRoundsCard } from "@/components/reviews/review-rounds-card";
+import type { Document } from "@shared/schema";
+
+// As returned by GET /api/review-queue
+interface ReviewQueueItem extends Document {
+  projectName: string;
+  uploadedByName: string | null;
+  assignedReviewerName: string | null;
+  enteredStatusAt: string;
+  hoursInStatus: number;
+  slaDays: number;
+  dueAt: string;
+  overdue: boolean;
+  dueSoon: boolean;
+}
+
+interface ReviewerWorkload {
+  reviewerId: number | null;
+  reviewerName: string;
+  count: number;
+  overdueCount: number;
+  dueSoonCount: number;
+  oldestHoursInStatus: number | null;
+}
+
+interface ReviewQueue {
+  generatedAt: string;
+  items: ReviewQueueItem[];
+  workload: ReviewerWorkload[];
+}
+
+type SortOrder = "oldest" | "newest" | "due" | "project";
+type SlaFilter = "all" | "overdue" | "due_soon" | "on_track";
+
+const UNASSIGNED = "unassigned";
+
+function formatAge(hours: number): string {
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  const remainder = hours % 24;
+  return remainder > 0 ? `${days}d ${remainder}h` : `${days}d`;
+}
+
+function SlaBadge({ item }: { item: ReviewQueueItem }) {
+  if (item.overdue) {
+    return <Badge variant="destructive"><AlertTriangle className="h-3 w-3 mr-1" />Overdue</Badge>;
+  }
+  if (item.dueSoon) {
+    return <Badge variant="outline" className="text-orange-600 border-orange-200"><Clock className="h-3 w-3 mr-1" />Due soon</Badge>;
+  }
+  return <Badge variant="outline" className="text-green-600 border-green-200">On track</Badge>;
+}
 
 export default function ReviewsPage() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
+  const [reviewerFilter, setReviewerFilter] = useState("all");
+  const [slaFilter, setSlaFilter] = useState<SlaFilter>("all");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("oldest");
 
-  // Load all projects to get documents that need review
-  const { data: projects = [], isLoading: isLoadingProjects } = useQuery({
-    queryKey: ["/api/projects"],
-    staleTime: 30000,
+  const { data: queue, isLoading } = useQuery<ReviewQueue>({
+    queryKey: ["/api/review-queue"],
+    // Ages and SLA flags move with the clock
+    refetchInterval: 5 * 60_000,
   });
 
-  // Get all documents that need review from all projects
-  const documentsNeedingReview = projects.flatMap((project: any) => 
-    (project.documents || []).filter((doc: any) => 
-      doc.status === 'pending_review' || doc.status === 'under_review'
-    ).map((doc: any) => ({
-      ...doc,
-      projectName: project.name,
-      projectId: project.id,
-    }))
-  );
+  const items = queue?.items ?? [];
+  const workload = queue?.workload ?? [];
+  const reviewers = workload.filter(entry => entry.reviewerId !== null);
+  const unassignedCount = workload.find(entry => entry.reviewerId === null)?.count ?? 0;
 
-  // Filter documents based on search and status
-  const filteredDocuments = documentsNeedingReview.filter((doc: any) => {
-    const matchesSearch = searchTerm === "" || 
-      doc.filename?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      doc.projectName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      doc.category?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === "all" || doc.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
+  const assignMutation = useMutation({
+    mutationFn: async ({ documentId, reviewerId }: { documentId: number; reviewerId: number | null }) => {
+      const res = await apiRequest("PUT", `/api/documents/${documentId}/reviewer`, { reviewerId });
+      return await res.json();
+    },
+    onSuccess: (document: Document) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/review-queue"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${document.projectId}/activities`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not assign reviewer",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
   });
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'pending_review':
-        return <Badge variant="outline" className="text-orange-600 border-orange-200"><Clock className="h-3 w-3 mr-1" />Pending Review</Badge>;
-      case 'under_review':
-        return <Badge variant="secondary" className="text-blue-600 border-blue-200"><AlertTriangle className="h-3 w-3 mr-1" />Under Review</Badge>;
-      case 'approved':
-        return <Badge variant="default" className="text-green-600 border-green-200 dark:border-green-700"><CheckCircle className="h-3 w-3 mr-1" />Approved</Badge>;
-      case 'rejected':
-        return <Badge variant="destructive"><XCircle className="h-3 w-3 mr-1" />Rejected</Badge>;
-      default:
-        return <Badge variant="outline">{status}</Badge>;
-    }
-  };
+  const visibleItems = useMemo(() => {
+    const search = searchTerm.trim().toLowerCase();
+    const filtered = items.filter(item => {
+      const matchesSearch = search === "" ||
+        item.fileName.toLowerCase().includes(search) ||
+        item.projectName.toLowerCase().includes(search) ||
+        formatDocumentCategory(item.category).toLowerCase().includes(search);
+
+      const matchesReviewer = reviewerFilter === "all" ||
+        (reviewerFilter === UNASSIGNED
+          ? !item.assignedReviewerId
+          : item.assignedReviewerId === parseInt(reviewerFilter));
+
+      const matchesSla = slaFilter === "all" ||
+        (slaFilter === "overdue" && item.overdue) ||
+        (slaFilter === "due_soon" && item.dueSoon) ||
+        (slaFilter === "on_track" && !item.overdue && !item.dueSoon);
+
+      return matchesSearch && matchesReviewer && matchesSla;
+    });
 
-  const formatCategory = (category: string) => {
-    return category.split('_').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
-  };
+    return filtered.sort((a, b) => {
+      switch (sortOrder) {
+        case "newest":
+          return new Date(b.enteredStatusAt).getTime() - new Date(a.enteredStatusAt).getTime();
+        case "due":
+          return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
+        case "project":
+          return a.projectName.localeCompare(b.projectName) ||
+            new Date(a.enteredStatusAt).getTime() - new Date(b.enteredStatusAt).getTime();
+        default:
+          return new Date(a.enteredStatusAt).getTime() - new Date(b.enteredStatusAt).getTime();
+      }
+    });
+  }, [items, searchTerm, reviewerFilter, slaFilter, sortOrder]);
 
-  if (isLoadingProjects) {
+  const isFiltered = searchTerm !== "" || reviewerFilter !== "all" || slaFilter !== "all";
+
+  if (isLoading) {
     return (
       <div className="container mx-auto p-6 space-y-6">
         <div className="space-y-2">
@@ -84,7 +159,7 @@ export default function ReviewsPage() {
       <div className="space-y-2">
         <h1 className="text-3xl font-bold tracking-tight">Document Reviews</h1>
         <p className="text-muted-foreground">
-          Manage and track document reviews across all projects
+          Assign and track document reviews across all projects
         </p>
       </div>
 
@@ -94,8 +169,8 @@ export default function ReviewsPage() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Total Documents</p>
-                <p className="text-2xl font-bold">{documentsNeedingReview.length}</p>
+                <p className="text-sm font-medium text-muted-foreground">Awaiting Review</p>
+                <p className="text-2xl font-bold">{items.length}</p>
               </div>
               <FileText className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -106,12 +181,12 @@ export default function ReviewsPage() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Pending Review</p>
-                <p className="text-2xl font-bold text-orange-600">
-                  {documentsNeedingReview.filter(d => d.status === 'pending_review').length}
+                <p className="text-sm font-medium text-muted-foreground">Overdue</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {items.filter(item => item.overdue).length}
                 </p>
               </div>
-              <Clock className="h-8 w-8 text-orange-500" />
+              <AlertTriangle className="h-8 w-8 text-red-500" />
             </div>
           </CardContent>
         </Card>
@@ -120,12 +195,12 @@ export default function ReviewsPage() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Under Review</p>
-                <p className="text-2xl font-bold text-blue-600">
-                  {documentsNeedingReview.filter(d => d.status === 'under_review').length}
+                <p className="text-sm font-medium text-muted-foreground">Due Soon</p>
+                <p className="text-2xl font-bold text-orange-600">
+                  {items.filter(item => item.dueSoon).length}
                 </p>
               </div>
-              <AlertTriangle className="h-8 w-8 text-blue-500" />
+              <Clock className="h-8 w-8 text-orange-500" />
             </div>
           </CardContent>
         </Card>
@@ -134,15 +209,57 @@ export default function ReviewsPage() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Active Projects</p>
-                <p className="text-2xl font-bold">{projects.length}</p>
+                <p className="text-sm font-medium text-muted-foreground">Unassigned</p>
+                <p className="text-2xl font-bold">{unassignedCount}</p>
               </div>
-              <CheckCircle className="h-8 w-8 text-green-500" />
+              <UserX className="h-8 w-8 text-muted-foreground" />
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Reviewer Workload */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Reviewer Workload
+          </CardTitle>
+          <CardDescription>
+            Documents awaiting review per specialist. Click a reviewer to show only their queue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {workload.map(entry => {
+              const value = entry.reviewerId === null ? UNASSIGNED : String(entry.reviewerId);
+              const isSelected = reviewerFilter === value;
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setReviewerFilter(isSelected ? "all" : value)}
+                  className={`text-left rounded-md border p-3 hover:bg-muted/50 ${isSelected ? "border-primary bg-muted/50" : ""}`}
+                >
+                  <div className="font-medium text-sm truncate">
+                    {entry.reviewerName}
+                    {entry.reviewerId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </div>
+                  <div className="text-2xl font-bold">{entry.count}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.overdueCount > 0 && <span className="text-red-600">{entry.overdueCount} overdue · </span>}
+                    {entry.dueSoonCount > 0 && <span className="text-orange-600">{entry.dueSoonCount} due soon · </span>}
+                    {entry.oldestHoursInStatus !== null ? `oldest ${formatAge(entry.oldestHoursInStatus)}` : "nothing waiting"}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ReviewRoundsCard />
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -157,7 +274,7 @@ export default function ReviewsPage() {
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by filename, project, or category..."
+                  placeholder="Search by file name, project, or category..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -165,14 +282,44 @@ export default function ReviewsPage() {
               </div>
             </div>
             <div className="w-full md:w-48">
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={reviewerFilter} onValueChange={setReviewerFilter}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Filter by status" />
+                  <SelectValue placeholder="Filter by reviewer" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="pending_review">Pending Review</SelectItem>
-                  <SelectItem value="under_review">Under Review</SelectItem>
+                  <SelectItem value="all">All Reviewers</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {reviewers.map(entry => (
+                    <SelectItem key={entry.reviewerId} value={String(entry.reviewerId)}>
+                      {entry.reviewerName}{entry.reviewerId === user?.id ? " (you)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-full md:w-40">
+              <Select value={slaFilter} onValueChange={(value) => setSlaFilter(value as SlaFilter)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by SLA" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any SLA Status</SelectItem>
+                  <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="due_soon">Due Soon</SelectItem>
+                  <SelectItem value="on_track">On Track</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-full md:w-44">
+              <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="oldest">Oldest First</SelectItem>
+                  <SelectItem value="newest">Newest First</SelectItem>
+                  <SelectItem value="due">SLA Due Date</SelectItem>
+                  <SelectItem value="project">Project</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -183,9 +330,9 @@ export default function ReviewsPage() {
       {/* Documents Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Documents for Review ({filteredDocuments.length})</CardTitle>
+          <CardTitle>Review Queue ({visibleItems.length})</CardTitle>
           <CardDescription>
-            Click on any document to review and approve or reject it
+            Time in review counts from when each version was submitted for review
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -196,62 +343,81 @@ export default function ReviewsPage() {
                   <TableHead>Document</TableHead>
                   <TableHead>Project</TableHead>
                   <TableHead>Category</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Uploaded</TableHead>
+                  <TableHead>In Review</TableHead>
+                  <TableHead>SLA</TableHead>
+                  <TableHead>Reviewer</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredDocuments.length === 0 ? (
+                {visibleItems.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
-                      {searchTerm || statusFilter !== "all" 
-                        ? "No documents match your filters" 
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      {isFiltered
+                        ? "No documents match your filters"
                         : "No documents pending review"}
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredDocuments.map((doc: any) => (
-                    <TableRow key={`${doc.projectId}-${doc.id}`} className="hover:bg-muted/50">
+                  visibleItems.map(item => (
+                    <TableRow key={item.id} className="hover:bg-muted/50">
                       <TableCell className="font-medium">
                         <div className="flex items-center gap-2">
                           <FileText className="h-4 w-4 text-muted-foreground" />
                           <div>
-                            <div className="font-medium">{doc.filename}</div>
+                            <div className="font-medium">{item.fileName}</div>
                             <div className="text-sm text-muted-foreground">
-                              Version {doc.version || '1'}
+                              Version {item.version}{item.uploadedByName ? ` · ${item.uploadedByName}` : ""}
                             </div>
                           </div>
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Link href={`/project/${doc.projectId}`} className="text-blue-600 hover:underline">
-                          {doc.projectName}
+                        <Link href={`/project/${item.projectId}`} className="text-blue-600 hover:underline">
+                          {item.projectName}
                         </Link>
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">
-                          {formatCategory(doc.category)}
+                          {formatDocumentCategory(item.category)}
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        {getStatusBadge(doc.status)}
+                        <div className="text-sm">{formatAge(item.hoursInStatus)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          since {format(new Date(item.enteredStatusAt), "MMM d, yyyy")}
+                        </div>
                       </TableCell>
                       <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4 text-muted-foreground" />
-                          <div>
-                            <div className="text-sm">
-                              {doc.uploadedAt ? format(new Date(doc.uploadedAt), 'MMM dd, yyyy') : 'Unknown'}
-                            </div>
-                            <div className="text-xs text-muted-foreground">
-                              {doc.uploadedAt ? formatDistanceToNow(new Date(doc.uploadedAt), { addSuffix: true }) : ''}
-                            </div>
-                          </div>
+                        <SlaBadge item={item} />
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {item.slaDays}d target, due {format(new Date(item.dueAt), "MMM d")}
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Link href={`/project/${doc.projectId}`}>
+                        <Select
+                          value={item.assignedReviewerId ? String(item.assignedReviewerId) : UNASSIGNED}
+                          onValueChange={(value) => assignMutation.mutate({
+                            documentId: item.id,
+                            reviewerId: value === UNASSIGNED ? null : parseInt(value),
+                          })}
+                          disabled={assignMutation.isPending}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue placeholder="Assign" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {reviewers.map(entry => (
+                              <SelectItem key={entry.reviewerId} value={String(entry.reviewerId)}>
+                                {entry.reviewerName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/project/${item.projectId}`}>
                           <Button variant="outline" size="sm">
                             <Eye className="h-4 w-4 mr-2" />
                             Review
@@ -268,4 +434,4 @@ export default function ReviewsPage() {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,389 @@
+import {
+  ApprovalStageStatus,
+  DocumentCategory,
+  DocumentCategoryLabels,
+  DocumentStatus,
+  StakeholderRole,
+  TaskType,
+  UserRole,
+  type ApprovalChainStage,
+  type Document,
+  type DocumentApprovalStage,
+  type User
+} from "@shared/schema";
+import { storage, type DocumentApprovalStageWithSigner } from "./storage";
+import { NotificationService } from "./notification-service.js";
+import { findUnsatisfiedChecklistItems, logCompletedChecklist } from "./review-checklists";
+import { recordReviewDecision } from "./review-rounds";
+import { attestReviewDecision, hashDocumentForAttestation } from "./attestations";
+
+export const MAX_APPROVAL_STAGES = 8;
+
+// A stage is signed off by the project's stakeholders with one role, or by the permit specialists
+export const approvalStageRoles: string[] = [UserRole.SPECIALIST, ...Object.values(StakeholderRole)];
+
+export class ApprovalChainError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public unsatisfiedItems?: Array<{ id: string; label: string }>
+  ) {
+    super(message);
+  }
+}
+
+export interface ApprovalChain {
+  category: string;
+  title: string;
+  // Empty when the category is approved in a single step
+  stages: ApprovalChainStage[];
+}
+
+export interface DocumentApprovalStageView extends DocumentApprovalStageWithSigner {
+  // The signer of this stage must have completed the review checklist
+  checklistRequired: boolean;
+}
+
+export interface DocumentApproval {
+  stages: DocumentApprovalStageView[];
+  activeStageId: number | null;
+  // Whether the requesting user can sign off the active stage
+  canSignOff: boolean;
+}
+
+function categoryTitle(category: string): string {
+  return (DocumentCategoryLabels as Record<string, string>)[category] ?? category;
+}
+
+function roleLabel(role: string): string {
+  return role === UserRole.SPECIALIST ? "permit specialist" : role.replace(/_/g, " ");
+}
+
+// The checklist is the specialist's review tool, so their stage carries the
+// checklist gate; a chain without one gates its final sign-off instead
+function checklistStageOrder(stages: Array<Pick<DocumentApprovalStage, "role" | "stageOrder">>): number | undefined {
+  const specialistStage = stages.find(stage => stage.role === UserRole.SPECIALIST);
+  return (specialistStage ?? stages[stages.length - 1])?.stageOrder;
+}
+
+async function canSignStage(stage: DocumentApprovalStage, user: User, projectId: number): Promise<boolean> {
+  if (stage.role === UserRole.SPECIALIST) {
+    return user.role === UserRole.SPECIALIST;
+  }
+  const stakeholders = await storage.getProjectStakeholders(projectId);
+  return stakeholders.some(stakeholder =>
+    stakeholder.userId === user.id && Array.isArray(stakeholder.roles) && stakeholder.roles.includes(stage.role));
+}
+
+/**
+ * The chain for every category that can be reviewed, including categories
+ * that have none.
+ */
+export async function getApprovalChains(projectId: number): Promise<ApprovalChain[]> {
+  const stages = await storage.getApprovalChainStages(projectId);
+  return Object.values(DocumentCategory)
+    .filter(category => category !== DocumentCategory.COVER_LETTER)
+    .map(category => ({
+      category,
+      title: categoryTitle(category),
+      stages: stages.filter(stage => stage.category === category),
+    }));
+}
+
+/**
+ * Replaces a category's approval chain. Versions already part-way through the
+ * old chain keep it; versions still waiting for review start the new one.
+ */
+export async function saveApprovalChain(
+  projectId: number,
+  category: string,
+  stages: Array<{ name: string; role: string }>,
+  savedBy: User
+): Promise<ApprovalChain[]> {
+  if (!(Object.values(DocumentCategory) as string[]).includes(category) || category === DocumentCategory.COVER_LETTER) {
+    throw new ApprovalChainError(400, `Unknown document category: ${category}`);
+  }
+  if (stages.length > MAX_APPROVAL_STAGES) {
+    throw new ApprovalChainError(400, `An approval chain can have at most ${MAX_APPROVAL_STAGES} stages`);
+  }
+  const unknownRole = stages.find(stage => !approvalStageRoles.includes(stage.role));
+  if (unknownRole) {
+    throw new ApprovalChainError(400, `Unknown approval role: ${unknownRole.role}`);
+  }
+
+  await storage.replaceApprovalChain(projectId, category, stages.map((stage, index) => ({
+    projectId,
+    category,
+    stageOrder: index + 1,
+    name: stage.name,
+    role: stage.role,
+    createdById: savedBy.id,
+  })));
+
+  await storage.createActivityLog({
+    projectId,
+    userId: savedBy.id,
+    activityType: "approval_chain_updated",
+    description: stages.length > 0
+      ? `Approval chain for ${categoryTitle(category)} set to: ${stages.map(stage => `${stage.name} (${roleLabel(stage.role)})`).join(" → ")}`
+      : `Approval chain for ${categoryTitle(category)} was removed; documents are approved in one step`,
+  });
+
+  const waiting = (await storage.getDocumentsByProject(projectId)).filter(document =>
+    document.category === category &&
+    (document.status === DocumentStatus.NOT_SUBMITTED || document.status === DocumentStatus.PENDING_REVIEW));
+  for (const document of waiting) {
+    if ((await storage.getDocumentApprovalStages(document.id)).length === 0) {
+      await startApprovalChain(document, savedBy);
+    }
+  }
+
+  return await getApprovalChains(projectId);
+}
+
+/**
+ * Makes a stage the one awaiting sign-off. Stakeholders holding its role each
+ * get a task; specialist stages are announced to every specialist.
+ */
+async function activateStage(document: Document, stage: DocumentApprovalStage, isFinal: boolean, actor: User): Promise<void> {
+  const activated = await storage.updateDocumentApprovalStage(stage.id, ApprovalStageStatus.WAITING, {
+    status: ApprovalStageStatus.ACTIVE,
+    activatedAt: new Date(),
+  });
+  if (!activated) return;
+
+  if (stage.role === UserRole.SPECIALIST) {
+    await NotificationService.notifyApprovalStageReady(document.id, document.projectId, stage.name, document.fileName);
+    return;
+  }
+
+  const signers = (await storage.getProjectStakeholders(document.projectId)).filter(stakeholder =>
+    Array.isArray(stakeholder.roles) && stakeholder.roles.includes(stage.role));
+  if (signers.length === 0) {
+    await storage.createActivityLog({
+      projectId: document.projectId,
+      userId: actor.id,
+      activityType: "approval_stage_unassigned",
+      description: `No stakeholder on the project has the ${roleLabel(stage.role)} role, so nobody can sign off the "${stage.name}" stage for "${document.fileName}"`,
+    });
+    return;
+  }
+
+  const description = `${stage.name}: sign off "${document.fileName}" (v${document.version})`;
+  const taskIds: number[] = [];
+  for (const stakeholder of signers) {
+    const task = await storage.createStakeholderTask({
+      stakeholderId: stakeholder.id,
+      documentCategory: document.category,
+      taskType: isFinal ? TaskType.APPROVE_DOCUMENT : TaskType.REVIEW_DOCUMENT,
+      description,
+      status: "pending",
+      createdById: actor.id,
+    });
+    taskIds.push(task.id);
+    await NotificationService.notifyTaskAssigned(
+      task.id,
+      stakeholder.userId,
+      actor.fullName || actor.username,
+      document.projectId,
+      description
+    );
+  }
+  await storage.updateDocumentApprovalStage(stage.id, ApprovalStageStatus.ACTIVE, { taskIds });
+}
+
+// Tasks for a stage nobody needs to sign any more are closed along with it
+async function closeStageTasks(stage: DocumentApprovalStage): Promise<void> {
+  for (const taskId of stage.taskIds) {
+    await storage.updateStakeholderTask(taskId, { status: "completed", completedAt: new Date() });
+  }
+}
+
+/**
+ * Copies the category's chain onto a version and opens its first stage. Does
+ * nothing when the category has no chain or the version already has one.
+ */
+export async function startApprovalChain(document: Document, startedBy: User): Promise<void> {
+  const chain = (await storage.getApprovalChainStages(document.projectId))
+    .filter(stage => stage.category === document.category);
+  if (chain.length === 0) return;
+
+  const created = await storage.createDocumentApprovalStages(chain.map(stage => ({
+    documentId: document.id,
+    stageOrder: stage.stageOrder,
+    name: stage.name,
+    role: stage.role,
+  })));
+  if (created.length === 0) return;
+
+  const first = created.reduce((lowest, stage) => stage.stageOrder < lowest.stageOrder ? stage : lowest);
+  await activateStage(document, first, created.length === 1, startedBy);
+}
+
+/**
+ * Starts the chain again from its first stage, e.g. when a rejected version is
+ * put back into review.
+ */
+export async function restartApprovalChain(document: Document, restartedBy: User): Promise<void> {
+  const stages = await storage.getDocumentApprovalStages(document.id);
+  for (const stage of stages) {
+    await closeStageTasks(stage);
+  }
+  await storage.deleteDocumentApprovalStages(document.id);
+  await startApprovalChain(document, restartedBy);
+}
+
+/**
+ * Stops the chain at its active stage, recording who rejected the version.
+ */
+export async function rejectApprovalStage(document: Document, rejectedBy: User, comments: string | null): Promise<void> {
+  const active = (await storage.getDocumentApprovalStages(document.id))
+    .find(stage => stage.status === ApprovalStageStatus.ACTIVE);
+  if (!active) return;
+
+  const rejected = await storage.updateDocumentApprovalStage(active.id, ApprovalStageStatus.ACTIVE, {
+    status: ApprovalStageStatus.REJECTED,
+    signedOffById: rejectedBy.id,
+    signedOffAt: new Date(),
+    comments: comments?.trim() || null,
+  });
+  if (rejected) {
+    await closeStageTasks(rejected);
+  }
+}
+
+/**
+ * Closes the open tasks of a version that has been replaced by a new upload.
+ */
+export async function closeApprovalTasks(document: Document): Promise<void> {
+  const stages = await storage.getDocumentApprovalStages(document.id);
+  for (const stage of stages.filter(stage => stage.status === ApprovalStageStatus.ACTIVE)) {
+    await closeStageTasks(stage);
+  }
+}
+
+/**
+ * Whether approving this version has to go through sign-offs rather than a
+ * single status change.
+ */
+export async function requiresApprovalChain(document: Document): Promise<boolean> {
+  if ((await storage.getDocumentApprovalStages(document.id)).length > 0) return true;
+  const chain = await storage.getApprovalChainStages(document.projectId);
+  return chain.some(stage => stage.category === document.category);
+}
+
+export async function getDocumentApproval(document: Document, user: User): Promise<DocumentApproval> {
+  const stages = await storage.getDocumentApprovalStages(document.id);
+  const checklistOrder = checklistStageOrder(stages);
+  const active = stages.find(stage => stage.status === ApprovalStageStatus.ACTIVE);
+
+  return {
+    stages: stages.map(stage => ({ ...stage, checklistRequired: stage.stageOrder === checklistOrder })),
+    activeStageId: active?.id ?? null,
+    canSignOff: !!active && await canSignStage(active, user, document.projectId),
+  };
+}
+
+/**
+ * Signs off the version's active stage. The next stage is opened with its own
+ * tasks, and signing the last one approves the document.
+ */
+export async function signOffApprovalStage(
+  document: Document,
+  user: User,
+  comments: string | null
+): Promise<{ document: Document; approval: DocumentApproval }> {
+  if (document.status === DocumentStatus.SUPERSEDED) {
+    throw new ApprovalChainError(409, "This version has been superseded by a newer upload");
+  }
+  if (document.status === DocumentStatus.APPROVED) {
+    throw new ApprovalChainError(409, "This version is already approved");
+  }
+  if (document.status !== DocumentStatus.PENDING_REVIEW) {
+    throw new ApprovalChainError(409, "Only a version submitted for review can be signed off");
+  }
+
+  let stages = await storage.getDocumentApprovalStages(document.id);
+  if (stages.length === 0) {
+    await startApprovalChain(document, user);
+    stages = await storage.getDocumentApprovalStages(document.id);
+  }
+  if (stages.length === 0) {
+    throw new ApprovalChainError(409, `${categoryTitle(document.category)} documents have no approval chain; approve the document directly`);
+  }
+
+  const active = stages.find(stage => stage.status === ApprovalStageStatus.ACTIVE);
+  if (!active) {
+    throw new ApprovalChainError(409, stages.some(stage => stage.status === ApprovalStageStatus.REJECTED)
+      ? "The approval chain stopped when this version was rejected; return it to review to start again"
+      : "No stage of the approval chain is awaiting sign-off");
+  }
+  if (!await canSignStage(active, user, document.projectId)) {
+    throw new ApprovalChainError(403, active.role === UserRole.SPECIALIST
+      ? `Only a permit specialist can sign off the "${active.name}" stage`
+      : `Only a project stakeholder with the ${roleLabel(active.role)} role can sign off the "${active.name}" stage`);
+  }
+
+  const gatesChecklist = active.stageOrder === checklistStageOrder(stages);
+  if (gatesChecklist) {
+    const unsatisfied = await findUnsatisfiedChecklistItems(document, user.id);
+    if (unsatisfied.length > 0) {
+      throw new ApprovalChainError(
+        409,
+        `Complete the review checklist before signing off (${unsatisfied.length} required item${unsatisfied.length === 1 ? "" : "s"} unchecked)`,
+        unsatisfied.map(item => ({ id: item.id, label: item.label }))
+      );
+    }
+  }
+
+  const next = stages.find(stage => stage.stageOrder > active.stageOrder);
+  const contentHash = await hashDocumentForAttestation(document);
+  const signedOff = await storage.updateDocumentApprovalStage(active.id, ApprovalStageStatus.ACTIVE, {
+    status: ApprovalStageStatus.SIGNED_OFF,
+    signedOffById: user.id,
+    signedOffAt: new Date(),
+    comments: comments?.trim() || null,
+  });
+  if (!signedOff) {
+    throw new ApprovalChainError(409, "This stage was just signed off or rejected by someone else; reload and try again");
+  }
+  await closeStageTasks(signedOff);
+  await attestReviewDecision(document, user, {
+    decision: next ? ApprovalStageStatus.SIGNED_OFF : DocumentStatus.APPROVED,
+    comments: signedOff.comments,
+    stageName: active.name,
+    contentHash,
+  });
+
+  await storage.createActivityLog({
+    projectId: document.projectId,
+    userId: user.id,
+    activityType: "approval_stage_signed_off",
+    description: `${user.fullName} signed off the "${active.name}" stage (${stages.indexOf(active) + 1} of ${stages.length}) for "${document.fileName}"${signedOff.comments ? `: ${signedOff.comments}` : ""}`,
+  });
+  if (gatesChecklist) {
+    await logCompletedChecklist(document, user);
+  }
+
+  let current = document;
+  if (next) {
+    await activateStage(document, next, next === stages[stages.length - 1], user);
+  } else {
+    current = await storage.updateDocument(document.id, {
+      status: DocumentStatus.APPROVED,
+      reviewedById: user.id,
+      reviewedAt: new Date(),
+      comments: null,
+    }) ?? document;
+
+    await storage.createActivityLog({
+      projectId: document.projectId,
+      userId: user.id,
+      activityType: "document_approved",
+      description: `Document "${document.fileName}" was approved after ${stages.length} sign-off stage${stages.length === 1 ? "" : "s"}`,
+    });
+    await recordReviewDecision(document, user, DocumentStatus.APPROVED, signedOff.comments);
+  }
+
+  return { document: current, approval: await getDocumentApproval(current, user) };
+}
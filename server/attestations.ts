@@ -0,0 +1,193 @@
+import { createHash } from "crypto";
+import {
+  type ApprovalAttestation,
+  type Document,
+  type InsertApprovalAttestation,
+  type User
+} from "@shared/schema";
+import { storage } from "./storage";
+import { hashContent } from "./blob-storage";
+
+export class AttestationError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface AttestedDecision {
+  decision: string;
+  comments: string | null;
+  stageName?: string | null;
+  // From hashDocumentForAttestation, taken before the decision is applied
+  contentHash: string;
+}
+
+export interface ChainProblem {
+  attestationId: number;
+  sequence: number;
+  problem: string;
+}
+
+export interface AttestedDocumentCheck {
+  documentId: number;
+  fileName: string;
+  version: number;
+  decision: string;
+  attestedAt: Date;
+  attestedHash: string;
+  // Null when the document or its content is gone
+  currentHash: string | null;
+  // verified: the bytes still match; modified: they don't; missing: the row is there but
+  // its content can't be read; deleted: the document itself has been removed
+  status: "verified" | "modified" | "missing" | "deleted";
+}
+
+export interface AttestationVerification {
+  verifiedAt: string;
+  attestationCount: number;
+  chainIntact: boolean;
+  chainProblems: ChainProblem[];
+  documents: AttestedDocumentCheck[];
+  // Documents whose content no longer matches what was attested
+  flaggedCount: number;
+}
+
+/**
+ * The chain hash of an attestation: every recorded field, plus the previous
+ * attestation's hash, in a fixed order.
+ */
+export function hashAttestation(attestation: Omit<InsertApprovalAttestation, "hash">): string {
+  const fields = [
+    attestation.projectId,
+    attestation.sequence,
+    attestation.documentId,
+    attestation.documentVersion,
+    attestation.fileName,
+    attestation.decision,
+    attestation.stageName ?? null,
+    attestation.comments ?? null,
+    attestation.reviewerId,
+    attestation.attestedAt.toISOString(),
+    attestation.contentHash,
+    attestation.previousHash ?? null,
+  ];
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * SHA-256 of the exact bytes being reviewed. Read from the stored content rather
+ * than trusting the row's contentHash column, and required before a decision
+ * can be recorded.
+ */
+export async function hashDocumentForAttestation(document: Document): Promise<string> {
+  const content = await storage.getDocumentContent(document);
+  if (!content) {
+    throw new AttestationError(409, "The document's content could not be read, so the decision can't be attested");
+  }
+  return hashContent(content);
+}
+
+/**
+ * Appends a review decision to the project's attestation chain.
+ */
+export async function attestReviewDecision(
+  document: Document,
+  reviewer: User,
+  decision: AttestedDecision
+): Promise<ApprovalAttestation> {
+  const attestedAt = new Date();
+  return await storage.appendApprovalAttestation(document.projectId, previous => {
+    const attestation = {
+      projectId: document.projectId,
+      sequence: (previous?.sequence ?? 0) + 1,
+      documentId: document.id,
+      documentVersion: document.version,
+      fileName: document.fileName,
+      decision: decision.decision,
+      stageName: decision.stageName ?? null,
+      comments: decision.comments?.trim() || null,
+      reviewerId: reviewer.id,
+      attestedAt,
+      contentHash: decision.contentHash,
+      previousHash: previous?.hash ?? null,
+    };
+    return { ...attestation, hash: hashAttestation(attestation) };
+  });
+}
+
+function checkChain(attestations: ApprovalAttestation[]): ChainProblem[] {
+  const problems: ChainProblem[] = [];
+  attestations.forEach((attestation, index) => {
+    const previous = attestations[index - 1];
+    const report = (problem: string) =>
+      problems.push({ attestationId: attestation.id, sequence: attestation.sequence, problem });
+
+    const expected = (previous?.sequence ?? 0) + 1;
+    if (attestation.sequence > expected) {
+      report(attestation.sequence - expected === 1
+        ? `Attestation ${expected} is missing before this one`
+        : `Attestations ${expected}-${attestation.sequence - 1} are missing before this one`);
+    }
+    if (attestation.previousHash !== (previous?.hash ?? null)) {
+      report(previous
+        ? `Does not link to attestation ${previous.sequence}`
+        : "The first attestation should not link to an earlier one");
+    }
+    if (attestation.hash !== hashAttestation(attestation)) {
+      report("Its recorded details have been changed since it was made");
+    }
+  });
+  return problems;
+}
+
+/**
+ * Re-checks the project's attestation chain and compares every attested
+ * document's current bytes with the hash recorded when it was reviewed.
+ */
+export async function verifyProjectAttestations(projectId: number): Promise<AttestationVerification> {
+  const attestations = await storage.getApprovalAttestations(projectId);
+  const chainProblems = checkChain(attestations);
+
+  // A document's latest decision is the one that counts, but every attestation
+  // of the same version must match its bytes
+  const byDocument = new Map<number, ApprovalAttestation[]>();
+  for (const attestation of attestations) {
+    byDocument.set(attestation.documentId, [...(byDocument.get(attestation.documentId) ?? []), attestation]);
+  }
+
+  const documents: AttestedDocumentCheck[] = [];
+  for (const [documentId, documentAttestations] of Array.from(byDocument.entries())) {
+    const latest = documentAttestations[documentAttestations.length - 1];
+    const check = {
+      documentId,
+      fileName: latest.fileName,
+      version: latest.documentVersion,
+      decision: latest.decision,
+      attestedAt: latest.attestedAt,
+      attestedHash: latest.contentHash,
+    };
+
+    const document = await storage.getDocument(documentId);
+    if (!document) {
+      documents.push({ ...check, currentHash: null, status: "deleted" });
+      continue;
+    }
+    const content = await storage.getDocumentContent(document);
+    if (!content) {
+      documents.push({ ...check, currentHash: null, status: "missing" });
+      continue;
+    }
+    const currentHash = hashContent(content);
+    const matches = documentAttestations.every(attestation => attestation.contentHash === currentHash);
+    documents.push({ ...check, currentHash, status: matches ? "verified" : "modified" });
+  }
+
+  return {
+    verifiedAt: new Date().toISOString(),
+    attestationCount: attestations.length,
+    chainIntact: chainProblems.length === 0,
+    chainProblems,
+    documents,
+    flaggedCount: documents.filter(document => document.status === "modified" || document.status === "missing").length,
+  };
+}
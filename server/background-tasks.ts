@@ -0,0 +1,13 @@
+// Text extraction and page rendering are CPU- and memory-heavy, so work queued after an
+// upload runs one task at a time instead of competing with requests for the whole machine.
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `task` after every previously queued task has finished. Errors are
+ * logged, not thrown, since nobody is waiting on the result.
+ */
+export function enqueueBackgroundTask(description: string, task: () => Promise<unknown>): void {
+  queue = queue
+    .then(task)
+    .catch(error => console.error(`Background task failed (${description}):`, error));
+}
@@ -0,0 +1,294 @@
+import { createHash } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+/**
+ * Content-addressed storage for document binaries. Blobs are keyed by the
+ * SHA-256 of their bytes, so identical uploads share a single stored copy and
+ * Postgres only needs to keep the hash alongside the document metadata.
+ */
+export interface BlobStore {
+  put(data: Buffer): Promise<StoredBlob>;
+  // Moves a file from local disk into the store without loading it into memory.
+  // The source file is consumed (moved or removed) either way.
+  putFile(filePath: string): Promise<StoredBlob>;
+  get(key: string): Promise<Buffer | undefined>;
+  getStream(key: string): Promise<Readable | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export interface StoredBlob {
+  key: string;
+  size: number;
+}
+
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export async function hashFile(filePath: string): Promise<StoredBlob> {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+  }
+
+  return { key: hash.digest("hex"), size };
+}
+
+function assertValidKey(key: string) {
+  if (!/^[a-f0-9]{64}$/.test(key)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+// Local disk backend. Files are sharded by the first two bytes of the hash
+// (ab/cd/abcd...) to keep directory sizes manageable.
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private rootDir: string) {}
+
+  private pathFor(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootDir, key.slice(0, 2), key.slice(2, 4), key);
+  }
+
+  async put(data: Buffer): Promise<StoredBlob> {
+    const key = hashContent(data);
+    const target = this.pathFor(key);
+
+    if (await this.exists(key)) {
+      return { key, size: data.length };
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a truncated blob under its final key
+    const tempPath = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, target);
+
+    return { key, size: data.length };
+  }
+
+  async putFile(filePath: string): Promise<StoredBlob> {
+    const blob = await hashFile(filePath);
+    const target = this.pathFor(blob.key);
+
+    if (await this.exists(blob.key)) {
+      await fs.rm(filePath, { force: true });
+      return blob;
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.rename(filePath, target);
+    } catch (error: any) {
+      // Upload temp files may live on another device; fall back to copying
+      if (error?.code !== "EXDEV") throw error;
+      const tempPath = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.copyFile(filePath, tempPath);
+      await fs.rename(tempPath, target);
+      await fs.rm(filePath, { force: true });
+    }
+
+    return blob;
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async getStream(key: string): Promise<Readable | undefined> {
+    if (!(await this.exists(key))) return undefined;
+    return createReadStream(this.pathFor(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+  }
+}
+
+/**
+ * The subset of the S3 API the blob store relies on. Anything that speaks it
+ * (AWS S3, MinIO, or an in-process stand-in for local development) can back
+ * the store.
+ */
+export interface S3CompatibleClient {
+  putObject(params: { Bucket: string; Key: string; Body: Buffer | Readable; ContentLength: number }): Promise<unknown>;
+  getObject(params: { Bucket: string; Key: string }): Promise<{ Body?: Buffer | Uint8Array | Readable } | undefined>;
+  headObject(params: { Bucket: string; Key: string }): Promise<unknown>;
+  deleteObject(params: { Bucket: string; Key: string }): Promise<unknown>;
+}
+
+function isNotFoundError(error: any): boolean {
+  return error?.name === "NotFound" ||
+    error?.name === "NoSuchKey" ||
+    error?.$metadata?.httpStatusCode === 404;
+}
+
+export class S3BlobStore implements BlobStore {
+  constructor(
+    private client: S3CompatibleClient,
+    private bucket: string,
+    private prefix: string = "blobs/"
+  ) {}
+
+  private objectKey(key: string): string {
+    assertValidKey(key);
+    return `${this.prefix}${key}`;
+  }
+
+  async put(data: Buffer): Promise<StoredBlob> {
+    const key = hashContent(data);
+
+    if (!(await this.exists(key))) {
+      await this.client.putObject({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentLength: data.length,
+      });
+    }
+
+    return { key, size: data.length };
+  }
+
+  async putFile(filePath: string): Promise<StoredBlob> {
+    const blob = await hashFile(filePath);
+
+    try {
+      if (!(await this.exists(blob.key))) {
+        await this.client.putObject({
+          Bucket: this.bucket,
+          Key: this.objectKey(blob.key),
+          Body: createReadStream(filePath),
+          ContentLength: blob.size,
+        });
+      }
+    } finally {
+      await fs.rm(filePath, { force: true });
+    }
+
+    return blob;
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const stream = await this.getStream(key);
+    if (!stream) return undefined;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async getStream(key: string): Promise<Readable | undefined> {
+    try {
+      const result = await this.client.getObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+      if (!result?.Body) return undefined;
+      return result.Body instanceof Readable ? result.Body : Readable.from([Buffer.from(result.Body)]);
+    } catch (error) {
+      if (isNotFoundError(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.headObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+      return true;
+    } catch (error) {
+      if (isNotFoundError(error)) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteObject({ Bucket: this.bucket, Key: this.objectKey(key) });
+  }
+}
+
+// Adapts the AWS SDK v3 client to S3CompatibleClient. Works against AWS as well
+// as S3-compatible servers such as MinIO when S3_ENDPOINT is set.
+async function createAwsS3Client(): Promise<S3CompatibleClient> {
+  const {
+    S3Client,
+    PutObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    DeleteObjectCommand,
+  } = await import("@aws-sdk/client-s3");
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: !!process.env.S3_ENDPOINT,
+    credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        }
+      : undefined,
+  });
+
+  return {
+    putObject: (params) => client.send(new PutObjectCommand(params)),
+    getObject: async (params) => {
+      const result = await client.send(new GetObjectCommand(params));
+      // In Node the SDK hands back an IncomingMessage, which is a Readable
+      return { Body: result.Body as Readable | undefined };
+    },
+    headObject: (params) => client.send(new HeadObjectCommand(params)),
+    deleteObject: (params) => client.send(new DeleteObjectCommand(params)),
+  };
+}
+
+let blobStorePromise: Promise<BlobStore> | null = null;
+
+/**
+ * Returns the configured blob store. BLOB_STORAGE_DRIVER selects the backend:
+ * "local" (default) writes under BLOB_STORAGE_DIR, "s3" uses S3_BUCKET.
+ */
+export function getBlobStore(): Promise<BlobStore> {
+  if (!blobStorePromise) {
+    blobStorePromise = (async () => {
+      const driver = process.env.BLOB_STORAGE_DRIVER || "local";
+
+      if (driver === "s3") {
+        if (!process.env.S3_BUCKET) {
+          throw new Error("S3_BUCKET must be set when BLOB_STORAGE_DRIVER=s3");
+        }
+        const client = await createAwsS3Client();
+        return new S3BlobStore(client, process.env.S3_BUCKET, process.env.S3_PREFIX || "blobs/");
+      }
+
+      const rootDir = path.resolve(process.env.BLOB_STORAGE_DIR || "storage/blobs");
+      return new LocalDiskBlobStore(rootDir);
+    })();
+  }
+
+  return blobStorePromise;
+}
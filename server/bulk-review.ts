@@ -0,0 +1,232 @@
+import {
+  BulkReviewAction,
+  DocumentStatus,
+  type BulkReviewActionType,
+  type Document,
+  type User
+} from "@shared/schema";
+import { storage, type DocumentReviewUpdate } from "./storage";
+import { NotificationService } from "./notification-service.js";
+import { findUnsatisfiedChecklistItems, logCompletedChecklist } from "./review-checklists";
+import { requiresApprovalChain, rejectApprovalStage, restartApprovalChain } from "./approval-chains";
+import { hashDocumentForAttestation, attestReviewDecision, AttestationError } from "./attestations";
+import { recordReviewDecision } from "./review-rounds";
+import { validateRejectionReasons, describeRejectionReasons, RejectionReasonError } from "./rejection-reasons";
+
+export const MAX_BULK_REVIEW_DOCUMENTS = 100;
+
+const actionStatuses: Record<BulkReviewActionType, string> = {
+  [BulkReviewAction.APPROVE]: DocumentStatus.APPROVED,
+  [BulkReviewAction.REJECT]: DocumentStatus.REJECTED,
+  [BulkReviewAction.REQUEST_CHANGES]: DocumentStatus.PENDING_REVIEW,
+};
+
+const actionOutcomes: Record<BulkReviewActionType, string> = {
+  [BulkReviewAction.APPROVE]: "Approved",
+  [BulkReviewAction.REJECT]: "Rejected",
+  [BulkReviewAction.REQUEST_CHANGES]: "Changes Requested",
+};
+
+export interface BulkReviewProblem {
+  documentId: number;
+  fileName: string;
+  problem: string;
+  unsatisfiedItems?: Array<{ id: string; label: string }>;
+}
+
+export class BulkReviewError extends Error {
+  constructor(public status: number, message: string, public problems?: BulkReviewProblem[]) {
+    super(message);
+  }
+}
+
+export interface BulkReviewRequest {
+  documentIds: number[];
+  action: BulkReviewActionType;
+  comments: string | null;
+  reasonCodes?: string[];
+}
+
+interface CheckedDocument {
+  document: Document;
+  reasonCodes: string[] | null;
+  // Taken before the decision is applied, for approvals and rejections
+  contentHash: string | null;
+}
+
+// The same gates as a single review: no superseded versions, approval chains
+// and checklists for approvals, reason codes for rejections, readable bytes for attestation
+async function checkDocument(
+  document: Document,
+  request: BulkReviewRequest,
+  reviewer: User
+): Promise<{ checked?: CheckedDocument; problem?: Omit<BulkReviewProblem, "documentId" | "fileName"> }> {
+  const status = actionStatuses[request.action];
+
+  if (document.status === DocumentStatus.SUPERSEDED) {
+    return { problem: { problem: "This version has been superseded by a newer upload" } };
+  }
+  if (request.action !== BulkReviewAction.REQUEST_CHANGES && document.status === status) {
+    return { problem: { problem: `Already ${status}` } };
+  }
+
+  if (request.action === BulkReviewAction.APPROVE) {
+    if (await requiresApprovalChain(document)) {
+      return { problem: { problem: "Approved through its approval chain; sign off the current stage instead" } };
+    }
+    const unsatisfied = await findUnsatisfiedChecklistItems(document, reviewer.id);
+    if (unsatisfied.length > 0) {
+      return {
+        problem: {
+          problem: `Review checklist incomplete (${unsatisfied.length} required item${unsatisfied.length === 1 ? "" : "s"} unchecked)`,
+          unsatisfiedItems: unsatisfied.map(item => ({ id: item.id, label: item.label })),
+        },
+      };
+    }
+  }
+
+  let reasonCodes: string[] | null = null;
+  if (request.action === BulkReviewAction.REJECT) {
+    try {
+      reasonCodes = validateRejectionReasons(document.category, request.reasonCodes);
+    } catch (error) {
+      if (error instanceof RejectionReasonError) return { problem: { problem: error.message } };
+      throw error;
+    }
+  }
+
+  let contentHash: string | null = null;
+  if (request.action !== BulkReviewAction.REQUEST_CHANGES) {
+    try {
+      contentHash = await hashDocumentForAttestation(document);
+    } catch (error) {
+      if (error instanceof AttestationError) return { problem: { problem: error.message } };
+      throw error;
+    }
+  }
+
+  return { checked: { document, reasonCodes, contentHash } };
+}
+
+function describeReview(document: Document, action: BulkReviewActionType, reasonCodes: string[] | null, count: number): string {
+  const bulk = `bulk review of ${count} document${count === 1 ? "" : "s"}`;
+  switch (action) {
+    case BulkReviewAction.APPROVE:
+      return `Document "${document.fileName}" was approved (${bulk})`;
+    case BulkReviewAction.REJECT:
+      return `Document "${document.fileName}" was rejected: ${describeRejectionReasons(reasonCodes ?? [])} (${bulk})`;
+    default:
+      return `Changes were requested on document "${document.fileName}" (${bulk})`;
+  }
+}
+
+/**
+ * Applies one review decision and comment to a selection of a project's
+ * documents. Every document is checked first and the status changes are made
+ * in a single transaction, so either all of them are reviewed or none are.
+ */
+export async function applyBulkReview(request: BulkReviewRequest, reviewer: User): Promise<Document[]> {
+  const documentIds = Array.from(new Set(request.documentIds));
+  const status = actionStatuses[request.action];
+  const comments = request.comments?.trim() || null;
+
+  if (request.action === BulkReviewAction.REQUEST_CHANGES && !comments) {
+    throw new BulkReviewError(400, "Describe the changes being requested");
+  }
+  if (request.action === BulkReviewAction.REJECT && !request.reasonCodes?.length) {
+    throw new BulkReviewError(400, "Choose at least one rejection reason");
+  }
+
+  const documents: Document[] = [];
+  for (const documentId of documentIds) {
+    const document = await storage.getDocument(documentId);
+    if (!document) {
+      throw new BulkReviewError(404, `Document ${documentId} not found`);
+    }
+    documents.push(document);
+  }
+  const projectId = documents[0].projectId;
+  if (documents.some(document => document.projectId !== projectId)) {
+    throw new BulkReviewError(400, "Documents reviewed together must belong to the same project");
+  }
+
+  const checked: CheckedDocument[] = [];
+  const problems: BulkReviewProblem[] = [];
+  for (const document of documents) {
+    const result = await checkDocument(document, request, reviewer);
+    if (result.problem) {
+      problems.push({ documentId: document.id, fileName: document.fileName, ...result.problem });
+    } else {
+      checked.push(result.checked!);
+    }
+  }
+  if (problems.length > 0) {
+    throw new BulkReviewError(
+      409,
+      `${problems.length} of ${documents.length} document${documents.length === 1 ? "" : "s"} can't be ${actionOutcomes[request.action].toLowerCase()}; nothing was changed`,
+      problems
+    );
+  }
+
+  const reviewedAt = new Date();
+  const reviews: DocumentReviewUpdate[] = checked.map(({ document, reasonCodes }) => ({
+    documentId: document.id,
+    fromStatus: document.status,
+    changes: {
+      status,
+      comments,
+      reviewedById: reviewer.id,
+      reviewedAt,
+      ...(status !== document.status && { statusChangedAt: reviewedAt, rejectionReasons: reasonCodes }),
+    },
+    activity: {
+      projectId,
+      userId: reviewer.id,
+      activityType: request.action === BulkReviewAction.REQUEST_CHANGES ? "document_changes_requested" : `document_${status}`,
+      description: describeReview(document, request.action, reasonCodes, checked.length),
+    },
+    ...(reasonCodes && {
+      rejection: {
+        documentId: document.id,
+        projectId,
+        category: document.category,
+        reasonCodes,
+        comments,
+        rejectedById: reviewer.id,
+      },
+    }),
+  }));
+
+  const updated = await storage.applyDocumentReviews(reviews);
+  if (!updated) {
+    throw new BulkReviewError(409, "Some of the documents were reviewed by someone else in the meantime; nothing was changed");
+  }
+
+  // Follow-up records for each decision, as a single review makes them
+  for (const { document, contentHash } of checked) {
+    if (contentHash) {
+      await attestReviewDecision(document, reviewer, { decision: status, comments, contentHash });
+    }
+    if (request.action === BulkReviewAction.APPROVE && document.status !== DocumentStatus.APPROVED) {
+      await logCompletedChecklist(document, reviewer);
+    }
+    await recordReviewDecision(document, reviewer, status, comments);
+    if (request.action === BulkReviewAction.REJECT) {
+      await rejectApprovalStage(document, reviewer, comments);
+    }
+    if (request.action === BulkReviewAction.REQUEST_CHANGES && document.status === DocumentStatus.REJECTED) {
+      await restartApprovalChain(document, reviewer);
+    }
+  }
+
+  await NotificationService.notifyDocumentsReviewed(
+    projectId,
+    reviewer.id,
+    reviewer.fullName,
+    actionOutcomes[request.action],
+    checked.map(({ document }) => document.fileName),
+    Array.from(new Set(checked.map(({ document }) => document.uploadedById)))
+  );
+
+  return updated;
+}
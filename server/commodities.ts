@@ -0,0 +1,74 @@
+import type { Commodity, InsertCommodity, User } from "@shared/schema";
+import { commodityClassLabels } from "@shared/commodity-classification";
+import { storage } from "./storage";
+import { classifyCommodity } from "./commodity-classification";
+import { commodityRevision } from "./commodity-revisions";
+
+export class CommodityError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export type CommodityChanges = Omit<InsertCommodity, "projectId" | "createdById">;
+
+function classify(changes: CommodityChanges): Pick<Commodity, "classification" | "classificationRule"> {
+  const { classification, rule } = classifyCommodity({
+    ...changes.classificationInputs,
+    commodityTypes: changes.commodityTypes,
+  });
+  return { classification, classificationRule: rule };
+}
+
+/**
+ * Files a project's commodity data, the first time it is saved. From then on
+ * it is updated in place, so every change shows up in the revision history.
+ */
+export async function createCommodity(projectId: number, changes: CommodityChanges, user: User): Promise<Commodity> {
+  const written = await storage.createCommodity({
+    ...changes,
+    ...classify(changes),
+    projectId,
+    createdById: user.id,
+  }, commodity => commodityRevision(null, commodity, user));
+  if (!written) {
+    throw new CommodityError(409, "This project already has commodity data; update it instead");
+  }
+
+  await storage.createActivityLog({
+    projectId,
+    userId: user.id,
+    activityType: "commodities_added",
+    description: "Commodities information was added to the project",
+  });
+  return written.commodity;
+}
+
+/**
+ * Replaces a project's commodity data and reclassifies it, recording the
+ * fields that changed as the next commodity revision.
+ */
+export async function updateCommodity(commodity: Commodity, changes: CommodityChanges, user: User): Promise<Commodity> {
+  const written = await storage.updateCommodity(
+    commodity.id,
+    { ...changes, ...classify(changes) },
+    updated => commodityRevision(commodity, updated, user)
+  );
+  if (!written) {
+    throw new CommodityError(404, "Commodity data not found");
+  }
+
+  const { commodity: updated, revision } = written;
+  if (revision) {
+    const classChange = updated.classification !== commodity.classification
+      ? `, class changed from ${commodityClassLabels[commodity.classification] ?? commodity.classification} to ${commodityClassLabels[updated.classification] ?? updated.classification}`
+      : "";
+    await storage.createActivityLog({
+      projectId: commodity.projectId,
+      userId: user.id,
+      activityType: "commodities_updated",
+      description: `Commodities information was updated (revision ${revision.revisionNumber}${classChange})`,
+    });
+  }
+  return updated;
+}
@@ -0,0 +1,122 @@
+import {
+  CommodityClass,
+  CommodityPackaging,
+  PalletType,
+  ProductMakeup,
+  LIMITED_GROUP_A_PERCENT,
+  commodityClassLabels,
+  findClassificationConflicts,
+  getGroupAPercentThreshold,
+  type ClassificationConflict,
+  type CommodityClassType,
+  type CommodityClassificationInput,
+  type CommodityClassificationResult
+} from "@shared/commodity-classification";
+
+export class CommodityClassificationError extends Error {
+  constructor(public status: number, message: string, public conflicts?: ClassificationConflict[]) {
+    super(message);
+  }
+}
+
+// Class I-IV in increasing hazard, so pallets can raise a class by counting up
+const CLASS_ORDER: CommodityClassType[] = [
+  CommodityClass.CLASS_I,
+  CommodityClass.CLASS_II,
+  CommodityClass.CLASS_III,
+  CommodityClass.CLASS_IV,
+];
+
+// NFPA 13, which IFC 903.3.1.1 sends sprinkler design to, raises Class I-IV
+// commodities on plastic pallets by one class, or two when the pallets are reinforced
+const PLASTIC_PALLET_STEPS: Record<string, number> = {
+  [PalletType.PLASTIC_UNREINFORCED]: 1,
+  [PalletType.PLASTIC_REINFORCED]: 2,
+};
+
+function groupAClass(packaging: string): CommodityClassType {
+  return packaging === CommodityPackaging.CARTONED || packaging === CommodityPackaging.CRATED
+    ? CommodityClass.GROUP_A_UNEXPOSED
+    : CommodityClass.GROUP_A_EXPOSED;
+}
+
+/**
+ * Works out the IFC Section 3203 commodity class from the wizard's answers,
+ * recording each step so the form can show its working. Contradictory answers
+ * are refused rather than classified.
+ */
+export function classifyCommodity(input: CommodityClassificationInput): CommodityClassificationResult {
+  const conflicts = findClassificationConflicts(input);
+  if (conflicts.length > 0) {
+    throw new CommodityClassificationError(400, "The answers contradict each other", conflicts);
+  }
+
+  const reasoning: string[] = [];
+  const percent = input.groupAPlasticPercent;
+  const threshold = getGroupAPercentThreshold(input.expandedPlastic);
+  const measure = input.expandedPlastic ? "by volume of expanded" : "by weight of";
+  let classification: CommodityClassType;
+  let rule: string;
+
+  if (percent > threshold && !input.freeFlowingPlastic) {
+    classification = groupAClass(input.packaging);
+    rule = `IFC 3203.7: more than ${threshold}% ${measure} Group A plastics is a Group A plastic commodity`;
+    reasoning.push(`${percent}% ${measure} Group A plastics is over the ${threshold}% limit for Class IV`);
+    reasoning.push(input.packaging === CommodityPackaging.ENCAPSULATED
+      ? "Encapsulated Group A plastics are treated as exposed"
+      : `The plastics are ${classification === CommodityClass.GROUP_A_EXPOSED ? "exposed" : "cartoned"}`);
+  } else if (percent > LIMITED_GROUP_A_PERCENT && input.freeFlowingPlastic) {
+    classification = CommodityClass.CLASS_IV;
+    rule = "IFC 3203.6: free-flowing Group A plastics are Class IV";
+    reasoning.push(`${percent}% Group A plastics, stored as free-flowing pellets, flakes or powder`);
+  } else if (percent > LIMITED_GROUP_A_PERCENT) {
+    classification = CommodityClass.CLASS_IV;
+    rule = `IFC 3203.6: more than ${LIMITED_GROUP_A_PERCENT}% and up to ${threshold}% ${measure} Group A plastics is Class IV`;
+    reasoning.push(`${percent}% ${measure} Group A plastics is over the ${LIMITED_GROUP_A_PERCENT}% allowed in Class I-III`);
+  } else {
+    if (percent > 0) {
+      reasoning.push(`${percent}% Group A plastics is within the ${LIMITED_GROUP_A_PERCENT}% that Class I-III allow`);
+    }
+    if (input.productMakeup === ProductMakeup.GROUP_B_PLASTIC) {
+      classification = CommodityClass.CLASS_IV;
+      rule = "IFC 3203.6: Group B plastics are Class IV";
+      reasoning.push("The products are Group B plastics");
+    } else if (input.productMakeup === ProductMakeup.ORDINARY_COMBUSTIBLE) {
+      classification = CommodityClass.CLASS_III;
+      rule = "IFC 3203.5: wood, paper, natural fiber cloth and Group C plastics are Class III";
+      reasoning.push("The products are ordinary combustibles");
+    } else if (input.packaging === CommodityPackaging.CRATED) {
+      classification = CommodityClass.CLASS_II;
+      rule = "IFC 3203.4: noncombustible products in crates, solid wood boxes or multiple-thickness cartons are Class II";
+      reasoning.push("The products are noncombustible, in combustible crates or heavy cartons");
+    } else {
+      classification = CommodityClass.CLASS_I;
+      rule = "IFC 3203.3: noncombustible products in ordinary cartons or wrapping, or unpackaged, are Class I";
+      reasoning.push("The products are noncombustible, in ordinary packaging or none");
+    }
+  }
+
+  const palletSteps = PLASTIC_PALLET_STEPS[input.palletType] ?? 0;
+  const classIndex = CLASS_ORDER.indexOf(classification);
+  if (palletSteps > 0 && classIndex >= 0) {
+    const raisedIndex = classIndex + palletSteps;
+    const raised = raisedIndex < CLASS_ORDER.length ? CLASS_ORDER[raisedIndex] : groupAClass(input.packaging);
+    const pallets = input.palletType === PalletType.PLASTIC_REINFORCED ? "reinforced plastic pallets" : "unreinforced plastic pallets";
+    rule = `NFPA 13: ${pallets} raise Class I-IV commodities by ${palletSteps} class${palletSteps === 1 ? "" : "es"}`;
+    reasoning.push(`Stored on ${pallets}, so ${commodityClassLabels[classification]} becomes ${commodityClassLabels[raised]}`);
+    classification = raised;
+  }
+
+  const encapsulated = input.packaging === CommodityPackaging.ENCAPSULATED;
+  if (encapsulated && CLASS_ORDER.includes(classification)) {
+    reasoning.push("Encapsulation leaves the class unchanged but calls for more protection under IFC Table 3206.2");
+  }
+
+  return {
+    classification,
+    label: commodityClassLabels[classification],
+    rule,
+    reasoning,
+    encapsulated,
+  };
+}
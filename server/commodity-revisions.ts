@@ -0,0 +1,160 @@
+import type { ClassificationAnswers } from "@shared/commodity-classification";
+import {
+  commodityClassLabels,
+  commodityTypeOptions,
+  packagingOptions,
+  palletTypeOptions,
+  productMakeupOptions
+} from "@shared/commodity-classification";
+import { RevisionAction, RevisionSubject, type FieldChange, type RevisionActionType } from "@shared/commodity-revisions";
+import { sprinklerSystemOptions } from "@shared/protection-requirements";
+import { rackTypeLabels, shelfTypeLabels, type RackFootprint } from "@shared/storage-arrays";
+import type { Commodity, CommodityRevision, InsertCommodityRevision, StorageArray, User } from "@shared/schema";
+import { storage } from "./storage";
+
+interface TrackedField<T> {
+  field: string;
+  label: string;
+  value: (record: T) => string | null;
+}
+
+function labelsOf(options: Array<{ id: string; label: string }>): Record<string, string> {
+  return Object.fromEntries(options.map(option => [option.id, option.label]));
+}
+
+const commodityTypeLabels = labelsOf(commodityTypeOptions);
+const productMakeupLabels = labelsOf(productMakeupOptions);
+const packagingLabels = labelsOf(packagingOptions);
+const palletTypeLabels = labelsOf(palletTypeOptions);
+const sprinklerLabels = labelsOf(sprinklerSystemOptions);
+
+function label(labels: Record<string, string>, value: string | null): string | null {
+  return value === null ? null : labels[value] ?? value;
+}
+
+function measure(value: number | null, unit: string): string | null {
+  return value === null ? null : `${value.toLocaleString()} ${unit}`;
+}
+
+function yesNo(value: boolean | undefined): string | null {
+  return value === undefined ? null : value ? "Yes" : "No";
+}
+
+// Rows filed before the classification wizard have no answers
+function answer<K extends keyof ClassificationAnswers>(record: { classificationInputs: unknown }, key: K): ClassificationAnswers[K] | undefined {
+  return (record.classificationInputs as Partial<ClassificationAnswers> | null)?.[key];
+}
+
+// Fields shared by the commodities form and storage arrays: the commodity mix and its class
+const classificationFields: TrackedField<Commodity | StorageArray>[] = [
+  {
+    field: "commodityTypes",
+    label: "Commodity types",
+    value: record => (record.commodityTypes as string[]).map(type => commodityTypeLabels[type] ?? type).join(", ") || null,
+  },
+  { field: "productMakeup", label: "Product makeup", value: record => label(productMakeupLabels, answer(record, "productMakeup") ?? null) },
+  {
+    field: "groupAPlasticPercent",
+    label: "Group A plastics",
+    value: record => {
+      const percent = answer(record, "groupAPlasticPercent");
+      return percent === undefined ? null : `${percent}%`;
+    },
+  },
+  { field: "expandedPlastic", label: "Expanded plastics", value: record => yesNo(answer(record, "expandedPlastic")) },
+  { field: "freeFlowingPlastic", label: "Free-flowing plastics", value: record => yesNo(answer(record, "freeFlowingPlastic")) },
+  { field: "packaging", label: "Packaging", value: record => label(packagingLabels, answer(record, "packaging") ?? null) },
+  { field: "palletType", label: "Pallets", value: record => label(palletTypeLabels, answer(record, "palletType") ?? null) },
+  { field: "classification", label: "Commodity class", value: record => label(commodityClassLabels, record.classification) },
+];
+
+const commodityFields: TrackedField<Commodity>[] = [
+  { field: "storageMethod", label: "Storage method", value: commodity => commodity.storageMethod.replace(/_/g, " ") },
+  ...classificationFields,
+  { field: "rackHeight", label: "Rack height", value: commodity => measure(commodity.rackHeight, "ft") },
+  { field: "topOfStorageHeight", label: "Top of storage", value: commodity => measure(commodity.topOfStorageHeight, "ft") },
+  { field: "storageArea", label: "Storage area", value: commodity => measure(commodity.storageArea, "sq ft") },
+  { field: "sprinklerSystem", label: "Sprinkler system", value: commodity => label(sprinklerLabels, commodity.sprinklerSystem) },
+  { field: "openToPublic", label: "Open to the public", value: commodity => yesNo(commodity.openToPublic) },
+];
+
+const storageArrayFields: TrackedField<StorageArray>[] = [
+  { field: "name", label: "Name", value: array => array.name },
+  { field: "storageArea", label: "Storage area", value: array => measure(array.storageArea, "sq ft") },
+  { field: "rackType", label: "Rack type", value: array => label(rackTypeLabels, array.rackType) },
+  { field: "rackHeight", label: "Rack height", value: array => measure(array.rackHeight, "ft") },
+  { field: "topOfStorageHeight", label: "Top of storage", value: array => measure(array.topOfStorageHeight, "ft") },
+  { field: "shelfType", label: "Shelves", value: array => label(shelfTypeLabels, array.shelfType) },
+  { field: "longitudinalFlueSpace", label: "Longitudinal flue", value: array => measure(array.longitudinalFlueSpace, "in") },
+  { field: "transverseFlueSpace", label: "Transverse flue", value: array => measure(array.transverseFlueSpace, "in") },
+  { field: "aisleWidth", label: "Narrowest aisle", value: array => measure(array.aisleWidth, "in") },
+  { field: "tiers", label: "Tiers", value: array => array.tiers === null ? null : String(array.tiers) },
+  {
+    field: "footprints",
+    label: "Rack footprints",
+    value: array => array.footprints ? `${(array.footprints as RackFootprint[]).length} from an imported layout` : null,
+  },
+  { field: "sprinklerSystem", label: "Sprinkler system", value: array => label(sprinklerLabels, array.sprinklerSystem) },
+  ...classificationFields,
+];
+
+// The fields whose displayed value differs; a missing record counts as every field being empty
+function diff<T>(fields: TrackedField<T>[], before: T | null, after: T | null): FieldChange[] {
+  return fields.flatMap(({ field, label, value }) => {
+    const from = before ? value(before) : null;
+    const to = after ? value(after) : null;
+    return from === to ? [] : [{ field, label, before: from, after: to }];
+  });
+}
+
+/**
+ * The revision recording a save of the commodities form, with the
+ * before/after value of each field that changed. A save that changes nothing
+ * records no revision. Storage writes it in the same transaction as the save.
+ */
+export function commodityRevision(before: Commodity | null, after: Commodity, user: User): InsertCommodityRevision | undefined {
+  const changes = diff(commodityFields, before, after);
+  if (changes.length === 0) return undefined;
+
+  return {
+    projectId: after.projectId,
+    subject: RevisionSubject.COMMODITIES,
+    commodityId: after.id,
+    storageArrayId: null,
+    subjectName: "Commodities",
+    action: before ? RevisionAction.UPDATED : RevisionAction.CREATED,
+    changes,
+    snapshot: after,
+    classification: after.classification,
+    changedById: user.id,
+  };
+}
+
+/**
+ * Records adding, changing or removing a storage array as the project's next
+ * commodity revision. Pass null as `before` for a new array and as `after`
+ * for a removed one.
+ */
+export async function recordStorageArrayRevision(
+  before: StorageArray | null,
+  after: StorageArray | null,
+  user: User
+): Promise<CommodityRevision | undefined> {
+  const array = (after ?? before)!;
+  const changes = diff(storageArrayFields, before, after);
+  if (changes.length === 0) return undefined;
+
+  const action: RevisionActionType = !before ? RevisionAction.CREATED : !after ? RevisionAction.DELETED : RevisionAction.UPDATED;
+  return await storage.createCommodityRevision({
+    projectId: array.projectId,
+    subject: RevisionSubject.STORAGE_ARRAY,
+    commodityId: null,
+    storageArrayId: array.id,
+    subjectName: array.name,
+    action,
+    changes,
+    snapshot: array,
+    classification: array.classification,
+    changedById: user.id,
+  });
+}
@@ -0,0 +1,204 @@
+import {
+  CorrectionStatus,
+  DocumentCategoryLabels,
+  type CorrectionComment,
+  type Project,
+  type User
+} from "@shared/schema";
+import { storage, type CorrectionCommentWithDetails } from "./storage";
+import { NotificationService } from "./notification-service.js";
+import { generateCorrectionResponseDocx } from "./docxGenerator";
+import { generateCorrectionResponsePdf } from "./pdf-generator";
+
+// "3. Provide...", "B-2) Show...", "Comment 4: Revise...", "#5 - Dimension..."
+const NUMBERED_LINE = /^\s*(?:comment\s*)?#?\s*([A-Z]{0,3}-?\d+(?:\.\d+)*)\s*[.):-]\s+(.+)$/i;
+
+export class CorrectionCommentError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface CorrectionTarget {
+  category?: string | null;
+  documentId?: number | null;
+  assignedStakeholderId?: number | null;
+}
+
+export interface CorrectionResponseItem {
+  commentNumber: string;
+  text: string;
+  // Category title and, when linked to a version, its file name
+  reference: string | null;
+  resolution: string | null;
+  revisedSheetReference: string | null;
+  resolved: boolean;
+}
+
+export interface CorrectionResponseLetter {
+  project: Pick<Project, "name" | "facilityAddress" | "jurisdiction" | "jurisdictionAddress" | "permitNumber">;
+  submissionNumber: number;
+  preparedAt: string;
+  preparedBy: string;
+  items: CorrectionResponseItem[];
+}
+
+/**
+ * Splits a correction letter pasted from an email or PDF into its numbered
+ * comments. Lines that don't start a new number continue the previous comment.
+ * Text with no numbering at all is split on blank lines and numbered in order.
+ */
+export function parseCorrectionLetter(text: string): Array<{ commentNumber: string; text: string }> {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const comments: Array<{ commentNumber: string; text: string }> = [];
+
+  for (const line of lines) {
+    const match = line.match(NUMBERED_LINE);
+    if (match) {
+      comments.push({ commentNumber: match[1].toUpperCase(), text: match[2].trim() });
+    } else if (comments.length > 0 && line.trim()) {
+      comments[comments.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+
+  if (comments.length > 0) return comments;
+
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((paragraph, index) => ({ commentNumber: String(index + 1), text: paragraph }));
+}
+
+/**
+ * Checks that a comment's linked document and assignee belong to the project.
+ * A linked version also sets the comment's category.
+ */
+export async function resolveCorrectionTarget(projectId: number, target: CorrectionTarget): Promise<CorrectionTarget> {
+  const resolved = { ...target };
+
+  if (target.documentId) {
+    const document = await storage.getDocument(target.documentId);
+    if (!document || document.projectId !== projectId) {
+      throw new CorrectionCommentError(400, "The linked document is not part of this project");
+    }
+    resolved.category = document.category;
+  }
+
+  if (target.assignedStakeholderId) {
+    const stakeholder = await storage.getProjectStakeholder(target.assignedStakeholderId);
+    if (!stakeholder || stakeholder.projectId !== projectId) {
+      throw new CorrectionCommentError(400, "The assignee is not a stakeholder on this project");
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Lets the newly assigned stakeholder know they have a correction to answer.
+ */
+export async function notifyCorrectionAssigned(comment: CorrectionComment, assignedBy: User): Promise<void> {
+  if (!comment.assignedStakeholderId) return;
+  const stakeholder = await storage.getProjectStakeholder(comment.assignedStakeholderId);
+  if (!stakeholder) return;
+
+  await NotificationService.notifyCorrectionAssigned(
+    comment.id,
+    stakeholder.userId,
+    assignedBy.fullName,
+    comment.projectId,
+    `Comment ${comment.commentNumber}: ${comment.text}`
+  );
+}
+
+/**
+ * Status changes keep the resolver fields in step: resolving needs a written
+ * resolution and records who resolved it, and reopening clears them.
+ */
+export function resolutionChanges(
+  comment: CorrectionComment,
+  changes: Partial<CorrectionComment>,
+  user: User
+): Partial<CorrectionComment> {
+  const status = changes.status ?? comment.status;
+  const resolution = changes.resolution !== undefined ? changes.resolution : comment.resolution;
+
+  if (status === CorrectionStatus.RESOLVED) {
+    if (!resolution?.trim()) {
+      throw new CorrectionCommentError(400, "Describe how the comment was resolved before marking it resolved");
+    }
+    if (comment.status !== CorrectionStatus.RESOLVED) {
+      return { ...changes, resolvedById: user.id, resolvedAt: new Date() };
+    }
+    return changes;
+  }
+
+  return { ...changes, resolvedById: null, resolvedAt: null };
+}
+
+function commentReference(comment: CorrectionCommentWithDetails): string | null {
+  const category = comment.category
+    ? (DocumentCategoryLabels as Record<string, string>)[comment.category] ?? comment.category
+    : null;
+  const document = comment.documentFileName ? `${comment.documentFileName} (v${comment.documentVersion})` : null;
+  return [category, document].filter(Boolean).join(" - ") || null;
+}
+
+/**
+ * Builds the point-by-point response to one submittal's corrections, in the
+ * authority's own comment order.
+ */
+export async function buildCorrectionResponseLetter(
+  project: Project,
+  submissionNumber: number,
+  preparedBy: User
+): Promise<CorrectionResponseLetter> {
+  const comments = (await storage.getCorrectionComments(project.id))
+    .filter(comment => comment.submissionNumber === submissionNumber)
+    .sort((a, b) => a.commentNumber.localeCompare(b.commentNumber, undefined, { numeric: true }));
+  if (comments.length === 0) {
+    throw new CorrectionCommentError(404, `No correction comments have been recorded for submittal ${submissionNumber}`);
+  }
+
+  return {
+    project: {
+      name: project.name,
+      facilityAddress: project.facilityAddress,
+      jurisdiction: project.jurisdiction,
+      jurisdictionAddress: project.jurisdictionAddress,
+      permitNumber: project.permitNumber,
+    },
+    submissionNumber,
+    preparedAt: new Date().toISOString(),
+    preparedBy: preparedBy.fullName || preparedBy.username,
+    items: comments.map(comment => ({
+      commentNumber: comment.commentNumber,
+      text: comment.text,
+      reference: commentReference(comment),
+      resolution: comment.resolution,
+      revisedSheetReference: comment.revisedSheetReference,
+      resolved: comment.status === CorrectionStatus.RESOLVED,
+    })),
+  };
+}
+
+export async function renderCorrectionResponseLetter(
+  letter: CorrectionResponseLetter,
+  format: "docx" | "pdf"
+): Promise<{ content: Buffer; contentType: string; fileName: string }> {
+  const baseName = `${letter.project.name.replace(/[\/\\:*?"<>|]/g, "_")}_Correction_Response_${letter.submissionNumber}`;
+
+  if (format === "pdf") {
+    return {
+      content: await generateCorrectionResponsePdf(letter),
+      contentType: "application/pdf",
+      fileName: `${baseName}.pdf`,
+    };
+  }
+  return {
+    content: await generateCorrectionResponseDocx(letter),
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    fileName: `${baseName}.docx`,
+  };
+}
@@ -1,5 +1,6 @@
 import { neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/node-postgres';
+import { AsyncLocalStorage } from 'async_hooks';
 import 'dotenv/config';
 import ws from "ws";
 import * as schema from "@shared/schema";
@@ -36,4 +37,26 @@ pool.on('error', (err) => {
 //   await c.end();
 // })();
 
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+const database = drizzle({ client: pool, schema });
+type Database = typeof database;
+
+const currentTransaction = new AsyncLocalStorage<Database>();
+
+// Queries go through the transaction opened by withTransaction while one is running,
+// so storage methods called from it commit or roll back together
+export const db: Database = new Proxy(database, {
+  get(target, property) {
+    const client = currentTransaction.getStore() ?? target;
+    const value = Reflect.get(client, property, client);
+    return typeof value === 'function' ? value.bind(client) : value;
+  }
+});
+
+/**
+ * Runs `work` in a single transaction: every query made through `db` until it
+ * settles is part of it, and a transaction opened inside becomes a savepoint.
+ */
+export function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  // A transaction has the same query API as the database, minus the pool client
+  return db.transaction(tx => currentTransaction.run(tx as unknown as Database, work));
+}
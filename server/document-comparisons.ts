@@ -0,0 +1,64 @@
+import type { Document, DocumentComparison } from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-storage";
+import { comparePdfs } from "./pdf-compare";
+import { enqueueBackgroundTask } from "./background-tasks";
+
+export const ComparisonStatus = {
+  PENDING: "pending",
+  READY: "ready",
+  FAILED: "failed",
+} as const;
+
+// A comparison still pending after this long was queued before a restart and will never finish
+const STALE_PENDING_MS = 60 * 60_000;
+
+async function runComparison(comparison: DocumentComparison, base: Document, target: Document): Promise<void> {
+  try {
+    const [baseContent, targetContent] = await Promise.all([
+      storage.getDocumentContent(base),
+      storage.getDocumentContent(target)
+    ]);
+    if (!baseContent || !targetContent) {
+      throw new Error("Document content not found");
+    }
+
+    console.log(`Comparing document ${base.id} (v${base.version}) with ${target.id} (v${target.version})`);
+    const blobStore = await getBlobStore();
+    const result = await comparePdfs(baseContent, targetContent, async (png) => (await blobStore.put(png)).key);
+    await storage.updateDocumentComparison(comparison.id, { status: ComparisonStatus.READY, result });
+  } catch (error) {
+    await storage.updateDocumentComparison(comparison.id, { status: ComparisonStatus.FAILED });
+    throw error;
+  }
+}
+
+function needsRun(comparison: DocumentComparison): boolean {
+  if (comparison.status === ComparisonStatus.FAILED) return true;
+  return comparison.status === ComparisonStatus.PENDING
+    && Date.now() - (comparison.startedAt?.getTime() ?? 0) > STALE_PENDING_MS;
+}
+
+/**
+ * Returns the comparison of two versions of a PDF, base first. Rendering and
+ * diffing every page is too heavy to do while a request waits, so a pair that
+ * hasn't been compared yet (or whose last attempt failed) is queued as a
+ * background task and returned pending; poll it by id until it is ready.
+ */
+export async function requestDocumentComparison(base: Document, target: Document): Promise<DocumentComparison> {
+  const existing = await storage.getDocumentComparison(base.contentHash!, target.contentHash!);
+  if (existing && !needsRun(existing)) {
+    return existing;
+  }
+
+  const comparison = existing
+    ? (await storage.updateDocumentComparison(existing.id, { status: ComparisonStatus.PENDING, result: null, startedAt: new Date() }))!
+    : await storage.createDocumentComparison({
+        baseContentHash: base.contentHash!,
+        targetContentHash: target.contentHash!,
+        status: ComparisonStatus.PENDING,
+        result: null
+      });
+  enqueueBackgroundTask(`compare documents ${base.id} and ${target.id}`, () => runComparison(comparison, base, target));
+  return comparison;
+}
@@ -0,0 +1,168 @@
+import { format } from "date-fns";
+import {
+  DocumentStatus,
+  UserRole,
+  type Document,
+  type User
+} from "@shared/schema";
+import { EXPIRY_WARNING_DAYS, getRequiredValidUntil, suggestExpiryDate } from "@shared/document-validity";
+import { storage, type ExpiringDocument } from "./storage";
+import { NotificationService } from "./notification-service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DocumentExpiryError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface DocumentExpiration {
+  documentId: number;
+  projectId: number;
+  projectName: string;
+  fileName: string;
+  category: string;
+  version: number;
+  effectiveDate: Date | null;
+  expiresAt: Date;
+  // The later of the project deadline and the permit's expiry, if either is set
+  requiredValidUntil: Date | null;
+  daysUntilExpiry: number;
+  expired: boolean;
+  // Expires before the project deadline or the end of the permit's validity window
+  conflict: boolean;
+  flaggedAt: Date | null;
+}
+
+export interface DocumentValidity {
+  effectiveDate: Date | null;
+  // Omitted to take the category's suggested validity period from the effective date
+  expiresAt?: Date | null;
+}
+
+function toExpiration(document: ExpiringDocument, now: Date): DocumentExpiration {
+  const expiresAt = new Date(document.expiresAt!);
+  const requiredValidUntil = getRequiredValidUntil({
+    deadline: document.projectDeadline,
+    permitExpiresAt: document.permitExpiresAt,
+  });
+
+  return {
+    documentId: document.id,
+    projectId: document.projectId,
+    projectName: document.projectName,
+    fileName: document.fileName,
+    category: document.category,
+    version: document.version,
+    effectiveDate: document.effectiveDate,
+    expiresAt,
+    requiredValidUntil,
+    daysUntilExpiry: Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS),
+    expired: expiresAt <= now,
+    conflict: !!requiredValidUntil && expiresAt < requiredValidUntil,
+    flaggedAt: document.expiryFlaggedAt,
+  };
+}
+
+/**
+ * Current versions that have expired, expire within the given number of days,
+ * or expire before their project no longer needs them, soonest first.
+ * Stakeholders only see their company's projects, as in the project list.
+ */
+export async function getUpcomingExpirations(user: User, withinDays = EXPIRY_WARNING_DAYS): Promise<DocumentExpiration[]> {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + withinDays * DAY_MS);
+
+  const documents = (await storage.getExpiringDocuments()).filter(document =>
+    user.role === UserRole.SPECIALIST ||
+    (!!user.company && document.clientName.toLowerCase() === user.company.toLowerCase())
+  );
+
+  return documents
+    .map(document => toExpiration(document, now))
+    .filter(expiration => expiration.conflict || expiration.expiresAt <= horizon);
+}
+
+/**
+ * Sets or clears a version's validity period. Any earlier expiry flag is
+ * cleared; the daily check raises it again if the new dates still conflict.
+ */
+export async function setDocumentValidity(document: Document, validity: DocumentValidity, user: User): Promise<Document> {
+  if (document.status === DocumentStatus.SUPERSEDED) {
+    throw new DocumentExpiryError(409, "This version has been superseded by a newer upload");
+  }
+
+  const effectiveDate = validity.effectiveDate;
+  const expiresAt = validity.expiresAt !== undefined
+    ? validity.expiresAt
+    : effectiveDate && suggestExpiryDate(document.category, effectiveDate);
+  if (validity.expiresAt === undefined && effectiveDate && !expiresAt) {
+    throw new DocumentExpiryError(400, "This category has no suggested validity period; enter the expiry date");
+  }
+  if (effectiveDate && expiresAt && expiresAt <= effectiveDate) {
+    throw new DocumentExpiryError(400, "The expiry date must be after the effective date");
+  }
+
+  const updated = await storage.updateDocument(document.id, {
+    effectiveDate,
+    expiresAt: expiresAt ?? null,
+    expiryFlaggedAt: null,
+  });
+  if (!updated) {
+    throw new DocumentExpiryError(404, "Document not found");
+  }
+
+  await storage.createActivityLog({
+    projectId: document.projectId,
+    userId: user.id,
+    activityType: "document_validity_updated",
+    description: expiresAt
+      ? `Document "${document.fileName}" is valid until ${format(expiresAt, "MMM d, yyyy")}`
+      : `Validity period removed from document "${document.fileName}"`
+  });
+
+  return updated;
+}
+
+/**
+ * The daily expiry check. Flags each current version that expires before the
+ * project deadline or the end of the permit's validity window, logging it and
+ * notifying the project once per run, and clears flags that no longer apply
+ * because the project's dates moved.
+ */
+export async function flagExpiringDocuments(now = new Date()): Promise<{ flagged: number; cleared: number }> {
+  const newlyFlagged = new Map<number, DocumentExpiration[]>();
+  let cleared = 0;
+
+  for (const document of await storage.getExpiringDocuments()) {
+    const expiration = toExpiration(document, now);
+
+    if (expiration.conflict && !document.expiryFlaggedAt) {
+      await storage.updateDocument(document.id, { expiryFlaggedAt: now });
+      await storage.createActivityLog({
+        projectId: document.projectId,
+        userId: document.uploadedById,
+        activityType: "document_expiry_flagged",
+        description: `Document "${document.fileName}" expires ${format(expiration.expiresAt, "MMM d, yyyy")}, before the project needs it until ${format(expiration.requiredValidUntil!, "MMM d, yyyy")}`
+      });
+      newlyFlagged.set(document.projectId, [...(newlyFlagged.get(document.projectId) ?? []), expiration]);
+    } else if (!expiration.conflict && document.expiryFlaggedAt) {
+      await storage.updateDocument(document.id, { expiryFlaggedAt: null });
+      cleared++;
+    }
+  }
+
+  for (const [projectId, expirations] of Array.from(newlyFlagged)) {
+    await NotificationService.notifyDocumentsExpiring(
+      projectId,
+      expirations.map(expiration => ({ fileName: expiration.fileName, expiresAt: expiration.expiresAt })),
+      expirations[0].requiredValidUntil!
+    );
+  }
+
+  return {
+    flagged: Array.from(newlyFlagged.values()).reduce((total, expirations) => total + expirations.length, 0),
+    cleared,
+  };
+}
@@ -0,0 +1,184 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import type { Document, DocumentPreview } from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-storage";
+import { loadPdf, renderPage, encodePng, type RenderedPage } from "./pdf-render";
+import { enqueueBackgroundTask } from "./background-tasks";
+
+// Longest side of each rendered image, in pixels
+const THUMBNAIL_MAX_DIMENSION = 320;
+const PAGE_MAX_DIMENSION = 1600;
+// Pages rendered right after upload; later pages of long sets are rendered the first time they are viewed
+const PRERENDERED_PAGES = 20;
+// Files larger than this are not rendered; decoding them would hold too much in memory
+const MAX_PREVIEW_BYTES = 150 * 1024 * 1024;
+
+const PREVIEWABLE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/gif", "image/webp"];
+
+export const PreviewStatus = {
+  READY: "ready",
+  UNSUPPORTED: "unsupported",
+  FAILED: "failed",
+} as const;
+
+export const PreviewKind = {
+  THUMBNAIL: "thumbnail",
+  PAGE: "page",
+} as const;
+
+export type PreviewKindType = typeof PreviewKind[keyof typeof PreviewKind];
+
+export class PreviewUnavailableError extends Error {}
+
+// An opened file that can be rendered a page at a time
+interface PreviewSource {
+  pageCount: number;
+  render(pageNumber: number, maxDimension: number): Promise<RenderedPage>;
+  close(): Promise<void>;
+}
+
+export function isPreviewable(document: Pick<Document, "fileType" | "fileSize" | "contentHash">): boolean {
+  return Boolean(document.contentHash)
+    && document.fileSize <= MAX_PREVIEW_BYTES
+    && (document.fileType === "application/pdf" || PREVIEWABLE_IMAGE_TYPES.includes(document.fileType));
+}
+
+async function openPdfSource(content: Buffer): Promise<PreviewSource> {
+  const pdf = await loadPdf(content);
+  return {
+    pageCount: pdf.numPages,
+    async render(pageNumber, maxDimension) {
+      const page = await pdf.getPage(pageNumber);
+      try {
+        return await renderPage(page, maxDimension);
+      } finally {
+        page.cleanup();
+      }
+    },
+    close: () => pdf.destroy(),
+  };
+}
+
+async function openImageSource(content: Buffer): Promise<PreviewSource> {
+  const image = await loadImage(content);
+  return {
+    pageCount: 1,
+    async render(_pageNumber, maxDimension) {
+      // Never upscale small images
+      const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+      const width = Math.max(1, Math.round(image.width * scale));
+      const height = Math.max(1, Math.round(image.height * scale));
+      const canvas = createCanvas(width, height);
+      const context = canvas.getContext("2d");
+
+      // Transparent images are shown on white, like PDF pages
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0, width, height);
+      return { width, height, data: context.getImageData(0, 0, width, height).data };
+    },
+    close: async () => {},
+  };
+}
+
+async function openPreviewSource(document: Document): Promise<PreviewSource> {
+  const content = await storage.getDocumentContent(document);
+  if (!content) {
+    throw new PreviewUnavailableError("Document content not found");
+  }
+  return document.fileType === "application/pdf"
+    ? await openPdfSource(content)
+    : await openImageSource(content);
+}
+
+// Returns the cached preview, rendering and storing it first if needed
+async function ensurePreview(
+  source: PreviewSource,
+  contentHash: string,
+  kind: PreviewKindType,
+  pageNumber: number
+): Promise<DocumentPreview> {
+  const existing = await storage.getDocumentPreview(contentHash, kind, pageNumber);
+  if (existing) return existing;
+
+  const image = await source.render(
+    pageNumber,
+    kind === PreviewKind.THUMBNAIL ? THUMBNAIL_MAX_DIMENSION : PAGE_MAX_DIMENSION
+  );
+  const blobStore = await getBlobStore();
+  const blob = await blobStore.put(await encodePng(image));
+
+  return await storage.createDocumentPreview({
+    contentHash,
+    kind,
+    pageNumber,
+    blobKey: blob.key,
+    width: image.width,
+    height: image.height,
+  });
+}
+
+/**
+ * Renders a document's thumbnail and its first pages, and records the page
+ * count on the document. Failures are recorded on the document rather than
+ * thrown, so callers don't need to handle them.
+ */
+export async function generateDocumentPreviews(document: Document): Promise<string> {
+  if (!isPreviewable(document)) {
+    await storage.setDocumentPreviewStatus(document.id, PreviewStatus.UNSUPPORTED);
+    return PreviewStatus.UNSUPPORTED;
+  }
+
+  let source: PreviewSource | undefined;
+  try {
+    source = await openPreviewSource(document);
+    await ensurePreview(source, document.contentHash!, PreviewKind.THUMBNAIL, 1);
+    for (let pageNumber = 1; pageNumber <= Math.min(source.pageCount, PRERENDERED_PAGES); pageNumber++) {
+      await ensurePreview(source, document.contentHash!, PreviewKind.PAGE, pageNumber);
+    }
+
+    await storage.setDocumentPreviewStatus(document.id, PreviewStatus.READY, source.pageCount);
+    return PreviewStatus.READY;
+  } catch (error) {
+    console.error(`Error rendering previews of document ${document.id}:`, error);
+    await storage.setDocumentPreviewStatus(document.id, PreviewStatus.FAILED).catch(() => {});
+    return PreviewStatus.FAILED;
+  } finally {
+    await source?.close();
+  }
+}
+
+/**
+ * Returns a single preview, rendering it on demand when it isn't cached yet
+ * (pages past the pre-rendered ones, or a document still waiting in the queue).
+ */
+export async function getDocumentPreview(
+  document: Document,
+  kind: PreviewKindType,
+  pageNumber: number
+): Promise<DocumentPreview> {
+  if (!isPreviewable(document)) {
+    throw new PreviewUnavailableError("Previews are not available for this file type");
+  }
+
+  const cached = await storage.getDocumentPreview(document.contentHash!, kind, pageNumber);
+  if (cached) return cached;
+
+  const source = await openPreviewSource(document);
+  try {
+    if (pageNumber < 1 || pageNumber > source.pageCount) {
+      throw new PreviewUnavailableError(`Page ${pageNumber} does not exist`);
+    }
+    return await ensurePreview(source, document.contentHash!, kind, pageNumber);
+  } finally {
+    await source.close();
+  }
+}
+
+/**
+ * Renders a document's previews in the background, after the upload response
+ * has been sent.
+ */
+export function queueDocumentPreviews(document: Document): void {
+  enqueueBackgroundTask(`render previews of document ${document.id}`, () => generateDocumentPreviews(document));
+}
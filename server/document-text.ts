@@ -0,0 +1,169 @@
+import JSZip from "jszip";
+import type { Document } from "@shared/schema";
+import { storage } from "./storage";
+import { loadPdf, extractPageLines } from "./pdf-render";
+import { enqueueBackgroundTask } from "./background-tasks";
+
+// Files larger than this are not indexed; extracting them would hold too much in memory
+const MAX_INDEXED_BYTES = 150 * 1024 * 1024;
+// Per-page cap so one dense schedule can't bloat the index
+const MAX_PAGE_CHARACTERS = 200_000;
+
+export const TextIndexStatus = {
+  INDEXED: "indexed",
+  UNSUPPORTED: "unsupported",
+  FAILED: "failed",
+} as const;
+
+export interface ExtractedPage {
+  // null when the format has no page boundaries to report
+  pageNumber: number | null;
+  content: string;
+}
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const TEXT_EXTENSIONS = [".txt", ".csv", ".md"];
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+}
+
+// Postgres text columns reject NUL bytes, and runs of whitespace only bloat the index
+function cleanText(text: string): string {
+  return text
+    .replace(/\u0000/g, "")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .slice(0, MAX_PAGE_CHARACTERS);
+}
+
+async function extractPdfText(content: Buffer): Promise<ExtractedPage[]> {
+  const pdf = await loadPdf(content);
+  try {
+    const pages: ExtractedPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      pages.push({ pageNumber, content: (await extractPageLines(page)).join("\n") });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "amp": return "&";
+      case "lt": return "<";
+      case "gt": return ">";
+      case "quot": return "\"";
+      case "apos": return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+/**
+ * Reads the body text of a Word document straight from word/document.xml.
+ * Word records where it last laid out each page break, so when those markers
+ * are present the text is split into pages; otherwise explicit page breaks are
+ * used, and a document with neither is returned as a single unnumbered page.
+ */
+async function extractDocxText(content: Buffer): Promise<ExtractedPage[]> {
+  const zip = await JSZip.loadAsync(content);
+  const xml = await zip.file("word/document.xml")?.async("string");
+  if (!xml) return [];
+
+  const pageBreak = xml.includes("<w:lastRenderedPageBreak")
+    ? /<w:lastRenderedPageBreak\s*\/>/g
+    : /<w:br\b[^>]*w:type="page"[^>]*\/>/g;
+  const hasPageBreaks = pageBreak.test(xml);
+  pageBreak.lastIndex = 0;
+
+  const body = xml
+    .replace(pageBreak, "\f")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:(br|cr)\b[^>]*\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    // Keep only run text and the markers above
+    .replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<[^>]+>/g, (_, text?: string) => text ?? "");
+
+  const pages = decodeXmlEntities(body).split("\f");
+  return pages.map((page, index) => ({
+    pageNumber: hasPageBreaks ? index + 1 : null,
+    content: page,
+  }));
+}
+
+function isPlainText(document: Pick<Document, "fileType" | "fileName">): boolean {
+  return document.fileType.startsWith("text/") || TEXT_EXTENSIONS.includes(extensionOf(document.fileName));
+}
+
+/**
+ * Returns the text of a PDF, DOCX or plain-text file, split into pages where
+ * the format allows. Returns null for formats we can't read (images,
+ * spreadsheets, legacy .doc).
+ */
+export async function extractDocumentText(
+  content: Buffer,
+  document: Pick<Document, "fileType" | "fileName">
+): Promise<ExtractedPage[] | null> {
+  let pages: ExtractedPage[];
+
+  if (document.fileType === "application/pdf" || extensionOf(document.fileName) === ".pdf") {
+    pages = await extractPdfText(content);
+  } else if (document.fileType === DOCX_MIME_TYPE || extensionOf(document.fileName) === ".docx") {
+    pages = await extractDocxText(content);
+  } else if (isPlainText(document)) {
+    pages = [{ pageNumber: null, content: content.toString("utf8") }];
+  } else {
+    return null;
+  }
+
+  return pages
+    .map(page => ({ ...page, content: cleanText(page.content) }))
+    .filter(page => page.content.length > 0);
+}
+
+/**
+ * Extracts a document's text and stores it in the full-text index, replacing
+ * anything indexed for it before. Failures are recorded on the document rather
+ * than thrown, so callers don't need to handle them.
+ */
+export async function indexDocumentText(document: Document): Promise<string> {
+  try {
+    if (document.fileSize > MAX_INDEXED_BYTES) {
+      await storage.setDocumentTextIndexStatus(document.id, TextIndexStatus.UNSUPPORTED);
+      return TextIndexStatus.UNSUPPORTED;
+    }
+
+    const content = await storage.getDocumentContent(document);
+    const pages = content ? await extractDocumentText(content, document) : null;
+    if (!pages) {
+      await storage.setDocumentTextIndexStatus(document.id, TextIndexStatus.UNSUPPORTED);
+      return TextIndexStatus.UNSUPPORTED;
+    }
+
+    await storage.replaceDocumentText(document.id, pages, TextIndexStatus.INDEXED);
+    return TextIndexStatus.INDEXED;
+  } catch (error) {
+    console.error(`Error indexing text of document ${document.id}:`, error);
+    await storage.setDocumentTextIndexStatus(document.id, TextIndexStatus.FAILED).catch(() => {});
+    return TextIndexStatus.FAILED;
+  }
+}
+
+/**
+ * Indexes a document's text in the background, after the upload response has
+ * been sent. Documents become searchable by content once this finishes.
+ */
+export function queueDocumentTextIndexing(document: Document): void {
+  enqueueBackgroundTask(`index text of document ${document.id}`, () => indexDocumentText(document));
+}
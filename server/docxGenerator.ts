@@ -1,4 +1,6 @@
 import { Document, Packer, Paragraph, TextRun, AlignmentType } from "docx";
+import type { CommentLetter, CommentLetterOutcome } from "./review-rounds";
+import type { CorrectionResponseLetter } from "./correction-comments";
 
 export async function generateCoverLetterDocx(content: string, fileName: string = "CoverLetter.docx"): Promise<Buffer> {
   try {
@@ -261,4 +263,213 @@ export async function generateCoverLetterDocx(content: string, fileName: string
     console.error("Error generating DOCX:", error);
     throw new Error("Failed to generate Word document");
   }
-}
\ No newline at end of file
+}
+
+const outcomeLabels: Record<CommentLetterOutcome, string> = {
+  approved: "Approved",
+  revisions_required: "Revisions required",
+  not_reviewed: "Not reviewed this round",
+};
+
+const formatLetterDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+/**
+ * Renders the consolidated comment letter for a closed review round: a summary
+ * of every document's outcome followed by the reviewers' decisions and the
+ * numbered annotations for each one.
+ */
+export async function generateCommentLetterDocx(letter: CommentLetter): Promise<Buffer> {
+  try {
+    const text = (value: string, options: { bold?: boolean; italics?: boolean; size?: number; color?: string } = {}) =>
+      new TextRun({ text: value, size: options.size ?? 22, font: "Times New Roman", bold: options.bold, italics: options.italics, color: options.color });
+    const line = (...runs: TextRun[]) => new Paragraph({ children: runs, alignment: AlignmentType.LEFT });
+    const blank = () => new Paragraph({ children: [new TextRun({ text: "" })] });
+
+    const paragraphs: Paragraph[] = [
+      new Paragraph({
+        children: [new TextRun({ text: "Intralog Permit Services", bold: true, size: 28 })],
+        alignment: "center",
+      }),
+      blank(),
+      new Paragraph({ children: [text(formatLetterDate(letter.closedAt))], alignment: "right" }),
+      blank(),
+      line(text(`Subject: Plan Review Comments - Review Round ${letter.roundNumber}`, { bold: true })),
+      blank(),
+      line(text("Project: ", { bold: true }), text(letter.project.name)),
+      line(text("Client: ", { bold: true }), text(letter.project.clientName)),
+      line(text("Facility: ", { bold: true }), text(letter.project.facilityAddress)),
+      line(text("Jurisdiction: ", { bold: true }), text(letter.project.jurisdiction)),
+    ];
+    if (letter.project.permitNumber) {
+      paragraphs.push(line(text("Permit Number: ", { bold: true }), text(letter.project.permitNumber)));
+    }
+    paragraphs.push(blank());
+
+    if (letter.summary) {
+      letter.summary.split("\n").forEach(summaryLine => paragraphs.push(line(text(summaryLine))));
+      paragraphs.push(blank());
+    }
+
+    paragraphs.push(line(text("Review Summary", { bold: true })));
+    letter.sections.forEach((section, index) => {
+      paragraphs.push(new Paragraph({
+        children: [
+          text(`${index + 1}. ${section.title} - ${section.fileName} (v${section.version}): `),
+          text(outcomeLabels[section.outcome], { bold: section.outcome === "revisions_required" }),
+        ],
+        indent: { left: 360 },
+      }));
+    });
+
+    letter.sections.forEach((section, index) => {
+      paragraphs.push(blank());
+      paragraphs.push(line(text(`${index + 1}. ${section.title}`, { bold: true })));
+      paragraphs.push(line(text(`${section.fileName} (version ${section.version}) - ${outcomeLabels[section.outcome]}`, { italics: true })));
+
+      section.decisions.forEach(decision => {
+        const verdict = decision.decision === "rejected" ? "Revisions requested" : "Approved";
+        const runs = [text(`${verdict} by ${decision.reviewerName ?? "reviewer"}`, { bold: true })];
+        if (decision.comments) runs.push(text(`: ${decision.comments}`));
+        paragraphs.push(new Paragraph({ children: runs, indent: { left: 360 } }));
+      });
+
+      if (section.comments.length === 0) {
+        paragraphs.push(new Paragraph({ children: [text("No review comments.", { italics: true })], indent: { left: 360 } }));
+      }
+      section.comments.forEach((comment, commentIndex) => {
+        const runs = [
+          text(`${index + 1}.${commentIndex + 1} `, { bold: true }),
+          text(`${comment.reference}: `, { bold: true }),
+          text(comment.text),
+        ];
+        if (comment.resolved) runs.push(text(" (resolved)", { italics: true, color: "666666" }));
+        paragraphs.push(new Paragraph({ children: runs, indent: { left: 360 } }));
+      });
+    });
+
+    paragraphs.push(blank());
+    paragraphs.push(line(text("Please address each comment marked above and resubmit the revised documents for the next review round.")));
+    paragraphs.push(blank());
+    paragraphs.push(line(text("Sincerely,")));
+    paragraphs.push(line(text(letter.closedBy, { bold: true })));
+    paragraphs.push(line(text("Intralog Permit Services Team")));
+    paragraphs.push(blank());
+    paragraphs.push(new Paragraph({
+      children: [new TextRun({ text: "Generated by PainlessPermit™ by Intralog", size: 18, italics: true, color: "666666" })],
+      alignment: "center",
+    }));
+
+    const doc = new Document({
+      sections: [
+        {
+          properties: {
+            page: {
+              margin: { top: 720, right: 720, bottom: 720, left: 720 },
+            },
+          },
+          children: paragraphs,
+        },
+      ],
+    });
+
+    return await Packer.toBuffer(doc);
+  } catch (error) {
+    console.error("Error generating comment letter DOCX:", error);
+    throw new Error("Failed to generate Word document");
+  }
+}
+
+/**
+ * Renders the point-by-point response to a building department's plan-check
+ * corrections: each comment quoted, followed by our resolution and the revised
+ * sheet that addresses it.
+ */
+export async function generateCorrectionResponseDocx(letter: CorrectionResponseLetter): Promise<Buffer> {
+  try {
+    const text = (value: string, options: { bold?: boolean; italics?: boolean; color?: string } = {}) =>
+      new TextRun({ text: value, size: 22, font: "Times New Roman", bold: options.bold, italics: options.italics, color: options.color });
+    const line = (...runs: TextRun[]) => new Paragraph({ children: runs, alignment: AlignmentType.LEFT });
+    const blank = () => new Paragraph({ children: [new TextRun({ text: "" })] });
+
+    const paragraphs: Paragraph[] = [
+      new Paragraph({
+        children: [new TextRun({ text: "Intralog Permit Services", bold: true, size: 28 })],
+        alignment: "center",
+      }),
+      blank(),
+      new Paragraph({ children: [text(formatLetterDate(letter.preparedAt))], alignment: "right" }),
+      blank(),
+      line(text(letter.project.jurisdiction)),
+    ];
+    (letter.project.jurisdictionAddress ?? "").split("\n").filter(Boolean).forEach(addressLine => {
+      paragraphs.push(line(text(addressLine.trim())));
+    });
+    paragraphs.push(blank());
+    paragraphs.push(line(text(
+      `RE: Response to Plan Review Comments - ${letter.project.name}${letter.project.permitNumber ? ` (Permit ${letter.project.permitNumber})` : ""}`,
+      { bold: true }
+    )));
+    paragraphs.push(line(text("Facility: ", { bold: true }), text(letter.project.facilityAddress)));
+    paragraphs.push(line(text("Submittal: ", { bold: true }), text(String(letter.submissionNumber))));
+    paragraphs.push(blank());
+    paragraphs.push(line(text("Dear Plan Reviewer,")));
+    paragraphs.push(blank());
+    paragraphs.push(line(text(
+      "Thank you for your review. Each of your comments is quoted below, followed by our response and the revised sheet where the change can be found."
+    )));
+
+    letter.items.forEach(item => {
+      paragraphs.push(blank());
+      const heading = [text(`Comment ${item.commentNumber}`, { bold: true })];
+      if (item.reference) heading.push(text(` (${item.reference})`));
+      paragraphs.push(line(...heading));
+      paragraphs.push(new Paragraph({
+        children: [text(`"${item.text}"`, { italics: true })],
+        indent: { left: 360, right: 360 },
+      }));
+      paragraphs.push(new Paragraph({
+        children: item.resolved
+          ? [text("Response: ", { bold: true }), text(item.resolution ?? "")]
+          : [text("Response: ", { bold: true }), text("Response pending", { italics: true, color: "B45309" })],
+        indent: { left: 360 },
+      }));
+      if (item.revisedSheetReference) {
+        paragraphs.push(new Paragraph({
+          children: [text("Revised sheet: ", { bold: true }), text(item.revisedSheetReference)],
+          indent: { left: 360 },
+        }));
+      }
+    });
+
+    paragraphs.push(blank());
+    paragraphs.push(line(text("Please let us know if anything further is needed to complete the review.")));
+    paragraphs.push(blank());
+    paragraphs.push(line(text("Sincerely,")));
+    paragraphs.push(line(text(letter.preparedBy, { bold: true })));
+    paragraphs.push(line(text("Intralog Permit Services Team")));
+    paragraphs.push(blank());
+    paragraphs.push(new Paragraph({
+      children: [new TextRun({ text: "Generated by PainlessPermit™ by Intralog", size: 18, italics: true, color: "666666" })],
+      alignment: "center",
+    }));
+
+    const doc = new Document({
+      sections: [
+        {
+          properties: {
+            page: {
+              margin: { top: 720, right: 720, bottom: 720, left: 720 },
+            },
+          },
+          children: paragraphs,
+        },
+      ],
+    });
+
+    return await Packer.toBuffer(doc);
+  } catch (error) {
+    console.error("Error generating correction response DOCX:", error);
+    throw new Error("Failed to generate Word document");
+  }
+}
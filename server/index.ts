@@ -6,13 +6,13 @@ import http from 'node:http';
 
 
 const app = express();
-// Set realistic size limits for document uploads (100MB for database compatibility)
+// Document bytes are streamed by the upload routes (see server/uploads.ts), so JSON bodies stay small
 app.use(express.json({ 
-  limit: '100mb'
+  limit: '10mb'
 }));
 app.use(express.urlencoded({ 
   extended: false, 
-  limit: '100mb'
+  limit: '10mb'
 }));
 
 // Set timeout for requests (5 minutes for uploads)
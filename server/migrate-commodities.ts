@@ -0,0 +1,45 @@
+/**
+ * One-off migration for projects that saved their commodities form more than
+ * once before it was updated in place. Each save added a row and the newest
+ * one was read, so that row is kept and the older ones are removed.
+ *
+ * Run `npm run db:migrate-commodities` before `npm run db:push`, which adds
+ * the one-row-per-project index and fails while duplicates remain. Projects
+ * with a single row are untouched, so the script can be re-run safely.
+ */
+import { and, count, eq, gt, lt, max } from "drizzle-orm";
+import { commodities } from "@shared/schema";
+import { db, pool } from "./db";
+
+async function migrateCommodities() {
+  const duplicated = await db
+    .select({ projectId: commodities.projectId, newestId: max(commodities.id), rows: count() })
+    .from(commodities)
+    .groupBy(commodities.projectId)
+    .having(({ rows }) => gt(rows, 1));
+
+  let removed = 0;
+
+  for (const { projectId, newestId } of duplicated) {
+    const deleted = await db
+      .delete(commodities)
+      .where(and(eq(commodities.projectId, projectId), lt(commodities.id, newestId!)))
+      .returning({ id: commodities.id });
+
+    removed += deleted.length;
+    console.log(`Kept commodities row ${newestId} for project ${projectId}, removed ${deleted.length} older`);
+  }
+
+  console.log(`Commodities migration finished: ${removed} older rows removed from ${duplicated.length} projects`);
+}
+
+migrateCommodities()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("Commodities migration aborted:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,66 @@
+/**
+ * One-off migration that moves base64 document payloads out of
+ * `documents.file_content` and into the blob store.
+ *
+ * Run `npm run db:push` first so the `content_hash` column exists, then
+ * `npm run db:migrate-blobs`. Rows are processed in small batches and each row
+ * is only cleared after its blob has been written, so the script can be
+ * interrupted and re-run safely.
+ */
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { documents } from "@shared/schema";
+import { db, pool } from "./db";
+import { getBlobStore } from "./blob-storage";
+
+const BATCH_SIZE = 10;
+
+async function migrateDocumentBlobs() {
+  const blobStore = await getBlobStore();
+  let migrated = 0;
+  let failed = 0;
+  const failedIds = new Set<number>();
+
+  while (true) {
+    const batch = await db
+      .select({ id: documents.id, fileName: documents.fileName, fileContent: documents.fileContent })
+      .from(documents)
+      .where(and(isNotNull(documents.fileContent), isNull(documents.contentHash)))
+      .limit(BATCH_SIZE + failedIds.size);
+
+    const pending = batch.filter(row => !failedIds.has(row.id)).slice(0, BATCH_SIZE);
+    if (pending.length === 0) break;
+
+    for (const row of pending) {
+      try {
+        const content = Buffer.from(row.fileContent!, "base64");
+        const blob = await blobStore.put(content);
+
+        await db
+          .update(documents)
+          .set({ contentHash: blob.key, fileSize: blob.size, fileContent: null })
+          .where(eq(documents.id, row.id));
+
+        migrated++;
+        console.log(`Migrated document ${row.id} ("${row.fileName}") -> ${blob.key}`);
+      } catch (error) {
+        failed++;
+        failedIds.add(row.id);
+        console.error(`Failed to migrate document ${row.id} ("${row.fileName}"):`, error);
+      }
+    }
+  }
+
+  console.log(`Blob migration finished: ${migrated} migrated, ${failed} failed`);
+  return failed;
+}
+
+migrateDocumentBlobs()
+  .then(async (failed) => {
+    await pool.end();
+    process.exit(failed > 0 ? 1 : 0);
+  })
+  .catch(async (error) => {
+    console.error("Blob migration aborted:", error);
+    await pool.end();
+    process.exit(1);
+  });
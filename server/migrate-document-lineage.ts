@@ -0,0 +1,125 @@
+/**
+ * One-off migration that gives documents uploaded before lineage tracking a
+ * `group_id`. Versions were previously linked only by sharing a project,
+ * category and file name, so each such set becomes one lineage; every version
+ * but the newest is marked superseded by it.
+ *
+ * Concurrent uploads could also give two versions of a lineage the same
+ * number, which the unique (group_id, version) index doesn't allow; such
+ * lineages are renumbered in upload order.
+ *
+ * Run `npm run db:push` first so the lineage columns exist, then
+ * `npm run db:migrate-lineage`. Only rows without a group id and lineages with
+ * repeated versions are touched, so the script can be re-run safely. If
+ * db:push can't create documents_group_version_idx because grouped versions
+ * repeat, run this script and then db:push again.
+ */
+import { and, asc, desc, eq, isNotNull, isNull, ne, sql, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { documents, DocumentStatus } from "@shared/schema";
+import { db, pool } from "./db";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Numbers a lineage 1..n by version then upload; does nothing when no version repeats
+async function renumberRepeatedVersions(tx: Transaction, lineage: SQL | undefined): Promise<boolean> {
+  const rows = await tx
+    .select({ id: documents.id, version: documents.version })
+    .from(documents)
+    .where(lineage)
+    .orderBy(asc(documents.version), asc(documents.id));
+  if (new Set(rows.map(row => row.version)).size === rows.length) return false;
+
+  // Move every version out of the way first so no intermediate numbering collides
+  await tx
+    .update(documents)
+    .set({ version: sql`-${documents.id}` })
+    .where(lineage);
+  for (let index = 0; index < rows.length; index++) {
+    await tx
+      .update(documents)
+      .set({ version: index + 1 })
+      .where(eq(documents.id, rows[index].id));
+  }
+  return true;
+}
+
+async function migrateDocumentLineage() {
+  const lineages = await db
+    .selectDistinct({
+      projectId: documents.projectId,
+      category: documents.category,
+      fileName: documents.fileName,
+    })
+    .from(documents)
+    .where(isNull(documents.groupId));
+
+  let migrated = 0;
+
+  for (const lineage of lineages) {
+    const sameLineage = and(
+      eq(documents.projectId, lineage.projectId),
+      eq(documents.category, lineage.category),
+      eq(documents.fileName, lineage.fileName),
+      isNull(documents.groupId)
+    );
+
+    await db.transaction(async (tx) => {
+      if (await renumberRepeatedVersions(tx, sameLineage)) {
+        console.log(`Renumbered the repeated versions of "${lineage.fileName}" (project ${lineage.projectId})`);
+      }
+
+      const [current] = await tx
+        .select({ id: documents.id, supersededAt: documents.uploadedAt })
+        .from(documents)
+        .where(sameLineage)
+        .orderBy(desc(documents.version), desc(documents.id))
+        .limit(1);
+      if (!current) return;
+
+      await tx
+        .update(documents)
+        .set({
+          status: DocumentStatus.SUPERSEDED,
+          supersededById: current.id,
+          supersededAt: current.supersededAt ?? new Date(),
+        })
+        .where(and(sameLineage, ne(documents.id, current.id)));
+
+      await tx
+        .update(documents)
+        .set({ groupId: randomUUID() })
+        .where(sameLineage);
+    });
+
+    migrated++;
+    console.log(`Grouped "${lineage.fileName}" (project ${lineage.projectId}, ${lineage.category})`);
+  }
+
+  const repeated = await db
+    .selectDistinct({ groupId: documents.groupId })
+    .from(documents)
+    .where(isNotNull(documents.groupId))
+    .groupBy(documents.groupId, documents.version)
+    .having(sql`count(*) > 1`);
+
+  for (const { groupId } of repeated) {
+    await db.transaction(async (tx) => {
+      await renumberRepeatedVersions(tx, eq(documents.groupId, groupId!));
+    });
+    console.log(`Renumbered the repeated versions of lineage ${groupId}`);
+  }
+
+  console.log(`Lineage migration finished: ${migrated} lineages created, ${repeated.length} renumbered`);
+}
+
+migrateDocumentLineage()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("Lineage migration aborted:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,52 @@
+/**
+ * One-off backfill that renders thumbnails and page previews for documents
+ * uploaded before server-side previews existed. New uploads get theirs as they
+ * arrive.
+ *
+ * Run `npm run db:push` first so the preview columns and table exist, then
+ * `npm run db:migrate-previews`. Only documents that have never been rendered
+ * are processed, so the script can be re-run safely; pass `--retry-failed` to
+ * also retry documents whose rendering failed.
+ */
+import { eq, isNull, or, asc } from "drizzle-orm";
+import { documents } from "@shared/schema";
+import { db, pool } from "./db";
+import { generateDocumentPreviews, PreviewStatus } from "./document-previews";
+
+async function migrateDocumentPreviews() {
+  const retryFailed = process.argv.includes("--retry-failed");
+  const pending = await db
+    .select({ id: documents.id })
+    .from(documents)
+    .where(
+      retryFailed
+        ? or(isNull(documents.previewStatus), eq(documents.previewStatus, PreviewStatus.FAILED))
+        : isNull(documents.previewStatus)
+    )
+    .orderBy(asc(documents.id));
+
+  const counts: Record<string, number> = {};
+
+  // Load one row at a time; legacy rows can still carry their file inline
+  for (const { id } of pending) {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    if (!document) continue;
+
+    const status = await generateDocumentPreviews(document);
+    counts[status] = (counts[status] ?? 0) + 1;
+    console.log(`Document ${document.id} ("${document.fileName}"): ${status}`);
+  }
+
+  console.log(`Preview rendering finished: ${pending.length} documents processed`, counts);
+}
+
+migrateDocumentPreviews()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("Preview rendering aborted:", error);
+    await pool.end();
+    process.exit(1);
+  });
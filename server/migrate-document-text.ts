@@ -0,0 +1,51 @@
+/**
+ * One-off backfill that extracts and indexes the text of documents uploaded
+ * before full-text search existed. New uploads are indexed as they arrive.
+ *
+ * Run `npm run db:push` first so the `document_text` table exists, then
+ * `npm run db:migrate-text`. Only documents that have never been indexed are
+ * processed, so the script can be re-run safely; pass `--retry-failed` to also
+ * retry documents whose extraction failed.
+ */
+import { eq, isNull, or, asc } from "drizzle-orm";
+import { documents } from "@shared/schema";
+import { db, pool } from "./db";
+import { indexDocumentText, TextIndexStatus } from "./document-text";
+
+async function migrateDocumentText() {
+  const retryFailed = process.argv.includes("--retry-failed");
+  const pending = await db
+    .select({ id: documents.id })
+    .from(documents)
+    .where(
+      retryFailed
+        ? or(isNull(documents.textIndexStatus), eq(documents.textIndexStatus, TextIndexStatus.FAILED))
+        : isNull(documents.textIndexStatus)
+    )
+    .orderBy(asc(documents.id));
+
+  const counts: Record<string, number> = {};
+
+  // Load one row at a time; legacy rows can still carry their file inline
+  for (const { id } of pending) {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    if (!document) continue;
+
+    const status = await indexDocumentText(document);
+    counts[status] = (counts[status] ?? 0) + 1;
+    console.log(`Document ${document.id} ("${document.fileName}"): ${status}`);
+  }
+
+  console.log(`Text indexing finished: ${pending.length} documents processed`, counts);
+}
+
+migrateDocumentText()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("Text indexing aborted:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -242,6 +242,130 @@ export class NotificationService {
     }
   }
 
+  // Correction Comment Assignment Notifications
+  static async notifyCorrectionAssigned(commentId: number, assigneeUserId: number, assignedBy: string, projectId: number, commentText: string) {
+    try {
+      const project = await storage.getProject(projectId);
+      const assignee = await storage.getUser(assigneeUserId);
+      
+      if (!project || !assignee) return;
+
+      await this.createNotification({
+        userId: assigneeUserId,
+        type: 'correction_assigned',
+        title: 'Plan-Check Correction Assigned',
+        message: `${assignedBy} assigned you a plan-check correction for project "${project.name}": ${commentText}`,
+        metadata: { 
+          projectId, 
+          projectName: project.name,
+          commentId,
+          assignedBy
+        },
+        userEmail: assignee.email,
+        userFullName: assignee.fullName
+      });
+    } catch (error) {
+      console.error('Error creating correction assignment notification:', error);
+    }
+  }
+
+  // Review Queue Assignment Notifications
+  static async notifyReviewAssigned(documentId: number, reviewerUserId: number, assignedBy: string, projectId: number, fileName: string) {
+    try {
+      const project = await storage.getProject(projectId);
+      const reviewer = await storage.getUser(reviewerUserId);
+      
+      if (!project || !reviewer) return;
+
+      await this.createNotification({
+        userId: reviewerUserId,
+        type: 'review_assigned',
+        title: 'Document Review Assigned',
+        message: `${assignedBy} assigned you to review "${fileName}" for project "${project.name}"`,
+        metadata: { 
+          projectId, 
+          projectName: project.name,
+          documentId,
+          fileName,
+          assignedBy
+        },
+        userEmail: reviewer.email,
+        userFullName: reviewer.fullName
+      });
+    } catch (error) {
+      console.error('Error creating review assignment notification:', error);
+    }
+  }
+
+  // Bulk Review Notifications: one summary per recipient rather than one per document
+  static async notifyDocumentsReviewed(projectId: number, reviewerId: number, reviewerName: string, outcome: string, fileNames: string[], uploaderIds: number[]) {
+    try {
+      const project = await storage.getProject(projectId);
+      if (!project) return;
+
+      const stakeholders = await storage.getProjectStakeholders(projectId);
+      const recipientIds = Array.from(new Set([...stakeholders.map(stakeholder => stakeholder.userId), ...uploaderIds]))
+        .filter(userId => userId !== reviewerId);
+
+      const listed = fileNames.slice(0, 10).join(', ');
+      const more = fileNames.length > 10 ? ` and ${fileNames.length - 10} more` : '';
+
+      await Promise.all(recipientIds.map(async userId => {
+        const recipient = await storage.getUser(userId);
+        if (!recipient) return;
+
+        await this.createNotification({
+          userId,
+          type: 'documents_reviewed',
+          title: `${fileNames.length} Document${fileNames.length === 1 ? '' : 's'} ${outcome}`,
+          message: `${reviewerName} reviewed ${fileNames.length} document${fileNames.length === 1 ? '' : 's'} for project "${project.name}" (${outcome.toLowerCase()}): ${listed}${more}`,
+          metadata: { 
+            projectId, 
+            projectName: project.name,
+            outcome,
+            fileNames,
+            reviewedBy: reviewerName
+          },
+          userEmail: recipient.email,
+          userFullName: recipient.fullName
+        });
+      }));
+    } catch (error) {
+      console.error('Error creating bulk review notifications:', error);
+    }
+  }
+
+  // Approval Stage Notifications (stages signed off by the permit specialists)
+  static async notifyApprovalStageReady(documentId: number, projectId: number, stageName: string, fileName: string) {
+    try {
+      const project = await storage.getProject(projectId);
+      if (!project) return;
+
+      const allUsers = await storage.getUsers();
+      const specialists = allUsers.filter((user: any) => user.role === 'specialist');
+
+      await Promise.all(specialists.map(specialist =>
+        this.createNotification({
+          userId: specialist.id,
+          type: 'approval_stage_ready',
+          title: 'Document Awaiting Sign-Off',
+          message: `"${fileName}" for project "${project.name}" is ready for the ${stageName} stage.`,
+          metadata: { 
+            projectId, 
+            projectName: project.name,
+            documentId,
+            stageName,
+            fileName
+          },
+          userEmail: specialist.email,
+          userFullName: specialist.fullName
+        })
+      ));
+    } catch (error) {
+      console.error('Error creating approval stage notifications:', error);
+    }
+  }
+
   // Deadline Approaching Notifications
   static async notifyDeadlineApproaching(projectId: number, deadlineDate: Date, daysUntilDeadline: number) {
     try {
@@ -309,6 +433,44 @@ export class NotificationService {
     }
   }
 
+  // Document Expiry Notifications: documents that lapse before the project stops needing them
+  static async notifyDocumentsExpiring(projectId: number, expiring: Array<{ fileName: string; expiresAt: Date }>, requiredValidUntil: Date) {
+    try {
+      const project = await storage.getProject(projectId);
+      if (!project) return;
+
+      const stakeholders = await storage.getProjectStakeholders(projectId);
+      const allUsers = await storage.getUsers();
+      const specialists = allUsers.filter((user: any) => user.role === 'specialist');
+      const recipientIds = Array.from(new Set([...stakeholders.map(stakeholder => stakeholder.userId), ...specialists.map(specialist => specialist.id)]));
+
+      const listed = expiring.slice(0, 10).map(document => `${document.fileName} (${document.expiresAt.toLocaleDateString()})`).join(', ');
+      const more = expiring.length > 10 ? ` and ${expiring.length - 10} more` : '';
+
+      await Promise.all(recipientIds.map(async userId => {
+        const recipient = allUsers.find(user => user.id === userId);
+        if (!recipient) return;
+
+        await this.createNotification({
+          userId,
+          type: 'documents_expiring',
+          title: `${expiring.length} Document${expiring.length === 1 ? '' : 's'} Expiring`,
+          message: `Project "${project.name}" needs its documents valid until ${requiredValidUntil.toLocaleDateString()}, but these expire first: ${listed}${more}`,
+          metadata: {
+            projectId,
+            projectName: project.name,
+            requiredValidUntil: requiredValidUntil.toISOString(),
+            documents: expiring.map(document => ({ fileName: document.fileName, expiresAt: document.expiresAt.toISOString() }))
+          },
+          userEmail: recipient.email,
+          userFullName: recipient.fullName
+        });
+      }));
+    } catch (error) {
+      console.error('Error creating document expiry notifications:', error);
+    }
+  }
+
   // Task Completion Notifications
   static async notifyTaskCompleted(taskId: number, completedBy: string, projectId: number, taskDescription: string) {
     try {
@@ -1,5 +1,7 @@
 import OpenAI from "openai";
 import { generateCoverLetterDocx } from "./docxGenerator";
+import type { StorageArray } from "@shared/schema";
+import { describeStorageArray } from "./storage-arrays";
 
 // Initialize OpenAI client
 let openai: OpenAI | null = null;
@@ -25,6 +27,13 @@ function cleanProjectName(name: string): string {
   return name.replace(/\s*-\s*\w{2,4}$/i, "").trim();
 }
 
+// Lists every storage array the application covers; empty for projects without arrays
+function formatStorageArrays(storageArrays: StorageArray[]): string {
+  if (storageArrays.length === 0) return "";
+  const lines = storageArrays.map(array => `${array.name}: ${describeStorageArray(array)}`);
+  return `The application covers the following high-piled storage arrays:\n\n${lines.join("\n")}\n\n`;
+}
+
 function formatDocumentCategory(category: string): string {
   return category
     .split("_")
@@ -35,13 +44,14 @@ function formatDocumentCategory(category: string): string {
 export async function generateCoverLetterWithAI(
   project: any,
   documents: any[],
+  storageArrays: StorageArray[] = [],
   municipality: string = "local municipality",
   user?: { email?: string; phone?: string }
 ): Promise<string> {
   try {
     if (!process.env.OPENAI_API_KEY || !openai) {
       console.log("Using template-based cover letter generation (no OpenAI API key available)");
-      return generateTemplateCoverLetter(project, documents);
+      return generateTemplateCoverLetter(project, documents, storageArrays);
     }
 
     const cleanName = cleanProjectName(project.name);
@@ -115,7 +125,7 @@ ${categoriesWithFiles.map((cat, i) => {
   return `**${i + 1}. ${cat}**\nFiles Submitted:\n    ${latestFile}`;
 }).join("\n\n")}
 
-For any questions or further information, please contact:  
+${formatStorageArrays(storageArrays)}For any questions or further information, please contact:  
 Email: ${project.contactEmail || user?.email || "permits@intralog.io"}  
 Phone: ${project.contactPhone || user?.phone || "(801) 441-8992"}
 
@@ -134,16 +144,16 @@ Generated by PainlessPermit™ by Intralog
       temperature: 0.7,
     });
 
-    const result = response.choices[0].message.content || generateTemplateCoverLetter(project, documents);
+    const result = response.choices[0].message.content || generateTemplateCoverLetter(project, documents, storageArrays);
     return result;
   } catch (error) {
     console.error("Error generating cover letter with AI:", error);
-    return generateTemplateCoverLetter(project, documents);
+    return generateTemplateCoverLetter(project, documents, storageArrays);
   }
 }
 
 // Optional fallback if OpenAI API isn't used
-function generateTemplateCoverLetter(project: any, documents: any[]): string {
+function generateTemplateCoverLetter(project: any, documents: any[], storageArrays: StorageArray[]): string {
   const currentDate = new Date().toLocaleDateString("en-US", {
     year: "numeric",
     month: "long", 
@@ -212,7 +222,7 @@ Enclosed is a comprehensive package of documents required for high-piled storage
 
 ${indexItems}
 
-For any questions or further information, please contact:
+${formatStorageArrays(storageArrays)}For any questions or further information, please contact:
 Email: ${project.contactEmail || "permits@intralog.io"}
 Phone: ${project.contactPhone || "(801) 441-8992"}
 
@@ -0,0 +1,210 @@
+import pixelmatch from "pixelmatch";
+import type { PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { loadPdf, renderPage, encodePng, extractPageLines, type RenderedPage } from "./pdf-render";
+
+// Longest side of each rendered page, in pixels
+const RENDER_MAX_DIMENSION = 1600;
+// Pages beyond this are not compared; large sets are reported as truncated
+export const MAX_COMPARE_PAGES = 60;
+// Fraction of differing pixels below which a page counts as visually unchanged (render noise)
+const CHANGED_PIXEL_RATIO = 0.0005;
+// Cap on the text lines reported per page so a rewritten sheet doesn't produce a huge response
+const MAX_REPORTED_LINES = 50;
+
+export type PageChangeStatus = "unchanged" | "changed" | "added" | "removed";
+
+export interface PageComparison {
+  pageNumber: number;
+  status: PageChangeStatus;
+  changedPixels: number;
+  changedRatio: number;
+  // Blob key of the highlighted PNG for this page, when there is something to show
+  overlayKey: string | null;
+  addedLines: string[];
+  removedLines: string[];
+}
+
+export interface PdfComparison {
+  basePageCount: number;
+  targetPageCount: number;
+  truncated: boolean;
+  pages: PageComparison[];
+  summary: {
+    changedPages: number;
+    addedPages: number;
+    removedPages: number;
+    addedLines: number;
+    removedLines: number;
+  };
+}
+
+// Pads an image with white so two pages of slightly different size can be compared
+function padTo(image: RenderedPage, width: number, height: number): Uint8ClampedArray {
+  if (image.width === width && image.height === height) return image.data;
+
+  const padded = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 0; y < image.height; y++) {
+    padded.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), y * width * 4);
+  }
+  return padded;
+}
+
+/**
+ * Line-level diff using a longest common subsequence. Very long pages fall back
+ * to a multiset difference, which loses ordering but stays cheap.
+ */
+export function diffLines(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  if (before.length * after.length > 4_000_000) {
+    const remaining = new Map<string, number>();
+    for (const line of before) remaining.set(line, (remaining.get(line) ?? 0) + 1);
+    const added: string[] = [];
+    for (const line of after) {
+      const count = remaining.get(line) ?? 0;
+      if (count > 0) remaining.set(line, count - 1);
+      else added.push(line);
+    }
+    const removed = Array.from(remaining.entries()).flatMap(([line, count]) => Array(count).fill(line));
+    return { added, removed };
+  }
+
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = before[i] === after[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  removed.push(...before.slice(i));
+  added.push(...after.slice(j));
+
+  return { added, removed };
+}
+
+async function comparePage(
+  base: PDFDocumentProxy,
+  target: PDFDocumentProxy,
+  pageNumber: number,
+  saveOverlay: (png: Buffer) => Promise<string>
+): Promise<PageComparison> {
+  const hasBase = pageNumber <= base.numPages;
+  const hasTarget = pageNumber <= target.numPages;
+
+  // A page only present on one side is shown as-is
+  if (!hasBase || !hasTarget) {
+    const page = await (hasTarget ? target : base).getPage(pageNumber);
+    const image = await renderPage(page, RENDER_MAX_DIMENSION);
+    const lines = await extractPageLines(page);
+    page.cleanup();
+
+    return {
+      pageNumber,
+      status: hasTarget ? "added" : "removed",
+      changedPixels: image.width * image.height,
+      changedRatio: 1,
+      overlayKey: await saveOverlay(await encodePng(image)),
+      addedLines: hasTarget ? lines.slice(0, MAX_REPORTED_LINES) : [],
+      removedLines: hasTarget ? [] : lines.slice(0, MAX_REPORTED_LINES),
+    };
+  }
+
+  const [basePage, targetPage] = await Promise.all([base.getPage(pageNumber), target.getPage(pageNumber)]);
+  const baseImage = await renderPage(basePage, RENDER_MAX_DIMENSION);
+  const targetImage = await renderPage(targetPage, RENDER_MAX_DIMENSION);
+  const { added, removed } = diffLines(await extractPageLines(basePage), await extractPageLines(targetPage));
+  basePage.cleanup();
+  targetPage.cleanup();
+
+  const width = Math.max(baseImage.width, targetImage.width);
+  const height = Math.max(baseImage.height, targetImage.height);
+  const overlay = new Uint8ClampedArray(width * height * 4);
+
+  // The overlay is the earlier revision faded out, with content that appeared in the new
+  // revision drawn in red and content that was removed drawn in green
+  const changedPixels = pixelmatch(
+    padTo(baseImage, width, height),
+    padTo(targetImage, width, height),
+    overlay,
+    width,
+    height,
+    {
+      threshold: 0.1,
+      alpha: 0.25,
+      aaColor: [210, 210, 210],
+      diffColor: [22, 163, 74], // lighter in the new revision
+      diffColorAlt: [220, 38, 38] // darker in the new revision
+    }
+  );
+  const changedRatio = changedPixels / (width * height);
+  const changed = changedRatio > CHANGED_PIXEL_RATIO || added.length > 0 || removed.length > 0;
+
+  return {
+    pageNumber,
+    status: changed ? "changed" : "unchanged",
+    changedPixels,
+    changedRatio,
+    overlayKey: changed ? await saveOverlay(await encodePng({ width, height, data: overlay })) : null,
+    addedLines: added.slice(0, MAX_REPORTED_LINES),
+    removedLines: removed.slice(0, MAX_REPORTED_LINES),
+  };
+}
+
+/**
+ * Compares two revisions of a PDF page by page. Each page gets a pixel diff and
+ * a line-level text diff; pages that differ get a highlighted overlay image,
+ * which is handed to `saveOverlay` and referenced by the key it returns.
+ */
+export async function comparePdfs(
+  baseContent: Buffer,
+  targetContent: Buffer,
+  saveOverlay: (png: Buffer) => Promise<string>
+): Promise<PdfComparison> {
+  const base = await loadPdf(baseContent);
+  const target = await loadPdf(targetContent);
+
+  try {
+    const pageCount = Math.max(base.numPages, target.numPages);
+    const pages: PageComparison[] = [];
+
+    // One page at a time keeps memory bounded to a handful of rendered images, and
+    // yielding between pages lets requests that arrived meanwhile be served
+    for (let pageNumber = 1; pageNumber <= Math.min(pageCount, MAX_COMPARE_PAGES); pageNumber++) {
+      pages.push(await comparePage(base, target, pageNumber, saveOverlay));
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    return {
+      basePageCount: base.numPages,
+      targetPageCount: target.numPages,
+      truncated: pageCount > MAX_COMPARE_PAGES,
+      pages,
+      summary: {
+        changedPages: pages.filter(page => page.status === "changed").length,
+        addedPages: pages.filter(page => page.status === "added").length,
+        removedPages: pages.filter(page => page.status === "removed").length,
+        addedLines: pages.reduce((sum, page) => sum + page.addedLines.length, 0),
+        removedLines: pages.reduce((sum, page) => sum + page.removedLines.length, 0),
+      },
+    };
+  } finally {
+    await base.destroy();
+    await target.destroy();
+  }
+}
@@ -1,4 +1,7 @@
 import PDFDocument from 'pdfkit';
+import type { Project } from '@shared/schema';
+import type { CommentLetter, CommentLetterOutcome } from './review-rounds';
+import type { CorrectionResponseLetter } from './correction-comments';
 
 /**
  * Sanitizes input content to ensure no placeholder variables remain
@@ -233,4 +236,420 @@ export async function generatePdfFromText(content: string): Promise<string> {
       }
     }
   });
-}
\ No newline at end of file
+}
+
+export interface SubmissionIndexSection {
+  title: string;
+  entries: Array<{
+    path: string;
+    fileName: string;
+    version: number;
+    fileSize: number;
+    reviewedAt?: Date | null;
+  }>;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Generates the index sheet for a submission package: project details followed
+ * by every included document, grouped by section in package order
+ *
+ * @returns The PDF bytes
+ */
+export async function generateSubmissionIndexPdf(
+  project: Pick<Project, 'name' | 'facilityAddress' | 'jurisdiction' | 'permitNumber' | 'clientName'>,
+  sections: SubmissionIndexSection[],
+  generatedAt: Date
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      margins: { top: 72, bottom: 72, left: 72, right: 72 },
+      info: {
+        Title: `${project.name} - Submission Index`,
+        Author: 'Intralog Permit Services',
+        Subject: 'High-Piled Storage Permit Submission Index'
+      }
+    });
+    
+    const buffers: Buffer[] = [];
+    doc.on('data', (buffer: Buffer) => buffers.push(buffer));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+    
+    doc.fontSize(14).font('Helvetica-Bold');
+    doc.text('Intralog Permit Services', { align: 'center' });
+    doc.fontSize(10).font('Helvetica');
+    doc.text('High-Piled Storage Permit Submission Index', { align: 'center' });
+    doc.moveDown(2);
+    
+    doc.fontSize(12).font('Helvetica-Bold').text(project.name);
+    doc.fontSize(10).font('Helvetica');
+    doc.text(`Client: ${project.clientName}`);
+    doc.text(`Facility: ${project.facilityAddress}`);
+    doc.text(`Jurisdiction: ${project.jurisdiction}`);
+    if (project.permitNumber) {
+      doc.text(`Permit Number: ${project.permitNumber}`);
+    }
+    doc.text(`Prepared: ${generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`);
+    doc.moveDown(1.5);
+    
+    sections.forEach((section) => {
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000');
+      doc.text(section.title);
+      doc.moveDown(0.25);
+      
+      section.entries.forEach((entry) => {
+        doc.font('Helvetica').fontSize(10).fillColor('#000000');
+        doc.text(`${entry.fileName} (v${entry.version})`, { indent: 20 });
+        doc.fontSize(8).fillColor('#666666');
+        const reviewed = entry.reviewedAt
+          ? ` - approved ${new Date(entry.reviewedAt).toLocaleDateString('en-US')}`
+          : '';
+        doc.text(`${entry.path} - ${formatFileSize(entry.fileSize)}${reviewed}`, { indent: 20 });
+        doc.moveDown(0.25);
+      });
+      doc.moveDown(0.75);
+    });
+    
+    doc.moveDown(1);
+    doc.fontSize(8).fillColor('#888888');
+    doc.text('File checksums (SHA-256) are listed in manifest.json. Generated by PainlessPermit™ by Intralog', {
+      align: 'center'
+    });
+    
+    doc.end();
+  });
+}
+
+export interface SubmittalTocSection {
+  title: string;
+  startPage: number;
+  entries: Array<{
+    fileName: string;
+    version: number;
+    startPage: number;
+    pageCount: number;
+    // Shown instead of the page range when the file couldn't be bound in
+    note?: string;
+  }>;
+}
+
+/**
+ * Generates the table of contents for a bound submittal PDF. Page numbers
+ * refer to the final combined document, so the caller lays out the pages
+ * first and renders this once it knows where everything starts.
+ *
+ * @returns The PDF bytes
+ */
+export async function generateSubmittalTocPdf(
+  project: Pick<Project, 'name' | 'facilityAddress' | 'jurisdiction' | 'permitNumber' | 'clientName'>,
+  sections: SubmittalTocSection[],
+  generatedAt: Date
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margins: { top: 72, bottom: 72, left: 72, right: 72 },
+      info: {
+        Title: `${project.name} - Table of Contents`,
+        Author: 'Intralog Permit Services',
+        Subject: 'High-Piled Storage Permit Submittal'
+      }
+    });
+    
+    const buffers: Buffer[] = [];
+    doc.on('data', (buffer: Buffer) => buffers.push(buffer));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+    
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const pageColumnWidth = 60;
+    
+    // Writes a title with its page reference right-aligned on the same line
+    const writeLine = (text: string, pageLabel: string, indent: number) => {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc.text(text, left + indent, y, { width: contentWidth - indent - pageColumnWidth });
+      const nextY = doc.y;
+      doc.text(pageLabel, left + contentWidth - pageColumnWidth, y, { width: pageColumnWidth, align: 'right' });
+      doc.x = left;
+      doc.y = Math.max(nextY, doc.y);
+    };
+    
+    doc.fontSize(14).font('Helvetica-Bold');
+    doc.text('Intralog Permit Services', { align: 'center' });
+    doc.fontSize(10).font('Helvetica');
+    doc.text('High-Piled Storage Permit Submittal', { align: 'center' });
+    doc.moveDown(2);
+    
+    doc.fontSize(12).font('Helvetica-Bold').text(`${project.name}: Table of Contents`);
+    doc.fontSize(10).font('Helvetica');
+    doc.text(`Facility: ${project.facilityAddress}`);
+    doc.text(`Jurisdiction: ${project.jurisdiction}`);
+    if (project.permitNumber) {
+      doc.text(`Permit Number: ${project.permitNumber}`);
+    }
+    doc.text(`Prepared: ${generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`);
+    doc.moveDown(1.5);
+    
+    sections.forEach((section) => {
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000');
+      writeLine(section.title, String(section.startPage), 0);
+      doc.moveDown(0.25);
+      
+      section.entries.forEach((entry) => {
+        doc.font('Helvetica').fontSize(10).fillColor('#000000');
+        const pages = entry.pageCount > 1
+          ? `${entry.startPage}-${entry.startPage + entry.pageCount - 1}`
+          : String(entry.startPage);
+        writeLine(`${entry.fileName} (v${entry.version})`, pages, 20);
+        if (entry.note) {
+          doc.fontSize(8).fillColor('#666666');
+          doc.text(entry.note, left + 20, doc.y, { width: contentWidth - 20 - pageColumnWidth });
+          doc.x = left;
+        }
+        doc.moveDown(0.25);
+      });
+      doc.moveDown(0.75);
+    });
+    
+    doc.moveDown(1);
+    doc.fontSize(8).fillColor('#888888');
+    doc.text('Page numbers refer to the page stamps in the footer of this submittal. Generated by PainlessPermit™ by Intralog', left, doc.y, {
+      width: contentWidth,
+      align: 'center'
+    });
+    
+    doc.end();
+  });
+}
+
+const commentLetterOutcomeLabels: Record<CommentLetterOutcome, string> = {
+  approved: 'Approved',
+  revisions_required: 'Revisions required',
+  not_reviewed: 'Not reviewed this round'
+};
+
+/**
+ * Generates the PDF edition of a review round's comment letter, with the same
+ * content as the Word version from docxGenerator.ts
+ *
+ * @returns The PDF bytes
+ */
+export async function generateCommentLetterPdf(letter: CommentLetter): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margins: { top: 72, bottom: 72, left: 72, right: 72 },
+      info: {
+        Title: `${letter.project.name} - Review Round ${letter.roundNumber} Comments`,
+        Author: 'Intralog Permit Services',
+        Subject: 'Plan Review Comment Letter'
+      }
+    });
+    
+    const buffers: Buffer[] = [];
+    doc.on('data', (buffer: Buffer) => buffers.push(buffer));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+    
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const indent = 20;
+    const labelled = (label: string, value: string) => {
+      doc.font('Helvetica-Bold').text(label, { continued: true });
+      doc.font('Helvetica').text(value);
+    };
+    
+    doc.fontSize(14).font('Helvetica-Bold');
+    doc.text('Intralog Permit Services', { align: 'center' });
+    doc.moveDown(1.5);
+    
+    doc.fontSize(10).font('Helvetica');
+    doc.text(new Date(letter.closedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }), { align: 'right' });
+    doc.moveDown();
+    
+    doc.fontSize(11).font('Helvetica-Bold');
+    doc.text(`Subject: Plan Review Comments - Review Round ${letter.roundNumber}`);
+    doc.moveDown();
+    
+    doc.fontSize(10);
+    labelled('Project: ', letter.project.name);
+    labelled('Client: ', letter.project.clientName);
+    labelled('Facility: ', letter.project.facilityAddress);
+    labelled('Jurisdiction: ', letter.project.jurisdiction);
+    if (letter.project.permitNumber) {
+      labelled('Permit Number: ', letter.project.permitNumber);
+    }
+    doc.moveDown();
+    
+    if (letter.summary) {
+      doc.font('Helvetica').text(letter.summary);
+      doc.moveDown();
+    }
+    
+    doc.font('Helvetica-Bold').fontSize(11).text('Review Summary');
+    doc.fontSize(10);
+    letter.sections.forEach((section, index) => {
+      doc.font('Helvetica').text(`${index + 1}. ${section.title} - ${section.fileName} (v${section.version}): `, left + indent, doc.y, {
+        width: contentWidth - indent,
+        continued: true
+      });
+      doc.font(section.outcome === 'revisions_required' ? 'Helvetica-Bold' : 'Helvetica').text(commentLetterOutcomeLabels[section.outcome]);
+    });
+    doc.x = left;
+    
+    letter.sections.forEach((section, index) => {
+      doc.moveDown();
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000');
+      doc.text(`${index + 1}. ${section.title}`, left, doc.y, { width: contentWidth });
+      doc.font('Helvetica-Oblique').fontSize(10);
+      doc.text(`${section.fileName} (version ${section.version}) - ${commentLetterOutcomeLabels[section.outcome]}`);
+      doc.moveDown(0.25);
+      
+      section.decisions.forEach((decision) => {
+        const verdict = decision.decision === 'rejected' ? 'Revisions requested' : 'Approved';
+        doc.font('Helvetica-Bold').text(`${verdict} by ${decision.reviewerName ?? 'reviewer'}`, left + indent, doc.y, {
+          width: contentWidth - indent,
+          continued: !!decision.comments
+        });
+        if (decision.comments) {
+          doc.font('Helvetica').text(`: ${decision.comments}`);
+        }
+      });
+      
+      if (section.comments.length === 0) {
+        doc.font('Helvetica-Oblique').text('No review comments.', left + indent, doc.y, { width: contentWidth - indent });
+      }
+      section.comments.forEach((comment, commentIndex) => {
+        doc.font('Helvetica-Bold').fillColor('#000000').text(`${index + 1}.${commentIndex + 1} ${comment.reference}: `, left + indent, doc.y, {
+          width: contentWidth - indent,
+          continued: true
+        });
+        doc.font('Helvetica').text(comment.text, { continued: comment.resolved });
+        if (comment.resolved) {
+          doc.font('Helvetica-Oblique').fillColor('#666666').text(' (resolved)');
+        }
+        doc.fillColor('#000000');
+      });
+      doc.x = left;
+    });
+    
+    doc.moveDown();
+    doc.font('Helvetica').fontSize(10).fillColor('#000000');
+    doc.text('Please address each comment marked above and resubmit the revised documents for the next review round.', left, doc.y, { width: contentWidth });
+    doc.moveDown();
+    doc.text('Sincerely,');
+    doc.font('Helvetica-Bold').text(letter.closedBy);
+    doc.font('Helvetica').text('Intralog Permit Services Team');
+    
+    doc.moveDown(2);
+    doc.fontSize(8).fillColor('#888888');
+    doc.text('Generated by PainlessPermit™ by Intralog', left, doc.y, { width: contentWidth, align: 'center' });
+    
+    doc.end();
+  });
+}
+
+/**
+ * Generates the PDF edition of a correction response letter, with the same
+ * content as the Word version from docxGenerator.ts
+ *
+ * @returns The PDF bytes
+ */
+export async function generateCorrectionResponsePdf(letter: CorrectionResponseLetter): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margins: { top: 72, bottom: 72, left: 72, right: 72 },
+      info: {
+        Title: `${letter.project.name} - Response to Plan Review Comments`,
+        Author: 'Intralog Permit Services',
+        Subject: `Correction Response - Submittal ${letter.submissionNumber}`
+      }
+    });
+    
+    const buffers: Buffer[] = [];
+    doc.on('data', (buffer: Buffer) => buffers.push(buffer));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+    
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const indent = 20;
+    const labelled = (label: string, value: string) => {
+      doc.font('Helvetica-Bold').text(label, { continued: true });
+      doc.font('Helvetica').text(value);
+    };
+    
+    doc.fontSize(14).font('Helvetica-Bold');
+    doc.text('Intralog Permit Services', { align: 'center' });
+    doc.moveDown(1.5);
+    
+    doc.fontSize(10).font('Helvetica');
+    doc.text(new Date(letter.preparedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }), { align: 'right' });
+    doc.moveDown();
+    
+    doc.text(letter.project.jurisdiction);
+    (letter.project.jurisdictionAddress ?? '').split('\n').filter(Boolean).forEach((addressLine) => {
+      doc.text(addressLine.trim());
+    });
+    doc.moveDown();
+    
+    doc.fontSize(11).font('Helvetica-Bold');
+    doc.text(`RE: Response to Plan Review Comments - ${letter.project.name}${letter.project.permitNumber ? ` (Permit ${letter.project.permitNumber})` : ''}`);
+    doc.fontSize(10);
+    labelled('Facility: ', letter.project.facilityAddress);
+    labelled('Submittal: ', String(letter.submissionNumber));
+    doc.moveDown();
+    
+    doc.font('Helvetica').text('Dear Plan Reviewer,');
+    doc.moveDown();
+    doc.text('Thank you for your review. Each of your comments is quoted below, followed by our response and the revised sheet where the change can be found.');
+    
+    letter.items.forEach((item) => {
+      doc.moveDown();
+      doc.font('Helvetica-Bold').fillColor('#000000').text(`Comment ${item.commentNumber}`, left, doc.y, {
+        width: contentWidth,
+        continued: !!item.reference
+      });
+      if (item.reference) {
+        doc.font('Helvetica').text(` (${item.reference})`);
+      }
+      doc.font('Helvetica-Oblique').text(`"${item.text}"`, left + indent, doc.y, { width: contentWidth - indent * 2 });
+      doc.moveDown(0.25);
+      doc.font('Helvetica-Bold').text('Response: ', left + indent, doc.y, { width: contentWidth - indent, continued: true });
+      if (item.resolved) {
+        doc.font('Helvetica').text(item.resolution ?? '');
+      } else {
+        doc.font('Helvetica-Oblique').fillColor('#B45309').text('Response pending');
+        doc.fillColor('#000000');
+      }
+      if (item.revisedSheetReference) {
+        labelled('Revised sheet: ', item.revisedSheetReference);
+      }
+      doc.x = left;
+    });
+    
+    doc.moveDown();
+    doc.font('Helvetica').fontSize(10).fillColor('#000000');
+    doc.text('Please let us know if anything further is needed to complete the review.', left, doc.y, { width: contentWidth });
+    doc.moveDown();
+    doc.text('Sincerely,');
+    doc.font('Helvetica-Bold').text(letter.preparedBy);
+    doc.font('Helvetica').text('Intralog Permit Services Team');
+    
+    doc.moveDown(2);
+    doc.fontSize(8).fillColor('#888888');
+    doc.text('Generated by PainlessPermit™ by Intralog', left, doc.y, { width: contentWidth, align: 'center' });
+    
+    doc.end();
+  });
+}
@@ -0,0 +1,86 @@
+import { createRequire } from "module";
+import path from "path";
+import { createCanvas, ImageData } from "@napi-rs/canvas";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+const require = createRequire(import.meta.url);
+
+// pdf.js needs the standard 14 fonts on disk to render PDFs that don't embed them
+const standardFontDataUrl = path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep;
+
+export interface RenderedPage {
+  width: number;
+  height: number;
+  // RGBA pixels, row by row
+  data: Uint8ClampedArray;
+}
+
+export async function loadPdf(content: Buffer): Promise<PDFDocumentProxy> {
+  return await pdfjs.getDocument({
+    // pdf.js transfers the buffer it is given, so hand it a copy
+    data: new Uint8Array(content),
+    standardFontDataUrl,
+    disableFontFace: true,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+}
+
+/**
+ * Renders a page onto a white background. The page is scaled so its longest
+ * side is `maxDimension` pixels, which keeps large-format drawings (e.g. 36x24"
+ * sheets) at a predictable memory cost.
+ */
+export async function renderPage(page: PDFPageProxy, maxDimension: number): Promise<RenderedPage> {
+  const unscaled = page.getViewport({ scale: 1 });
+  const scale = maxDimension / Math.max(unscaled.width, unscaled.height);
+  const viewport = page.getViewport({ scale });
+
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+}
+
+export async function encodePng(image: RenderedPage): Promise<Buffer> {
+  const canvas = createCanvas(image.width, image.height);
+  canvas.getContext("2d").putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return await canvas.encode("png");
+}
+
+/**
+ * Returns the page's text grouped into lines, top to bottom. pdf.js reports
+ * text as positioned runs, so runs sharing a baseline are joined.
+ */
+export async function extractPageLines(page: PDFPageProxy): Promise<string[]> {
+  const content = await page.getTextContent();
+  const lines = new Map<number, { x: number; text: string }[]>();
+
+  for (const item of content.items) {
+    if (!("str" in item) || item.str.trim() === "") continue;
+    const [, , , , x, y] = item.transform as number[];
+    // Round the baseline so runs that are off by a fraction of a point still share a line
+    const key = Math.round(y);
+    const runs = lines.get(key) ?? [];
+    runs.push({ x, text: item.str });
+    lines.set(key, runs);
+  }
+
+  return Array.from(lines.entries())
+    .sort(([a], [b]) => b - a) // PDF y coordinates grow upwards
+    .map(([, runs]) => runs
+      .sort((a, b) => a.x - b.x)
+      .map(run => run.text)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim())
+    .filter(line => line.length > 0);
+}
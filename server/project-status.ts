@@ -0,0 +1,219 @@
+import {
+  DocumentCategoryLabels,
+  DocumentStatus,
+  ProjectStatus,
+  type AuthoritySubmission,
+  type InsertAuthoritySubmission,
+  type Project,
+  type ProjectStatusType,
+  type User
+} from "@shared/schema";
+import { storage, type ProjectStatusChangeWithUser } from "./storage";
+import { NotificationService } from "./notification-service.js";
+import { getProjectRequirements } from "./submittal-rules";
+
+/**
+ * The status changes allowed without an override. A rejected permit goes back
+ * to in progress for revisions; an approved one is final.
+ */
+export const projectStatusTransitions: Record<ProjectStatusType, ProjectStatusType[]> = {
+  [ProjectStatus.NOT_STARTED]: [ProjectStatus.IN_PROGRESS],
+  [ProjectStatus.IN_PROGRESS]: [ProjectStatus.READY_FOR_SUBMISSION],
+  [ProjectStatus.READY_FOR_SUBMISSION]: [ProjectStatus.UNDER_REVIEW, ProjectStatus.IN_PROGRESS],
+  [ProjectStatus.UNDER_REVIEW]: [ProjectStatus.APPROVED, ProjectStatus.REJECTED],
+  [ProjectStatus.REJECTED]: [ProjectStatus.IN_PROGRESS],
+  [ProjectStatus.APPROVED]: [],
+};
+
+export class ProjectStatusError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface StatusTransitionOption {
+  status: ProjectStatusType;
+  // Empty when the transition is allowed; otherwise why it isn't yet
+  blockers: string[];
+}
+
+export interface ProjectStatusOverview {
+  status: string;
+  transitions: StatusTransitionOption[];
+  submissions: AuthoritySubmission[];
+  history: ProjectStatusChangeWithUser[];
+}
+
+function isProjectStatus(status: string): status is ProjectStatusType {
+  return (Object.values(ProjectStatus) as string[]).includes(status);
+}
+
+// Every category the submittal rules require needs an approved document
+async function readinessBlockers(project: Project): Promise<string[]> {
+  const [documents, requirements] = await Promise.all([
+    storage.getDocumentsByProject(project.id),
+    getProjectRequirements(project.id),
+  ]);
+  const approved = new Set(documents
+    .filter(document => document.status === DocumentStatus.APPROVED)
+    .map(document => document.category));
+  const missing = requirements.required.filter(category => !approved.has(category));
+  if (missing.length === 0) return [];
+
+  const labels = missing.map(category => (DocumentCategoryLabels as Record<string, string>)[category] ?? category);
+  return [`No approved document for: ${labels.join(", ")}`];
+}
+
+// A resubmittal needs its own record, so only count submissions made since the
+// project last became ready for submission
+function submissionBlockers(
+  submissions: AuthoritySubmission[],
+  history: ProjectStatusChangeWithUser[]
+): string[] {
+  const latest = submissions[0];
+  if (!latest) {
+    return ["Record the submission to the authority first"];
+  }
+  const readySince = history.find(change => change.toStatus === ProjectStatus.READY_FOR_SUBMISSION)?.changedAt;
+  if (readySince && latest.recordedAt && latest.recordedAt < readySince) {
+    return ["Record the resubmittal to the authority first"];
+  }
+  return [];
+}
+
+async function guardBlockers(
+  project: Project,
+  toStatus: ProjectStatusType,
+  submissions: AuthoritySubmission[],
+  history: ProjectStatusChangeWithUser[]
+): Promise<string[]> {
+  switch (toStatus) {
+    case ProjectStatus.READY_FOR_SUBMISSION:
+      return await readinessBlockers(project);
+    case ProjectStatus.UNDER_REVIEW:
+      return submissionBlockers(submissions, history);
+    default:
+      return [];
+  }
+}
+
+/**
+ * The project's current status with each next status it can move to, whether
+ * the guards currently allow it, and the audit trail so far.
+ */
+export async function getProjectStatusOverview(project: Project): Promise<ProjectStatusOverview> {
+  const [submissions, history] = await Promise.all([
+    storage.getAuthoritySubmissions(project.id),
+    storage.getProjectStatusChanges(project.id),
+  ]);
+  const next = isProjectStatus(project.status) ? projectStatusTransitions[project.status] : [];
+
+  const transitions = await Promise.all(next.map(async status => ({
+    status,
+    blockers: await guardBlockers(project, status, submissions, history),
+  })));
+
+  return { status: project.status, transitions, submissions, history };
+}
+
+/**
+ * Moves a project to a new status. Normal changes must follow
+ * projectStatusTransitions and pass its guards; an override skips both but
+ * needs a reason, which is kept in the audit trail and the activity log.
+ */
+export async function transitionProjectStatus(
+  project: Project,
+  toStatus: string,
+  changedBy: User,
+  options: { override?: boolean; reason?: string | null } = {}
+): Promise<Project> {
+  if (!isProjectStatus(toStatus)) {
+    throw new ProjectStatusError(400, `Unknown project status: ${toStatus}`);
+  }
+  if (toStatus === project.status) {
+    throw new ProjectStatusError(409, "The project already has this status");
+  }
+  const reason = options.reason?.trim() || null;
+
+  if (options.override) {
+    if (!reason) {
+      throw new ProjectStatusError(400, "A reason is required to override the status rules");
+    }
+  } else {
+    const allowed = isProjectStatus(project.status) ? projectStatusTransitions[project.status] : [];
+    if (!allowed.includes(toStatus)) {
+      throw new ProjectStatusError(409, `A project can't move from ${project.status} to ${toStatus}`);
+    }
+    const [submissions, history] = await Promise.all([
+      storage.getAuthoritySubmissions(project.id),
+      storage.getProjectStatusChanges(project.id),
+    ]);
+    const blockers = await guardBlockers(project, toStatus, submissions, history);
+    if (blockers.length > 0) {
+      throw new ProjectStatusError(409, blockers.join(". "));
+    }
+  }
+
+  const updated = await storage.changeProjectStatus({
+    projectId: project.id,
+    fromStatus: project.status,
+    toStatus,
+    override: !!options.override,
+    reason,
+    changedById: changedBy.id,
+  });
+  if (!updated) {
+    throw new ProjectStatusError(409, "The project status was changed by someone else; reload and try again");
+  }
+
+  await storage.createActivityLog({
+    projectId: project.id,
+    userId: changedBy.id,
+    activityType: options.override ? "project_status_override" : "project_status_changed",
+    description: options.override
+      ? `Project status was overridden from ${project.status} to ${toStatus}: ${reason}`
+      : `Project status changed from ${project.status} to ${toStatus}`,
+  });
+
+  try {
+    await NotificationService.notifyProjectStatusChange(
+      project.id,
+      project.status,
+      toStatus,
+      changedBy.fullName || changedBy.username
+    );
+  } catch (notificationError) {
+    console.error('Error sending status change notifications:', notificationError);
+  }
+
+  return updated;
+}
+
+/**
+ * Records that the package was sent to the authority. A project that is ready
+ * for submission moves to under review straight away.
+ */
+export async function recordAuthoritySubmission(
+  project: Project,
+  submission: Omit<InsertAuthoritySubmission, "projectId" | "recordedById">,
+  recordedBy: User
+): Promise<{ submission: AuthoritySubmission; project: Project }> {
+  const created = await storage.createAuthoritySubmission({
+    ...submission,
+    projectId: project.id,
+    recordedById: recordedBy.id,
+  });
+
+  await storage.createActivityLog({
+    projectId: project.id,
+    userId: recordedBy.id,
+    activityType: "authority_submission_recorded",
+    description: `Submittal ${created.submissionNumber} was sent to ${project.jurisdiction}${created.referenceNumber ? ` (ref. ${created.referenceNumber})` : ""}`,
+  });
+
+  if (project.status !== ProjectStatus.READY_FOR_SUBMISSION) {
+    return { submission: created, project };
+  }
+  const updated = await transitionProjectStatus(project, ProjectStatus.UNDER_REVIEW, recordedBy);
+  return { submission: created, project: updated };
+}
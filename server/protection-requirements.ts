@@ -0,0 +1,255 @@
+import {
+  ProtectionFeature,
+  SprinklerSystem,
+  protectionFeatureLabels,
+  type ProjectProtectionRequirements,
+  type ProtectionFeatureRequirement,
+  type ProtectionFeatureType,
+  type ProtectionRequirements,
+  type ProtectionRequirementsInput,
+  type StorageAreaProtection
+} from "@shared/protection-requirements";
+import {
+  EXTRA_HIGH_HEIGHT,
+  EXTRA_HIGH_HEIGHT_HIGH_HAZARD,
+  HIGH_PILED_HEIGHT,
+  HIGH_PILED_HEIGHT_HIGH_HAZARD,
+  SMALL_STORAGE_AREA,
+  formatFeet,
+  isHighHazard
+} from "./submittal-rules";
+import { storage } from "./storage";
+
+// Area bands of IFC Table 3206.2. Class I-IV storage needs detection from 501 sq ft
+// and has two options from 2,501; high-hazard storage has them from 501 and stops at 500,000
+const DETECTION_AREA = 2500;
+const OPTIONS_AREA = 12000;
+const HIGH_HAZARD_OPTIONS_AREA = 2500;
+const HIGH_HAZARD_SPECIAL_PROTECTION_AREA = 300000;
+const SPECIAL_PROTECTION_AREA = 500000;
+
+const citations: Record<ProtectionFeatureType, string> = {
+  [ProtectionFeature.SPRINKLERS]: "IFC Table 3206.2; IFC 903.3.1.1 (NFPA 13)",
+  [ProtectionFeature.FIRE_DETECTION]: "IFC Table 3206.2; IFC 907",
+  [ProtectionFeature.BUILDING_ACCESS]: "IFC Table 3206.2",
+  [ProtectionFeature.SMOKE_HEAT_REMOVAL]: "IFC Table 3206.2; IFC 910",
+  [ProtectionFeature.DRAFT_CURTAINS]: "IFC Table 3206.2",
+};
+
+// Review checklist items that verify each feature on the Fire Protection and Facility Plan documents
+const checklistItemsByFeature: Record<ProtectionFeatureType, string[]> = {
+  [ProtectionFeature.SPRINKLERS]: ["fire_system", "fire_density", "fire_head", "facility_water"],
+  [ProtectionFeature.FIRE_DETECTION]: ["fire_detection"],
+  [ProtectionFeature.BUILDING_ACCESS]: ["facility_doors", "fire_hose"],
+  [ProtectionFeature.SMOKE_HEAT_REMOVAL]: ["fire_smoke", "facility_smoke"],
+  [ProtectionFeature.DRAFT_CURTAINS]: ["fire_smoke", "facility_smoke"],
+};
+
+interface TableRow {
+  label: string;
+  required: ProtectionFeatureType[];
+}
+
+function formatArea(area: number): string {
+  return `${area.toLocaleString()} sq ft`;
+}
+
+// Below the sprinklered band the table offers sprinklers alone (Option 1), or
+// detection, access and smoke removal without them (Option 2); storage open to
+// the public has no choice
+function optionRow(band: string, input: ProtectionRequirementsInput, option2: ProtectionFeatureType[]): TableRow {
+  if (input.openToPublic) {
+    return { label: `${band}, open to the public`, required: [ProtectionFeature.SPRINKLERS] };
+  }
+  return input.sprinklerSystem !== SprinklerSystem.NONE
+    ? { label: `${band}, not open to the public (Option 1)`, required: [ProtectionFeature.SPRINKLERS] }
+    : { label: `${band}, not open to the public (Option 2)`, required: option2 };
+}
+
+function tableRow(input: ProtectionRequirementsInput, highHazard: boolean): TableRow {
+  const area = input.storageArea;
+  const { SPRINKLERS, FIRE_DETECTION, BUILDING_ACCESS, SMOKE_HEAT_REMOVAL, DRAFT_CURTAINS } = ProtectionFeature;
+
+  if (area <= SMALL_STORAGE_AREA) {
+    return { label: `0-${SMALL_STORAGE_AREA} sq ft`, required: [] };
+  }
+  if (highHazard) {
+    if (area <= HIGH_HAZARD_OPTIONS_AREA) {
+      return optionRow("501-2,500 sq ft", input, [FIRE_DETECTION, BUILDING_ACCESS, SMOKE_HEAT_REMOVAL, DRAFT_CURTAINS]);
+    }
+    const protectedRow = [SPRINKLERS, BUILDING_ACCESS, SMOKE_HEAT_REMOVAL, DRAFT_CURTAINS];
+    if (area <= HIGH_HAZARD_SPECIAL_PROTECTION_AREA) {
+      return { label: "2,501-300,000 sq ft", required: protectedRow };
+    }
+    return area <= SPECIAL_PROTECTION_AREA
+      ? { label: "300,001-500,000 sq ft", required: protectedRow }
+      : { label: "Over 500,000 sq ft", required: protectedRow };
+  }
+
+  if (area <= DETECTION_AREA) {
+    return { label: "501-2,500 sq ft", required: [FIRE_DETECTION] };
+  }
+  if (area <= OPTIONS_AREA) {
+    return optionRow("2,501-12,000 sq ft", input, [FIRE_DETECTION, BUILDING_ACCESS, SMOKE_HEAT_REMOVAL]);
+  }
+  const protectedRow = [SPRINKLERS, BUILDING_ACCESS, SMOKE_HEAT_REMOVAL];
+  return area <= SPECIAL_PROTECTION_AREA
+    ? { label: "12,001-500,000 sq ft", required: protectedRow }
+    : { label: "Over 500,000 sq ft", required: protectedRow };
+}
+
+/**
+ * Looks up the fire protection and life safety features IFC Table 3206.2
+ * requires for a high-piled storage area, with the citation and reason for
+ * each. Storage no taller than the high-piled threshold needs none of them.
+ */
+export function calculateProtectionRequirements(input: ProtectionRequirementsInput): ProtectionRequirements {
+  const highHazard = isHighHazard(input.classification);
+  const commodityNote = highHazard ? "high-hazard storage" : "Class I-IV storage";
+  const threshold = highHazard ? HIGH_PILED_HEIGHT_HIGH_HAZARD : HIGH_PILED_HEIGHT;
+  const features = Object.values(ProtectionFeature);
+  const warnings: string[] = [];
+
+  if (input.topOfStorageHeight <= threshold) {
+    return {
+      input,
+      highPiled: false,
+      highHazard,
+      tableRow: null,
+      features: features.map(id => ({
+        id,
+        label: protectionFeatureLabels[id],
+        required: false,
+        citation: "IFC 202",
+        reason: `Top of storage ${formatFeet(input.topOfStorageHeight)} is not high-piled ${commodityNote} (over ${threshold} ft)`,
+      })),
+      warnings,
+    };
+  }
+
+  const row = tableRow(input, highHazard);
+  const esfr = input.sprinklerSystem === SprinklerSystem.ESFR;
+  const rowNote = `${row.label} of ${commodityNote}`;
+
+  const result: ProtectionFeatureRequirement[] = features.map(id => {
+    const inRow = row.required.includes(id);
+    const waivedByEsfr = inRow && esfr && (id === ProtectionFeature.SMOKE_HEAT_REMOVAL || id === ProtectionFeature.DRAFT_CURTAINS);
+    return {
+      id,
+      label: protectionFeatureLabels[id],
+      required: inRow && !waivedByEsfr,
+      citation: citations[id],
+      reason: waivedByEsfr
+        ? `Waived where protected by ESFR sprinklers: ${rowNote}`
+        : `${inRow ? "Required" : "Not required"}: ${rowNote}`,
+    };
+  });
+
+  if (row.required.includes(ProtectionFeature.SPRINKLERS) && input.sprinklerSystem === SprinklerSystem.NONE) {
+    warnings.push("Automatic sprinklers are required, but the storage area is entered as not sprinklered");
+  }
+  if (row.label.endsWith("(Option 2)")) {
+    warnings.push("Sprinklering the storage area (Option 1) would take the place of the other Option 2 features");
+  }
+  if (input.storageArea > (highHazard ? HIGH_HAZARD_SPECIAL_PROTECTION_AREA : SPECIAL_PROTECTION_AREA)) {
+    warnings.push(`${formatArea(input.storageArea)} of ${commodityNote}: the fire code official may require special fire protection, such as protecting exposed steel columns, in-rack sprinklers or extra hose connections`);
+  }
+  if (highHazard && input.storageArea > SPECIAL_PROTECTION_AREA) {
+    warnings.push(`High-hazard high-piled storage can't exceed ${formatArea(SPECIAL_PROTECTION_AREA)}; divide it with 2-hour fire walls`);
+  }
+  if (input.topOfStorageHeight > (highHazard ? EXTRA_HIGH_HEIGHT_HIGH_HAZARD : EXTRA_HIGH_HEIGHT)) {
+    warnings.push(`Top of storage ${formatFeet(input.topOfStorageHeight)} is extra-high storage: the sprinkler design has to be specially engineered`);
+  }
+
+  return { input, highPiled: true, highHazard, tableRow: row.label, features: result, warnings };
+}
+
+/**
+ * The protection requirements for a project: one result per storage array or,
+ * for a project without arrays, one from its commodity data. Until the
+ * commodity data has the storage facts the table needs there is no result,
+ * only the list of what's missing.
+ */
+export async function getProjectProtectionRequirements(projectId: number): Promise<ProjectProtectionRequirements> {
+  const [arrays, commodity] = await Promise.all([
+    storage.getStorageArraysByProject(projectId),
+    storage.getProjectCommodity(projectId),
+  ]);
+  // Whether the public can walk in is a fact about the building, so arrays take it from the commodities form
+  const openToPublic = commodity?.openToPublic ?? false;
+
+  if (arrays.length > 0) {
+    return {
+      commodityId: commodity?.id ?? null,
+      missing: [],
+      areas: arrays.map(array => ({
+        storageArrayId: array.id,
+        name: array.name,
+        requirements: calculateProtectionRequirements({
+          classification: array.classification,
+          storageArea: array.storageArea,
+          topOfStorageHeight: array.topOfStorageHeight,
+          sprinklerSystem: array.sprinklerSystem as ProtectionRequirementsInput["sprinklerSystem"],
+          openToPublic,
+        }),
+      })),
+    };
+  }
+
+  if (!commodity) {
+    return { commodityId: null, missing: ["Commodity classification"], areas: [] };
+  }
+
+  const missing: string[] = [];
+  if (commodity.storageArea === null) missing.push("Storage area");
+  if (commodity.topOfStorageHeight === null) missing.push("Top of storage height");
+  if (commodity.sprinklerSystem === null) missing.push("Sprinkler system");
+  if (missing.length > 0) {
+    return { commodityId: commodity.id, missing, areas: [] };
+  }
+
+  return {
+    commodityId: commodity.id,
+    missing,
+    areas: [{
+      storageArrayId: null,
+      name: "Commodities",
+      requirements: calculateProtectionRequirements({
+        classification: commodity.classification,
+        storageArea: commodity.storageArea!,
+        topOfStorageHeight: commodity.topOfStorageHeight!,
+        sprinklerSystem: commodity.sprinklerSystem as ProtectionRequirementsInput["sprinklerSystem"],
+        openToPublic: commodity.openToPublic,
+      }),
+    }],
+  };
+}
+
+export interface ChecklistExpectation {
+  required: boolean;
+  // What the calculator expects the reviewer to find, e.g. "Draft curtains: Required: 2,501-300,000 sq ft of ..."
+  expectation: string;
+}
+
+/**
+ * What the protection requirements expect of each review checklist item they
+ * cover, keyed by item id. An item is expected when any feature it verifies
+ * is required in any storage area; with several areas each line is prefixed
+ * with the area's name.
+ */
+export function getChecklistExpectations(areas: StorageAreaProtection[]): Record<string, ChecklistExpectation> {
+  const expectations: Record<string, ChecklistExpectation> = {};
+  for (const area of areas) {
+    const prefix = areas.length > 1 ? `${area.name} - ` : "";
+    for (const feature of area.requirements.features) {
+      for (const itemId of checklistItemsByFeature[feature.id]) {
+        const line = `${prefix}${feature.label}: ${feature.reason} (${feature.citation})`;
+        const existing = expectations[itemId];
+        expectations[itemId] = existing
+          ? { required: existing.required || feature.required, expectation: `${existing.expectation}; ${line}` }
+          : { required: feature.required, expectation: line };
+      }
+    }
+  }
+  return expectations;
+}
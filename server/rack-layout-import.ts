@@ -0,0 +1,842 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  RackLayoutFormat,
+  type ImportedStorageArray,
+  type RackLayoutFormatType,
+  type RackLayoutPreview,
+  type UnmappedEntity
+} from "@shared/rack-layout-import";
+import { RackType, rackTypeLabels, type RackFootprint, type RackTypeValue } from "@shared/storage-arrays";
+import { storage } from "./storage";
+import type { ReceivedFile } from "./uploads";
+
+export class RackLayoutImportError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Layouts are parsed in memory, so they are held to far less than document uploads;
+// the upload is cut off at this size while it streams in (see receiveMultipartUpload)
+export const MAX_LAYOUT_BYTES = 25 * 1024 * 1024;
+
+// Gaps between racks narrower than this are flue spaces; wider ones are aisles
+const FLUE_SPACE_MAX_INCHES = 24;
+
+// Racks further apart than this face open floor rather than an aisle
+const AISLE_MAX_INCHES = 1200;
+
+// Racks closer than this are drawn touching, with no flue space between them
+const TOUCHING_FEET = 0.01;
+
+// Measuring gaps compares every pair of racks in an array, so very large arrays are left unmeasured
+const MAX_RACKS_MEASURED = 2000;
+
+const DEFAULT_ARRAY_NAME = "Imported racks";
+
+const rackTypeKeywords: Array<[RegExp, RackTypeValue]> = [
+  [/double[\s_-]*deep/i, RackType.DOUBLE_DEEP],
+  [/drive[\s_-]*(in|thr)/i, RackType.DRIVE_IN],
+  [/push[\s_-]*back/i, RackType.PUSH_BACK],
+  [/flow/i, RackType.PALLET_FLOW],
+  [/cantilever/i, RackType.CANTILEVER],
+  [/mobile/i, RackType.MOBILE],
+  [/shelv/i, RackType.SHELVING],
+  [/solid|pile|bulk|floor|block[\s_-]*stack/i, RackType.SOLID_PILE],
+  [/selective|pallet|rack/i, RackType.SELECTIVE],
+];
+
+function matchRackType(text: string): RackTypeValue | undefined {
+  return rackTypeKeywords.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+type LengthUnit = "in" | "ft" | "mm" | "cm" | "m";
+
+const inchesPer: Record<LengthUnit, number> = { in: 1, ft: 12, mm: 1 / 25.4, cm: 1 / 2.54, m: 1 / 0.0254 };
+
+/**
+ * Reads a length as inches: feet-and-inches such as 8'-6", a number with a
+ * unit such as 102 in or 2.4 m, or a bare number in `unit`. Blank is null;
+ * anything unreadable is NaN.
+ */
+function parseLength(raw: string, unit: LengthUnit): number | null {
+  const value = raw.trim().toLowerCase().replace(/,/g, "");
+  if (!value) return null;
+
+  const feetAndInches = value.match(/^(\d+(?:\.\d+)?)\s*'\s*-?\s*(?:(\d+(?:\.\d+)?)\s*"?)?$/);
+  if (feetAndInches) {
+    return Number(feetAndInches[1]) * 12 + Number(feetAndInches[2] ?? 0);
+  }
+  const withUnit = value.match(/^(\d+(?:\.\d+)?)\s*("|in|inch|inches|ft|feet|mm|cm|m)?\.?$/);
+  if (!withUnit) return NaN;
+  const suffix = withUnit[2];
+  const valueUnit: LengthUnit = !suffix ? unit
+    : suffix === '"' || suffix.startsWith("inch") ? "in"
+    : suffix === "feet" ? "ft"
+    : suffix as LengthUnit;
+  return Number(withUnit[1]) * inchesPer[valueUnit];
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// "rows 2-5, 8" from [2, 3, 4, 5, 8]
+function formatRows(rows: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    let end = i;
+    while (end + 1 < rows.length && rows[end + 1] === rows[end] + 1) end++;
+    ranges.push(end > i ? `${rows[i]}-${rows[end]}` : String(rows[i]));
+    i = end;
+  }
+  return `${rows.length === 1 ? "row" : "rows"} ${ranges.join(", ")}`;
+}
+
+// Merges the worst case of two values: the lowest for clearances, the highest for heights
+function lowest(a: number | null, b: number | null): number | null {
+  return a === null ? b : b === null ? a : Math.min(a, b);
+}
+
+function highest(a: number | null, b: number | null): number | null {
+  return a === null ? b : b === null ? a : Math.max(a, b);
+}
+
+// CSV rack schedules
+
+type CsvColumn =
+  | "array" | "rackType" | "quantity" | "length" | "depth" | "area" | "rackHeight"
+  | "topOfStorageHeight" | "aisleWidth" | "longitudinalFlueSpace" | "transverseFlueSpace" | "tiers";
+
+// Header names each column is recognised by, tried in order; units in brackets are read separately
+const csvColumnPatterns: Array<[CsvColumn, RegExp]> = [
+  ["aisleWidth", /aisle/],
+  ["longitudinalFlueSpace", /longitudinal|^long\.? flue/],
+  ["transverseFlueSpace", /transverse|^trans\.? flue/],
+  ["topOfStorageHeight", /top of storage|storage height|^tos$/],
+  ["rackHeight", /^(rack |upright |frame |overall )?height$/],
+  ["tiers", /^(tiers|levels|beam levels|shelf levels|storage levels)$/],
+  ["quantity", /^(qty|quantity|count|bays|number of bays|no\.? of bays|runs)$/],
+  ["area", /^(storage |footprint )?area$|^footprint$/],
+  ["depth", /^(rack |frame |row )?depth$/],
+  ["length", /^(bay |run |beam |rack )?(length|width)$/],
+  ["rackType", /^(rack |storage )?type$|^system$/],
+  ["array", /^(storage )?array( name)?$|^(zone|name|location|area name)$/],
+];
+
+const csvColumnLabels: Record<CsvColumn, string> = {
+  array: "array",
+  rackType: "rack type",
+  quantity: "quantity",
+  length: "length",
+  depth: "depth",
+  area: "area",
+  rackHeight: "rack height",
+  topOfStorageHeight: "top of storage",
+  aisleWidth: "aisle width",
+  longitudinalFlueSpace: "longitudinal flue",
+  transverseFlueSpace: "transverse flue",
+  tiers: "tiers",
+};
+
+// Column units when the header doesn't give one: lengths in feet, clearances in inches
+const csvDefaultUnits: Partial<Record<CsvColumn, LengthUnit>> = {
+  length: "ft",
+  depth: "ft",
+  rackHeight: "ft",
+  topOfStorageHeight: "ft",
+  aisleWidth: "in",
+  longitudinalFlueSpace: "in",
+  transverseFlueSpace: "in",
+};
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks. A quote
+// inside an unquoted field is kept as is, since schedules write inches as 9'-6"
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+interface CsvHeader {
+  column: CsvColumn;
+  unit: LengthUnit | "sqft" | "sqm" | null;
+}
+
+function readCsvHeader(title: string): CsvHeader | undefined {
+  const bracket = title.match(/[(\[]([^)\]]*)[)\]]/);
+  const name = title.replace(/[(\[][^)\]]*[)\]]/g, "").trim().toLowerCase().replace(/[\s_]+/g, " ");
+  const column = csvColumnPatterns.find(([, pattern]) => pattern.test(name))?.[0];
+  if (!column) return undefined;
+
+  const unitText = bracket?.[1].trim().toLowerCase().replace(/\./g, "") ?? "";
+  const unit = /^(sq ?ft|ft2|ft²|sf)$/.test(unitText) ? "sqft"
+    : /^(sq ?m|m2|m²)$/.test(unitText) ? "sqm"
+    : /^(in|inch|inches|")$/.test(unitText) ? "in"
+    : /^(ft|feet|')$/.test(unitText) ? "ft"
+    : /^(mm|cm|m)$/.test(unitText) ? unitText as LengthUnit
+    : null;
+  return { column, unit };
+}
+
+interface CsvRackRow {
+  row: number;
+  arrayName: string;
+  rackType: RackTypeValue;
+  rackCount: number;
+  storageArea: number;
+  rackHeight: number | null;
+  topOfStorageHeight: number | null;
+  aisleWidth: number | null;
+  longitudinalFlueSpace: number | null;
+  transverseFlueSpace: number | null;
+  tiers: number | null;
+}
+
+/**
+ * Reads a rack schedule with one row per rack run or bay type. Rows are
+ * grouped into arrays by their array column; each row's area is its length
+ * times depth times quantity, or its area column.
+ */
+function parseRackSchedule(text: string, fileName: string): Omit<RackLayoutPreview, "totalStorageArea"> {
+  const rows = parseCsv(text.replace(/^﻿/, "")).filter(row => row.some(cell => cell.trim()));
+  if (rows.length === 0) {
+    throw new RackLayoutImportError(400, "The rack schedule is empty");
+  }
+
+  const unmapped: UnmappedEntity[] = [];
+  const warnings: string[] = [];
+  const headers = new Map<number, CsvHeader>();
+  rows[0].forEach((title, index) => {
+    const header = readCsvHeader(title);
+    if (!header) {
+      if (title.trim()) unmapped.push({ source: `CSV column "${title.trim()}"`, reason: "Not a recognised rack schedule column" });
+      return;
+    }
+    if (Array.from(headers.values()).some(existing => existing.column === header.column)) {
+      unmapped.push({ source: `CSV column "${title.trim()}"`, reason: "Another column already gives this value" });
+      return;
+    }
+    headers.set(index, header);
+  });
+
+  const columns = new Set(Array.from(headers.values()).map(header => header.column));
+  if (!columns.has("area") && !(columns.has("length") && columns.has("depth"))) {
+    throw new RackLayoutImportError(400, "The rack schedule needs length and depth columns, or an area column, to work out the storage area");
+  }
+
+  const rackRows: CsvRackRow[] = [];
+  rows.slice(1).forEach((cells, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const values: Partial<Record<CsvColumn, string>> = {};
+    const units: Partial<Record<CsvColumn, CsvHeader["unit"]>> = {};
+    headers.forEach((header, index) => {
+      values[header.column] = cells[index]?.trim() ?? "";
+      units[header.column] = header.unit;
+    });
+
+    const inches = (column: CsvColumn): number | null => {
+      const unit = units[column];
+      return parseLength(values[column] ?? "", unit && unit !== "sqft" && unit !== "sqm" ? unit : csvDefaultUnits[column] ?? "ft");
+    };
+    const feet = (column: CsvColumn) => {
+      const value = inches(column);
+      return value === null ? null : value / 12;
+    };
+
+    const quantity = values.quantity ? Number(values.quantity.replace(/,/g, "")) : 1;
+    const length = feet("length");
+    const depth = feet("depth");
+    const areaValue = values.area ? Number(values.area.replace(/,/g, "")) : null;
+    const tiers = values.tiers ? Number(values.tiers) : null;
+    const measurements = {
+      rackHeight: feet("rackHeight"),
+      topOfStorageHeight: feet("topOfStorageHeight"),
+      aisleWidth: inches("aisleWidth"),
+      longitudinalFlueSpace: inches("longitudinalFlueSpace"),
+      transverseFlueSpace: inches("transverseFlueSpace"),
+    };
+
+    const numbers: Partial<Record<CsvColumn, number | null>> = { ...measurements, length, depth, area: areaValue, quantity, tiers };
+    const invalid = (Object.keys(numbers) as CsvColumn[]).filter(column => {
+      const number = numbers[column];
+      return number !== null && number !== undefined && (Number.isNaN(number) || number < 0
+        || ((column === "quantity" || column === "tiers") && !Number.isInteger(number)));
+    });
+    if (invalid.length > 0) {
+      unmapped.push({ source: `CSV row ${rowNumber}`, reason: `Unreadable ${invalid.map(column => csvColumnLabels[column]).join(", ")}` });
+      return;
+    }
+
+    let storageArea: number;
+    if (length !== null && depth !== null) {
+      storageArea = length * depth * quantity;
+    } else if (areaValue !== null) {
+      storageArea = units.area === "sqm" ? areaValue * 10.7639 : areaValue;
+    } else {
+      unmapped.push({ source: `CSV row ${rowNumber}`, reason: "No length and depth, or area, to work out the storage area" });
+      return;
+    }
+    if (storageArea <= 0) {
+      unmapped.push({ source: `CSV row ${rowNumber}`, reason: "The row has no storage area" });
+      return;
+    }
+
+    const typeText = values.rackType ?? "";
+    let rackType = typeText ? matchRackType(typeText) : RackType.SELECTIVE;
+    if (!rackType) {
+      warnings.push(`CSV row ${rowNumber}: rack type "${typeText}" wasn't recognised, so it was read as ${rackTypeLabels[RackType.SELECTIVE].toLowerCase()}`);
+      rackType = RackType.SELECTIVE;
+    }
+
+    rackRows.push({
+      row: rowNumber,
+      arrayName: values.array || DEFAULT_ARRAY_NAME,
+      rackType,
+      rackCount: quantity,
+      storageArea,
+      ...measurements,
+      tiers,
+    });
+  });
+
+  // Rows of an array are merged into its worst case
+  const arrays = new Map<string, { rows: CsvRackRow[] }>();
+  for (const rackRow of rackRows) {
+    const key = rackRow.arrayName.toLowerCase();
+    const group = arrays.get(key) ?? { rows: [] };
+    group.rows.push(rackRow);
+    arrays.set(key, group);
+  }
+
+  const imported = Array.from(arrays.values()).map(({ rows: group }): ImportedStorageArray => {
+    const [first] = group;
+    if (group.some(rackRow => rackRow.rackType !== first.rackType)) {
+      warnings.push(`${first.arrayName}: the rows list more than one rack type, so it was read as ${rackTypeLabels[first.rackType].toLowerCase()}; split the array if they need assessing apart`);
+    }
+    const merged = group.reduce((total, rackRow) => ({
+      storageArea: total.storageArea + rackRow.storageArea,
+      rackCount: total.rackCount + rackRow.rackCount,
+      rackHeight: highest(total.rackHeight, rackRow.rackHeight),
+      topOfStorageHeight: highest(total.topOfStorageHeight, rackRow.topOfStorageHeight),
+      aisleWidth: lowest(total.aisleWidth, rackRow.aisleWidth),
+      longitudinalFlueSpace: lowest(total.longitudinalFlueSpace, rackRow.longitudinalFlueSpace),
+      transverseFlueSpace: lowest(total.transverseFlueSpace, rackRow.transverseFlueSpace),
+      tiers: highest(total.tiers, rackRow.tiers),
+    }), {
+      storageArea: 0,
+      rackCount: 0,
+      rackHeight: null as number | null,
+      topOfStorageHeight: null as number | null,
+      aisleWidth: null as number | null,
+      longitudinalFlueSpace: null as number | null,
+      transverseFlueSpace: null as number | null,
+      tiers: null as number | null,
+    });
+
+    return {
+      name: first.arrayName,
+      rackType: first.rackType,
+      ...merged,
+      footprints: null,
+      source: `CSV ${formatRows(group.map(rackRow => rackRow.row))}`,
+    };
+  });
+
+  return { format: RackLayoutFormat.CSV, fileName, arrays: imported, unmapped, warnings };
+}
+
+// DXF drawings
+
+interface DxfEntity {
+  type: string;
+  pairs: Array<[number, string]>;
+  // ATTRIBs of an INSERT, or VERTEXes of an old-style POLYLINE
+  children: DxfEntity[];
+}
+
+interface DxfBlock {
+  base: [number, number];
+  entities: DxfEntity[];
+}
+
+type Point = [number, number];
+
+// $INSUNITS codes to inches; 0 (unitless) is read as inches, as most US racking drawings are
+const dxfUnitInches: Record<number, number> = { 0: 1, 1: 1, 2: 12, 4: 1 / 25.4, 5: 1 / 2.54, 6: 1 / 0.0254 };
+
+// Layers and blocks with these in their name hold racks; everything else is building linework
+const RACK_NAME_PATTERN = /rack|shelv|storage|pallet|array|bay|flow|cantilever/i;
+
+function value(entity: DxfEntity, code: number): string | undefined {
+  return entity.pairs.find(([pairCode]) => pairCode === code)?.[1];
+}
+
+function numberValue(entity: DxfEntity, code: number, fallback: number): number {
+  const raw = value(entity, code);
+  const parsed = raw === undefined ? NaN : Number(raw);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function readDxfPairs(text: string): Array<[number, string]> {
+  const lines = text.split(/\r?\n/);
+  const pairs: Array<[number, string]> = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i].trim());
+    if (!Number.isInteger(code)) {
+      throw new RackLayoutImportError(400, `The DXF file is malformed near line ${i + 1}`);
+    }
+    pairs.push([code, lines[i + 1].trim()]);
+  }
+  return pairs;
+}
+
+// Splits a section's pairs into entities and folds VERTEX and ATTRIB runs into their parent
+function readEntities(pairs: Array<[number, string]>): DxfEntity[] {
+  const flat: DxfEntity[] = [];
+  for (const pair of pairs) {
+    if (pair[0] === 0) {
+      flat.push({ type: pair[1], pairs: [], children: [] });
+    } else if (flat.length > 0) {
+      flat[flat.length - 1].pairs.push(pair);
+    }
+  }
+
+  const entities: DxfEntity[] = [];
+  let parent: DxfEntity | null = null;
+  for (const entity of flat) {
+    if (parent && (entity.type === "VERTEX" || entity.type === "ATTRIB")) {
+      parent.children.push(entity);
+      continue;
+    }
+    parent = null;
+    if (entity.type === "SEQEND") continue;
+    if (entity.type === "POLYLINE" || (entity.type === "INSERT" && value(entity, 66) === "1")) {
+      parent = entity;
+    }
+    entities.push(entity);
+  }
+  return entities;
+}
+
+interface DxfDrawing {
+  unitInches: number | null;
+  blocks: Map<string, DxfBlock>;
+  entities: DxfEntity[];
+}
+
+function readDxf(text: string): DxfDrawing {
+  const pairs = readDxfPairs(text);
+  const drawing: DxfDrawing = { unitInches: null, blocks: new Map(), entities: [] };
+
+  let i = 0;
+  while (i < pairs.length) {
+    if (pairs[i][0] !== 0 || pairs[i][1] !== "SECTION") {
+      i++;
+      continue;
+    }
+    const name = pairs[i + 1]?.[1];
+    const start = i + 2;
+    let end = start;
+    while (end < pairs.length && !(pairs[end][0] === 0 && pairs[end][1] === "ENDSEC")) end++;
+    const section = pairs.slice(start, end);
+
+    if (name === "HEADER") {
+      const unitsAt = section.findIndex(([code, text]) => code === 9 && text === "$INSUNITS");
+      if (unitsAt >= 0) {
+        const code = Number(section[unitsAt + 1]?.[1]);
+        drawing.unitInches = dxfUnitInches[code] ?? null;
+      }
+    } else if (name === "BLOCKS") {
+      let block: { name: string; base: Point; entities: DxfEntity[] } | null = null;
+      for (const entity of readEntities(section)) {
+        if (entity.type === "BLOCK") {
+          block = { name: value(entity, 2) ?? "", base: [numberValue(entity, 10, 0), numberValue(entity, 20, 0)], entities: [] };
+        } else if (entity.type === "ENDBLK") {
+          if (block) drawing.blocks.set(block.name, { base: block.base, entities: block.entities });
+          block = null;
+        } else if (block) {
+          block.entities.push(entity);
+        }
+      }
+    } else if (name === "ENTITIES") {
+      drawing.entities = readEntities(section);
+    }
+    i = end + 1;
+  }
+  return drawing;
+}
+
+// The vertices of an LWPOLYLINE or POLYLINE and whether it is closed
+function polylinePoints(entity: DxfEntity): { points: Point[]; closed: boolean } {
+  const points: Point[] = [];
+  if (entity.type === "LWPOLYLINE") {
+    let x: number | null = null;
+    for (const [code, text] of entity.pairs) {
+      if (code === 10) x = Number(text);
+      if (code === 20 && x !== null) {
+        points.push([x, Number(text)]);
+        x = null;
+      }
+    }
+  } else {
+    for (const vertex of entity.children) {
+      points.push([numberValue(vertex, 10, 0), numberValue(vertex, 20, 0)]);
+    }
+  }
+
+  let closed = (numberValue(entity, 70, 0) & 1) === 1;
+  const first = points[0];
+  const last = points[points.length - 1];
+  // A polyline drawn back to its start is closed even without the flag
+  if (points.length >= 4 && first[0] === last[0] && first[1] === last[1]) {
+    points.pop();
+    closed = true;
+  }
+  return { points, closed };
+}
+
+function boundingBox(points: Point[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  const xs = points.map(point => point[0]);
+  const ys = points.map(point => point[1]);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+function polygonArea(points: Point[]): number {
+  let twiceArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    twiceArea += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+type Transform = (point: Point) => Point;
+
+function insertTransform(insert: DxfEntity, block: DxfBlock, outer: Transform): Transform {
+  const scaleX = numberValue(insert, 41, 1);
+  const scaleY = numberValue(insert, 42, 1);
+  const angle = numberValue(insert, 50, 0) * Math.PI / 180;
+  const [baseX, baseY] = block.base;
+  const insertX = numberValue(insert, 10, 0);
+  const insertY = numberValue(insert, 20, 0);
+  return ([x, y]) => {
+    const sx = (x - baseX) * scaleX;
+    const sy = (y - baseY) * scaleY;
+    return outer([
+      insertX + sx * Math.cos(angle) - sy * Math.sin(angle),
+      insertY + sx * Math.sin(angle) + sy * Math.cos(angle),
+    ]);
+  };
+}
+
+/**
+ * The rack outlines a block draws once placed: its closed polylines or, for
+ * a block drawn with lines and open polylines, the box around them. Nested
+ * blocks are followed a few levels deep.
+ */
+function blockOutlines(drawing: DxfDrawing, block: DxfBlock, transform: Transform, depth = 0): Point[][] {
+  const outlines: Point[][] = [];
+  const loose: Point[] = [];
+  for (const entity of block.entities) {
+    if (entity.type === "LWPOLYLINE" || entity.type === "POLYLINE") {
+      const { points, closed } = polylinePoints(entity);
+      if (closed && points.length >= 3) {
+        outlines.push(points.map(transform));
+      } else {
+        loose.push(...points.map(transform));
+      }
+    } else if (entity.type === "LINE") {
+      loose.push(transform([numberValue(entity, 10, 0), numberValue(entity, 20, 0)]));
+      loose.push(transform([numberValue(entity, 11, 0), numberValue(entity, 21, 0)]));
+    } else if (entity.type === "INSERT" && depth < 4) {
+      const nested = drawing.blocks.get(value(entity, 2) ?? "");
+      if (nested) outlines.push(...blockOutlines(drawing, nested, insertTransform(entity, nested, transform), depth + 1));
+    }
+  }
+
+  if (outlines.length === 0 && loose.length >= 2) {
+    const box = boundingBox(loose);
+    if (box.maxX > box.minX && box.maxY > box.minY) {
+      outlines.push([[box.minX, box.minY], [box.maxX, box.minY], [box.maxX, box.maxY], [box.minX, box.maxY]]);
+    }
+  }
+  return outlines;
+}
+
+interface DxfRack {
+  footprint: RackFootprint;
+  rackType: RackTypeValue | undefined;
+  rackHeight: number | null;
+  tiers: number | null;
+}
+
+// Block attributes vendors commonly tag racks with
+function readAttributes(insert: DxfEntity): { arrayName?: string; rackType?: RackTypeValue; rackHeight: number | null; tiers: number | null } {
+  const attributes: Record<string, string> = {};
+  for (const attribute of insert.children) {
+    const tag = value(attribute, 2)?.toUpperCase().replace(/[\s-]+/g, "_");
+    if (tag) attributes[tag] = value(attribute, 1) ?? "";
+  }
+  const height = attributes.RACK_HEIGHT ?? attributes.HEIGHT ?? attributes.UPRIGHT_HEIGHT;
+  const heightInches = height ? parseLength(height, "ft") : null;
+  const tiers = Number(attributes.TIERS ?? attributes.LEVELS ?? attributes.BEAM_LEVELS);
+  const type = attributes.RACK_TYPE ?? attributes.TYPE;
+  return {
+    arrayName: attributes.ARRAY ?? attributes.ZONE,
+    rackType: type ? matchRackType(type) : undefined,
+    rackHeight: heightInches !== null && !Number.isNaN(heightInches) ? heightInches / 12 : null,
+    tiers: Number.isInteger(tiers) && tiers > 0 ? tiers : null,
+  };
+}
+
+interface Gaps {
+  aisleWidth: number | null;
+  longitudinalFlueSpace: number | null;
+  transverseFlueSpace: number | null;
+}
+
+/**
+ * The narrowest aisle and flue spaces between square-on racks. A gap across
+ * the racks' depth is a longitudinal flue between back-to-back rows when it
+ * is narrow, otherwise an aisle; a gap along their length is a transverse flue
+ * or a cross aisle. Rotated racks are left out.
+ */
+function measureGaps(footprints: RackFootprint[]): Gaps {
+  const gaps: Gaps = { aisleWidth: null, longitudinalFlueSpace: null, transverseFlueSpace: null };
+  const boxes = footprints
+    .filter(footprint => {
+      const box = boundingBox(footprint.points);
+      return polygonArea(footprint.points) >= 0.98 * (box.maxX - box.minX) * (box.maxY - box.minY);
+    })
+    .map(footprint => boundingBox(footprint.points))
+    .slice(0, MAX_RACKS_MEASURED);
+
+  const record = (gapFeet: number, acrossDepth: boolean) => {
+    if (gapFeet <= TOUCHING_FEET) return;
+    const inches = roundTo(gapFeet * 12, 1);
+    if (inches > AISLE_MAX_INCHES) return;
+    if (inches >= FLUE_SPACE_MAX_INCHES) {
+      gaps.aisleWidth = lowest(gaps.aisleWidth, inches);
+    } else if (acrossDepth) {
+      gaps.longitudinalFlueSpace = lowest(gaps.longitudinalFlueSpace, inches);
+    } else {
+      gaps.transverseFlueSpace = lowest(gaps.transverseFlueSpace, inches);
+    }
+  };
+
+  for (let i = 0; i < boxes.length; i++) {
+    const a = boxes[i];
+    const depthIsX = a.maxX - a.minX <= a.maxY - a.minY;
+    for (let j = i + 1; j < boxes.length; j++) {
+      const b = boxes[j];
+      // Racks only face each other across a gap where they overlap side on by at least a foot
+      if (Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY) >= 1) {
+        record(Math.max(b.minX - a.maxX, a.minX - b.maxX), depthIsX);
+      }
+      if (Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX) >= 1) {
+        record(Math.max(b.minY - a.maxY, a.minY - b.maxY), !depthIsX);
+      }
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Reads racks from an ASCII DXF drawing: closed polylines on rack layers and
+ * block inserts on rack layers or of rack blocks, a layer or block being a
+ * rack one when its name says so. Racks are grouped into arrays by layer, or
+ * by an ARRAY attribute on the block. Everything else is reported unmapped.
+ */
+function parseDxfLayout(text: string, fileName: string): Omit<RackLayoutPreview, "totalStorageArea"> {
+  if (text.startsWith("AutoCAD Binary DXF")) {
+    throw new RackLayoutImportError(415, "Binary DXF files can't be read; save the drawing as ASCII DXF");
+  }
+  const drawing = readDxf(text);
+  const warnings: string[] = [];
+  if (drawing.unitInches === null || drawing.unitInches === 1) {
+    warnings.push("The drawing's coordinates were read as inches; check the areas if it was drawn in other units");
+  }
+  const feetPerUnit = (drawing.unitInches ?? 1) / 12;
+  const toFeet: Transform = ([x, y]) => [x * feetPerUnit, y * feetPerUnit];
+
+  const racksByArray = new Map<string, { name: string; source: string; racks: DxfRack[] }>();
+  // Counted per entity type and layer, so a drawing's walls are one line rather than hundreds
+  const skipped = new Map<string, { source: string; reason: string; count: number }>();
+  const skip = (entity: DxfEntity, reason: string) => {
+    const layer = value(entity, 8) ?? "0";
+    const key = `${entity.type}|${layer}|${reason}`;
+    const entry = skipped.get(key) ?? { source: `DXF ${entity.type} on layer ${layer}`, reason, count: 0 };
+    entry.count++;
+    skipped.set(key, entry);
+  };
+  const addRack = (arrayName: string, source: string, rack: DxfRack) => {
+    const key = arrayName.toLowerCase();
+    const group = racksByArray.get(key) ?? { name: arrayName, source, racks: [] };
+    group.racks.push(rack);
+    racksByArray.set(key, group);
+  };
+
+  for (const entity of drawing.entities) {
+    const layer = value(entity, 8) ?? "0";
+    if (entity.type === "LWPOLYLINE" || entity.type === "POLYLINE") {
+      if (!RACK_NAME_PATTERN.test(layer)) {
+        skip(entity, "Not on a rack layer");
+        continue;
+      }
+      const { points, closed } = polylinePoints(entity);
+      if (!closed || points.length < 3) {
+        skip(entity, "Open polylines don't outline a rack");
+        continue;
+      }
+      addRack(layer, `DXF layer ${layer}`, {
+        footprint: { points: points.map(toFeet) },
+        rackType: matchRackType(layer),
+        rackHeight: null,
+        tiers: null,
+      });
+    } else if (entity.type === "INSERT") {
+      const blockName = value(entity, 2) ?? "";
+      const block = drawing.blocks.get(blockName);
+      if (!RACK_NAME_PATTERN.test(layer) && !RACK_NAME_PATTERN.test(blockName)) {
+        skip(entity, "Neither the layer nor the block is a rack one");
+        continue;
+      }
+      const outlines = block ? blockOutlines(drawing, block, insertTransform(entity, block, toFeet)) : [];
+      if (outlines.length === 0) {
+        skip(entity, block ? `Block ${blockName} has no outline to measure` : `Block ${blockName} isn't defined in the file`);
+        continue;
+      }
+      const attributes = readAttributes(entity);
+      // Inserts picked out by their block name are grouped by it, not by a layer that says nothing about racks
+      const [group, source] = attributes.arrayName ? [attributes.arrayName, `DXF blocks tagged ${attributes.arrayName}`]
+        : RACK_NAME_PATTERN.test(layer) ? [layer, `DXF layer ${layer}`]
+        : [blockName, `DXF block ${blockName}`];
+      for (const outline of outlines) {
+        addRack(group, source, {
+          footprint: { points: outline },
+          rackType: attributes.rackType ?? matchRackType(blockName) ?? matchRackType(layer),
+          rackHeight: attributes.rackHeight,
+          tiers: attributes.tiers,
+        });
+      }
+    } else {
+      skip(entity, "Only closed polylines and block inserts are read as racks");
+    }
+  }
+
+  const unmapped: UnmappedEntity[] = Array.from(skipped.values()).map(({ source, reason, count }) => ({
+    source: count > 1 ? `${count} × ${source}` : source,
+    reason,
+  }));
+
+  const arrays = Array.from(racksByArray.values()).map(({ name, source, racks }): ImportedStorageArray => {
+    const footprints = racks
+      .map(rack => ({ points: rack.footprint.points.map(([x, y]): Point => [roundTo(x, 2), roundTo(y, 2)]) }))
+      .filter(footprint => polygonArea(footprint.points) > 0);
+    const rackType = racks.find(rack => rack.rackType)?.rackType ?? RackType.SELECTIVE;
+    if (racks.length > MAX_RACKS_MEASURED) {
+      warnings.push(`${name}: only the first ${MAX_RACKS_MEASURED} of ${racks.length} racks were measured for aisles and flue spaces`);
+    }
+    return {
+      name,
+      rackType,
+      storageArea: footprints.reduce((total, footprint) => total + polygonArea(footprint.points), 0),
+      rackCount: footprints.length,
+      rackHeight: racks.reduce<number | null>((tallest, rack) => highest(tallest, rack.rackHeight), null),
+      topOfStorageHeight: null,
+      ...measureGaps(footprints),
+      tiers: racks.reduce<number | null>((most, rack) => highest(most, rack.tiers), null),
+      footprints,
+      source,
+    };
+  }).filter(array => array.storageArea > 0);
+
+  return { format: RackLayoutFormat.DXF, fileName, arrays, unmapped, warnings };
+}
+
+function detectFormat(fileName: string, text: string): RackLayoutFormatType {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".dwg") {
+    throw new RackLayoutImportError(415, "DWG drawings can't be read; export the layout as DXF");
+  }
+  if (extension === ".dxf" || /^\s*0\s*\r?\n\s*SECTION/.test(text) || text.startsWith("AutoCAD Binary DXF")) {
+    return RackLayoutFormat.DXF;
+  }
+  if (extension === ".csv" || extension === ".txt") {
+    return RackLayoutFormat.CSV;
+  }
+  throw new RackLayoutImportError(415, "Rack layouts can be imported from CSV rack schedules or DXF drawings");
+}
+
+/**
+ * Reads a rack layout file into the storage arrays it describes, without
+ * saving anything, for the project page to show before the import is
+ * confirmed. Arrays named like ones the project already has are flagged.
+ */
+export async function previewRackLayout(projectId: number, file: ReceivedFile): Promise<RackLayoutPreview> {
+  if (file.size === 0) {
+    throw new RackLayoutImportError(400, "The uploaded file is empty");
+  }
+
+  const text = await fs.readFile(file.tempPath, "utf8");
+  const parsed = detectFormat(file.fileName, text) === RackLayoutFormat.DXF
+    ? parseDxfLayout(text, file.fileName)
+    : parseRackSchedule(text, file.fileName);
+
+  const existing = new Set((await storage.getStorageArraysByProject(projectId)).map(array => array.name.toLowerCase()));
+  const arrays = parsed.arrays.map(array => ({
+    ...array,
+    name: array.name.slice(0, 100),
+    storageArea: roundTo(array.storageArea, 1),
+    rackHeight: array.rackHeight === null ? null : roundTo(array.rackHeight, 2),
+    topOfStorageHeight: array.topOfStorageHeight === null ? null : roundTo(array.topOfStorageHeight, 2),
+  }));
+  for (const array of arrays) {
+    if (existing.has(array.name.toLowerCase())) {
+      parsed.warnings.push(`The project already has a storage array named "${array.name}"; rename it before importing`);
+    }
+  }
+
+  return {
+    ...parsed,
+    arrays,
+    totalStorageArea: roundTo(arrays.reduce((total, array) => total + array.storageArea, 0), 1),
+  };
+}
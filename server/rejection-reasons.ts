@@ -0,0 +1,136 @@
+import {
+  DocumentCategoryLabels,
+  type Document,
+  type DocumentRejection,
+  type User
+} from "@shared/schema";
+import { getRejectionReasonLabel, isRejectionReasonCode } from "@shared/rejection-reasons";
+import { storage, type DocumentRejectionWithContext } from "./storage";
+
+export class RejectionReasonError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface RejectionReasonCount {
+  code: string;
+  label: string;
+  count: number;
+}
+
+export interface RejectionReasonGroup {
+  key: string;
+  label: string;
+  rejectionCount: number;
+  // Most common first
+  reasons: RejectionReasonCount[];
+}
+
+export interface RejectionReasonReport {
+  // Null when the report covers every rejection on record
+  since: string | null;
+  rejectionCount: number;
+  topReasons: RejectionReasonCount[];
+  byCategory: RejectionReasonGroup[];
+  byCompany: RejectionReasonGroup[];
+  byJurisdiction: RejectionReasonGroup[];
+}
+
+/**
+ * The distinct reason codes of a rejection, checked against the category's
+ * taxonomy. At least one is required.
+ */
+export function validateRejectionReasons(category: string, reasonCodes: string[] | undefined): string[] {
+  const codes = Array.from(new Set(reasonCodes ?? []));
+  if (codes.length === 0) {
+    throw new RejectionReasonError(400, "Choose at least one rejection reason");
+  }
+  const unknown = codes.filter(code => !isRejectionReasonCode(category, code));
+  if (unknown.length > 0) {
+    throw new RejectionReasonError(400, `Unknown rejection reason${unknown.length === 1 ? "" : "s"} for this category: ${unknown.join(", ")}`);
+  }
+  return codes;
+}
+
+export function describeRejectionReasons(reasonCodes: string[]): string {
+  return reasonCodes.map(getRejectionReasonLabel).join("; ");
+}
+
+export async function recordDocumentRejection(
+  document: Document,
+  rejectedBy: User,
+  reasonCodes: string[],
+  comments: string | null
+): Promise<DocumentRejection> {
+  return await storage.createDocumentRejection({
+    documentId: document.id,
+    projectId: document.projectId,
+    category: document.category,
+    reasonCodes,
+    comments: comments?.trim() || null,
+    rejectedById: rejectedBy.id,
+  });
+}
+
+function countReasons(rejections: DocumentRejectionWithContext[]): RejectionReasonCount[] {
+  const counts = new Map<string, number>();
+  for (const rejection of rejections) {
+    for (const code of rejection.reasonCodes) {
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .map(([code, count]) => ({ code, label: getRejectionReasonLabel(code), count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+function groupRejections(
+  rejections: DocumentRejectionWithContext[],
+  keyOf: (rejection: DocumentRejectionWithContext) => string,
+  labelOf: (key: string) => string
+): RejectionReasonGroup[] {
+  const groups = new Map<string, DocumentRejectionWithContext[]>();
+  for (const rejection of rejections) {
+    const key = keyOf(rejection);
+    groups.set(key, [...(groups.get(key) ?? []), rejection]);
+  }
+  return Array.from(groups.entries())
+    .map(([key, groupRejections]) => ({
+      key,
+      label: labelOf(key),
+      rejectionCount: groupRejections.length,
+      reasons: countReasons(groupRejections),
+    }))
+    .sort((a, b) => b.rejectionCount - a.rejectionCount || a.label.localeCompare(b.label));
+}
+
+/**
+ * The most common rejection reasons overall and broken down by document
+ * category, the uploading stakeholder's company and the project's jurisdiction.
+ */
+export async function getRejectionReasonReport(days: number | null): Promise<RejectionReasonReport> {
+  const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null;
+  const rejections = await storage.getDocumentRejectionsSince(since);
+
+  return {
+    since: since?.toISOString() ?? null,
+    rejectionCount: rejections.length,
+    topReasons: countReasons(rejections),
+    byCategory: groupRejections(
+      rejections,
+      rejection => rejection.category,
+      category => DocumentCategoryLabels[category as keyof typeof DocumentCategoryLabels] ?? category
+    ),
+    byCompany: groupRejections(
+      rejections,
+      rejection => rejection.uploaderCompany?.trim() || "",
+      company => company || "No company"
+    ),
+    byJurisdiction: groupRejections(
+      rejections,
+      rejection => rejection.jurisdiction,
+      jurisdiction => jurisdiction
+    ),
+  };
+}
@@ -0,0 +1,161 @@
+import { getChecklistForCategory, isRequiredChecklistItem } from "@shared/checklists";
+import { DocumentCategory, type Document, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { getChecklistExpectations, getProjectProtectionRequirements } from "./protection-requirements";
+
+// Longest note quoted in the audit entry; the full text stays on the response row
+const AUDIT_NOTE_LENGTH = 200;
+
+// Categories whose checklists the protection requirements calculator pre-fills
+const PROTECTION_CATEGORIES: string[] = [DocumentCategory.FIRE_PROTECTION, DocumentCategory.FACILITY_PLAN];
+
+export interface ChecklistItemResponse {
+  checked: boolean;
+  note: string | null;
+}
+
+export interface ReviewerChecklist {
+  reviewerId: number;
+  reviewerName: string | null;
+  updatedAt: Date | null;
+  responses: Record<string, ChecklistItemResponse>;
+}
+
+export interface DocumentChecklistItem {
+  id: string;
+  label: string;
+  required: boolean;
+  // What IFC Table 3206.2 expects the reviewer to find, for items the protection requirements cover
+  expectation: string | null;
+}
+
+export interface DocumentChecklist {
+  title: string;
+  items: DocumentChecklistItem[];
+  reviewers: ReviewerChecklist[];
+}
+
+export class ChecklistError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * The category checklist for a document, with the project's protection
+ * requirements filled in on Fire Protection and Facility Plan documents: an
+ * item that's only "if applicable" becomes required when a feature it checks
+ * is required. Items required by the category stay required either way.
+ */
+async function getChecklistItems(document: Document): Promise<{ title: string; items: DocumentChecklistItem[] }> {
+  const checklist = getChecklistForCategory(document.category);
+  const expectations = PROTECTION_CATEGORIES.includes(document.category)
+    ? getChecklistExpectations((await getProjectProtectionRequirements(document.projectId)).areas)
+    : {};
+
+  return {
+    title: checklist.title,
+    items: checklist.items.map(item => ({
+      id: item.id,
+      label: item.label,
+      required: isRequiredChecklistItem(item) || !!expectations[item.id]?.required,
+      expectation: expectations[item.id]?.expectation ?? null,
+    })),
+  };
+}
+
+/**
+ * The checklist for a document version together with every reviewer's saved
+ * answers.
+ */
+export async function getDocumentChecklist(document: Document): Promise<DocumentChecklist> {
+  const checklist = await getChecklistItems(document);
+  const rows = await storage.getChecklistResponses(document.id);
+
+  const reviewers = new Map<number, ReviewerChecklist>();
+  for (const row of rows) {
+    let reviewer = reviewers.get(row.reviewerId);
+    if (!reviewer) {
+      reviewer = { reviewerId: row.reviewerId, reviewerName: row.reviewerName, updatedAt: null, responses: {} };
+      reviewers.set(row.reviewerId, reviewer);
+    }
+    reviewer.responses[row.itemId] = { checked: row.checked, note: row.note };
+    if (row.updatedAt && (!reviewer.updatedAt || row.updatedAt > reviewer.updatedAt)) {
+      reviewer.updatedAt = row.updatedAt;
+    }
+  }
+
+  return {
+    title: checklist.title,
+    items: checklist.items,
+    reviewers: Array.from(reviewers.values()),
+  };
+}
+
+/**
+ * Saves a reviewer's answers for some or all of a document's checklist items.
+ * Items not in the document's category checklist are rejected.
+ */
+export async function saveReviewerChecklist(
+  document: Document,
+  reviewerId: number,
+  items: Array<{ itemId: string; checked: boolean; note?: string | null }>
+): Promise<void> {
+  const checklist = getChecklistForCategory(document.category);
+  const known = new Set(checklist.items.map(item => item.id));
+  const unknown = items.find(item => !known.has(item.itemId));
+  if (unknown) {
+    throw new ChecklistError(400, `"${unknown.itemId}" is not on the ${checklist.title}`);
+  }
+
+  await storage.saveChecklistResponses(items.map(item => ({
+    documentId: document.id,
+    reviewerId,
+    itemId: item.itemId,
+    checked: item.checked,
+    note: item.note?.trim() || null,
+  })));
+}
+
+/**
+ * Required items the reviewer hasn't checked yet on this version. Approval is
+ * allowed only when this is empty.
+ */
+export async function findUnsatisfiedChecklistItems(document: Document, reviewerId: number): Promise<DocumentChecklistItem[]> {
+  const checklist = await getChecklistItems(document);
+  const responses = await storage.getChecklistResponses(document.id);
+  const checked = new Set(
+    responses
+      .filter(response => response.reviewerId === reviewerId && response.checked)
+      .map(response => response.itemId)
+  );
+
+  return checklist.items.filter(item => item.required && !checked.has(item.id));
+}
+
+/**
+ * Records the reviewer's completed checklist in the project's activity log, so
+ * the audit history shows what was verified when the document was approved.
+ */
+export async function logCompletedChecklist(document: Document, reviewer: User): Promise<void> {
+  const checklist = await getChecklistItems(document);
+  const responses = (await storage.getChecklistResponses(document.id))
+    .filter(response => response.reviewerId === reviewer.id);
+  const byItem = new Map(responses.map(response => [response.itemId, response]));
+
+  const lines = checklist.items.map(item => {
+    const response = byItem.get(item.id);
+    const note = response?.note
+      ? ` (note: ${response.note.length > AUDIT_NOTE_LENGTH ? `${response.note.slice(0, AUDIT_NOTE_LENGTH)}...` : response.note})`
+      : "";
+    return `[${response?.checked ? "x" : " "}] ${item.label}${item.required ? "" : " (if applicable)"}${note}`;
+  });
+  const checkedCount = checklist.items.filter(item => byItem.get(item.id)?.checked).length;
+
+  await storage.createActivityLog({
+    projectId: document.projectId,
+    userId: reviewer.id,
+    activityType: "checklist_completed",
+    description: `${checklist.title} completed by ${reviewer.fullName} for "${document.fileName}" v${document.version} (${checkedCount}/${checklist.items.length} items checked):\n${lines.join("\n")}`,
+  });
+}
@@ -0,0 +1,179 @@
+import {
+  DocumentCategoryLabels,
+  DocumentStatus,
+  UserRole,
+  type Document,
+  type User
+} from "@shared/schema";
+import { getReviewSlaDays, REVIEW_DUE_SOON_FRACTION } from "@shared/review-sla";
+import { storage, type ReviewQueueDocument } from "./storage";
+import { NotificationService } from "./notification-service.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class ReviewQueueError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface ReviewQueueItem extends ReviewQueueDocument {
+  // When the version entered pending review; the upload time for rows from
+  // before status changes were tracked
+  enteredStatusAt: Date;
+  hoursInStatus: number;
+  slaDays: number;
+  dueAt: Date;
+  overdue: boolean;
+  dueSoon: boolean;
+}
+
+export interface ReviewerWorkload {
+  // Null for documents nobody has been assigned
+  reviewerId: number | null;
+  reviewerName: string;
+  count: number;
+  overdueCount: number;
+  dueSoonCount: number;
+  oldestHoursInStatus: number | null;
+}
+
+export interface ReviewQueue {
+  generatedAt: string;
+  items: ReviewQueueItem[];
+  // Always covers the whole queue, whatever the items were filtered by
+  workload: ReviewerWorkload[];
+}
+
+export interface ReviewQueueFilter {
+  // A specialist's id, or null for unassigned documents
+  reviewerId?: number | null;
+}
+
+function toQueueItem(document: ReviewQueueDocument, now: Date): ReviewQueueItem {
+  const enteredStatusAt = new Date(document.statusChangedAt ?? document.uploadedAt ?? now);
+  const slaDays = getReviewSlaDays(document.category);
+  const slaMs = slaDays * 24 * HOUR_MS;
+  const elapsedMs = Math.max(0, now.getTime() - enteredStatusAt.getTime());
+  const overdue = elapsedMs > slaMs;
+
+  return {
+    ...document,
+    enteredStatusAt,
+    hoursInStatus: Math.floor(elapsedMs / HOUR_MS),
+    slaDays,
+    dueAt: new Date(enteredStatusAt.getTime() + slaMs),
+    overdue,
+    dueSoon: !overdue && elapsedMs >= slaMs * REVIEW_DUE_SOON_FRACTION,
+  };
+}
+
+function summarizeWorkload(items: ReviewQueueItem[], specialists: User[]): ReviewerWorkload[] {
+  const byReviewer = new Map<number | null, ReviewerWorkload>();
+  const entry = (reviewerId: number | null, reviewerName: string) => {
+    let workload = byReviewer.get(reviewerId);
+    if (!workload) {
+      workload = { reviewerId, reviewerName, count: 0, overdueCount: 0, dueSoonCount: 0, oldestHoursInStatus: null };
+      byReviewer.set(reviewerId, workload);
+    }
+    return workload;
+  };
+
+  // Every specialist gets a row so idle reviewers show up when balancing work
+  for (const specialist of specialists) {
+    entry(specialist.id, specialist.fullName);
+  }
+  for (const item of items) {
+    const workload = item.assignedReviewerId
+      ? entry(item.assignedReviewerId, item.assignedReviewerName ?? "Unknown user")
+      : entry(null, "Unassigned");
+    workload.count++;
+    if (item.overdue) workload.overdueCount++;
+    if (item.dueSoon) workload.dueSoonCount++;
+    workload.oldestHoursInStatus = Math.max(workload.oldestHoursInStatus ?? 0, item.hoursInStatus);
+  }
+
+  return Array.from(byReviewer.values()).sort((a, b) => {
+    if (a.reviewerId === null) return -1;
+    if (b.reviewerId === null) return 1;
+    return b.count - a.count || a.reviewerName.localeCompare(b.reviewerName);
+  });
+}
+
+/**
+ * Every version awaiting review across all projects, oldest first, with how
+ * long it has waited against its category's SLA and a per-reviewer summary.
+ */
+export async function getReviewQueue(filter: ReviewQueueFilter = {}): Promise<ReviewQueue> {
+  const now = new Date();
+  const [documents, users] = await Promise.all([
+    storage.getPendingReviewDocuments(),
+    storage.getUsers(),
+  ]);
+
+  const items = documents
+    .map(document => toQueueItem(document, now))
+    .sort((a, b) => a.enteredStatusAt.getTime() - b.enteredStatusAt.getTime());
+  const specialists = users.filter(user => user.role === UserRole.SPECIALIST);
+
+  return {
+    generatedAt: now.toISOString(),
+    items: filter.reviewerId === undefined
+      ? items
+      : items.filter(item => (item.assignedReviewerId ?? null) === filter.reviewerId),
+    workload: summarizeWorkload(items, specialists),
+  };
+}
+
+/**
+ * Assigns a pending version to a permit specialist, or clears the assignment
+ * when reviewerId is null.
+ */
+export async function assignReviewer(
+  document: Document,
+  reviewerId: number | null,
+  assignedBy: User
+): Promise<Document> {
+  if (document.status !== DocumentStatus.PENDING_REVIEW) {
+    throw new ReviewQueueError(409, "Only documents awaiting review can be assigned a reviewer");
+  }
+
+  let reviewer: User | undefined;
+  if (reviewerId !== null) {
+    reviewer = await storage.getUser(reviewerId);
+    if (!reviewer || reviewer.role !== UserRole.SPECIALIST) {
+      throw new ReviewQueueError(400, "Reviews can only be assigned to a permit specialist");
+    }
+  }
+
+  if ((document.assignedReviewerId ?? null) === reviewerId) {
+    return document;
+  }
+
+  const updated = await storage.assignDocumentReviewer(document.id, reviewerId);
+  if (!updated) {
+    throw new ReviewQueueError(404, "Document not found");
+  }
+
+  const categoryTitle = DocumentCategoryLabels[document.category as keyof typeof DocumentCategoryLabels] ?? document.category;
+  await storage.createActivityLog({
+    projectId: document.projectId,
+    userId: assignedBy.id,
+    activityType: "review_assigned",
+    description: reviewer
+      ? `Assigned ${reviewer.fullName} to review ${categoryTitle}: ${document.fileName} (v${document.version})`
+      : `Removed the reviewer assignment from ${categoryTitle}: ${document.fileName} (v${document.version})`,
+  });
+
+  if (reviewer && reviewer.id !== assignedBy.id) {
+    await NotificationService.notifyReviewAssigned(
+      document.id,
+      reviewer.id,
+      assignedBy.fullName,
+      document.projectId,
+      document.fileName
+    );
+  }
+
+  return updated;
+}
@@ -0,0 +1,265 @@
+import {
+  DocumentCategory,
+  DocumentCategoryLabels,
+  DocumentStatus,
+  ReviewRoundStatus,
+  type Document,
+  type Project,
+  type ReviewRound,
+  type User
+} from "@shared/schema";
+import { storage, type ReviewRoundDecisionWithReviewer } from "./storage";
+import { generateCommentLetterDocx } from "./docxGenerator";
+import { generateCommentLetterPdf } from "./pdf-generator";
+
+// Letter sections follow the order documents are submitted in
+const CATEGORY_ORDER: string[] = Object.values(DocumentCategory);
+
+export class ReviewRoundError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export type CommentLetterOutcome = "approved" | "revisions_required" | "not_reviewed";
+
+export interface CommentLetterSection {
+  category: string;
+  title: string;
+  fileName: string;
+  version: number;
+  outcome: CommentLetterOutcome;
+  decisions: Array<{ reviewerName: string | null; decision: string; comments: string | null; decidedAt: string | null }>;
+  // Review annotations on the version, e.g. "Page 3"
+  comments: Array<{ reference: string; text: string; author: string | null; resolved: boolean }>;
+}
+
+/**
+ * The consolidated comment letter for a closed round. Stored on the round as
+ * JSON when it closes, so the letter doesn't change as documents move on.
+ */
+export interface CommentLetter {
+  project: Pick<Project, "name" | "clientName" | "facilityAddress" | "jurisdiction" | "permitNumber">;
+  roundNumber: number;
+  openedAt: string | null;
+  closedAt: string;
+  closedBy: string;
+  summary: string | null;
+  sections: CommentLetterSection[];
+}
+
+export interface ReviewRoundDetail {
+  round: ReviewRound;
+  documents: Array<{
+    document: Document;
+    decisions: ReviewRoundDecisionWithReviewer[];
+    openAnnotationCount: number;
+  }>;
+}
+
+function categoryTitle(category: string): string {
+  return (DocumentCategoryLabels as Record<string, string>)[category] ?? category;
+}
+
+function categoryIndex(category: string): number {
+  const index = CATEGORY_ORDER.indexOf(category);
+  return index === -1 ? CATEGORY_ORDER.length : index;
+}
+
+// Any rejection means the applicant has to revise the document
+function outcomeOf(decisions: Array<{ decision: string }>): CommentLetterOutcome {
+  if (decisions.length === 0) return "not_reviewed";
+  return decisions.some(decision => decision.decision === DocumentStatus.REJECTED) ? "revisions_required" : "approved";
+}
+
+/**
+ * Opens the next review round for a project, covering every current document
+ * version that is awaiting review. A project has at most one open round.
+ */
+export async function openReviewRound(project: Project, openedBy: User): Promise<ReviewRound> {
+  if (await storage.getOpenReviewRound(project.id)) {
+    throw new ReviewRoundError(409, "This project already has an open review round");
+  }
+
+  const documents = (await storage.getDocumentsByProject(project.id))
+    .filter(document => document.status === DocumentStatus.PENDING_REVIEW);
+  if (documents.length === 0) {
+    throw new ReviewRoundError(409, "No documents are awaiting review");
+  }
+
+  const round = await storage.createReviewRound(
+    { projectId: project.id, openedById: openedBy.id, summary: null },
+    documents.map(document => document.id)
+  );
+
+  await storage.createActivityLog({
+    projectId: project.id,
+    userId: openedBy.id,
+    activityType: "review_round_opened",
+    description: `Review round ${round.roundNumber} opened for ${documents.length} document${documents.length === 1 ? "" : "s"}`,
+  });
+
+  return round;
+}
+
+/**
+ * The documents a round covers with each reviewer's decision on them.
+ */
+export async function getReviewRoundDetail(round: ReviewRound): Promise<ReviewRoundDetail> {
+  const [documents, decisions] = await Promise.all([
+    storage.getReviewRoundDocuments(round.id),
+    storage.getReviewRoundDecisions(round.id),
+  ]);
+
+  const entries = await Promise.all(documents.map(async document => {
+    const annotations = await storage.getDocumentAnnotations(document.id);
+    return {
+      document,
+      decisions: decisions.filter(decision => decision.documentId === document.id),
+      openAnnotationCount: annotations.filter(annotation => !annotation.resolved).length,
+    };
+  }));
+
+  return { round, documents: entries };
+}
+
+/**
+ * Records an approval or rejection against the project's open round, if the
+ * round covers this version. Called whenever a document is reviewed.
+ */
+export async function recordReviewDecision(
+  document: Document,
+  reviewer: User,
+  decision: string,
+  comments: string | null
+): Promise<void> {
+  if (decision !== DocumentStatus.APPROVED && decision !== DocumentStatus.REJECTED) return;
+
+  const round = await storage.getOpenReviewRound(document.projectId);
+  if (!round) return;
+  const documents = await storage.getReviewRoundDocuments(round.id);
+  if (!documents.some(roundDocument => roundDocument.id === document.id)) return;
+
+  await storage.saveReviewRoundDecision({
+    roundId: round.id,
+    documentId: document.id,
+    reviewerId: reviewer.id,
+    decision,
+    comments: comments?.trim() || null,
+  });
+}
+
+async function buildCommentLetter(
+  round: ReviewRound,
+  project: Project,
+  closedBy: User,
+  summary: string | null,
+  closedAt: Date
+): Promise<CommentLetter> {
+  const [documents, allDecisions] = await Promise.all([
+    storage.getReviewRoundDocuments(round.id),
+    storage.getReviewRoundDecisions(round.id),
+  ]);
+
+  const sections = await Promise.all(documents.map(async document => {
+    const decisions = allDecisions.filter(decision => decision.documentId === document.id);
+    const annotations = await storage.getDocumentAnnotations(document.id);
+    return {
+      category: document.category,
+      title: categoryTitle(document.category),
+      fileName: document.fileName,
+      version: document.version,
+      outcome: outcomeOf(decisions),
+      decisions: decisions.map(decision => ({
+        reviewerName: decision.reviewerName,
+        decision: decision.decision,
+        comments: decision.comments,
+        decidedAt: decision.decidedAt ? decision.decidedAt.toISOString() : null,
+      })),
+      comments: annotations.map(annotation => ({
+        reference: `Page ${annotation.pageNumber}`,
+        text: annotation.text,
+        author: annotation.authorName,
+        resolved: annotation.resolved,
+      })),
+    };
+  }));
+  sections.sort((a, b) => categoryIndex(a.category) - categoryIndex(b.category) || a.fileName.localeCompare(b.fileName));
+
+  return {
+    project: {
+      name: project.name,
+      clientName: project.clientName,
+      facilityAddress: project.facilityAddress,
+      jurisdiction: project.jurisdiction,
+      permitNumber: project.permitNumber,
+    },
+    roundNumber: round.roundNumber,
+    openedAt: round.openedAt ? round.openedAt.toISOString() : null,
+    closedAt: closedAt.toISOString(),
+    closedBy: closedBy.fullName || closedBy.username,
+    summary,
+    sections,
+  };
+}
+
+/**
+ * Closes a round and freezes its comment letter: every document's outcome,
+ * the reviewers' decisions and the annotations made on each version.
+ */
+export async function closeReviewRound(round: ReviewRound, closedBy: User, summary: string | null): Promise<ReviewRound> {
+  if (round.status !== ReviewRoundStatus.OPEN) {
+    throw new ReviewRoundError(409, "This review round is already closed");
+  }
+  const project = await storage.getProject(round.projectId);
+  if (!project) {
+    throw new ReviewRoundError(404, "Project not found");
+  }
+
+  const letter = await buildCommentLetter(round, project, closedBy, summary, new Date());
+  const closed = await storage.closeReviewRound(round.id, {
+    closedById: closedBy.id,
+    summary,
+    commentLetter: letter,
+  });
+  if (!closed) {
+    throw new ReviewRoundError(409, "This review round is already closed");
+  }
+
+  const revisions = letter.sections.filter(section => section.outcome === "revisions_required").length;
+  await storage.createActivityLog({
+    projectId: round.projectId,
+    userId: closedBy.id,
+    activityType: "review_round_closed",
+    description: `Review round ${round.roundNumber} closed with ${letter.sections.length} document${letter.sections.length === 1 ? "" : "s"}, ${revisions} requiring revisions`,
+  });
+
+  return closed;
+}
+
+/**
+ * Renders a closed round's comment letter as a Word document or PDF.
+ */
+export async function renderCommentLetter(
+  round: ReviewRound,
+  format: "docx" | "pdf"
+): Promise<{ content: Buffer; contentType: string; fileName: string }> {
+  if (round.status !== ReviewRoundStatus.CLOSED || !round.commentLetter) {
+    throw new ReviewRoundError(409, "The comment letter is generated when the round is closed");
+  }
+  const letter = round.commentLetter as CommentLetter;
+  const baseName = `${letter.project.name.replace(/[\/\\:*?"<>|]/g, "_")}_Review_Round_${letter.roundNumber}_Comments`;
+
+  if (format === "pdf") {
+    return {
+      content: await generateCommentLetterPdf(letter),
+      contentType: "application/pdf",
+      fileName: `${baseName}.pdf`,
+    };
+  }
+  return {
+    content: await generateCommentLetterDocx(letter),
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    fileName: `${baseName}.docx`,
+  };
+}
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import { storage } from "./storage";
@@ -11,13 +11,145 @@ import {
   insertProjectSchema, 
   insertDocumentSchema, 
   insertCommoditiesSchema, 
+  insertStorageArraySchema,
   insertProjectStakeholderSchema,
   insertActivityLogSchema,
   insertStakeholderTaskSchema,
   insertNotificationSchema,
-  insertMessageSchema
+  insertMessageSchema,
+  insertUploadSessionSchema,
+  insertDocumentAnnotationSchema,
+  insertCorrectionCommentSchema,
+  insertAuthoritySubmissionSchema,
+  type UploadSession,
+  type User,
+  type Document,
+  type DocumentComparison,
+  type Project,
+  DocumentStatus,
+  ReviewRoundStatus,
+  CorrectionStatus,
+  BulkReviewAction,
+  UserRole
 } from "@shared/schema";
+import { commodityClassificationInputSchema } from "@shared/commodity-classification";
+import { protectionRequirementsInputSchema } from "@shared/protection-requirements";
 import { NotificationService } from "./notification-service.js";
+import { getBlobStore, hashFile, type StoredBlob } from "./blob-storage";
+import {
+  UploadError,
+  MAX_UPLOAD_BYTES,
+  DEFAULT_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  UPLOAD_SESSION_TTL_MS,
+  createUploadSessionId,
+  receiveMultipartUpload,
+  writeUploadChunk,
+  assembleUploadChunks,
+  removeUploadChunks,
+  removeTempFile,
+  expectedChunkSize
+} from "./uploads";
+import type { PdfComparison } from "./pdf-compare";
+import { requestDocumentComparison, ComparisonStatus } from "./document-comparisons";
+import { queueDocumentTextIndexing } from "./document-text";
+import { planSubmissionPackage, writeSubmissionPackage, SubmissionPackageError } from "./submission-package";
+import { generateSubmittalPdf } from "./submittal-pdf";
+import {
+  getDocumentChecklist,
+  saveReviewerChecklist,
+  findUnsatisfiedChecklistItems,
+  logCompletedChecklist,
+  ChecklistError
+} from "./review-checklists";
+import {
+  openReviewRound,
+  getReviewRoundDetail,
+  recordReviewDecision,
+  closeReviewRound,
+  renderCommentLetter,
+  ReviewRoundError
+} from "./review-rounds";
+import {
+  parseCorrectionLetter,
+  resolveCorrectionTarget,
+  notifyCorrectionAssigned,
+  resolutionChanges,
+  buildCorrectionResponseLetter,
+  renderCorrectionResponseLetter,
+  CorrectionCommentError
+} from "./correction-comments";
+import {
+  getProjectStatusOverview,
+  transitionProjectStatus,
+  recordAuthoritySubmission,
+  ProjectStatusError
+} from "./project-status";
+import { getProjectRequirements } from "./submittal-rules";
+import {
+  getApprovalChains,
+  saveApprovalChain,
+  startApprovalChain,
+  restartApprovalChain,
+  rejectApprovalStage,
+  closeApprovalTasks,
+  requiresApprovalChain,
+  getDocumentApproval,
+  signOffApprovalStage,
+  MAX_APPROVAL_STAGES,
+  ApprovalChainError
+} from "./approval-chains";
+import {
+  hashDocumentForAttestation,
+  attestReviewDecision,
+  verifyProjectAttestations,
+  AttestationError
+} from "./attestations";
+import {
+  validateRejectionReasons,
+  describeRejectionReasons,
+  recordDocumentRejection,
+  getRejectionReasonReport,
+  RejectionReasonError
+} from "./rejection-reasons";
+import {
+  applyBulkReview,
+  MAX_BULK_REVIEW_DOCUMENTS,
+  BulkReviewError
+} from "./bulk-review";
+import {
+  getReviewQueue,
+  assignReviewer,
+  ReviewQueueError
+} from "./review-queue";
+import { classifyCommodity, CommodityClassificationError } from "./commodity-classification";
+import { calculateProtectionRequirements, getProjectProtectionRequirements } from "./protection-requirements";
+import {
+  createStorageArray,
+  updateStorageArray,
+  deleteStorageArray,
+  importStorageArrays,
+  StorageArrayError
+} from "./storage-arrays";
+import { previewRackLayout, RackLayoutImportError, MAX_LAYOUT_BYTES } from "./rack-layout-import";
+import { createCommodity, updateCommodity, CommodityError } from "./commodities";
+import {
+  getUpcomingExpirations,
+  setDocumentValidity,
+  flagExpiringDocuments,
+  DocumentExpiryError
+} from "./document-expiry";
+import {
+  getDocumentPreview,
+  queueDocumentPreviews,
+  PreviewKind,
+  PreviewUnavailableError,
+  type PreviewKindType
+} from "./document-previews";
+
+// Uploaded types the browser can display but not run script from; the rest are only served as downloads
+const INLINE_CONTENT_TYPES = new Set(["application/pdf", "image/png", "image/jpeg", "image/gif", "image/webp"]);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
@@ -34,10 +166,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ...options
     });
 
-  const generalApiLimiter = createLimiter();
+  // Resumable upload chunks and preview images are metered by their own limiters instead;
+  // a single document list or preview dialog loads dozens of images at once
+  const isUploadChunk = (req: Request) => req.method === "PUT" && /^\/uploads\/[^/]+\/chunks\//.test(req.path);
+  const isPreviewImage = (req: Request) =>
+    req.method === "GET" && /^\/documents\/\d+\/(thumbnail|pages\/\d+\/preview)$/.test(req.path);
+  const generalApiLimiter = createLimiter({ skip: (req) => isUploadChunk(req) || isPreviewImage(req) });
   const writeOperationLimiter = createLimiter({ limit: 40 });
   const searchLimiter = createLimiter({ limit: 20 });
   const heavyProcessingLimiter = createLimiter({ windowMs: 15 * 60_000, limit: 5 });
+  const uploadChunkLimiter = createLimiter({ limit: 600 });
+  const comparisonLimiter = createLimiter({ windowMs: 15 * 60_000, limit: 30 });
+  const previewImageLimiter = createLimiter({ limit: 600 });
 
   // Apply a default limiter to every API route so database interactions are not left unbounded
   app.use("/api", generalApiLimiter);
@@ -177,6 +317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         contactEmail: z.string().email().optional().or(z.literal("")),
         contactPhone: z.string().optional(),
         permitNumber: z.string().optional(),
+        permitExpiresAt: z.coerce.date().nullable().optional(),
         zipCode: z.string().optional(),
         status: z.string().optional() // Only allow status updates for specialists
       }).refine((data) => {
@@ -187,32 +328,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return true;
       }, { message: "Only specialists can update project status" });
       
-      const validatedData = updateProjectSchema.parse(req.body);
+      const { status, ...validatedData } = updateProjectSchema.parse(req.body);
       
-      // Capture old status for notification purposes
-      const oldStatus = existingProject.status;
-      
-      const project = await storage.updateProject(projectId, validatedData);
+      // Status changes go through the state machine so its guards apply, and
+      // run first so a refused change leaves the other fields untouched
+      let project: Project | undefined = existingProject;
+      if (status !== undefined && status !== existingProject.status) {
+        project = await transitionProjectStatus(existingProject, status, user);
+      }
+      if (Object.keys(validatedData).length > 0) {
+        project = await storage.updateProject(projectId, validatedData);
+      }
       
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Send status change notifications if status changed
-      if (validatedData.status && validatedData.status !== oldStatus) {
-        try {
-          await NotificationService.notifyProjectStatusChange(
-            projectId,
-            oldStatus,
-            validatedData.status,
-            user.fullName || user.username
-          );
-        } catch (notificationError) {
-          console.error('Error sending status change notifications:', notificationError);
-          // Don't fail the update if notifications fail
-        }
-      }
-      
       // Log activity
       await storage.createActivityLog({
         projectId: project.id,
@@ -226,11 +357,175 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (error instanceof ProjectStatusError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error updating project:", error);
       res.status(500).json({ message: "Failed to update project" });
     }
   });
 
+  // Document categories the project's submittal needs, each with the rule behind it
+  app.get("/api/projects/:id/requirements", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, project.id)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await getProjectRequirements(project.id));
+    } catch (error) {
+      console.error("Error deriving project requirements:", error);
+      res.status(500).json({ message: "Failed to get project requirements" });
+    }
+  });
+  
+  // IFC Table 3206.2 protection features for the project's commodity data
+  app.get("/api/projects/:id/protection-requirements", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, project.id)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await getProjectProtectionRequirements(project.id));
+    } catch (error) {
+      console.error("Error calculating protection requirements:", error);
+      res.status(500).json({ message: "Failed to get protection requirements" });
+    }
+  });
+  
+  // Current status, the next statuses with anything blocking them, submissions and the status audit trail
+  app.get("/api/projects/:id/status", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, project.id)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await getProjectStatusOverview(project));
+    } catch (error) {
+      console.error("Error fetching project status:", error);
+      res.status(500).json({ message: "Failed to get project status" });
+    }
+  });
+  
+  // Specialists can set `override` with a reason to skip the transition rules
+  app.post("/api/projects/:id/status", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can update project status" });
+    }
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const { status, override, reason } = z.object({
+        status: z.string(),
+        override: z.boolean().optional(),
+        reason: z.string().trim().max(2000).nullish()
+      }).parse(req.body);
+      
+      res.json(await transitionProjectStatus(project, status, req.user!, { override, reason }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ProjectStatusError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error changing project status:", error);
+      res.status(500).json({ message: "Failed to change project status" });
+    }
+  });
+  
+  app.post("/api/projects/:id/authority-submissions", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can record authority submissions" });
+    }
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const data = insertAuthoritySubmissionSchema
+        .omit({ projectId: true, recordedById: true })
+        .parse(req.body);
+      
+      res.status(201).json(await recordAuthoritySubmission(project, data, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ProjectStatusError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error recording authority submission:", error);
+      res.status(500).json({ message: "Failed to record authority submission" });
+    }
+  });
+
+  // Every review decision recorded for the project, in chain order
+  app.get("/api/projects/:id/attestations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, project.id)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await storage.getApprovalAttestations(project.id));
+    } catch (error) {
+      console.error("Error getting approval attestations:", error);
+      res.status(500).json({ message: "Failed to get approval attestations" });
+    }
+  });
+  
+  // Re-checks the attestation chain and flags documents whose bytes no longer match it
+  app.get("/api/projects/:id/attestations/verify", heavyProcessingLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, project.id)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await verifyProjectAttestations(project.id));
+    } catch (error) {
+      console.error("Error verifying approval attestations:", error);
+      res.status(500).json({ message: "Failed to verify approval attestations" });
+    }
+  });
+
   app.delete("/api/projects/:id", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
@@ -329,6 +624,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       })));
       
       // Search documents in user's accessible projects
+      const documentResults = new Map<number, any>();
       for (const project of userProjects) {
         const documents = await storage.getDocumentsByProject(project.id);
         const matchingDocuments = documents.filter(doc =>
@@ -336,14 +632,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
           doc.category.toLowerCase().includes(searchTerm)
         );
         
-        results.push(...matchingDocuments.map(doc => ({
-          id: doc.id,
-          fileName: doc.fileName,
-          category: doc.category,
-          projectId: doc.projectId,
+        for (const doc of matchingDocuments) {
+          documentResults.set(doc.id, {
+            id: doc.id,
+            fileName: doc.fileName,
+            category: doc.category,
+            projectId: doc.projectId,
+            version: doc.version,
+            status: doc.status,
+            matches: [],
+            type: 'document'
+          });
+        }
+      }
+      
+      // Then inside the documents themselves, one entry per document version with its matching pages
+      const textMatches = await storage.searchDocumentText(
+        searchQuery,
+        userProjects.map(project => project.id),
+        60
+      );
+      for (const match of textMatches) {
+        const result = documentResults.get(match.documentId) ?? {
+          id: match.documentId,
+          fileName: match.fileName,
+          category: match.category,
+          projectId: match.projectId,
+          version: match.version,
+          status: match.status,
+          matches: [],
           type: 'document'
-        })));
+        };
+        if (result.matches.length < 3) {
+          result.matches.push({ pageNumber: match.pageNumber, snippet: match.snippet });
+        }
+        documentResults.set(match.documentId, result);
       }
+      results.push(...Array.from(documentResults.values()));
       
       // Search users (only specialists can see all users, stakeholders see limited results)
       if (user.role === 'specialist') {
@@ -418,12 +743,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Get all documents in the same project and category with the same filename
-      const projectDocuments = await storage.getDocumentsByProject(baseDocument.projectId);
-      const documentVersions = projectDocuments.filter(doc => 
-        doc.category === baseDocument.category && 
-        doc.fileName === baseDocument.fileName
-      );
+      // Every version in the document's lineage, newest first, whatever each one was named
+      const documentVersions = await storage.getDocumentVersions(baseDocument);
       
       console.log(`Found ${documentVersions.length} versions of document "${baseDocument.fileName}"`);
       
@@ -434,624 +755,2352 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get individual document with content
-  app.get("/api/documents/:id/content", async (req, res) => {
+  // A comparison as the client sees it: its status, and once ready the result with overlay URLs
+  const describeComparison = (comparison: DocumentComparison) => {
+    if (comparison.status !== ComparisonStatus.READY) {
+      return {
+        id: comparison.id,
+        status: comparison.status,
+        ...(comparison.status === ComparisonStatus.FAILED && { message: "These versions could not be compared" })
+      };
+    }
+    
+    const result = comparison.result as PdfComparison;
+    return {
+      ...result,
+      id: comparison.id,
+      status: comparison.status,
+      pages: result.pages.map(({ overlayKey, ...page }) => ({
+        ...page,
+        overlayUrl: overlayKey
+          ? `/api/document-comparisons/${comparison.id}/pages/${page.pageNumber}/overlay`
+          : null
+      }))
+    };
+  };
+
+  // Compare two versions from the same lineage page by page. The older version is always
+  // treated as the base. Results are cached per pair of file contents; a new pair is
+  // compared in the background and answered 202, to be polled at GET /api/document-comparisons/:id.
+  app.post("/api/documents/:id/compare", comparisonLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const documentId = parseInt(req.params.id);
-      const document = await storage.getDocument(documentId);
+      const document = await storage.getDocument(parseInt(req.params.id));
+      const other = await storage.getDocument(Number(req.body.otherId));
       
-      if (!document) {
+      if (!document || !other) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      res.json(document);
+      const lineage = await storage.getDocumentVersions(document);
+      if (document.id === other.id || !lineage.some(version => version.id === other.id)) {
+        return res.status(400).json({ message: "Only two different versions of the same document can be compared" });
+      }
+      
+      if (document.fileType !== "application/pdf" || other.fileType !== "application/pdf") {
+        return res.status(415).json({ message: "Visual comparison is only available for PDF documents" });
+      }
+      
+      const [base, target] = document.version < other.version ? [document, other] : [other, document];
+      if (!base.contentHash || !target.contentHash) {
+        return res.status(409).json({ message: "Document content has not been migrated to the blob store yet" });
+      }
+      
+      const comparison = await requestDocumentComparison(base, target);
+      res.status(comparison.status === ComparisonStatus.PENDING ? 202 : 200).json({
+        ...describeComparison(comparison),
+        baseDocument: { id: base.id, version: base.version, fileName: base.fileName },
+        targetDocument: { id: target.id, version: target.version, fileName: target.fileName }
+      });
     } catch (error) {
-      console.error("Error fetching document content:", error);
-      res.status(500).json({ message: "Failed to get document content" });
+      console.error("Error comparing documents:", error);
+      res.status(500).json({ message: "Failed to compare documents" });
     }
   });
 
-  app.post("/api/projects/:projectId/documents", writeOperationLimiter, async (req, res) => {
+  app.get("/api/document-comparisons/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const projectId = parseInt(req.params.projectId);
-      
-      // Check file size before processing
-      if (req.body.fileSize && req.body.fileSize > 50 * 1024 * 1024) { // 50MB limit
-        return res.status(413).json({ 
-          message: "File size too large. Maximum allowed size is 50MB." 
-        });
-      }
-      
-      console.log(`Document upload request for project ${projectId}: ${req.body.fileName} (${Math.round(req.body.fileSize / 1024)}KB)`);
-      
-      const validatedData = insertDocumentSchema.parse({
-        ...req.body,
-        projectId,
-        uploadedById: req.user!.id
-      });
-      
-      const document = await storage.createDocument(validatedData);
-      
-      // Log activity
-      await storage.createActivityLog({
-        projectId,
-        userId: req.user!.id,
-        activityType: "document_uploaded",
-        description: `Document "${document.fileName}" was uploaded for category "${document.category}"`
-      });
-      
-      // Send notifications
-      try {
-        const uploader = req.user!;
-        await NotificationService.notifyDocumentUploaded(
-          projectId,
-          uploader.fullName || uploader.username,
-          document.category,
-          document.fileName
-        );
-      } catch (notificationError) {
-        console.error('Error sending document upload notifications:', notificationError);
-        // Don't fail the upload if notifications fail
+      const comparison = await storage.getDocumentComparisonById(parseInt(req.params.id));
+      if (!comparison) {
+        return res.status(404).json({ message: "Comparison not found" });
       }
-      
-      console.log(`Document uploaded successfully: ${document.fileName}`);
-      res.status(201).json(document);
+      res.json(describeComparison(comparison));
     } catch (error) {
-      console.error("Document upload error:", error);
-      
-      if (error instanceof Error) {
-        // Handle specific error types
-        if (error.message.includes('aborted')) {
-          res.status(408).json({ message: "Upload timeout. Please try with a smaller file." });
-        } else if (error.message.includes('too large')) {
-          res.status(413).json({ message: "File size too large. Maximum allowed size is 1MB." });
-        } else {
-          res.status(400).json({ message: "Upload failed. Please try again with a smaller file.", error: error.message });
-        }
-      } else {
-        res.status(500).json({ message: "Server error during upload. Please try again." });
-      }
+      console.error("Error fetching document comparison:", error);
+      res.status(500).json({ message: "Failed to get document comparison" });
     }
   });
 
-  app.patch("/api/documents/:id", writeOperationLimiter, async (req, res) => {
+  app.get("/api/document-comparisons/:id/pages/:pageNumber/overlay", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const documentId = parseInt(req.params.id);
-      const document = await storage.getDocument(documentId);
+      const comparison = await storage.getDocumentComparisonById(parseInt(req.params.id));
+      const pageNumber = parseInt(req.params.pageNumber);
+      const page = (comparison?.result as PdfComparison | undefined)?.pages
+        .find(candidate => candidate.pageNumber === pageNumber);
       
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      if (!page?.overlayKey) {
+        return res.status(404).json({ message: "Overlay not found" });
       }
       
-      const updatedDocument = await storage.updateDocument(documentId, {
-        ...req.body,
-        ...(req.body.status && { 
-          reviewedById: req.user!.id,
-          reviewedAt: new Date()
-        })
-      });
-      
-      // Log activity if status changed
-      if (req.body.status && req.body.status !== document.status) {
-        await storage.createActivityLog({
-          projectId: document.projectId,
-          userId: req.user!.id,
-          activityType: `document_${req.body.status}`,
-          description: `Document "${document.fileName}" was ${req.body.status}`
-        });
+      const blobStore = await getBlobStore();
+      const stream = await blobStore.getStream(page.overlayKey);
+      if (!stream) {
+        return res.status(404).json({ message: "Overlay not found" });
       }
       
-      res.json(updatedDocument);
+      // Overlays are content-addressed and never change
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+      stream.on("error", (error) => {
+        console.error("Error streaming comparison overlay:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update document", error });
+      console.error("Error fetching comparison overlay:", error);
+      res.status(500).json({ message: "Failed to get comparison overlay" });
     }
   });
-  
-  // Delete document route
-  app.delete("/api/documents/:id", writeOperationLimiter, async (req, res) => {
+
+  // Get individual document with content
+  app.get("/api/documents/:id/content", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const documentId = parseInt(req.params.id);
-      
-      // Get document details before deletion for activity log
       const document = await storage.getDocument(documentId);
+      
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Delete the document
-      const success = await storage.deleteDocument(documentId);
-      
-      if (!success) {
-        return res.status(500).json({ message: "Failed to delete document" });
+      const stream = await storage.getDocumentContentStream(document);
+      if (!stream) {
+        return res.status(404).json({ message: "Document content not found" });
       }
       
-      // Log the deletion activity
-      await storage.createActivityLog({
-        projectId: document.projectId,
-        userId: req.user!.id,
-        activityType: "document_deleted",
-        description: `Document "${document.fileName}" (v${document.version}) was deleted`
+      // The file type comes from the uploader, so only types the browser can't run script
+      // from are shown inline (letting it embed PDFs); anything else, or ?download=1, is saved
+      const fileType = document.fileType || "application/octet-stream";
+      const disposition = !req.query.download && INLINE_CONTENT_TYPES.has(fileType.toLowerCase()) ? "inline" : "attachment";
+      res.setHeader("Content-Type", fileType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Disposition", formatContentDisposition(disposition, document.fileName));
+      if (disposition === "attachment") {
+        res.setHeader("Content-Security-Policy", "sandbox");
+      }
+      if (document.contentHash) {
+        res.setHeader("Content-Length", document.fileSize);
+        res.setHeader("ETag", `"${document.contentHash}"`);
+      }
+      stream.on("error", (error) => {
+        console.error("Error streaming document content:", error);
+        res.destroy(error);
       });
-      
-      res.json({ message: "Document deleted successfully" });
+      stream.pipe(res);
     } catch (error) {
-      console.error("Error deleting document:", error);
-      res.status(500).json({ message: "Failed to delete document" });
+      console.error("Error fetching document content:", error);
+      res.status(500).json({ message: "Failed to get document content" });
     }
   });
 
-  app.delete("/api/projects/:projectId/documents/:id", writeOperationLimiter, async (req, res) => {
+  // Lists the page previews of a document. Previews are rendered after upload, so a
+  // fresh document reports "pending" until that has finished.
+  app.get("/api/documents/:id/previews", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const projectId = parseInt(req.params.projectId);
-      const documentId = parseInt(req.params.id);
-      
-      // Get document information before deleting
-      const document = await storage.getDocument(documentId);
-      
+      const document = await storage.getDocument(parseInt(req.params.id));
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
       
-      // Verify document belongs to the specified project
-      if (document.projectId !== projectId) {
-        return res.status(403).json({ message: "Document does not belong to this project" });
+      const status = document.previewStatus ?? "pending";
+      const pageCount = document.pageCount ?? 0;
+      res.json({
+        status,
+        pageCount,
+        thumbnailUrl: status === "ready" ? `/api/documents/${document.id}/thumbnail` : null,
+        pages: Array.from({ length: status === "ready" ? pageCount : 0 }, (_, index) => ({
+          pageNumber: index + 1,
+          url: `/api/documents/${document.id}/pages/${index + 1}/preview`
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching document previews:", error);
+      res.status(500).json({ message: "Failed to get document previews" });
+    }
+  });
+  
+  const sendDocumentPreview = async (req: Request, res: Response, kind: PreviewKindType, pageNumber: number) => {
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
       }
       
-      // Delete the document
-      const success = await storage.deleteDocument(documentId);
+      const preview = await getDocumentPreview(document, kind, pageNumber);
+      if (req.headers["if-none-match"] === `"${preview.blobKey}"`) {
+        return res.sendStatus(304);
+      }
       
-      if (!success) {
-        return res.status(404).json({ message: "Document not found or could not be deleted" });
+      const blobStore = await getBlobStore();
+      const stream = await blobStore.getStream(preview.blobKey);
+      if (!stream) {
+        return res.status(404).json({ message: "Preview not found" });
       }
       
-      // Log activity
-      await storage.createActivityLog({
-        projectId,
-        userId: req.user!.id,
-        activityType: "document_deleted",
-        description: `Document "${document.fileName}" was deleted`
+      // A document's bytes never change (new uploads are new versions), so neither do its previews
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.setHeader("ETag", `"${preview.blobKey}"`);
+      stream.on("error", (error) => {
+        console.error("Error streaming document preview:", error);
+        res.destroy(error);
       });
-      
-      res.status(200).json({ success: true });
+      stream.pipe(res);
     } catch (error) {
-      console.error("Error deleting document:", error);
-      res.status(500).json({ message: "Failed to delete document" });
+      if (error instanceof PreviewUnavailableError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error fetching document preview:", error);
+      res.status(500).json({ message: "Failed to get document preview" });
     }
+  };
+  
+  app.get("/api/documents/:id/thumbnail", previewImageLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    await sendDocumentPreview(req, res, PreviewKind.THUMBNAIL, 1);
   });
-
-  // Commodities routes
-  app.get("/api/projects/:projectId/commodities", async (req, res) => {
+  
+  app.get("/api/documents/:id/pages/:pageNumber/preview", previewImageLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    try {
-      const projectId = parseInt(req.params.projectId);
-      const commodities = await storage.getCommoditiesByProject(projectId);
-      res.json(commodities);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to get commodities" });
-    }
+    await sendDocumentPreview(req, res, PreviewKind.PAGE, parseInt(req.params.pageNumber));
   });
-
-  app.post("/api/projects/:projectId/commodities", writeOperationLimiter, async (req, res) => {
+  
+  // Markup pinned to pages of a document version
+  app.get("/api/documents/:id/annotations", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const projectId = parseInt(req.params.projectId);
-      const validatedData = insertCommoditiesSchema.parse({
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await storage.getDocumentAnnotations(document.id));
+    } catch (error) {
+      console.error("Error fetching annotations:", error);
+      res.status(500).json({ message: "Failed to get annotations" });
+    }
+  });
+  
+  app.post("/api/documents/:id/annotations", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      // Superseded versions are read-only; open markup has already moved to the newer version
+      if (document.status === DocumentStatus.SUPERSEDED) {
+        return res.status(409).json({ message: "This version has been superseded by a newer upload" });
+      }
+      
+      const validatedData = insertDocumentAnnotationSchema.parse({
         ...req.body,
-        projectId,
-        createdById: req.user!.id
+        documentId: document.id,
+        authorId: req.user!.id
       });
+      const annotation = await storage.createDocumentAnnotation(validatedData);
       
-      const commodity = await storage.createCommodity(validatedData);
-      
-      // Log activity
       await storage.createActivityLog({
-        projectId,
+        projectId: document.projectId,
         userId: req.user!.id,
-        activityType: "commodities_added",
-        description: "Commodities information was added to the project"
+        activityType: "annotation_added",
+        description: `Annotation added on page ${annotation.pageNumber} of "${document.fileName}" v${document.version}`
       });
       
-      res.status(201).json(commodity);
+      res.status(201).json(annotation);
     } catch (error) {
-      res.status(400).json({ message: "Invalid commodities data", error });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating annotation:", error);
+      res.status(500).json({ message: "Failed to create annotation" });
     }
   });
-
-  // Project stakeholders routes
-  app.get("/api/projects/:projectId/stakeholders", async (req, res) => {
+  
+  // Authors can reword their own markup; authors and specialists can resolve or reopen it
+  app.patch("/api/annotations/:id", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const projectId = parseInt(req.params.projectId);
-      const stakeholders = await storage.getProjectStakeholders(projectId);
+      const annotation = await storage.getDocumentAnnotation(parseInt(req.params.id));
+      if (!annotation) {
+        return res.status(404).json({ message: "Annotation not found" });
+      }
+      const document = await storage.getDocument(annotation.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      // Markup on a superseded version is read-only, as it is for new annotations
+      if (document.status === DocumentStatus.SUPERSEDED) {
+        return res.status(409).json({ message: "This version has been superseded by a newer upload" });
+      }
       
-      // Get user details for each stakeholder
-      const stakeholdersWithUsers = await Promise.all(
-        stakeholders.map(async (stakeholder) => {
-          const user = await storage.getUser(stakeholder.userId);
-          return {
-            ...stakeholder,
-            user: user ? {
-              fullName: user.fullName,
-              email: user.email,
-              username: user.username
-            } : null
-          };
+      const { text, resolved } = z.object({
+        text: z.string().trim().min(1, "Annotation text is required").max(2000).optional(),
+        resolved: z.boolean().optional()
+      }).parse(req.body);
+      
+      const user = req.user!;
+      const isAuthor = annotation.authorId === user.id;
+      if (text !== undefined && !isAuthor) {
+        return res.status(403).json({ message: "Only the author can edit an annotation" });
+      }
+      if (resolved !== undefined && !isAuthor && user.role !== UserRole.SPECIALIST) {
+        return res.status(403).json({ message: "Only the author or a specialist can resolve an annotation" });
+      }
+      
+      const updated = await storage.updateDocumentAnnotation(annotation.id, {
+        ...(text !== undefined && { text }),
+        ...(resolved !== undefined && {
+          resolved,
+          resolvedById: resolved ? user.id : null,
+          resolvedAt: resolved ? new Date() : null
         })
+      });
+      
+      if (resolved !== undefined && resolved !== annotation.resolved) {
+        await storage.createActivityLog({
+          projectId: document.projectId,
+          userId: user.id,
+          activityType: resolved ? "annotation_resolved" : "annotation_reopened",
+          description: `Annotation on page ${annotation.pageNumber} of "${document.fileName}" v${document.version} was ${resolved ? "resolved" : "reopened"}`
+        });
+      }
+      
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating annotation:", error);
+      res.status(500).json({ message: "Failed to update annotation" });
+    }
+  });
+  
+  app.delete("/api/annotations/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const annotation = await storage.getDocumentAnnotation(parseInt(req.params.id));
+      if (!annotation) {
+        return res.status(404).json({ message: "Annotation not found" });
+      }
+      const document = await storage.getDocument(annotation.documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      if (annotation.authorId !== req.user!.id && req.user!.role !== UserRole.SPECIALIST) {
+        return res.status(403).json({ message: "Only the author or a specialist can delete an annotation" });
+      }
+      
+      await storage.deleteDocumentAnnotation(annotation.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting annotation:", error);
+      res.status(500).json({ message: "Failed to delete annotation" });
+    }
+  });
+  
+  // Shared tail of both upload paths: record the document, log it and notify stakeholders
+  const finishDocumentUpload = async (
+    user: User,
+    projectId: number,
+    fields: { category: string; fileName: string; fileType: string; status?: string },
+    blob: StoredBlob,
+    previousVersion?: Document
+  ) => {
+    // An upload can only be queued for review; approving or rejecting it goes through the
+    // review routes, so the approval chain, checklist and attestation all apply
+    const status = fields.status === DocumentStatus.PENDING_REVIEW ? DocumentStatus.PENDING_REVIEW : DocumentStatus.NOT_SUBMITTED;
+    const validatedData = insertDocumentSchema.parse({
+      ...fields,
+      status,
+      fileSize: blob.size,
+      projectId,
+      uploadedById: user.id
+    });
+    
+    const document = await storage.createDocument(validatedData, blob, previousVersion);
+    queueDocumentTextIndexing(document);
+    queueDocumentPreviews(document);
+    
+    // Log activity
+    await storage.createActivityLog({
+      projectId,
+      userId: user.id,
+      activityType: "document_uploaded",
+      description: previousVersion
+        ? `Version ${document.version} of "${previousVersion.fileName}" was uploaded as "${document.fileName}"`
+        : `Document "${document.fileName}" was uploaded for category "${document.category}"`
+    });
+    
+    // Send notifications
+    try {
+      await NotificationService.notifyDocumentUploaded(
+        projectId,
+        user.fullName || user.username,
+        document.category,
+        document.fileName
       );
+    } catch (notificationError) {
+      console.error('Error sending document upload notifications:', notificationError);
+      // Don't fail the upload if notifications fail
+    }
+    
+    // A version submitted for review goes through its category's approval chain from the first
+    // stage; one that isn't submitted yet gets its chain when it is first signed off
+    try {
+      if (previousVersion) {
+        await closeApprovalTasks(previousVersion);
+      }
+      if (document.status === DocumentStatus.PENDING_REVIEW) {
+        await startApprovalChain(document, user);
+      }
+    } catch (approvalError) {
+      console.error('Error starting document approval chain:', approvalError);
+    }
+    
+    return document;
+  };
+  
+  // Resolves the document a new version is being uploaded for, making sure it belongs to the project
+  const findPreviousVersion = async (projectId: number, previousVersionId: unknown) => {
+    if (previousVersionId === undefined || previousVersionId === null || previousVersionId === "") {
+      return undefined;
+    }
+    const previousVersion = await storage.getDocument(Number(previousVersionId));
+    if (!previousVersion || previousVersion.projectId !== projectId) {
+      throw new UploadError(404, "The document being versioned was not found in this project");
+    }
+    return previousVersion;
+  };
+  
+  const sendUploadError = (res: Response, error: unknown, fallbackMessage: string) => {
+    if (error instanceof UploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid upload", errors: error.errors });
+    }
+    return res.status(500).json({ message: fallbackMessage });
+  };
+
+  // Single-request upload. The body is multipart/form-data with `category` (and optionally
+  // `status`) fields followed by a `file` part, which is streamed to disk rather than buffered.
+  // A `previousVersionId` field uploads the file as the next version of that document.
+  app.post("/api/projects/:projectId/documents", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    let tempPath: string | undefined;
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      res.json(stakeholdersWithUsers);
+      const { fields, file } = await receiveMultipartUpload(req);
+      tempPath = file.tempPath;
+      
+      console.log(`Document upload request for project ${projectId}: ${file.fileName} (${Math.round(file.size / 1024)}KB)`);
+      
+      if (file.size === 0) {
+        throw new UploadError(400, "The uploaded file is empty");
+      }
+      
+      const previousVersion = await findPreviousVersion(projectId, fields.previousVersionId);
+      
+      const blobStore = await getBlobStore();
+      const blob = await blobStore.putFile(file.tempPath);
+      tempPath = undefined;
+      
+      const document = await finishDocumentUpload(req.user!, projectId, {
+        category: previousVersion?.category ?? fields.category,
+        fileName: fields.fileName || file.fileName,
+        fileType: fields.fileType || file.mimeType,
+        status: fields.status
+      }, blob, previousVersion);
+      
+      console.log(`Document uploaded successfully: ${document.fileName}`);
+      res.status(201).json(document);
     } catch (error) {
-      console.error("Error getting stakeholders:", error);
-      res.status(500).json({ message: "Failed to get stakeholders" });
+      console.error("Document upload error:", error);
+      sendUploadError(res, error, "Server error during upload. Please try again.");
+    } finally {
+      if (tempPath) await removeTempFile(tempPath);
     }
   });
 
-  app.post("/api/projects/:projectId/stakeholders", writeOperationLimiter, async (req, res) => {
+  // Resumable uploads. The client opens a session, PUTs each chunk with its SHA-256 in the
+  // X-Chunk-Sha256 header, and completes the session once every chunk has been accepted.
+  // An interrupted upload is resumed by fetching the session and sending the missing chunks.
+  const getOwnUploadSession = async (req: Request, res: Response) => {
+    const uploadSession = await storage.getUploadSession(req.params.id);
+    if (!uploadSession || uploadSession.createdById !== req.user!.id) {
+      res.status(404).json({ message: "Upload session not found" });
+      return undefined;
+    }
+    if (uploadSession.status === "pending" && uploadSession.expiresAt < new Date()) {
+      res.status(410).json({ message: "Upload session has expired" });
+      return undefined;
+    }
+    return uploadSession;
+  };
+  
+  const describeUploadSession = (uploadSession: UploadSession) => {
+    const receivedChunks = Object.keys(uploadSession.receivedChunks as Record<string, string>)
+      .map(Number)
+      .sort((a, b) => a - b);
+    return {
+      id: uploadSession.id,
+      fileName: uploadSession.fileName,
+      fileSize: uploadSession.fileSize,
+      chunkSize: uploadSession.chunkSize,
+      totalChunks: uploadSession.totalChunks,
+      receivedChunks,
+      status: uploadSession.status,
+      documentId: uploadSession.documentId,
+      expiresAt: uploadSession.expiresAt
+    };
+  };
+
+  app.post("/api/projects/:projectId/uploads", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
       const projectId = parseInt(req.params.projectId);
-      const validatedData = insertProjectStakeholderSchema.parse({
-        ...req.body,
-        projectId,
-        addedById: req.user!.id
-      });
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      const stakeholder = await storage.createProjectStakeholder(validatedData);
+      const fileSize = Number(req.body.fileSize);
+      if (!Number.isInteger(fileSize) || fileSize <= 0) {
+        return res.status(400).json({ message: "fileSize must be a positive number of bytes" });
+      }
+      if (fileSize > MAX_UPLOAD_BYTES) {
+        return res.status(413).json({ 
+          message: `File size too large. Maximum allowed size is ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))}MB.` 
+        });
+      }
       
-      // Get user details for the log
-      const user = await storage.getUser(req.body.userId);
-      const userName = user ? user.fullName : "Unknown user";
-      const roleList = Array.isArray(stakeholder.roles) ? stakeholder.roles.join(', ') : 'stakeholder';
+      const previousVersion = await findPreviousVersion(projectId, req.body.previousVersionId);
       
-      // Log activity
-      await storage.createActivityLog({
+      const requestedChunkSize = Number(req.body.chunkSize) || DEFAULT_CHUNK_SIZE;
+      const chunkSize = Math.min(Math.max(requestedChunkSize, MIN_CHUNK_SIZE), MAX_CHUNK_SIZE);
+      
+      const validatedData = insertUploadSessionSchema.parse({
         projectId,
-        userId: req.user!.id,
-        activityType: "stakeholder_added",
-        description: `${userName} was added as a stakeholder with roles: ${roleList}`
+        category: previousVersion?.category ?? req.body.category,
+        previousVersionId: previousVersion?.id ?? null,
+        fileName: req.body.fileName,
+        fileType: req.body.fileType || "application/octet-stream",
+        fileSize,
+        chunkSize,
+        totalChunks: Math.ceil(fileSize / chunkSize),
+        checksum: typeof req.body.checksum === "string" ? req.body.checksum.toLowerCase() : null,
+        createdById: req.user!.id,
+        expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS)
       });
       
-      res.status(201).json(stakeholder);
+      const uploadSession = await storage.createUploadSession({
+        ...validatedData,
+        id: createUploadSessionId()
+      });
+      
+      res.status(201).json(describeUploadSession(uploadSession));
     } catch (error) {
-      console.error("Error creating stakeholder:", error);
-      res.status(400).json({ message: "Invalid stakeholder data", error });
+      console.error("Error creating upload session:", error);
+      sendUploadError(res, error, "Failed to start upload");
     }
   });
 
-  app.put("/api/stakeholders/:id", writeOperationLimiter, async (req, res) => {
+  app.get("/api/uploads/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const id = parseInt(req.params.id);
-      const stakeholder = await storage.updateProjectStakeholder(id, req.body);
+      const uploadSession = await getOwnUploadSession(req, res);
+      if (!uploadSession) return;
       
-      if (!stakeholder) {
-        return res.status(404).json({ message: "Stakeholder not found" });
+      res.json(describeUploadSession(uploadSession));
+    } catch (error) {
+      console.error("Error fetching upload session:", error);
+      sendUploadError(res, error, "Failed to get upload session");
+    }
+  });
+
+  // Chunks are small and numerous, so they get their own budget instead of sharing writeOperationLimiter
+  app.put("/api/uploads/:id/chunks/:index", uploadChunkLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const uploadSession = await getOwnUploadSession(req, res);
+      if (!uploadSession) return;
+      
+      if (uploadSession.status !== "pending") {
+        return res.status(409).json({ message: "Upload session is already complete" });
       }
       
-      res.json(stakeholder);
+      const index = Number(req.params.index);
+      if (!Number.isInteger(index) || index < 0 || index >= uploadSession.totalChunks) {
+        return res.status(400).json({ message: "Chunk index is out of range" });
+      }
+      
+      const expectedChecksum = req.get("X-Chunk-Sha256");
+      if (!expectedChecksum || !/^[a-fA-F0-9]{64}$/.test(expectedChecksum)) {
+        return res.status(400).json({ message: "X-Chunk-Sha256 header is required" });
+      }
+      
+      const checksum = await writeUploadChunk(
+        uploadSession.id,
+        index,
+        req,
+        expectedChunkSize(uploadSession.fileSize, uploadSession.chunkSize, index),
+        expectedChecksum
+      );
+      
+      const updatedSession = await storage.recordUploadChunk(uploadSession.id, index, checksum);
+      if (!updatedSession) {
+        return res.status(409).json({ message: "Upload session is already complete" });
+      }
+      
+      res.json(describeUploadSession(updatedSession));
     } catch (error) {
-      console.error("Error updating stakeholder:", error);
-      res.status(400).json({ message: "Invalid stakeholder update data", error });
+      console.error("Error receiving upload chunk:", error);
+      sendUploadError(res, error, "Failed to store chunk");
     }
   });
 
-  app.delete("/api/stakeholders/:id", writeOperationLimiter, async (req, res) => {
+  app.post("/api/uploads/:id/complete", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
+    let tempPath: string | undefined;
+    let claimedId: string | undefined;
     try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteProjectStakeholder(id);
+      const uploadSession = await getOwnUploadSession(req, res);
+      if (!uploadSession) return;
       
-      if (!success) {
-        return res.status(404).json({ message: "Stakeholder not found" });
+      // Completing twice (e.g. the response to the first attempt was lost) returns the same document
+      if (uploadSession.status === "completed" && uploadSession.documentId) {
+        const existingDocument = await storage.getDocument(uploadSession.documentId);
+        if (existingDocument) return res.json(existingDocument);
       }
       
-      res.json({ message: "Stakeholder removed successfully" });
+      const { receivedChunks } = describeUploadSession(uploadSession);
+      if (receivedChunks.length !== uploadSession.totalChunks) {
+        return res.status(409).json({
+          message: `Upload is incomplete: ${receivedChunks.length} of ${uploadSession.totalChunks} chunks received`,
+          receivedChunks
+        });
+      }
+      
+      // Only one request assembles the file; a concurrent retry would otherwise create a second document
+      if (!await storage.claimUploadSession(uploadSession.id)) {
+        return res.status(409).json({ message: "Upload is already being completed" });
+      }
+      claimedId = uploadSession.id;
+      
+      tempPath = await assembleUploadChunks(uploadSession.id, uploadSession.totalChunks);
+      
+      const assembled = await hashFile(tempPath);
+      if (assembled.size !== uploadSession.fileSize) {
+        throw new UploadError(422, "Assembled file size does not match the declared size");
+      }
+      if (uploadSession.checksum && assembled.key !== uploadSession.checksum) {
+        throw new UploadError(422, "Checksum mismatch for the assembled file");
+      }
+      
+      const blobStore = await getBlobStore();
+      const blob = await blobStore.putFile(tempPath);
+      tempPath = undefined;
+      
+      const previousVersion = await findPreviousVersion(uploadSession.projectId, uploadSession.previousVersionId);
+      
+      const document = await finishDocumentUpload(req.user!, uploadSession.projectId, {
+        category: uploadSession.category,
+        fileName: uploadSession.fileName,
+        fileType: uploadSession.fileType,
+        status: req.body?.status
+      }, blob, previousVersion);
+      
+      await storage.completeUploadSession(uploadSession.id, document.id);
+      claimedId = undefined;
+      await removeUploadChunks(uploadSession.id);
+      
+      console.log(`Chunked upload ${uploadSession.id} completed as document ${document.id}`);
+      res.status(201).json(document);
     } catch (error) {
-      console.error("Error deleting stakeholder:", error);
-      res.status(500).json({ message: "Failed to remove stakeholder" });
+      console.error("Error completing upload:", error);
+      if (claimedId) {
+        await storage.releaseUploadSession(claimedId).catch(releaseError =>
+          console.error("Error releasing upload session:", releaseError));
+      }
+      sendUploadError(res, error, "Failed to complete upload");
+    } finally {
+      if (tempPath) await removeTempFile(tempPath);
     }
   });
 
-  // Stakeholder tasks routes
-  app.get("/api/projects/:projectId/tasks", async (req, res) => {
+  app.delete("/api/uploads/:id", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const projectId = parseInt(req.params.projectId);
-      const tasks = await storage.getProjectStakeholderTasks(projectId);
-      res.json(tasks);
+      const uploadSession = await storage.getUploadSession(req.params.id);
+      if (!uploadSession || uploadSession.createdById !== req.user!.id) {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+      
+      await removeUploadChunks(uploadSession.id);
+      await storage.deleteUploadSession(uploadSession.id);
+      res.sendStatus(204);
     } catch (error) {
-      console.error("Error getting stakeholder tasks:", error);
-      res.status(500).json({ message: "Failed to get stakeholder tasks" });
+      console.error("Error cancelling upload:", error);
+      sendUploadError(res, error, "Failed to cancel upload");
     }
   });
 
-  app.post("/api/stakeholders/:stakeholderId/tasks", writeOperationLimiter, async (req, res) => {
+  // The category review checklist for a version, with each reviewer's saved answers
+  app.get("/api/documents/:id/checklist", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const stakeholderId = parseInt(req.params.stakeholderId);
-      const user = req.user as any;
-      
-      console.log('Creating stakeholder task:', { stakeholderId, body: req.body });
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
       
-      const validatedData = insertStakeholderTaskSchema.parse({
-        ...req.body,
-        stakeholderId,
-        createdById: user.id
-      });
+      res.json(await getDocumentChecklist(document));
+    } catch (error) {
+      console.error("Error fetching review checklist:", error);
+      res.status(500).json({ message: "Failed to get review checklist" });
+    }
+  });
+  
+  // Saves the current user's answers; items left out of the body keep their saved state
+  app.put("/api/documents/:id/checklist", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      if (document.status === DocumentStatus.SUPERSEDED) {
+        return res.status(409).json({ message: "This version has been superseded by a newer upload" });
+      }
       
-      const task = await storage.createStakeholderTask(validatedData);
+      const { items } = z.object({
+        items: z.array(z.object({
+          itemId: z.string(),
+          checked: z.boolean(),
+          note: z.string().max(2000).nullish()
+        })).max(100)
+      }).parse(req.body);
       
-      // Send notifications using the new NotificationService
-      const stakeholder = await storage.getProjectStakeholder(stakeholderId);
-      if (stakeholder) {
-        try {
-          await NotificationService.notifyTaskAssigned(
-            task.id,
-            stakeholder.userId,
-            user.fullName || user.username,
-            stakeholder.projectId,
-            task.description
-          );
-          
-          // Create activity log
+      await saveReviewerChecklist(document, req.user!.id, items);
+      res.json(await getDocumentChecklist(document));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ChecklistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error saving review checklist:", error);
+      res.status(500).json({ message: "Failed to save review checklist" });
+    }
+  });
+
+  // Where the version is in its category's approval chain, and whether the current user signs next
+  app.get("/api/documents/:id/approval", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      res.json(await getDocumentApproval(document, req.user!));
+    } catch (error) {
+      console.error("Error fetching document approval:", error);
+      res.status(500).json({ message: "Failed to get document approval" });
+    }
+  });
+  
+  app.post("/api/documents/:id/approval/sign-off", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const { comments } = z.object({
+        comments: z.string().max(2000).nullish()
+      }).parse(req.body);
+      
+      res.json(await signOffApprovalStage(document, req.user!, comments ?? null));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ApprovalChainError) {
+        return res.status(error.status).json({ message: error.message, unsatisfiedItems: error.unsatisfiedItems });
+      }
+      if (error instanceof AttestationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error signing off approval stage:", error);
+      res.status(500).json({ message: "Failed to sign off approval stage" });
+    }
+  });
+
+  // Approves, rejects or requests changes on a selection of one project's documents at once
+  app.post("/api/documents/bulk-review", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can review documents in bulk" });
+    }
+    
+    try {
+      const request = z.object({
+        documentIds: z.array(z.number().int()).min(1).max(MAX_BULK_REVIEW_DOCUMENTS),
+        action: z.enum([BulkReviewAction.APPROVE, BulkReviewAction.REJECT, BulkReviewAction.REQUEST_CHANGES]),
+        comments: z.string().max(5000).nullish(),
+        reasonCodes: z.array(z.string()).optional()
+      }).parse(req.body);
+      
+      const documents = await applyBulkReview({ ...request, comments: request.comments ?? null }, req.user!);
+      res.json({ documents });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof BulkReviewError) {
+        return res.status(error.status).json({ message: error.message, problems: error.problems });
+      }
+      console.error("Error applying bulk review:", error);
+      res.status(500).json({ message: "Failed to review documents" });
+    }
+  });
+  
+  app.patch("/api/documents/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const documentId = parseInt(req.params.id);
+      const document = await storage.getDocument(documentId);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Review fields only: a version's content and identity are fixed once uploaded,
+      // which is what lets attestations vouch for the bytes that were reviewed
+      const { reasonCodes, ...changes } = z.object({
+        status: z.enum([
+          DocumentStatus.NOT_SUBMITTED,
+          DocumentStatus.PENDING_REVIEW,
+          DocumentStatus.APPROVED,
+          DocumentStatus.REJECTED,
+          DocumentStatus.SUPERSEDED
+        ]).optional(),
+        comments: z.string().nullish(),
+        reasonCodes: z.array(z.string()).optional()
+      }).parse(req.body);
+      
+      // Reviewing is a specialist's job, as with bulk review; stakeholders sign off approval stages instead
+      if (changes.status && req.user!.role !== UserRole.SPECIALIST) {
+        return res.status(403).json({ message: "Only specialists can change a document's review status" });
+      }
+      
+      // Only the current version of a lineage can be reviewed
+      if (changes.status && document.status === DocumentStatus.SUPERSEDED) {
+        return res.status(409).json({ message: "This version has been superseded by a newer upload" });
+      }
+      if (changes.status === DocumentStatus.SUPERSEDED) {
+        return res.status(400).json({ message: "Documents are superseded by uploading a new version" });
+      }
+      
+      // Categories with an approval chain are approved by signing off its stages
+      const isApproval = changes.status === DocumentStatus.APPROVED && document.status !== DocumentStatus.APPROVED;
+      if (isApproval && await requiresApprovalChain(document)) {
+        return res.status(409).json({ message: "This document is approved through its approval chain; sign off the current stage instead" });
+      }
+      
+      // Approval needs the approving reviewer's checklist for this version to be complete
+      if (isApproval) {
+        const unsatisfied = await findUnsatisfiedChecklistItems(document, req.user!.id);
+        if (unsatisfied.length > 0) {
+          return res.status(409).json({
+            message: `Complete the review checklist before approving (${unsatisfied.length} required item${unsatisfied.length === 1 ? "" : "s"} unchecked)`,
+            unsatisfiedItems: unsatisfied.map(item => ({ id: item.id, label: item.label }))
+          });
+        }
+      }
+      
+      // Rejections are categorised with reason codes so reports can show why submittals bounce
+      const isRejection = changes.status === DocumentStatus.REJECTED && document.status !== DocumentStatus.REJECTED;
+      const rejectionReasons = isRejection ? validateRejectionReasons(document.category, reasonCodes) : null;
+      
+      // Hash the bytes before the decision is recorded, so an unreadable version can't be approved
+      const isDecision = (changes.status === DocumentStatus.APPROVED || changes.status === DocumentStatus.REJECTED) &&
+        changes.status !== document.status;
+      const contentHash = isDecision ? await hashDocumentForAttestation(document) : null;
+      
+      // The status change and the records that follow from it are kept together, as bulk review keeps them
+      const updatedDocument = await storage.inTransaction(async () => {
+        const updated = await storage.updateDocument(documentId, {
+          ...changes,
+          ...(changes.status && { 
+            reviewedById: req.user!.id,
+            reviewedAt: new Date()
+          }),
+          ...(changes.status && changes.status !== document.status && { rejectionReasons })
+        });
+      
+        // Log activity if status changed
+        if (changes.status && changes.status !== document.status) {
           await storage.createActivityLog({
-            projectId: stakeholder.projectId,
-            userId: user.id,
-            activityType: 'task_assigned',
-            description: `Task assigned to stakeholder: ${task.description}`,
+            projectId: document.projectId,
+            userId: req.user!.id,
+            activityType: `document_${changes.status}`,
+            description: rejectionReasons
+              ? `Document "${document.fileName}" was rejected: ${describeRejectionReasons(rejectionReasons)}`
+              : `Document "${document.fileName}" was ${changes.status}`
           });
-        } catch (notificationError) {
-          console.error('Error sending task assignment notifications:', notificationError);
-          // Don't fail the task assignment if notifications fail
         }
+        if (rejectionReasons) {
+          await recordDocumentRejection(document, req.user!, rejectionReasons, changes.comments ?? null);
+        }
+        if (contentHash) {
+          await attestReviewDecision(document, req.user!, {
+            decision: changes.status!,
+            comments: changes.comments ?? null,
+            contentHash
+          });
+        }
+        if (isApproval) {
+          await logCompletedChecklist(document, req.user!);
+        }
+        if (changes.status) {
+          await recordReviewDecision(document, req.user!, changes.status, changes.comments ?? null);
+        }
+        if (isRejection) {
+          await rejectApprovalStage(document, req.user!, changes.comments ?? null);
+        }
+        if (changes.status === DocumentStatus.PENDING_REVIEW && document.status === DocumentStatus.REJECTED) {
+          await restartApprovalChain(document, req.user!);
+        }
+        return updated;
+      });
+      
+      res.json(updatedDocument);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (error instanceof AttestationError || error instanceof RejectionReasonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Failed to update document", error });
+    }
+  });
+  
+  // Delete document route
+  app.delete("/api/documents/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const documentId = parseInt(req.params.id);
       
-      console.log('Task assignment completed successfully');
-      res.status(201).json(task);
+      // Get document details before deletion for activity log
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Delete the document
+      const success = await storage.deleteDocument(documentId);
+      
+      if (!success) {
+        return res.status(500).json({ message: "Failed to delete document" });
+      }
+      
+      // Log the deletion activity
+      await storage.createActivityLog({
+        projectId: document.projectId,
+        userId: req.user!.id,
+        activityType: "document_deleted",
+        description: `Document "${document.fileName}" (v${document.version}) was deleted`
+      });
+      
+      res.json({ message: "Document deleted successfully" });
     } catch (error) {
-      console.error("Error creating stakeholder task:", error);
-      res.status(500).json({ message: "Failed to create task", error: error instanceof Error ? error.message : 'Unknown error' });
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/documents/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const documentId = parseInt(req.params.id);
+      
+      // Get document information before deleting
+      const document = await storage.getDocument(documentId);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Verify document belongs to the specified project
+      if (document.projectId !== projectId) {
+        return res.status(403).json({ message: "Document does not belong to this project" });
+      }
+      
+      // Delete the document
+      const success = await storage.deleteDocument(documentId);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Document not found or could not be deleted" });
+      }
+      
+      // Log activity
+      await storage.createActivityLog({
+        projectId,
+        userId: req.user!.id,
+        activityType: "document_deleted",
+        description: `Document "${document.fileName}" was deleted`
+      });
+      
+      res.status(200).json({ success: true });
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // Commodities routes
+  // Computes the commodity class for the classification wizard's answers without saving anything
+  app.post("/api/commodities/classify", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(classifyCommodity(commodityClassificationInputSchema.parse(req.body)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CommodityClassificationError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      console.error("Error classifying commodity:", error);
+      res.status(500).json({ message: "Failed to classify commodity" });
+    }
+  });
+  
+  // Looks up the IFC Table 3206.2 protection features for storage facts that aren't saved anywhere
+  app.post("/api/protection-requirements/calculate", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(calculateProtectionRequirements(protectionRequirementsInputSchema.parse(req.body)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error calculating protection requirements:", error);
+      res.status(500).json({ message: "Failed to calculate protection requirements" });
+    }
+  });
+  
+  app.get("/api/projects/:projectId/commodities", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const commodities = await storage.getCommoditiesByProject(projectId);
+      res.json(commodities);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get commodities" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/commodities", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const changes = insertCommoditiesSchema.omit({ projectId: true, createdById: true }).parse(req.body);
+      res.status(201).json(await createCommodity(projectId, changes, req.user!));
+    } catch (error) {
+      if (error instanceof CommodityClassificationError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof CommodityError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid commodities data", error });
+    }
+  });
+  
+  // Replaces the project's commodity data; the class is recomputed and the change recorded as a revision
+  app.patch("/api/projects/:projectId/commodities/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const commodity = await storage.getCommodity(parseInt(req.params.id));
+      if (!commodity || commodity.projectId !== projectId) {
+        return res.status(404).json({ message: "Commodity data not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const changes = insertCommoditiesSchema.omit({ projectId: true, createdById: true }).parse(req.body);
+      res.json(await updateCommodity(commodity, changes, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CommodityClassificationError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof CommodityError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating commodities:", error);
+      res.status(500).json({ message: "Failed to update commodities" });
+    }
+  });
+  
+  // Every change to the project's commodity and storage array data, newest first
+  app.get("/api/projects/:id/commodity-revisions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(await storage.getCommodityRevisions(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching commodity revisions:", error);
+      res.status(500).json({ message: "Failed to get commodity revisions" });
+    }
+  });
+
+  // Storage arrays routes
+  app.get("/api/projects/:id/storage-arrays", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(await storage.getStorageArraysByProject(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching storage arrays:", error);
+      res.status(500).json({ message: "Failed to get storage arrays" });
+    }
+  });
+  
+  app.post("/api/projects/:id/storage-arrays", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const changes = insertStorageArraySchema.omit({ projectId: true, createdById: true }).parse(req.body);
+      res.status(201).json(await createStorageArray(projectId, changes, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CommodityClassificationError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof StorageArrayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating storage array:", error);
+      res.status(500).json({ message: "Failed to create storage array" });
+    }
+  });
+  
+  // Reads a CSV rack schedule or DXF layout sent as multipart/form-data into the storage arrays
+  // it describes, along with anything that couldn't be mapped. Nothing is saved until confirmed.
+  app.post("/api/projects/:id/storage-arrays/import/preview", heavyProcessingLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    let tempPath: string | undefined;
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const { file } = await receiveMultipartUpload(req, MAX_LAYOUT_BYTES);
+      tempPath = file.tempPath;
+      res.json(await previewRackLayout(projectId, file));
+    } catch (error) {
+      if (error instanceof UploadError || error instanceof RackLayoutImportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error reading rack layout:", error);
+      res.status(500).json({ message: "Failed to read rack layout" });
+    } finally {
+      if (tempPath) await removeTempFile(tempPath);
+    }
+  });
+  
+  // Adds the arrays confirmed from an import preview, with the commodity and sprinkler answers filled in
+  app.post("/api/projects/:id/storage-arrays/import", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const { arrays } = z.object({
+        arrays: z.array(insertStorageArraySchema.omit({ projectId: true, createdById: true })).min(1).max(100),
+      }).parse(req.body);
+      res.status(201).json(await importStorageArrays(projectId, arrays, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CommodityClassificationError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof StorageArrayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error importing storage arrays:", error);
+      res.status(500).json({ message: "Failed to import storage arrays" });
+    }
+  });
+  
+  // Replaces an array's details; the class is recomputed from the submitted answers
+  app.put("/api/storage-arrays/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const array = await storage.getStorageArray(parseInt(req.params.id));
+      if (!array) {
+        return res.status(404).json({ message: "Storage array not found" });
+      }
+      if (!await checkProjectAccess(req.user!, array.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const changes = insertStorageArraySchema.omit({ projectId: true, createdById: true }).parse(req.body);
+      res.json(await updateStorageArray(array, changes, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CommodityClassificationError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      if (error instanceof StorageArrayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating storage array:", error);
+      res.status(500).json({ message: "Failed to update storage array" });
+    }
+  });
+  
+  app.delete("/api/storage-arrays/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const array = await storage.getStorageArray(parseInt(req.params.id));
+      if (!array) {
+        return res.status(404).json({ message: "Storage array not found" });
+      }
+      if (!await checkProjectAccess(req.user!, array.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      await deleteStorageArray(array, req.user!);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting storage array:", error);
+      res.status(500).json({ message: "Failed to delete storage array" });
+    }
+  });
+
+  // Project stakeholders routes
+  app.get("/api/projects/:projectId/stakeholders", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const stakeholders = await storage.getProjectStakeholders(projectId);
+      
+      // Get user details for each stakeholder
+      const stakeholdersWithUsers = await Promise.all(
+        stakeholders.map(async (stakeholder) => {
+          const user = await storage.getUser(stakeholder.userId);
+          return {
+            ...stakeholder,
+            user: user ? {
+              fullName: user.fullName,
+              email: user.email,
+              username: user.username
+            } : null
+          };
+        })
+      );
+      
+      res.json(stakeholdersWithUsers);
+    } catch (error) {
+      console.error("Error getting stakeholders:", error);
+      res.status(500).json({ message: "Failed to get stakeholders" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/stakeholders", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const validatedData = insertProjectStakeholderSchema.parse({
+        ...req.body,
+        projectId,
+        addedById: req.user!.id
+      });
+      
+      const stakeholder = await storage.createProjectStakeholder(validatedData);
+      
+      // Get user details for the log
+      const user = await storage.getUser(req.body.userId);
+      const userName = user ? user.fullName : "Unknown user";
+      const roleList = Array.isArray(stakeholder.roles) ? stakeholder.roles.join(', ') : 'stakeholder';
+      
+      // Log activity
+      await storage.createActivityLog({
+        projectId,
+        userId: req.user!.id,
+        activityType: "stakeholder_added",
+        description: `${userName} was added as a stakeholder with roles: ${roleList}`
+      });
+      
+      res.status(201).json(stakeholder);
+    } catch (error) {
+      console.error("Error creating stakeholder:", error);
+      res.status(400).json({ message: "Invalid stakeholder data", error });
+    }
+  });
+
+  app.put("/api/stakeholders/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const id = parseInt(req.params.id);
+      const stakeholder = await storage.updateProjectStakeholder(id, req.body);
+      
+      if (!stakeholder) {
+        return res.status(404).json({ message: "Stakeholder not found" });
+      }
+      
+      res.json(stakeholder);
+    } catch (error) {
+      console.error("Error updating stakeholder:", error);
+      res.status(400).json({ message: "Invalid stakeholder update data", error });
+    }
+  });
+
+  app.delete("/api/stakeholders/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteProjectStakeholder(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Stakeholder not found" });
+      }
+      
+      res.json({ message: "Stakeholder removed successfully" });
+    } catch (error) {
+      console.error("Error deleting stakeholder:", error);
+      res.status(500).json({ message: "Failed to remove stakeholder" });
+    }
+  });
+
+  // Approval chain routes
+  app.get("/api/projects/:id/approval-chains", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      res.json(await getApprovalChains(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error getting approval chains:", error);
+      res.status(500).json({ message: "Failed to get approval chains" });
+    }
+  });
+  
+  // Replaces one category's chain; an empty stage list approves the category in one step again
+  app.put("/api/projects/:id/approval-chains/:category", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only permit specialists can change approval chains" });
+    }
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const { stages } = z.object({
+        stages: z.array(z.object({
+          name: z.string().trim().min(1).max(100),
+          role: z.string()
+        })).max(MAX_APPROVAL_STAGES)
+      }).parse(req.body);
+      
+      res.json(await saveApprovalChain(project.id, req.params.category, stages, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ApprovalChainError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error saving approval chain:", error);
+      res.status(500).json({ message: "Failed to save approval chain" });
+    }
+  });
+
+  // Stakeholder tasks routes
+  app.get("/api/projects/:projectId/tasks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const tasks = await storage.getProjectStakeholderTasks(projectId);
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error getting stakeholder tasks:", error);
+      res.status(500).json({ message: "Failed to get stakeholder tasks" });
+    }
+  });
+
+  app.post("/api/stakeholders/:stakeholderId/tasks", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const stakeholderId = parseInt(req.params.stakeholderId);
+      const user = req.user as any;
+      
+      console.log('Creating stakeholder task:', { stakeholderId, body: req.body });
+      
+      const validatedData = insertStakeholderTaskSchema.parse({
+        ...req.body,
+        stakeholderId,
+        createdById: user.id
+      });
+      
+      const task = await storage.createStakeholderTask(validatedData);
+      
+      // Send notifications using the new NotificationService
+      const stakeholder = await storage.getProjectStakeholder(stakeholderId);
+      if (stakeholder) {
+        try {
+          await NotificationService.notifyTaskAssigned(
+            task.id,
+            stakeholder.userId,
+            user.fullName || user.username,
+            stakeholder.projectId,
+            task.description
+          );
+          
+          // Create activity log
+          await storage.createActivityLog({
+            projectId: stakeholder.projectId,
+            userId: user.id,
+            activityType: 'task_assigned',
+            description: `Task assigned to stakeholder: ${task.description}`,
+          });
+        } catch (notificationError) {
+          console.error('Error sending task assignment notifications:', notificationError);
+          // Don't fail the task assignment if notifications fail
+        }
+      }
+      
+      console.log('Task assignment completed successfully');
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error creating stakeholder task:", error);
+      res.status(500).json({ message: "Failed to create task", error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/tasks/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const id = parseInt(req.params.id);
+      const task = await storage.updateStakeholderTask(id, req.body);
+      
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      res.json(task);
+    } catch (error) {
+      console.error("Error updating task:", error);
+      res.status(400).json({ message: "Invalid task update data", error });
+    }
+  });
+
+  app.delete("/api/tasks/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteStakeholderTask(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      res.json({ message: "Task deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  // Activity logs routes
+  app.get("/api/projects/:projectId/activities", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const activities = await storage.getActivityLogsByProject(projectId);
+      res.json(activities);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get activity logs" });
+    }
+  });
+
+  // Generate cover letter download endpoint
+  app.get("/api/projects/:id/cover-letter", heavyProcessingLimiter, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      const documents = await storage.getDocumentsByProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const storageArrays = await storage.getStorageArraysByProject(projectId);
+      const coverLetter = await generateCoverLetterWithAI(project, documents, storageArrays);
+      
+      // Generate Word document using docx
+      const { generateCoverLetterDocx } = await import("./docxGenerator");
+      const docxBuffer = await generateCoverLetterDocx(coverLetter);
+      
+      // Set headers for Word document download
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      res.setHeader('Content-Disposition', `attachment; filename="Cover_Letter_${project.name.replace(/\s+/g, '_')}.docx"`);
+      
+      res.send(docxBuffer);
+    } catch (error) {
+      console.error("Error generating cover letter:", error);
+      res.status(500).json({ error: "Failed to generate cover letter" });
+    }
+  });
+
+  // Cover letter generation
+  app.post("/api/projects/:projectId/generate-cover-letter", heavyProcessingLimiter, writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const { 
+        contactEmail, 
+        contactPhone, 
+        projectName, 
+        customerName, 
+        facilityAddress, 
+        jurisdiction, 
+        jurisdictionAddress 
+      } = req.body;
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      // Override project details with the submitted values
+      const projectWithUpdatedInfo = {
+        ...project,
+        name: projectName || project.name,
+        clientName: customerName || project.clientName,
+        facilityAddress: facilityAddress || project.facilityAddress,
+        jurisdiction: jurisdiction || project.jurisdiction,
+        jurisdictionAddress: jurisdictionAddress || project.jurisdictionAddress,
+        contactEmail: contactEmail || project.contactEmail,
+        contactPhone: contactPhone || project.contactPhone,
+      };
+      
+      // Get all documents for the project (both approved and uploaded)
+      const documents = await storage.getDocumentsByProject(projectId);
+      const submittedDocuments = documents.filter(doc => doc.status === 'approved' || doc.status === 'pending_review');
+      const storageArrays = await storage.getStorageArraysByProject(projectId);
+      // Recorded on the document so the letter can be traced to the classification it used
+      const commodityRevision = await storage.getLatestCommodityRevision(projectId);
+      
+      // Generate cover letter using OpenAI (with fallback to template-based generation)
+      const coverLetterContent = await generateCoverLetterWithAI(projectWithUpdatedInfo, submittedDocuments, storageArrays);
+      
+      console.log("Cover letter text content (first 100 chars):", coverLetterContent.substring(0, 100));
+      
+      // Sanitize content if it still contains placeholders
+      const sanitizedContent = coverLetterContent.replace(/\[(.*?)\]/g, (match) => {
+        const placeholder = match.toLowerCase();
+        
+        if (placeholder.includes('name') || placeholder.includes('contact')) {
+          return 'Intralog Permit Services Team';
+        } else if (placeholder.includes('address')) {
+          return '123 Permit Way, Suite 100';
+        } else if (placeholder.includes('city') || placeholder.includes('state') || placeholder.includes('zip')) {
+          return 'Phoenix, AZ 85001';
+        } else if (placeholder.includes('email')) {
+          return 'permits@intralog.com';
+        } else if (placeholder.includes('phone')) {
+          return '(800) 555-1234';
+        } else if (placeholder.includes('date')) {
+          return new Date().toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "long",
+            day: "numeric"
+          });
+        } else {
+          // For any other placeholders, use a generic replacement
+          return 'Intralog Permit Services';
+        }
+      });
+      
+      // Use HTML directly instead of generating a PDF to avoid file size calculation issues
+      // Format the content as HTML with improved alignment for all document categories
+      const htmlContent = `<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; margin: 40px; text-align: left; }
+    h1 { color: #0084C6; }
+    .header { margin-bottom: 40px; }
+    .recipient { margin: 30px 0; }
+    .subject { font-weight: bold; margin: 20px 0; }
+    .category { font-weight: bold; margin-top: 15px; text-align: left; }
+    .description { margin-top: 5px; margin-bottom: 15px; text-align: left; }
+    .files { margin-left: 0px; margin-bottom: 20px; text-align: left; }
+    .signature { margin-top: 40px; }
+    .contact { margin-top: 30px; }
+    .document-list { text-align: left; }
+    .document-item { margin-bottom: 15px; text-align: left; }
+    p { text-align: left; }
+    div { text-align: left; }
+  </style>
+</head>
+<body>
+  ${sanitizedContent}
+</body>
+</html>`;
+
+      // Generate Word document using docx
+      const { generateCoverLetterDocx } = await import("./docxGenerator");
+      const docxBuffer = await generateCoverLetterDocx(sanitizedContent);
+      
+      // Use a fixed integer file size to avoid database issues
+      const fileSize = docxBuffer.length;
+      
+      // Create the cover letter document as DOCX
+      try {
+        const coverLetter = await storage.createDocument({
+          projectId,
+          category: 'cover_letter',
+          fileName: `CoverLetter_${projectWithUpdatedInfo.name.replace(/[\/\\:*?"<>|]/g, '_')}.docx`, // DOCX file
+          fileType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          fileSize: fileSize, // Actual buffer size
+          status: 'pending_review',
+          uploadedById: req.user!.id,
+          comments: 'AI-powered cover letter for PainlessPermit™️',
+          commodityRevisionId: commodityRevision?.id ?? null
+        }, docxBuffer);
+        
+        // Log success information
+        console.log("Cover letter document created successfully with ID:", coverLetter.id);
+        queueDocumentTextIndexing(coverLetter);
+        queueDocumentPreviews(coverLetter);
+        
+        // Log activity
+        await storage.createActivityLog({
+          projectId,
+          userId: req.user!.id,
+          activityType: "cover_letter_generated",
+          description: commodityRevision
+            ? `AI-powered cover letter was generated for this project from commodity data revision ${commodityRevision.revisionNumber}`
+            : "AI-powered cover letter was generated for this project"
+        });
+        
+        // Force immediate refresh of documents list for this project
+        const updatedDocuments = await storage.getDocumentsByProject(projectId);
+        
+        // Return both the cover letter and a flag indicating it was successful
+        // Include a refresh flag to tell the client to reload the page
+        res.status(201).json({
+          ...coverLetter,
+          success: true,
+          message: "Cover letter generated and added to project documents",
+          refresh: true // Signal to client to refresh after success
+        });
+      } catch (error: any) { // Type assertion for error
+        console.error("Error creating cover letter document:", error);
+        throw new Error(`Failed to save cover letter: ${error.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate cover letter", error });
+    }
+  });
+
+  // Builds the "Submit to Authority" bundle: approved current versions foldered by category,
+  // the cover letter, an index sheet and a checksum manifest, streamed back as a ZIP
+  app.post("/api/projects/:id/submission-package", heavyProcessingLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const plan = await planSubmissionPackage(projectId);
+      const documentCount = plan.sections.reduce((sum, section) => sum + section.entries.length, 0);
+      if (documentCount === 0) {
+        return res.status(409).json({ message: "There are no approved documents to include in the submission package" });
+      }
+      
+      const fileName = `${project.name.replace(/[\/\\:*?"<>|]/g, '_')}_Submission_Package.zip`;
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", formatContentDisposition("attachment", fileName));
+      
+      console.log(`Building submission package for project ${projectId} with ${documentCount} documents`);
+      await writeSubmissionPackage(project, plan, req.user!, res);
+      
+      await storage.createActivityLog({
+        projectId,
+        userId: req.user!.id,
+        activityType: "submission_package_created",
+        description: `Submission package was generated with ${documentCount} approved document${documentCount === 1 ? "" : "s"}${plan.coverLetter ? " and the cover letter" : ""}`
+      });
+    } catch (error) {
+      console.error("Error building submission package:", error);
+      // Once the ZIP has started streaming the status can't change, so cut the download short instead
+      if (res.headersSent) {
+        return res.destroy(error as Error);
+      }
+      if (error instanceof SubmissionPackageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to build submission package" });
+    }
+  });
+
+  // Binds the same approved documents into one PDF with a table of contents,
+  // bookmarks and page-number stamps, for departments that want a single file
+  app.post("/api/projects/:id/submittal-pdf", heavyProcessingLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      console.log(`Binding submittal PDF for project ${projectId}`);
+      const submittal = await generateSubmittalPdf(project);
+      
+      await storage.createActivityLog({
+        projectId,
+        userId: req.user!.id,
+        activityType: "submittal_pdf_created",
+        description: `Bound submittal PDF was generated with ${submittal.documentCount} approved document${submittal.documentCount === 1 ? "" : "s"} (${submittal.pageCount} pages)`
+      });
+      
+      const fileName = `${project.name.replace(/[\/\\:*?"<>|]/g, '_')}_Submittal.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", formatContentDisposition("attachment", fileName));
+      res.send(submittal.content);
+    } catch (error) {
+      console.error("Error binding submittal PDF:", error);
+      if (error instanceof SubmissionPackageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to generate submittal PDF" });
+    }
+  });
+
+  // Most common rejection reasons by category, stakeholder company and jurisdiction; ?days= limits it to recent rejections
+  app.get("/api/reports/rejection-reasons", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can view rejection reports" });
+    }
+    
+    try {
+      const { days } = z.object({
+        days: z.coerce.number().int().positive().max(3650).optional()
+      }).parse(req.query);
+      
+      res.json(await getRejectionReasonReport(days ?? null));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error building rejection reason report:", error);
+      res.status(500).json({ message: "Failed to get rejection reasons" });
+    }
+  });
+  
+  // Every version awaiting review with its age against the category SLA; filter with ?reviewerId=<id>|unassigned
+  app.get("/api/review-queue", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can view the review queue" });
+    }
+    
+    try {
+      const { reviewerId } = z.object({
+        reviewerId: z.union([z.literal("unassigned"), z.coerce.number().int()]).optional()
+      }).parse(req.query);
+      
+      res.json(await getReviewQueue({ reviewerId: reviewerId === "unassigned" ? null : reviewerId }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching review queue:", error);
+      res.status(500).json({ message: "Failed to get review queue" });
+    }
+  });
+  
+  // Assigns a pending version to a specialist; a null reviewerId clears the assignment
+  app.put("/api/documents/:id/reviewer", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can assign reviewers" });
+    }
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const { reviewerId } = z.object({
+        reviewerId: z.number().int().nullable()
+      }).parse(req.body);
+      
+      res.json(await assignReviewer(document, reviewerId, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ReviewQueueError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error assigning reviewer:", error);
+      res.status(500).json({ message: "Failed to assign reviewer" });
+    }
+  });
+  
+  // Current versions that have expired, expire soon or expire before their project's deadline or permit; widen with ?days=
+  app.get("/api/document-expirations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { days } = z.object({
+        days: z.coerce.number().int().positive().max(3650).optional()
+      }).parse(req.query);
+      
+      res.json(await getUpcomingExpirations(req.user!, days));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching document expirations:", error);
+      res.status(500).json({ message: "Failed to get document expirations" });
+    }
+  });
+  
+  // Sets a version's effective and expiry dates; leave expiresAt out to use the category's suggested validity period
+  app.put("/api/documents/:id/validity", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!await checkProjectAccess(req.user!, document.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const validity = z.object({
+        effectiveDate: z.coerce.date().nullable(),
+        expiresAt: z.coerce.date().nullable().optional()
+      }).parse(req.body);
+      
+      res.json(await setDocumentValidity(document, validity, req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof DocumentExpiryError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error setting document validity:", error);
+      res.status(500).json({ message: "Failed to set document validity" });
+    }
+  });
+  
+  // Review rounds across all projects, newest first; filter with ?status=open|closed and ?projectId=
+  app.get("/api/review-rounds", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { status, projectId } = z.object({
+        status: z.enum([ReviewRoundStatus.OPEN, ReviewRoundStatus.CLOSED]).optional(),
+        projectId: z.coerce.number().int().optional()
+      }).parse(req.query);
+      
+      // Stakeholders only see the rounds of projects they're on
+      const rounds = await storage.getReviewRounds({ status, projectId });
+      const accessible = new Set<number>();
+      for (const id of Array.from(new Set(rounds.map(round => round.projectId)))) {
+        if (await checkProjectAccess(req.user!, id)) accessible.add(id);
+      }
+      res.json(rounds.filter(round => accessible.has(round.projectId)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error fetching review rounds:", error);
+      res.status(500).json({ message: "Failed to get review rounds" });
+    }
+  });
+  
+  // Opens a round over every document version currently awaiting review
+  app.post("/api/projects/:id/review-rounds", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can open review rounds" });
+    }
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const round = await openReviewRound(project, req.user!);
+      res.status(201).json(await getReviewRoundDetail(round));
+    } catch (error) {
+      if (error instanceof ReviewRoundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error opening review round:", error);
+      res.status(500).json({ message: "Failed to open review round" });
+    }
+  });
+  
+  app.get("/api/review-rounds/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const round = await storage.getReviewRound(parseInt(req.params.id));
+      if (!round) {
+        return res.status(404).json({ message: "Review round not found" });
+      }
+      if (!await checkProjectAccess(req.user!, round.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      res.json(await getReviewRoundDetail(round));
+    } catch (error) {
+      console.error("Error fetching review round:", error);
+      res.status(500).json({ message: "Failed to get review round" });
+    }
+  });
+  
+  // Closes the round and freezes its comment letter
+  app.post("/api/review-rounds/:id/close", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user!.role !== UserRole.SPECIALIST) {
+      return res.status(403).json({ message: "Only specialists can close review rounds" });
+    }
+    
+    try {
+      const round = await storage.getReviewRound(parseInt(req.params.id));
+      if (!round) {
+        return res.status(404).json({ message: "Review round not found" });
+      }
+      
+      const { summary } = z.object({
+        summary: z.string().trim().max(5000).nullish()
+      }).parse(req.body ?? {});
+      
+      const closed = await closeReviewRound(round, req.user!, summary || null);
+      res.json(await getReviewRoundDetail(closed));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof ReviewRoundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error closing review round:", error);
+      res.status(500).json({ message: "Failed to close review round" });
     }
   });
-
-  app.put("/api/tasks/:id", writeOperationLimiter, async (req, res) => {
+  
+  // The closed round's comment letter as ?format=docx (default) or pdf
+  app.get("/api/review-rounds/:id/comment-letter", heavyProcessingLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const id = parseInt(req.params.id);
-      const task = await storage.updateStakeholderTask(id, req.body);
-      
-      if (!task) {
-        return res.status(404).json({ message: "Task not found" });
+      const round = await storage.getReviewRound(parseInt(req.params.id));
+      if (!round) {
+        return res.status(404).json({ message: "Review round not found" });
+      }
+      if (!await checkProjectAccess(req.user!, round.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
       }
       
-      res.json(task);
+      const format = req.query.format === "pdf" ? "pdf" : "docx";
+      const letter = await renderCommentLetter(round, format);
+      
+      res.setHeader("Content-Type", letter.contentType);
+      res.setHeader("Content-Disposition", formatContentDisposition("attachment", letter.fileName));
+      res.send(letter.content);
     } catch (error) {
-      console.error("Error updating task:", error);
-      res.status(400).json({ message: "Invalid task update data", error });
+      if (error instanceof ReviewRoundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error generating comment letter:", error);
+      res.status(500).json({ message: "Failed to generate comment letter" });
     }
   });
 
-  app.delete("/api/tasks/:id", writeOperationLimiter, async (req, res) => {
+  // Plan-check corrections returned by the building department, oldest submittal first
+  app.get("/api/projects/:id/correction-comments", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteStakeholderTask(id);
-      
-      if (!success) {
-        return res.status(404).json({ message: "Task not found" });
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
       }
       
-      res.json({ message: "Task deleted successfully" });
+      res.json(await storage.getCorrectionComments(projectId));
     } catch (error) {
-      console.error("Error deleting task:", error);
-      res.status(500).json({ message: "Failed to delete task" });
+      console.error("Error fetching correction comments:", error);
+      res.status(500).json({ message: "Failed to get correction comments" });
     }
   });
-
-  // Activity logs routes
-  app.get("/api/projects/:projectId/activities", async (req, res) => {
+  
+  app.post("/api/projects/:id/correction-comments", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
-    try {
-      const projectId = parseInt(req.params.projectId);
-      const activities = await storage.getActivityLogsByProject(projectId);
-      res.json(activities);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to get activity logs" });
-    }
-  });
-
-  // Generate cover letter download endpoint
-  app.get("/api/projects/:id/cover-letter", heavyProcessingLimiter, async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const project = await storage.getProject(projectId);
-      const documents = await storage.getDocumentsByProject(projectId);
-
       if (!project) {
-        return res.status(404).json({ error: "Project not found" });
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
       }
-
-      const coverLetter = await generateCoverLetterWithAI(project, documents);
       
-      // Generate Word document using docx
-      const { generateCoverLetterDocx } = await import("./docxGenerator");
-      const docxBuffer = await generateCoverLetterDocx(coverLetter);
+      const data = insertCorrectionCommentSchema.parse({ ...req.body, projectId, createdById: req.user!.id });
+      const target = await resolveCorrectionTarget(projectId, data);
+      const [comment] = await storage.createCorrectionComments([{ ...data, ...target }]);
       
-      // Set headers for Word document download
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
-      res.setHeader('Content-Disposition', `attachment; filename="Cover_Letter_${project.name.replace(/\s+/g, '_')}.docx"`);
+      await storage.createActivityLog({
+        projectId,
+        userId: req.user!.id,
+        activityType: "correction_added",
+        description: `Plan-check comment ${comment.commentNumber} was recorded for submittal ${comment.submissionNumber}`
+      });
+      await notifyCorrectionAssigned(comment, req.user!);
       
-      res.send(docxBuffer);
+      res.status(201).json(comment);
     } catch (error) {
-      console.error("Error generating cover letter:", error);
-      res.status(500).json({ error: "Failed to generate cover letter" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CorrectionCommentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating correction comment:", error);
+      res.status(500).json({ message: "Failed to create correction comment" });
     }
   });
-
-  // Cover letter generation
-  app.post("/api/projects/:projectId/generate-cover-letter", heavyProcessingLimiter, writeOperationLimiter, async (req, res) => {
+  
+  // Splits a pasted correction letter into numbered comments; `preview` returns them without saving
+  app.post("/api/projects/:id/correction-comments/import", writeOperationLimiter, async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const projectId = parseInt(req.params.projectId);
-      const { 
-        contactEmail, 
-        contactPhone, 
-        projectName, 
-        customerName, 
-        facilityAddress, 
-        jurisdiction, 
-        jurisdictionAddress 
-      } = req.body;
+      const projectId = parseInt(req.params.id);
       const project = await storage.getProject(projectId);
-      
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
+      if (!await checkProjectAccess(req.user!, projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
       
-      // Override project details with the submitted values
-      const projectWithUpdatedInfo = {
-        ...project,
-        name: projectName || project.name,
-        clientName: customerName || project.clientName,
-        facilityAddress: facilityAddress || project.facilityAddress,
-        jurisdiction: jurisdiction || project.jurisdiction,
-        jurisdictionAddress: jurisdictionAddress || project.jurisdictionAddress,
-        contactEmail: contactEmail || project.contactEmail,
-        contactPhone: contactPhone || project.contactPhone,
-      };
-      
-      // Get all documents for the project (both approved and uploaded)
-      const documents = await storage.getDocumentsByProject(projectId);
-      const submittedDocuments = documents.filter(doc => doc.status === 'approved' || doc.status === 'pending_review');
+      const { text, submissionNumber, category, preview } = z.object({
+        text: z.string().trim().min(1, "Paste the correction letter text").max(200000),
+        submissionNumber: z.number().int().min(1).max(99).default(1),
+        category: z.string().nullish(),
+        preview: z.boolean().optional()
+      }).parse(req.body);
       
-      // Generate cover letter using OpenAI (with fallback to template-based generation)
-      const coverLetterContent = await generateCoverLetterWithAI(projectWithUpdatedInfo, submittedDocuments);
+      const parsed = parseCorrectionLetter(text);
+      if (preview) {
+        return res.json(parsed);
+      }
       
-      console.log("Cover letter text content (first 100 chars):", coverLetterContent.substring(0, 100));
+      const comments = parsed.map(comment => insertCorrectionCommentSchema.parse({
+        ...comment,
+        projectId,
+        submissionNumber,
+        category: category || null,
+        createdById: req.user!.id
+      }));
+      const created = await storage.createCorrectionComments(comments);
       
-      // Sanitize content if it still contains placeholders
-      const sanitizedContent = coverLetterContent.replace(/\[(.*?)\]/g, (match) => {
-        const placeholder = match.toLowerCase();
-        
-        if (placeholder.includes('name') || placeholder.includes('contact')) {
-          return 'Intralog Permit Services Team';
-        } else if (placeholder.includes('address')) {
-          return '123 Permit Way, Suite 100';
-        } else if (placeholder.includes('city') || placeholder.includes('state') || placeholder.includes('zip')) {
-          return 'Phoenix, AZ 85001';
-        } else if (placeholder.includes('email')) {
-          return 'permits@intralog.com';
-        } else if (placeholder.includes('phone')) {
-          return '(800) 555-1234';
-        } else if (placeholder.includes('date')) {
-          return new Date().toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "long",
-            day: "numeric"
-          });
-        } else {
-          // For any other placeholders, use a generic replacement
-          return 'Intralog Permit Services';
-        }
+      await storage.createActivityLog({
+        projectId,
+        userId: req.user!.id,
+        activityType: "correction_added",
+        description: `${created.length} plan-check comment${created.length === 1 ? " was" : "s were"} imported for submittal ${submissionNumber}`
       });
       
-      // Use HTML directly instead of generating a PDF to avoid file size calculation issues
-      // Format the content as HTML with improved alignment for all document categories
-      const htmlContent = `<html>
-<head>
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; margin: 40px; text-align: left; }
-    h1 { color: #0084C6; }
-    .header { margin-bottom: 40px; }
-    .recipient { margin: 30px 0; }
-    .subject { font-weight: bold; margin: 20px 0; }
-    .category { font-weight: bold; margin-top: 15px; text-align: left; }
-    .description { margin-top: 5px; margin-bottom: 15px; text-align: left; }
-    .files { margin-left: 0px; margin-bottom: 20px; text-align: left; }
-    .signature { margin-top: 40px; }
-    .contact { margin-top: 30px; }
-    .document-list { text-align: left; }
-    .document-item { margin-bottom: 15px; text-align: left; }
-    p { text-align: left; }
-    div { text-align: left; }
-  </style>
-</head>
-<body>
-  ${sanitizedContent}
-</body>
-</html>`;
-
-      // Generate Word document using docx
-      const { generateCoverLetterDocx } = await import("./docxGenerator");
-      const docxBuffer = await generateCoverLetterDocx(sanitizedContent);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error importing correction comments:", error);
+      res.status(500).json({ message: "Failed to import correction comments" });
+    }
+  });
+  
+  // Edits, links, assigns or resolves a correction comment
+  app.patch("/api/correction-comments/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const comment = await storage.getCorrectionComment(parseInt(req.params.id));
+      if (!comment) {
+        return res.status(404).json({ message: "Correction comment not found" });
+      }
+      if (!await checkProjectAccess(req.user!, comment.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
       
-      // Use a fixed integer file size to avoid database issues
-      const fileSize = docxBuffer.length;
+      const changes = z.object({
+        commentNumber: z.string().trim().min(1).max(20).optional(),
+        text: z.string().trim().min(1).max(10000).optional(),
+        submissionNumber: z.number().int().min(1).max(99).optional(),
+        category: z.string().nullish(),
+        documentId: z.number().int().nullish(),
+        assignedStakeholderId: z.number().int().nullish(),
+        status: z.enum([CorrectionStatus.OPEN, CorrectionStatus.IN_PROGRESS, CorrectionStatus.RESOLVED]).optional(),
+        resolution: z.string().trim().max(10000).nullish().transform(value => value === undefined ? undefined : value || null),
+        revisedSheetReference: z.string().trim().max(200).nullish().transform(value => value === undefined ? undefined : value || null)
+      }).parse(req.body);
+      
+      const target = await resolveCorrectionTarget(comment.projectId, {
+        category: changes.category,
+        documentId: changes.documentId,
+        assignedStakeholderId: changes.assignedStakeholderId
+      });
+      const updated = await storage.updateCorrectionComment(comment.id, resolutionChanges(comment, {
+        ...changes,
+        ...(changes.documentId ? { category: target.category } : {})
+      }, req.user!));
       
-      // Create the cover letter document as DOCX
-      try {
-        const coverLetter = await storage.createDocument({
-          projectId,
-          category: 'cover_letter',
-          fileName: `CoverLetter_${projectWithUpdatedInfo.name.replace(/[\/\\:*?"<>|]/g, '_')}.docx`, // DOCX file
-          fileType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          fileSize: fileSize, // Actual buffer size
-          fileContent: docxBuffer.toString('base64'), // Convert DOCX buffer to base64
-          status: 'pending_review',
-          uploadedById: req.user!.id,
-          comments: 'AI-powered cover letter for PainlessPermit™️'
-        });
-        
-        // Log success information
-        console.log("Cover letter document created successfully with ID:", coverLetter.id);
-        
-        // Log activity
+      if (updated && updated.status !== comment.status) {
         await storage.createActivityLog({
-          projectId,
+          projectId: comment.projectId,
           userId: req.user!.id,
-          activityType: "cover_letter_generated",
-          description: "AI-powered cover letter was generated for this project"
+          activityType: updated.status === CorrectionStatus.RESOLVED ? "correction_resolved" : "correction_updated",
+          description: `Plan-check comment ${updated.commentNumber} (submittal ${updated.submissionNumber}) was marked ${updated.status.replace("_", " ")}`
         });
-        
-        // Force immediate refresh of documents list for this project
-        const updatedDocuments = await storage.getDocumentsByProject(projectId);
-        
-        // Return both the cover letter and a flag indicating it was successful
-        // Include a refresh flag to tell the client to reload the page
-        res.status(201).json({
-          ...coverLetter,
-          success: true,
-          message: "Cover letter generated and added to project documents",
-          refresh: true // Signal to client to refresh after success
-        });
-      } catch (error: any) { // Type assertion for error
-        console.error("Error creating cover letter document:", error);
-        throw new Error(`Failed to save cover letter: ${error.message || 'Unknown error'}`);
       }
+      if (updated && updated.assignedStakeholderId && updated.assignedStakeholderId !== comment.assignedStakeholderId) {
+        await notifyCorrectionAssigned(updated, req.user!);
+      }
+      
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to generate cover letter", error });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CorrectionCommentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating correction comment:", error);
+      res.status(500).json({ message: "Failed to update correction comment" });
+    }
+  });
+  
+  app.delete("/api/correction-comments/:id", writeOperationLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const comment = await storage.getCorrectionComment(parseInt(req.params.id));
+      if (!comment) {
+        return res.status(404).json({ message: "Correction comment not found" });
+      }
+      if (!await checkProjectAccess(req.user!, comment.projectId)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      if (comment.createdById !== req.user!.id && req.user!.role !== UserRole.SPECIALIST) {
+        return res.status(403).json({ message: "Only the person who recorded a comment or a specialist can delete it" });
+      }
+      
+      await storage.deleteCorrectionComment(comment.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting correction comment:", error);
+      res.status(500).json({ message: "Failed to delete correction comment" });
+    }
+  });
+  
+  // Point-by-point response to one submittal's corrections, as ?format=docx (default) or pdf
+  app.get("/api/projects/:id/correction-response-letter", heavyProcessingLimiter, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!await checkProjectAccess(req.user!, project.id)) {
+        return res.status(403).json({ message: "You don't have access to this project" });
+      }
+      
+      const { submission, format } = z.object({
+        submission: z.coerce.number().int().min(1).default(1),
+        format: z.enum(["docx", "pdf"]).default("docx")
+      }).parse(req.query);
+      
+      const letter = await buildCorrectionResponseLetter(project, submission, req.user!);
+      const rendered = await renderCorrectionResponseLetter(letter, format);
+      
+      res.setHeader("Content-Type", rendered.contentType);
+      res.setHeader("Content-Disposition", formatContentDisposition("attachment", rendered.fileName));
+      res.send(rendered.content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (error instanceof CorrectionCommentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error generating correction response letter:", error);
+      res.status(500).json({ message: "Failed to generate response letter" });
     }
   });
 
@@ -1394,6 +3443,37 @@ Please log into PainlessPermit to view more details.`,
     }
   });
 
+  // Drop staged chunks for uploads that were abandoned and never resumed
+  const purgeExpiredUploads = async () => {
+    try {
+      const expired = await storage.deleteExpiredUploadSessions(new Date());
+      for (const uploadSession of expired) {
+        await removeUploadChunks(uploadSession.id);
+      }
+      if (expired.length > 0) {
+        console.log(`Removed ${expired.length} expired upload session(s)`);
+      }
+    } catch (error) {
+      console.error("Error removing expired upload sessions:", error);
+    }
+  };
+  setInterval(purgeExpiredUploads, 60 * 60_000).unref();
+
+  // Daily check for documents that expire before their project deadline or permit.
+  // Also run at startup, since a restart would otherwise push it back a day.
+  const checkDocumentExpiry = async () => {
+    try {
+      const { flagged, cleared } = await flagExpiringDocuments();
+      if (flagged > 0 || cleared > 0) {
+        console.log(`Document expiry check flagged ${flagged} and cleared ${cleared} document(s)`);
+      }
+    } catch (error) {
+      console.error("Error checking document expiry:", error);
+    }
+  };
+  void checkDocumentExpiry();
+  setInterval(checkDocumentExpiry, 24 * 60 * 60_000).unref();
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -1434,6 +3514,12 @@ Intralog Permit Services Team
   `.trim();
 }
 
+// Builds a Content-Disposition header that survives non-ASCII file names
+function formatContentDisposition(type: "inline" | "attachment", fileName: string): string {
+  const asciiFallback = fileName.replace(/[^\x20-\x7E]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${asciiFallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
 function formatDocumentCategory(category: string): string {
   return category
     .split('_')
@@ -0,0 +1,143 @@
+import type { InsertStorageArray, StorageArray, User } from "@shared/schema";
+import { SprinklerSystem } from "@shared/protection-requirements";
+import { RackType, rackTypeLabels } from "@shared/storage-arrays";
+import { commodityClassLabels } from "@shared/commodity-classification";
+import { storage } from "./storage";
+import { classifyCommodity } from "./commodity-classification";
+import { recordStorageArrayRevision } from "./commodity-revisions";
+import { formatFeet } from "./submittal-rules";
+
+export class StorageArrayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export type StorageArrayChanges = Omit<InsertStorageArray, "projectId" | "createdById">;
+
+const sprinklerNotes: Record<string, string> = {
+  [SprinklerSystem.NONE]: "not sprinklered",
+  [SprinklerSystem.STANDARD]: "sprinklered (control mode)",
+  [SprinklerSystem.ESFR]: "sprinklered (ESFR)",
+};
+
+// Arrays are told apart by name on the floor plan and in the cover letter
+async function checkNameIsFree(projectId: number, name: string, exceptId?: number): Promise<void> {
+  const arrays = await storage.getStorageArraysByProject(projectId);
+  const taken = arrays.find(array => array.id !== exceptId && array.name.toLowerCase() === name.toLowerCase());
+  if (taken) {
+    throw new StorageArrayError(409, `There is already a storage array named "${taken.name}" on this project`);
+  }
+}
+
+function classify(changes: StorageArrayChanges): Pick<StorageArray, "classification" | "classificationRule"> {
+  const { classification, rule } = classifyCommodity({
+    ...changes.classificationInputs,
+    commodityTypes: changes.commodityTypes,
+  });
+  return { classification, classificationRule: rule };
+}
+
+// Solid piles have no racks, so a rack height entered for one is dropped
+function normalize(changes: StorageArrayChanges): StorageArrayChanges {
+  return changes.rackType === RackType.SOLID_PILE ? { ...changes, rackHeight: null } : changes;
+}
+
+/**
+ * Adds a storage array to a project, classifying its commodity mix the same
+ * way the commodities wizard does, and records it as a commodity revision.
+ */
+export async function createStorageArray(projectId: number, changes: StorageArrayChanges, user: User): Promise<StorageArray> {
+  await checkNameIsFree(projectId, changes.name);
+  const data = normalize(changes);
+  const array = await storage.createStorageArray({
+    ...data,
+    ...classify(data),
+    projectId,
+    createdById: user.id,
+  });
+  await recordStorageArrayRevision(null, array, user);
+
+  await storage.createActivityLog({
+    projectId,
+    userId: user.id,
+    activityType: "storage_array_added",
+    description: `Storage array "${array.name}" was added: ${describeStorageArray(array)}`,
+  });
+  return array;
+}
+
+/**
+ * Replaces a storage array's details and reclassifies it. The activity entry
+ * calls out a change of class, since that can change what the submittal needs.
+ */
+export async function updateStorageArray(array: StorageArray, changes: StorageArrayChanges, user: User): Promise<StorageArray> {
+  await checkNameIsFree(array.projectId, changes.name, array.id);
+  const data = normalize(changes);
+  const updated = await storage.updateStorageArray(array.id, { ...data, ...classify(data) });
+  if (!updated) {
+    throw new StorageArrayError(404, "Storage array not found");
+  }
+  await recordStorageArrayRevision(array, updated, user);
+
+  const classChange = updated.classification !== array.classification
+    ? ` (class changed from ${commodityClassLabels[array.classification] ?? array.classification})`
+    : "";
+  await storage.createActivityLog({
+    projectId: array.projectId,
+    userId: user.id,
+    activityType: "storage_array_updated",
+    description: `Storage array "${updated.name}" was updated${classChange}: ${describeStorageArray(updated)}`,
+  });
+  return updated;
+}
+
+/**
+ * Adds the storage arrays confirmed from a rack layout import. Every name and
+ * commodity mix is checked before any array is added, so a bad one doesn't
+ * leave the import half done.
+ */
+export async function importStorageArrays(projectId: number, arrays: StorageArrayChanges[], user: User): Promise<StorageArray[]> {
+  const taken = new Set((await storage.getStorageArraysByProject(projectId)).map(array => array.name.toLowerCase()));
+  for (const changes of arrays) {
+    if (taken.has(changes.name.toLowerCase())) {
+      throw new StorageArrayError(409, `There is already a storage array named "${changes.name}" on this project`);
+    }
+    taken.add(changes.name.toLowerCase());
+    classify(changes);
+  }
+
+  const created: StorageArray[] = [];
+  for (const changes of arrays) {
+    created.push(await createStorageArray(projectId, changes, user));
+  }
+  return created;
+}
+
+export async function deleteStorageArray(array: StorageArray, user: User): Promise<void> {
+  await storage.deleteStorageArray(array.id);
+  await recordStorageArrayRevision(array, null, user);
+  await storage.createActivityLog({
+    projectId: array.projectId,
+    userId: user.id,
+    activityType: "storage_array_deleted",
+    description: `Storage array "${array.name}" was removed`,
+  });
+}
+
+/**
+ * One line summing up an array for activity entries and the cover letter,
+ * e.g. "12,000 sq ft of Class III - Combustible in selective pallet rack
+ * 24 ft tall, top of storage 22 ft, sprinklered (ESFR)".
+ */
+export function describeStorageArray(array: StorageArray): string {
+  const rackLabel = (rackTypeLabels[array.rackType] ?? array.rackType).toLowerCase();
+  const storageMethod = array.rackType === RackType.SOLID_PILE
+    ? "solid-piled or palletized"
+    : array.rackHeight !== null
+      ? `in ${rackLabel} ${formatFeet(array.rackHeight)} tall`
+      : `in ${rackLabel}`;
+  const className = commodityClassLabels[array.classification] ?? array.classification;
+  const sprinklers = sprinklerNotes[array.sprinklerSystem] ?? array.sprinklerSystem;
+  return `${array.storageArea.toLocaleString()} sq ft of ${className} ${storageMethod}, top of storage ${formatFeet(array.topOfStorageHeight)}, ${sprinklers}`;
+}
@@ -1,24 +1,202 @@
 import { users, type User, type InsertUser } from "@shared/schema";
-import { projects, type Project, type InsertProject } from "@shared/schema";
-import { documents, type Document, type InsertDocument } from "@shared/schema";
+import { projects, type Project, type InsertProject, ProjectStatus } from "@shared/schema";
+import { documents, type Document, type InsertDocument, DocumentStatus } from "@shared/schema";
 import { commodities, type Commodity, type InsertCommodity } from "@shared/schema";
+import { storageArrays, type StorageArray, type InsertStorageArray } from "@shared/schema";
+import { commodityRevisions, type CommodityRevision, type InsertCommodityRevision } from "@shared/schema";
 import { projectStakeholders, type ProjectStakeholder, type InsertProjectStakeholder } from "@shared/schema";
 import { stakeholderTasks, type StakeholderTask, type InsertStakeholderTask } from "@shared/schema";
 import { activityLogs, type ActivityLog, type InsertActivityLog } from "@shared/schema";
 import { notifications, type Notification, type InsertNotification } from "@shared/schema";
+import { uploadSessions, type UploadSession, type InsertUploadSession } from "@shared/schema";
+import { documentComparisons, type DocumentComparison, type InsertDocumentComparison } from "@shared/schema";
+import { documentText, type InsertDocumentText } from "@shared/schema";
+import { documentPreviews, type DocumentPreview, type InsertDocumentPreview } from "@shared/schema";
+import { documentAnnotations, type DocumentAnnotation, type InsertDocumentAnnotation } from "@shared/schema";
+import { checklistResponses, type ChecklistResponse, type InsertChecklistResponse } from "@shared/schema";
+import { reviewRounds, type ReviewRound, type InsertReviewRound, ReviewRoundStatus } from "@shared/schema";
+import { reviewRoundDocuments } from "@shared/schema";
+import { reviewRoundDecisions, type ReviewRoundDecision, type InsertReviewRoundDecision } from "@shared/schema";
+import { correctionComments, type CorrectionComment, type InsertCorrectionComment } from "@shared/schema";
+import { authoritySubmissions, type AuthoritySubmission, type InsertAuthoritySubmission } from "@shared/schema";
+import { projectStatusChanges, type ProjectStatusChange, type InsertProjectStatusChange } from "@shared/schema";
+import { approvalChainStages, type ApprovalChainStage, type InsertApprovalChainStage } from "@shared/schema";
+import { documentApprovalStages, type DocumentApprovalStage, type InsertDocumentApprovalStage } from "@shared/schema";
+import { approvalAttestations, type ApprovalAttestation, type InsertApprovalAttestation } from "@shared/schema";
+import { documentRejections, type DocumentRejection, type InsertDocumentRejection } from "@shared/schema";
 import { messages } from "@shared/schema";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import session from "express-session";
-import { db } from "./db";
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { db, withTransaction } from "./db";
+import { eq, and, or, desc, sql, lt, gte, ne, isNull, isNotNull, inArray, TransactionRollbackError } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { randomUUID } from "crypto";
 import { pool } from "./db";
+import { getBlobStore, type StoredBlob } from "./blob-storage";
+import { Readable } from "stream";
+
+// Every document column except the legacy inline payload, for list views
+const documentListColumns = {
+  id: documents.id,
+  projectId: documents.projectId,
+  category: documents.category,
+  fileName: documents.fileName,
+  fileType: documents.fileType,
+  fileSize: documents.fileSize,
+  status: documents.status,
+  statusChangedAt: documents.statusChangedAt,
+  assignedReviewerId: documents.assignedReviewerId,
+  reviewAssignedAt: documents.reviewAssignedAt,
+  groupId: documents.groupId,
+  supersededById: documents.supersededById,
+  supersededAt: documents.supersededAt,
+  textIndexStatus: documents.textIndexStatus,
+  previewStatus: documents.previewStatus,
+  pageCount: documents.pageCount,
+  uploadedById: documents.uploadedById,
+  uploadedAt: documents.uploadedAt,
+  reviewedById: documents.reviewedById,
+  reviewedAt: documents.reviewedAt,
+  comments: documents.comments,
+  rejectionReasons: documents.rejectionReasons,
+  effectiveDate: documents.effectiveDate,
+  expiresAt: documents.expiresAt,
+  expiryFlaggedAt: documents.expiryFlaggedAt,
+  version: documents.version,
+  contentHash: documents.contentHash,
+  fileContent: sql<string | null>`NULL` // Exclude legacy inline content from list view
+};
+
+// ts_headline markers around matched terms; the client splits on these rather than rendering HTML
+export const SNIPPET_MATCH_START = "<mark>";
+export const SNIPPET_MATCH_END = "</mark>";
+
+export interface DocumentTextMatch {
+  documentId: number;
+  projectId: number;
+  fileName: string;
+  category: string;
+  status: string;
+  version: number;
+  pageNumber: number | null;
+  snippet: string;
+  rank: number;
+}
+
+export interface DocumentAnnotationWithAuthor extends DocumentAnnotation {
+  authorName: string | null;
+  resolvedByName: string | null;
+}
+
+export interface ChecklistResponseWithReviewer extends ChecklistResponse {
+  reviewerName: string | null;
+}
+
+export interface ReviewRoundSummary extends ReviewRound {
+  projectName: string;
+  openedByName: string | null;
+  closedByName: string | null;
+  documentCount: number;
+  // Documents with at least one reviewer decision
+  decidedCount: number;
+}
+
+export interface ReviewRoundDecisionWithReviewer extends ReviewRoundDecision {
+  reviewerName: string | null;
+}
+
+export interface ReviewQueueDocument extends Document {
+  projectName: string;
+  uploadedByName: string | null;
+  assignedReviewerName: string | null;
+}
+
+// One document's share of a bulk review, applied only if it is still in fromStatus
+export interface DocumentReviewUpdate {
+  documentId: number;
+  fromStatus: string;
+  changes: Partial<Document>;
+  activity: InsertActivityLog;
+  rejection?: InsertDocumentRejection;
+}
+
+// A rejection with what reports group it by: the project's jurisdiction and the
+// company of whoever uploaded the rejected version
+export interface DocumentRejectionWithContext extends DocumentRejection {
+  jurisdiction: string;
+  uploaderCompany: string | null;
+}
+
+// A current version with an expiry date, with the project dates it is checked against
+export interface ExpiringDocument extends Document {
+  projectName: string;
+  clientName: string;
+  projectDeadline: Date | null;
+  permitExpiresAt: Date | null;
+}
+
+export interface CorrectionCommentWithDetails extends CorrectionComment {
+  assigneeName: string | null;
+  documentFileName: string | null;
+  documentVersion: number | null;
+  resolvedByName: string | null;
+}
+
+export interface AuthoritySubmissionWithRecorder extends AuthoritySubmission {
+  recordedByName: string | null;
+}
+
+export interface ProjectStatusChangeWithUser extends ProjectStatusChange {
+  changedByName: string | null;
+}
+
+export interface CommodityRevisionWithUser extends CommodityRevision {
+  changedByName: string | null;
+}
+
+// Builds the revision for a commodity write from the row as saved; undefined when nothing changed
+export type CommodityRevisionFor = (commodity: Commodity) => InsertCommodityRevision | undefined;
+
+export interface CommodityWrite {
+  commodity: Commodity;
+  revision?: CommodityRevision;
+}
+
+export interface DocumentApprovalStageWithSigner extends DocumentApprovalStage {
+  signedOffByName: string | null;
+}
+
+export interface ApprovalAttestationWithReviewer extends ApprovalAttestation {
+  reviewerName: string | null;
+}
+
+// Numbers the revision after the project's latest; a concurrent writer taking the same number
+// fails the unique index, rolling back the transaction the revision is part of
+async function insertCommodityRevision(
+  tx: Pick<typeof db, "select" | "insert">,
+  revision: InsertCommodityRevision
+): Promise<CommodityRevision> {
+  const [{ lastRevision }] = await tx
+    .select({ lastRevision: sql<number>`coalesce(max(${commodityRevisions.revisionNumber}), 0)`.mapWith(Number) })
+    .from(commodityRevisions)
+    .where(eq(commodityRevisions.projectId, revision.projectId));
+  
+  const [created] = await tx
+    .insert(commodityRevisions)
+    .values({ ...revision, revisionNumber: lastRevision + 1 })
+    .returning();
+  return created;
+}
 
 // Define the storage interface
 export interface IStorage {
   // Session store
   sessionStore: session.Store;
   
+  // Runs several storage calls as one transaction
+  inTransaction<T>(work: () => Promise<T>): Promise<T>;
+  
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -41,13 +219,106 @@ export interface IStorage {
   // Document methods
   getDocumentsByProject(projectId: number): Promise<Document[]>;
   getDocument(id: number): Promise<Document | undefined>;
-  createDocument(document: InsertDocument): Promise<Document>;
+  getDocumentContent(document: Document): Promise<Buffer | undefined>;
+  getDocumentContentStream(document: Document): Promise<Readable | undefined>;
+  getDocumentVersions(document: Document): Promise<Document[]>;
+  createDocument(document: InsertDocument, content: Buffer | StoredBlob, previousVersion?: Document): Promise<Document>;
   updateDocument(id: number, data: Partial<Document>): Promise<Document | undefined>;
+  applyDocumentReviews(reviews: DocumentReviewUpdate[]): Promise<Document[] | undefined>;
   deleteDocument(id: number): Promise<boolean>;
   
+  // Document comparison methods
+  getDocumentComparison(baseContentHash: string, targetContentHash: string): Promise<DocumentComparison | undefined>;
+  getDocumentComparisonById(id: number): Promise<DocumentComparison | undefined>;
+  createDocumentComparison(comparison: InsertDocumentComparison): Promise<DocumentComparison>;
+  updateDocumentComparison(id: number, data: Partial<DocumentComparison>): Promise<DocumentComparison | undefined>;
+  
+  // Document text (full-text search) methods
+  replaceDocumentText(documentId: number, pages: Omit<InsertDocumentText, "documentId">[], status: string): Promise<void>;
+  setDocumentTextIndexStatus(documentId: number, status: string): Promise<void>;
+  searchDocumentText(query: string, projectIds: number[], limit: number): Promise<DocumentTextMatch[]>;
+  
+  // Document preview methods
+  getDocumentPreview(contentHash: string, kind: string, pageNumber: number): Promise<DocumentPreview | undefined>;
+  createDocumentPreview(preview: InsertDocumentPreview): Promise<DocumentPreview>;
+  setDocumentPreviewStatus(documentId: number, status: string, pageCount?: number): Promise<void>;
+  
+  // Document annotation methods
+  getDocumentAnnotations(documentId: number): Promise<DocumentAnnotationWithAuthor[]>;
+  getDocumentAnnotation(id: number): Promise<DocumentAnnotation | undefined>;
+  createDocumentAnnotation(annotation: InsertDocumentAnnotation): Promise<DocumentAnnotation>;
+  updateDocumentAnnotation(id: number, data: Partial<DocumentAnnotation>): Promise<DocumentAnnotation | undefined>;
+  deleteDocumentAnnotation(id: number): Promise<boolean>;
+  
+  // Review checklist methods
+  getChecklistResponses(documentId: number): Promise<ChecklistResponseWithReviewer[]>;
+  saveChecklistResponses(responses: InsertChecklistResponse[]): Promise<ChecklistResponse[]>;
+  
+  // Review round methods
+  getReviewRounds(filter: { projectId?: number; status?: string }): Promise<ReviewRoundSummary[]>;
+  getReviewRound(id: number): Promise<ReviewRound | undefined>;
+  getOpenReviewRound(projectId: number): Promise<ReviewRound | undefined>;
+  createReviewRound(round: InsertReviewRound, documentIds: number[]): Promise<ReviewRound>;
+  closeReviewRound(id: number, data: Pick<ReviewRound, "closedById" | "summary" | "commentLetter">): Promise<ReviewRound | undefined>;
+  getReviewRoundDocuments(roundId: number): Promise<Document[]>;
+  getReviewRoundDecisions(roundId: number): Promise<ReviewRoundDecisionWithReviewer[]>;
+  saveReviewRoundDecision(decision: InsertReviewRoundDecision): Promise<ReviewRoundDecision>;
+  
+  // Review queue methods
+  getPendingReviewDocuments(): Promise<ReviewQueueDocument[]>;
+  assignDocumentReviewer(documentId: number, reviewerId: number | null): Promise<Document | undefined>;
+  
+  // Document rejection methods
+  createDocumentRejection(rejection: InsertDocumentRejection): Promise<DocumentRejection>;
+  getDocumentRejectionsSince(since: Date | null): Promise<DocumentRejectionWithContext[]>;
+  
+  // Document expiry methods
+  getExpiringDocuments(): Promise<ExpiringDocument[]>;
+  
+  // Correction comment methods
+  getCorrectionComments(projectId: number): Promise<CorrectionCommentWithDetails[]>;
+  getCorrectionComment(id: number): Promise<CorrectionComment | undefined>;
+  createCorrectionComments(comments: InsertCorrectionComment[]): Promise<CorrectionComment[]>;
+  updateCorrectionComment(id: number, data: Partial<CorrectionComment>): Promise<CorrectionComment | undefined>;
+  deleteCorrectionComment(id: number): Promise<boolean>;
+  
+  // Authority submission and project status methods
+  getAuthoritySubmissions(projectId: number): Promise<AuthoritySubmissionWithRecorder[]>;
+  createAuthoritySubmission(submission: InsertAuthoritySubmission): Promise<AuthoritySubmission>;
+  getProjectStatusChanges(projectId: number): Promise<ProjectStatusChangeWithUser[]>;
+  changeProjectStatus(change: InsertProjectStatusChange): Promise<Project | undefined>;
+  
+  // Upload session methods
+  createUploadSession(session: InsertUploadSession & { id: string }): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  recordUploadChunk(id: string, index: number, checksum: string): Promise<UploadSession | undefined>;
+  claimUploadSession(id: string): Promise<UploadSession | undefined>;
+  releaseUploadSession(id: string): Promise<UploadSession | undefined>;
+  completeUploadSession(id: string, documentId: number): Promise<UploadSession | undefined>;
+  deleteUploadSession(id: string): Promise<boolean>;
+  deleteExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
+  
   // Commodity methods
   getCommoditiesByProject(projectId: number): Promise<Commodity[]>;
-  createCommodity(commodity: InsertCommodity): Promise<Commodity>;
+  getProjectCommodity(projectId: number): Promise<Commodity | undefined>;
+  getCommodity(id: number): Promise<Commodity | undefined>;
+  createCommodity(
+    commodity: InsertCommodity & Pick<Commodity, "classification" | "classificationRule">,
+    revisionFor: CommodityRevisionFor
+  ): Promise<CommodityWrite | undefined>;
+  updateCommodity(id: number, data: Partial<Commodity>, revisionFor: CommodityRevisionFor): Promise<CommodityWrite | undefined>;
+  
+  // Commodity revision methods
+  getCommodityRevisions(projectId: number): Promise<CommodityRevisionWithUser[]>;
+  getLatestCommodityRevision(projectId: number): Promise<CommodityRevision | undefined>;
+  createCommodityRevision(revision: InsertCommodityRevision): Promise<CommodityRevision>;
+  
+  // Storage array methods
+  getStorageArraysByProject(projectId: number): Promise<StorageArray[]>;
+  getStorageArray(id: number): Promise<StorageArray | undefined>;
+  createStorageArray(array: InsertStorageArray & Pick<StorageArray, "classification" | "classificationRule">): Promise<StorageArray>;
+  updateStorageArray(id: number, data: Partial<StorageArray>): Promise<StorageArray | undefined>;
+  deleteStorageArray(id: number): Promise<boolean>;
   
   // Project stakeholder methods
   getProjectStakeholders(projectId: number): Promise<ProjectStakeholder[]>;
@@ -63,6 +334,21 @@ export interface IStorage {
   updateStakeholderTask(id: number, data: Partial<StakeholderTask>): Promise<StakeholderTask | undefined>;
   deleteStakeholderTask(id: number): Promise<boolean>;
   
+  // Approval chain methods
+  getApprovalChainStages(projectId: number): Promise<ApprovalChainStage[]>;
+  replaceApprovalChain(projectId: number, category: string, stages: InsertApprovalChainStage[]): Promise<ApprovalChainStage[]>;
+  getDocumentApprovalStages(documentId: number): Promise<DocumentApprovalStageWithSigner[]>;
+  createDocumentApprovalStages(stages: InsertDocumentApprovalStage[]): Promise<DocumentApprovalStage[]>;
+  updateDocumentApprovalStage(id: number, fromStatus: string, data: Partial<DocumentApprovalStage>): Promise<DocumentApprovalStage | undefined>;
+  deleteDocumentApprovalStages(documentId: number): Promise<void>;
+  
+  // Approval attestation methods
+  getApprovalAttestations(projectId: number): Promise<ApprovalAttestationWithReviewer[]>;
+  appendApprovalAttestation(
+    projectId: number,
+    seal: (previous: ApprovalAttestation | undefined) => InsertApprovalAttestation
+  ): Promise<ApprovalAttestation>;
+  
   // Activity log methods
   getActivityLogsByProject(projectId: number): Promise<ActivityLog[]>;
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
@@ -95,6 +381,10 @@ export class DatabaseStorage implements IStorage {
     });
   }
   
+  async inTransaction<T>(work: () => Promise<T>): Promise<T> {
+    return await withTransaction(work);
+  }
+  
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -205,6 +495,7 @@ export class DatabaseStorage implements IStorage {
       .values({ 
         ...insertProject, 
         permitNumber,
+        status: ProjectStatus.NOT_STARTED,
         createdAt: new Date() 
       })
       .returning();
@@ -260,7 +551,15 @@ export class DatabaseStorage implements IStorage {
       
       // Delete documents
       try {
-        await db.delete(documents).where(eq(documents.projectId, id));
+        const deletedDocuments = await db
+          .delete(documents)
+          .where(eq(documents.projectId, id))
+          .returning({ contentHash: documents.contentHash });
+        
+        const contentHashes = new Set(deletedDocuments.map(doc => doc.contentHash));
+        for (const contentHash of Array.from(contentHashes)) {
+          await this.releaseBlob(contentHash);
+        }
         console.log('Documents deleted successfully');
       } catch (e) {
         console.log('Error deleting documents:', e);
@@ -334,22 +633,7 @@ export class DatabaseStorage implements IStorage {
       console.log(`Fetching documents for project ${projectId}`);
       // Exclude fileContent to avoid response size limits
       const docs = await db
-        .select({
-          id: documents.id,
-          projectId: documents.projectId,
-          category: documents.category,
-          fileName: documents.fileName,
-          fileType: documents.fileType,
-          fileSize: documents.fileSize,
-          status: documents.status,
-          uploadedById: documents.uploadedById,
-          uploadedAt: documents.uploadedAt,
-          reviewedById: documents.reviewedById,
-          reviewedAt: documents.reviewedAt,
-          comments: documents.comments,
-          version: documents.version,
-          fileContent: sql`NULL` // Exclude large content from list view
-        })
+        .select(documentListColumns)
         .from(documents)
         .where(eq(documents.projectId, projectId));
       console.log(`Found ${docs.length} documents for project ${projectId}`);
@@ -368,33 +652,168 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
   
-  async createDocument(insertDocument: InsertDocument): Promise<Document> {
-    // Find existing documents with the same category AND base filename to determine version
-    // This creates a proper version sequence for the same logical document
-    const existingDocs = await db
-      .select()
+  async getDocumentContent(document: Document): Promise<Buffer | undefined> {
+    if (document.contentHash) {
+      const blobStore = await getBlobStore();
+      return await blobStore.get(document.contentHash);
+    }
+    
+    // Rows that have not been migrated yet still carry their bytes inline
+    if (document.fileContent) {
+      return Buffer.from(document.fileContent, 'base64');
+    }
+    
+    return undefined;
+  }
+  
+  async getDocumentContentStream(document: Document): Promise<Readable | undefined> {
+    if (document.contentHash) {
+      const blobStore = await getBlobStore();
+      return await blobStore.getStream(document.contentHash);
+    }
+    
+    // Legacy inline payloads are already in memory
+    if (document.fileContent) {
+      return Readable.from(Buffer.from(document.fileContent, 'base64'));
+    }
+    
+    return undefined;
+  }
+  
+  async getDocumentVersions(document: Document): Promise<Document[]> {
+    // Rows created before lineage tracking fall back to the old filename match
+    const sameLineage = document.groupId
+      ? eq(documents.groupId, document.groupId)
+      : and(
+          eq(documents.projectId, document.projectId),
+          eq(documents.category, document.category),
+          eq(documents.fileName, document.fileName),
+          isNull(documents.groupId)
+        );
+    
+    const versions = await db
+      .select(documentListColumns)
       .from(documents)
+      .where(sameLineage)
+      .orderBy(desc(documents.version));
+    return versions as Document[];
+  }
+  
+  // Gives a pre-lineage document (and its filename-matched versions) a group id
+  private async assignLegacyGroup(document: Document): Promise<string> {
+    const groupId = randomUUID();
+    await db
+      .update(documents)
+      .set({ groupId })
       .where(
         and(
-          eq(documents.projectId, insertDocument.projectId),
-          eq(documents.category, insertDocument.category),
-          eq(documents.fileName, insertDocument.fileName)
+          eq(documents.projectId, document.projectId),
+          eq(documents.category, document.category),
+          eq(documents.fileName, document.fileName),
+          isNull(documents.groupId)
         )
       );
+    return groupId;
+  }
+  
+  // `content` is either the raw bytes or a blob that has already been written to the store.
+  // Passing `previousVersion` uploads a new version of that document's lineage, even under
+  // a different file name; the versions it replaces are marked superseded.
+  async createDocument(insertDocument: InsertDocument, content: Buffer | StoredBlob, previousVersion?: Document): Promise<Document> {
+    let lineageSource = previousVersion;
+    
+    // Without an explicit target, a re-upload with the same category and file name still
+    // continues that document's lineage, as it always has
+    if (!lineageSource) {
+      [lineageSource] = await db
+        .select()
+        .from(documents)
+        .where(
+          and(
+            eq(documents.projectId, insertDocument.projectId),
+            eq(documents.category, insertDocument.category),
+            eq(documents.fileName, insertDocument.fileName)
+          )
+        )
+        .orderBy(desc(documents.version))
+        .limit(1);
+    }
     
-    const version = existingDocs.length > 0 
-      ? Math.max(...existingDocs.map(doc => doc.version)) + 1 
-      : 1;
+    const groupId = lineageSource
+      ? lineageSource.groupId ?? await this.assignLegacyGroup(lineageSource)
+      : randomUUID();
     
-    // Create the document
-    const [document] = await db
-      .insert(documents)
-      .values({
-        ...insertDocument,
-        version,
-        uploadedAt: new Date()
-      })
-      .returning();
+    // Store the bytes first so the row never points at a missing blob
+    const blob = Buffer.isBuffer(content)
+      ? await (await getBlobStore()).put(content)
+      : content;
+    
+    const { document, superseded } = await db.transaction(async (tx) => {
+      // Uploads to the same lineage take turns, so two of them can't both number themselves next
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('documents'), hashtext(${groupId}))`);
+      
+      const [{ maxVersion }] = await tx
+        .select({ maxVersion: sql<number>`coalesce(max(${documents.version}), 0)` })
+        .from(documents)
+        .where(eq(documents.groupId, groupId));
+      const version = Number(maxVersion) + 1;
+      
+      const [document] = await tx
+        .insert(documents)
+        .values({
+          ...insertDocument,
+          // A new version always stays in its lineage's category
+          category: lineageSource?.category ?? insertDocument.category,
+          fileSize: blob.size,
+          contentHash: blob.key,
+          fileContent: null,
+          groupId,
+          version,
+          uploadedAt: new Date()
+        })
+        .returning();
+      
+      const superseded = await tx
+        .update(documents)
+        .set({
+          status: DocumentStatus.SUPERSEDED,
+          supersededById: document.id,
+          supersededAt: new Date()
+        })
+        .where(
+          and(
+            eq(documents.groupId, groupId),
+            ne(documents.id, document.id),
+            ne(documents.status, DocumentStatus.SUPERSEDED)
+          )
+        )
+        .returning({ id: documents.id, fileName: documents.fileName, version: documents.version });
+      
+      // Open markup follows the document to its new version, where reviewers can check it
+      // off; resolved markup stays with the version it was resolved on
+      if (superseded.length > 0) {
+        const openAnnotations = await tx
+          .select()
+          .from(documentAnnotations)
+          .where(
+            and(
+              inArray(documentAnnotations.documentId, superseded.map(old => old.id)),
+              eq(documentAnnotations.resolved, false)
+            )
+          );
+        if (openAnnotations.length > 0) {
+          await tx.insert(documentAnnotations).values(
+            openAnnotations.map(({ id, ...annotation }) => ({
+              ...annotation,
+              documentId: document.id,
+              carriedFromId: id
+            }))
+          );
+        }
+      }
+      
+      return { document, superseded };
+    });
     
     // Create activity log for document upload
     await this.createActivityLog({
@@ -404,6 +823,15 @@ export class DatabaseStorage implements IStorage {
       description: `Document "${insertDocument.fileName}" uploaded`
     });
     
+    for (const old of superseded) {
+      await this.createActivityLog({
+        projectId: insertDocument.projectId,
+        userId: insertDocument.uploadedById,
+        activityType: "document_superseded",
+        description: `Document "${old.fileName}" v${old.version} superseded by "${document.fileName}" v${document.version}`
+      });
+    }
+    
     return document;
   }
   
@@ -418,10 +846,13 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
     
-    // Update the document
+    // Update the document, restarting its time-in-status clock when the status moves
     const [updatedDocument] = await db
       .update(documents)
-      .set(data)
+      .set({
+        ...data,
+        ...(data.status && data.status !== currentDocument.status && { statusChangedAt: new Date() })
+      })
       .where(eq(documents.id, id))
       .returning();
     
@@ -438,6 +869,33 @@ export class DatabaseStorage implements IStorage {
     return updatedDocument;
   }
   
+  // All or nothing: if any document has left its fromStatus in the meantime, none are changed
+  async applyDocumentReviews(reviews: DocumentReviewUpdate[]): Promise<Document[] | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const updated: Document[] = [];
+        for (const review of reviews) {
+          const [document] = await tx
+            .update(documents)
+            .set(review.changes)
+            .where(and(eq(documents.id, review.documentId), eq(documents.status, review.fromStatus)))
+            .returning();
+          if (!document) tx.rollback();
+          
+          await tx.insert(activityLogs).values(review.activity);
+          if (review.rejection) {
+            await tx.insert(documentRejections).values(review.rejection);
+          }
+          updated.push(document);
+        }
+        return updated;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+  
   async deleteDocument(id: number): Promise<boolean> {
     // Get document before deleting to use in activity log
     const [document] = await db
@@ -454,11 +912,699 @@ export class DatabaseStorage implements IStorage {
       .delete(documents)
       .where(eq(documents.id, id))
       .returning();
+    
+    if (result.length > 0) {
+      await this.repairLineageAfterDelete(document);
+      await this.releaseBlob(document.contentHash);
+    }
       
     return result.length > 0;
   }
   
+  // Keeps a lineage consistent when one of its versions is removed: versions it had superseded
+  // point at its successor instead, and deleting the current version reinstates the one before it
+  private async repairLineageAfterDelete(document: Document): Promise<void> {
+    if (!document.groupId) return;
+    
+    if (document.supersededById) {
+      await db
+        .update(documents)
+        .set({ supersededById: document.supersededById })
+        .where(eq(documents.supersededById, document.id));
+      return;
+    }
+    
+    const [previous] = await db
+      .select()
+      .from(documents)
+      .where(eq(documents.groupId, document.groupId))
+      .orderBy(desc(documents.version))
+      .limit(1);
+    
+    if (previous && previous.status === DocumentStatus.SUPERSEDED) {
+      // Its earlier review no longer applies as-is, so it goes back into review
+      await db
+        .update(documents)
+        .set({ status: DocumentStatus.PENDING_REVIEW, supersededById: null, supersededAt: null })
+        .where(eq(documents.id, previous.id));
+    }
+  }
+  
+  // Documents, page previews and comparison overlays share one content-addressed namespace, so
+  // the same bytes (an uploaded PNG identical to a rendered page, say) can be any of them at once
+  private async isBlobReferenced(key: string): Promise<boolean> {
+    const [document] = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(eq(documents.contentHash, key))
+      .limit(1);
+    if (document) return true;
+    
+    const [preview] = await db
+      .select({ id: documentPreviews.id })
+      .from(documentPreviews)
+      .where(eq(documentPreviews.blobKey, key))
+      .limit(1);
+    if (preview) return true;
+    
+    const [comparison] = await db
+      .select({ id: documentComparisons.id })
+      .from(documentComparisons)
+      .where(sql`exists (
+        select 1 from json_array_elements(${documentComparisons.result}->'pages') as page
+        where page->>'overlayKey' = ${key}
+      )`)
+      .limit(1);
+    return !!comparison;
+  }
+  
+  // Blobs are shared between identical uploads, so only remove one once nothing references it
+  private async releaseBlob(contentHash: string | null): Promise<void> {
+    if (!contentHash) return;
+    
+    try {
+      const [stillReferenced] = await db
+        .select({ id: documents.id })
+        .from(documents)
+        .where(eq(documents.contentHash, contentHash))
+        .limit(1);
+      
+      if (!stillReferenced) {
+        await this.releasePreviews(contentHash);
+        if (!(await this.isBlobReferenced(contentHash))) {
+          const blobStore = await getBlobStore();
+          await blobStore.delete(contentHash);
+        }
+      }
+    } catch (error) {
+      // An orphaned blob is harmless; don't fail the delete over it
+      console.error(`Error releasing blob ${contentHash}:`, error);
+    }
+  }
+  
+  // Document comparison methods
+  async getDocumentComparison(baseContentHash: string, targetContentHash: string): Promise<DocumentComparison | undefined> {
+    const [comparison] = await db
+      .select()
+      .from(documentComparisons)
+      .where(
+        and(
+          eq(documentComparisons.baseContentHash, baseContentHash),
+          eq(documentComparisons.targetContentHash, targetContentHash)
+        )
+      )
+      .orderBy(desc(documentComparisons.createdAt))
+      .limit(1);
+    return comparison;
+  }
+  
+  async getDocumentComparisonById(id: number): Promise<DocumentComparison | undefined> {
+    const [comparison] = await db
+      .select()
+      .from(documentComparisons)
+      .where(eq(documentComparisons.id, id));
+    return comparison;
+  }
+  
+  async createDocumentComparison(insertComparison: InsertDocumentComparison): Promise<DocumentComparison> {
+    const [comparison] = await db
+      .insert(documentComparisons)
+      .values(insertComparison)
+      .returning();
+    return comparison;
+  }
+  
+  async updateDocumentComparison(id: number, data: Partial<DocumentComparison>): Promise<DocumentComparison | undefined> {
+    const [comparison] = await db
+      .update(documentComparisons)
+      .set(data)
+      .where(eq(documentComparisons.id, id))
+      .returning();
+    return comparison;
+  }
+  
+  // Document text (full-text search) methods
+  async replaceDocumentText(documentId: number, pages: Omit<InsertDocumentText, "documentId">[], status: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(documentText).where(eq(documentText.documentId, documentId));
+      
+      // Insert in batches so a long drawing set doesn't exceed the bind parameter limit
+      for (let start = 0; start < pages.length; start += 500) {
+        await tx
+          .insert(documentText)
+          .values(pages.slice(start, start + 500).map(page => ({ ...page, documentId })));
+      }
+      
+      await tx
+        .update(documents)
+        .set({ textIndexStatus: status })
+        .where(eq(documents.id, documentId));
+    });
+  }
+  
+  async setDocumentTextIndexStatus(documentId: number, status: string): Promise<void> {
+    await db
+      .update(documents)
+      .set({ textIndexStatus: status })
+      .where(eq(documents.id, documentId));
+  }
+  
+  // Matches pages against a web-style query ("quoted phrases", -exclusions, or), best match first
+  async searchDocumentText(query: string, projectIds: number[], limit: number): Promise<DocumentTextMatch[]> {
+    if (projectIds.length === 0) return [];
+    
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const headlineOptions = `StartSel=${SNIPPET_MATCH_START}, StopSel=${SNIPPET_MATCH_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+    const rank = sql<number>`ts_rank(${documentText.searchVector}, ${tsQuery})`;
+    
+    return await db
+      .select({
+        documentId: documentText.documentId,
+        projectId: documents.projectId,
+        fileName: documents.fileName,
+        category: documents.category,
+        status: documents.status,
+        version: documents.version,
+        pageNumber: documentText.pageNumber,
+        snippet: sql<string>`ts_headline('english', ${documentText.content}, ${tsQuery}, ${headlineOptions})`,
+        rank,
+      })
+      .from(documentText)
+      .innerJoin(documents, eq(documents.id, documentText.documentId))
+      .where(
+        and(
+          inArray(documents.projectId, projectIds),
+          sql`${documentText.searchVector} @@ ${tsQuery}`
+        )
+      )
+      .orderBy(desc(rank), desc(documents.version), documentText.pageNumber)
+      .limit(limit);
+  }
+  
+  // Document annotation methods
+  async getDocumentAnnotations(documentId: number): Promise<DocumentAnnotationWithAuthor[]> {
+    const author = alias(users, "author");
+    const resolver = alias(users, "resolver");
+    const rows = await db
+      .select({
+        annotation: documentAnnotations,
+        authorName: author.fullName,
+        resolvedByName: resolver.fullName
+      })
+      .from(documentAnnotations)
+      .leftJoin(author, eq(author.id, documentAnnotations.authorId))
+      .leftJoin(resolver, eq(resolver.id, documentAnnotations.resolvedById))
+      .where(eq(documentAnnotations.documentId, documentId))
+      .orderBy(documentAnnotations.pageNumber, documentAnnotations.createdAt);
+    
+    return rows.map(({ annotation, authorName, resolvedByName }) => ({ ...annotation, authorName, resolvedByName }));
+  }
+  
+  async getDocumentAnnotation(id: number): Promise<DocumentAnnotation | undefined> {
+    const [annotation] = await db
+      .select()
+      .from(documentAnnotations)
+      .where(eq(documentAnnotations.id, id));
+    return annotation;
+  }
+  
+  async createDocumentAnnotation(annotation: InsertDocumentAnnotation): Promise<DocumentAnnotation> {
+    const [created] = await db
+      .insert(documentAnnotations)
+      .values(annotation)
+      .returning();
+    return created;
+  }
+  
+  async updateDocumentAnnotation(id: number, data: Partial<DocumentAnnotation>): Promise<DocumentAnnotation | undefined> {
+    const [updated] = await db
+      .update(documentAnnotations)
+      .set(data)
+      .where(eq(documentAnnotations.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteDocumentAnnotation(id: number): Promise<boolean> {
+    const result = await db
+      .delete(documentAnnotations)
+      .where(eq(documentAnnotations.id, id))
+      .returning({ id: documentAnnotations.id });
+    return result.length > 0;
+  }
+  
+  // Review checklist methods
+  async getChecklistResponses(documentId: number): Promise<ChecklistResponseWithReviewer[]> {
+    const rows = await db
+      .select({ response: checklistResponses, reviewerName: users.fullName })
+      .from(checklistResponses)
+      .leftJoin(users, eq(users.id, checklistResponses.reviewerId))
+      .where(eq(checklistResponses.documentId, documentId))
+      .orderBy(checklistResponses.reviewerId, checklistResponses.id);
+    
+    return rows.map(({ response, reviewerName }) => ({ ...response, reviewerName }));
+  }
+  
+  // Upserts each reviewer's answer to each item
+  async saveChecklistResponses(responses: InsertChecklistResponse[]): Promise<ChecklistResponse[]> {
+    if (responses.length === 0) return [];
+    
+    return await db
+      .insert(checklistResponses)
+      .values(responses.map(response => ({ ...response, updatedAt: new Date() })))
+      .onConflictDoUpdate({
+        target: [checklistResponses.documentId, checklistResponses.reviewerId, checklistResponses.itemId],
+        set: {
+          checked: sql`excluded.checked`,
+          note: sql`excluded.note`,
+          updatedAt: sql`excluded.updated_at`
+        }
+      })
+      .returning();
+  }
+  
+  // Review round methods
+  async getReviewRounds(filter: { projectId?: number; status?: string }): Promise<ReviewRoundSummary[]> {
+    const openedBy = alias(users, "opened_by");
+    const closedBy = alias(users, "closed_by");
+    const conditions = [
+      filter.projectId !== undefined ? eq(reviewRounds.projectId, filter.projectId) : undefined,
+      filter.status ? eq(reviewRounds.status, filter.status) : undefined
+    ].filter(condition => condition !== undefined);
+    
+    const rows = await db
+      .select({
+        round: reviewRounds,
+        projectName: projects.name,
+        openedByName: openedBy.fullName,
+        closedByName: closedBy.fullName,
+        documentCount: sql<number>`(select count(*) from review_round_documents where round_id = ${reviewRounds.id})`.mapWith(Number),
+        decidedCount: sql<number>`(select count(distinct document_id) from review_round_decisions where round_id = ${reviewRounds.id})`.mapWith(Number)
+      })
+      .from(reviewRounds)
+      .innerJoin(projects, eq(projects.id, reviewRounds.projectId))
+      .leftJoin(openedBy, eq(openedBy.id, reviewRounds.openedById))
+      .leftJoin(closedBy, eq(closedBy.id, reviewRounds.closedById))
+      .where(and(...conditions))
+      .orderBy(desc(reviewRounds.openedAt));
+    
+    return rows.map(({ round, ...rest }) => ({ ...round, ...rest }));
+  }
+  
+  async getReviewRound(id: number): Promise<ReviewRound | undefined> {
+    const [round] = await db
+      .select()
+      .from(reviewRounds)
+      .where(eq(reviewRounds.id, id));
+    return round;
+  }
+  
+  async getOpenReviewRound(projectId: number): Promise<ReviewRound | undefined> {
+    const [round] = await db
+      .select()
+      .from(reviewRounds)
+      .where(and(eq(reviewRounds.projectId, projectId), eq(reviewRounds.status, ReviewRoundStatus.OPEN)));
+    return round;
+  }
+  
+  // Numbers the round after the project's previous one and snapshots the given document versions
+  async createReviewRound(round: InsertReviewRound, documentIds: number[]): Promise<ReviewRound> {
+    return await db.transaction(async (tx) => {
+      const [{ lastRound }] = await tx
+        .select({ lastRound: sql<number>`coalesce(max(${reviewRounds.roundNumber}), 0)`.mapWith(Number) })
+        .from(reviewRounds)
+        .where(eq(reviewRounds.projectId, round.projectId));
+      
+      const [created] = await tx
+        .insert(reviewRounds)
+        .values({ ...round, roundNumber: lastRound + 1 })
+        .returning();
+      
+      if (documentIds.length > 0) {
+        await tx
+          .insert(reviewRoundDocuments)
+          .values(documentIds.map(documentId => ({ roundId: created.id, documentId })));
+      }
+      return created;
+    });
+  }
+  
+  // Only closes a round that is still open, so two reviewers closing at once can't both succeed
+  async closeReviewRound(id: number, data: Pick<ReviewRound, "closedById" | "summary" | "commentLetter">): Promise<ReviewRound | undefined> {
+    const [closed] = await db
+      .update(reviewRounds)
+      .set({ ...data, status: ReviewRoundStatus.CLOSED, closedAt: new Date() })
+      .where(and(eq(reviewRounds.id, id), eq(reviewRounds.status, ReviewRoundStatus.OPEN)))
+      .returning();
+    return closed;
+  }
+  
+  async getReviewRoundDocuments(roundId: number): Promise<Document[]> {
+    const docs = await db
+      .select(documentListColumns)
+      .from(reviewRoundDocuments)
+      .innerJoin(documents, eq(documents.id, reviewRoundDocuments.documentId))
+      .where(eq(reviewRoundDocuments.roundId, roundId))
+      .orderBy(documents.category, documents.fileName);
+    return docs as Document[];
+  }
+  
+  async getReviewRoundDecisions(roundId: number): Promise<ReviewRoundDecisionWithReviewer[]> {
+    const rows = await db
+      .select({ decision: reviewRoundDecisions, reviewerName: users.fullName })
+      .from(reviewRoundDecisions)
+      .leftJoin(users, eq(users.id, reviewRoundDecisions.reviewerId))
+      .where(eq(reviewRoundDecisions.roundId, roundId))
+      .orderBy(reviewRoundDecisions.decidedAt);
+    
+    return rows.map(({ decision, reviewerName }) => ({ ...decision, reviewerName }));
+  }
+  
+  // A reviewer's later decision on the same document replaces their earlier one
+  async saveReviewRoundDecision(decision: InsertReviewRoundDecision): Promise<ReviewRoundDecision> {
+    const [saved] = await db
+      .insert(reviewRoundDecisions)
+      .values({ ...decision, decidedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [reviewRoundDecisions.roundId, reviewRoundDecisions.documentId, reviewRoundDecisions.reviewerId],
+        set: {
+          decision: sql`excluded.decision`,
+          comments: sql`excluded.comments`,
+          decidedAt: sql`excluded.decided_at`
+        }
+      })
+      .returning();
+    return saved;
+  }
+  
+  // Review queue methods
+  async getPendingReviewDocuments(): Promise<ReviewQueueDocument[]> {
+    const uploader = alias(users, "uploader");
+    const reviewer = alias(users, "reviewer");
+    const rows = await db
+      .select({
+        document: documentListColumns,
+        projectName: projects.name,
+        uploadedByName: uploader.fullName,
+        assignedReviewerName: reviewer.fullName
+      })
+      .from(documents)
+      .innerJoin(projects, eq(projects.id, documents.projectId))
+      .leftJoin(uploader, eq(uploader.id, documents.uploadedById))
+      .leftJoin(reviewer, eq(reviewer.id, documents.assignedReviewerId))
+      .where(eq(documents.status, DocumentStatus.PENDING_REVIEW));
+    
+    return rows.map(({ document, ...rest }) => ({ ...(document as Document), ...rest }));
+  }
+  
+  async assignDocumentReviewer(documentId: number, reviewerId: number | null): Promise<Document | undefined> {
+    const [updated] = await db
+      .update(documents)
+      .set({ assignedReviewerId: reviewerId, reviewAssignedAt: reviewerId ? new Date() : null })
+      .where(eq(documents.id, documentId))
+      .returning();
+    return updated;
+  }
+  
+  // Document rejection methods
+  async createDocumentRejection(rejection: InsertDocumentRejection): Promise<DocumentRejection> {
+    const [created] = await db.insert(documentRejections).values(rejection).returning();
+    return created;
+  }
+  
+  async getDocumentRejectionsSince(since: Date | null): Promise<DocumentRejectionWithContext[]> {
+    const uploader = alias(users, "uploader");
+    const rows = await db
+      .select({
+        rejection: documentRejections,
+        jurisdiction: projects.jurisdiction,
+        uploaderCompany: uploader.company
+      })
+      .from(documentRejections)
+      .innerJoin(projects, eq(projects.id, documentRejections.projectId))
+      .innerJoin(documents, eq(documents.id, documentRejections.documentId))
+      .leftJoin(uploader, eq(uploader.id, documents.uploadedById))
+      .where(since ? gte(documentRejections.rejectedAt, since) : undefined)
+      .orderBy(desc(documentRejections.rejectedAt));
+    
+    return rows.map(({ rejection, ...rest }) => ({ ...rejection, ...rest }));
+  }
+  
+  // Document expiry methods
+  async getExpiringDocuments(): Promise<ExpiringDocument[]> {
+    const rows = await db
+      .select({
+        document: documentListColumns,
+        projectName: projects.name,
+        clientName: projects.clientName,
+        projectDeadline: projects.deadline,
+        permitExpiresAt: projects.permitExpiresAt
+      })
+      .from(documents)
+      .innerJoin(projects, eq(projects.id, documents.projectId))
+      .where(and(isNotNull(documents.expiresAt), ne(documents.status, DocumentStatus.SUPERSEDED)))
+      .orderBy(documents.expiresAt);
+    
+    return rows.map(({ document, ...rest }) => ({ ...(document as Document), ...rest }));
+  }
+  
+  // Correction comment methods
+  async getCorrectionComments(projectId: number): Promise<CorrectionCommentWithDetails[]> {
+    const assignee = alias(users, "assignee");
+    const resolver = alias(users, "resolver");
+    const rows = await db
+      .select({
+        comment: correctionComments,
+        assigneeName: assignee.fullName,
+        documentFileName: documents.fileName,
+        documentVersion: documents.version,
+        resolvedByName: resolver.fullName
+      })
+      .from(correctionComments)
+      .leftJoin(projectStakeholders, eq(projectStakeholders.id, correctionComments.assignedStakeholderId))
+      .leftJoin(assignee, eq(assignee.id, projectStakeholders.userId))
+      .leftJoin(documents, eq(documents.id, correctionComments.documentId))
+      .leftJoin(resolver, eq(resolver.id, correctionComments.resolvedById))
+      .where(eq(correctionComments.projectId, projectId))
+      .orderBy(correctionComments.submissionNumber, correctionComments.id);
+    
+    return rows.map(({ comment, ...details }) => ({ ...comment, ...details }));
+  }
+  
+  async getCorrectionComment(id: number): Promise<CorrectionComment | undefined> {
+    const [comment] = await db
+      .select()
+      .from(correctionComments)
+      .where(eq(correctionComments.id, id));
+    return comment;
+  }
+  
+  async createCorrectionComments(comments: InsertCorrectionComment[]): Promise<CorrectionComment[]> {
+    if (comments.length === 0) return [];
+    
+    return await db
+      .insert(correctionComments)
+      .values(comments)
+      .returning();
+  }
+  
+  async updateCorrectionComment(id: number, data: Partial<CorrectionComment>): Promise<CorrectionComment | undefined> {
+    const [updated] = await db
+      .update(correctionComments)
+      .set(data)
+      .where(eq(correctionComments.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteCorrectionComment(id: number): Promise<boolean> {
+    const result = await db
+      .delete(correctionComments)
+      .where(eq(correctionComments.id, id))
+      .returning({ id: correctionComments.id });
+    return result.length > 0;
+  }
+  
+  // Authority submission and project status methods
+  async getAuthoritySubmissions(projectId: number): Promise<AuthoritySubmissionWithRecorder[]> {
+    const rows = await db
+      .select({ submission: authoritySubmissions, recordedByName: users.fullName })
+      .from(authoritySubmissions)
+      .leftJoin(users, eq(users.id, authoritySubmissions.recordedById))
+      .where(eq(authoritySubmissions.projectId, projectId))
+      .orderBy(desc(authoritySubmissions.submissionNumber));
+    
+    return rows.map(({ submission, recordedByName }) => ({ ...submission, recordedByName }));
+  }
+  
+  async createAuthoritySubmission(submission: InsertAuthoritySubmission): Promise<AuthoritySubmission> {
+    return await db.transaction(async (tx) => {
+      const [{ lastSubmission }] = await tx
+        .select({ lastSubmission: sql<number>`coalesce(max(${authoritySubmissions.submissionNumber}), 0)`.mapWith(Number) })
+        .from(authoritySubmissions)
+        .where(eq(authoritySubmissions.projectId, submission.projectId));
+      
+      const [created] = await tx
+        .insert(authoritySubmissions)
+        .values({ ...submission, submissionNumber: lastSubmission + 1 })
+        .returning();
+      return created;
+    });
+  }
+  
+  async getProjectStatusChanges(projectId: number): Promise<ProjectStatusChangeWithUser[]> {
+    const rows = await db
+      .select({ change: projectStatusChanges, changedByName: users.fullName })
+      .from(projectStatusChanges)
+      .leftJoin(users, eq(users.id, projectStatusChanges.changedById))
+      .where(eq(projectStatusChanges.projectId, projectId))
+      .orderBy(desc(projectStatusChanges.changedAt), desc(projectStatusChanges.id));
+    
+    return rows.map(({ change, changedByName }) => ({ ...change, changedByName }));
+  }
+  
+  // Only applies if the project is still in fromStatus, so a concurrent change isn't overwritten
+  async changeProjectStatus(change: InsertProjectStatusChange): Promise<Project | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(projects)
+        .set({ status: change.toStatus })
+        .where(and(eq(projects.id, change.projectId), eq(projects.status, change.fromStatus)))
+        .returning();
+      if (!updated) return undefined;
+      
+      await tx.insert(projectStatusChanges).values(change);
+      return updated;
+    });
+  }
+  
+  // Document preview methods
+  async getDocumentPreview(contentHash: string, kind: string, pageNumber: number): Promise<DocumentPreview | undefined> {
+    const [preview] = await db
+      .select()
+      .from(documentPreviews)
+      .where(
+        and(
+          eq(documentPreviews.contentHash, contentHash),
+          eq(documentPreviews.kind, kind),
+          eq(documentPreviews.pageNumber, pageNumber)
+        )
+      );
+    return preview;
+  }
+  
+  async createDocumentPreview(insertPreview: InsertDocumentPreview): Promise<DocumentPreview> {
+    // Two requests can render the same page at once; both produce the same image, so keep the first
+    const [preview] = await db
+      .insert(documentPreviews)
+      .values(insertPreview)
+      .onConflictDoUpdate({
+        target: [documentPreviews.contentHash, documentPreviews.kind, documentPreviews.pageNumber],
+        set: { blobKey: sql`${documentPreviews.blobKey}` }
+      })
+      .returning();
+    return preview;
+  }
+  
+  async setDocumentPreviewStatus(documentId: number, status: string, pageCount?: number): Promise<void> {
+    await db
+      .update(documents)
+      .set({ previewStatus: status, ...(pageCount !== undefined ? { pageCount } : {}) })
+      .where(eq(documents.id, documentId));
+  }
+  
+  // Removes the rendered previews of a file that no document uses any more
+  private async releasePreviews(contentHash: string): Promise<void> {
+    const previews = await db
+      .delete(documentPreviews)
+      .where(eq(documentPreviews.contentHash, contentHash))
+      .returning();
+    if (previews.length === 0) return;
+    
+    const blobStore = await getBlobStore();
+    for (const preview of previews) {
+      // Identical images (e.g. blank pages) are shared between files, and with comparison overlays
+      if (!(await this.isBlobReferenced(preview.blobKey))) {
+        await blobStore.delete(preview.blobKey);
+      }
+    }
+  }
+  
+  // Upload session methods
+  async createUploadSession(insertSession: InsertUploadSession & { id: string }): Promise<UploadSession> {
+    const [uploadSession] = await db
+      .insert(uploadSessions)
+      .values(insertSession)
+      .returning();
+    return uploadSession;
+  }
+  
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [uploadSession] = await db
+      .select()
+      .from(uploadSessions)
+      .where(eq(uploadSessions.id, id));
+    return uploadSession;
+  }
+  
+  async recordUploadChunk(id: string, index: number, checksum: string): Promise<UploadSession | undefined> {
+    // Merge in SQL so chunks uploaded in parallel don't overwrite each other's entries
+    const [uploadSession] = await db
+      .update(uploadSessions)
+      .set({
+        receivedChunks: sql`(coalesce(${uploadSessions.receivedChunks}, '{}'::json)::jsonb || jsonb_build_object(${String(index)}::text, ${checksum}::text))::json`
+      })
+      .where(and(eq(uploadSessions.id, id), eq(uploadSessions.status, "pending")))
+      .returning();
+    return uploadSession;
+  }
+  
+  // Marks a pending session as being completed; undefined when another request got there first
+  async claimUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [uploadSession] = await db
+      .update(uploadSessions)
+      .set({ status: "completing" })
+      .where(and(eq(uploadSessions.id, id), eq(uploadSessions.status, "pending")))
+      .returning();
+    return uploadSession;
+  }
+  
+  // Hands a session whose completion failed back to the client to retry
+  async releaseUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [uploadSession] = await db
+      .update(uploadSessions)
+      .set({ status: "pending" })
+      .where(and(eq(uploadSessions.id, id), eq(uploadSessions.status, "completing")))
+      .returning();
+    return uploadSession;
+  }
+  
+  async completeUploadSession(id: string, documentId: number): Promise<UploadSession | undefined> {
+    const [uploadSession] = await db
+      .update(uploadSessions)
+      .set({ status: "completed", documentId })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return uploadSession;
+  }
+  
+  async deleteUploadSession(id: string): Promise<boolean> {
+    const result = await db
+      .delete(uploadSessions)
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return result.length > 0;
+  }
+  
+  async deleteExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return await db
+      .delete(uploadSessions)
+      .where(lt(uploadSessions.expiresAt, now))
+      .returning();
+  }
+  
   // Commodity methods
+  // A project has at most one row, updated in place (commodities_project_idx)
   async getCommoditiesByProject(projectId: number): Promise<Commodity[]> {
     return await db
       .select()
@@ -466,17 +1612,46 @@ export class DatabaseStorage implements IStorage {
       .where(eq(commodities.projectId, projectId));
   }
   
-  async createCommodity(insertCommodity: InsertCommodity): Promise<Commodity> {
+  async getProjectCommodity(projectId: number): Promise<Commodity | undefined> {
+    const [commodity] = await db
+      .select()
+      .from(commodities)
+      .where(eq(commodities.projectId, projectId));
+    return commodity;
+  }
+  
+  async getCommodity(id: number): Promise<Commodity | undefined> {
+    const [commodity] = await db
+      .select()
+      .from(commodities)
+      .where(eq(commodities.id, id));
+    return commodity;
+  }
+  
+  // A project has at most one commodities row, so a second create finds the conflict and returns undefined.
+  // The row and its revision are written together, so a failed revision leaves the data unchanged.
+  async createCommodity(
+    insertCommodity: InsertCommodity & Pick<Commodity, "classification" | "classificationRule">,
+    revisionFor: CommodityRevisionFor
+  ): Promise<CommodityWrite | undefined> {
     const now = new Date();
     
-    const [commodity] = await db
-      .insert(commodities)
-      .values({
-        ...insertCommodity,
-        createdAt: now,
-        updatedAt: now
-      })
-      .returning();
+    const written = await db.transaction(async (tx) => {
+      const [commodity] = await tx
+        .insert(commodities)
+        .values({
+          ...insertCommodity,
+          createdAt: now,
+          updatedAt: now
+        })
+        .onConflictDoNothing({ target: commodities.projectId })
+        .returning();
+      if (!commodity) return undefined;
+      
+      const revision = revisionFor(commodity);
+      return { commodity, revision: revision && await insertCommodityRevision(tx, revision) };
+    });
+    if (!written) return undefined;
     
     // Create activity log for commodity update
     await this.createActivityLog({
@@ -486,7 +1661,89 @@ export class DatabaseStorage implements IStorage {
       description: `Commodity information added/updated for the project`
     });
     
-    return commodity;
+    return written;
+  }
+  
+  async updateCommodity(id: number, data: Partial<Commodity>, revisionFor: CommodityRevisionFor): Promise<CommodityWrite | undefined> {
+    return await db.transaction(async (tx) => {
+      const [commodity] = await tx
+        .update(commodities)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(commodities.id, id))
+        .returning();
+      if (!commodity) return undefined;
+      
+      const revision = revisionFor(commodity);
+      return { commodity, revision: revision && await insertCommodityRevision(tx, revision) };
+    });
+  }
+  
+  // Commodity revision methods
+  async getCommodityRevisions(projectId: number): Promise<CommodityRevisionWithUser[]> {
+    const rows = await db
+      .select({ revision: commodityRevisions, changedByName: users.fullName })
+      .from(commodityRevisions)
+      .leftJoin(users, eq(users.id, commodityRevisions.changedById))
+      .where(eq(commodityRevisions.projectId, projectId))
+      .orderBy(desc(commodityRevisions.revisionNumber));
+    
+    return rows.map(({ revision, changedByName }) => ({ ...revision, changedByName }));
+  }
+  
+  async getLatestCommodityRevision(projectId: number): Promise<CommodityRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(commodityRevisions)
+      .where(eq(commodityRevisions.projectId, projectId))
+      .orderBy(desc(commodityRevisions.revisionNumber))
+      .limit(1);
+    return revision;
+  }
+  
+  async createCommodityRevision(revision: InsertCommodityRevision): Promise<CommodityRevision> {
+    return await db.transaction(async (tx) => await insertCommodityRevision(tx, revision));
+  }
+  
+  // Storage array methods
+  async getStorageArraysByProject(projectId: number): Promise<StorageArray[]> {
+    return await db
+      .select()
+      .from(storageArrays)
+      .where(eq(storageArrays.projectId, projectId))
+      .orderBy(storageArrays.name, storageArrays.id);
+  }
+  
+  async getStorageArray(id: number): Promise<StorageArray | undefined> {
+    const [array] = await db
+      .select()
+      .from(storageArrays)
+      .where(eq(storageArrays.id, id));
+    return array;
+  }
+  
+  async createStorageArray(array: InsertStorageArray & Pick<StorageArray, "classification" | "classificationRule">): Promise<StorageArray> {
+    const [created] = await db
+      .insert(storageArrays)
+      .values(array)
+      .returning();
+    return created;
+  }
+  
+  async updateStorageArray(id: number, data: Partial<StorageArray>): Promise<StorageArray | undefined> {
+    const [updated] = await db
+      .update(storageArrays)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(storageArrays.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteStorageArray(id: number): Promise<boolean> {
+    const result = await db
+      .delete(storageArrays)
+      .where(eq(storageArrays.id, id))
+      .returning({ id: storageArrays.id });
+    return result.length > 0;
   }
   
   // Project stakeholder methods
@@ -599,6 +1856,101 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
   
+  // Approval chain methods
+  async getApprovalChainStages(projectId: number): Promise<ApprovalChainStage[]> {
+    return await db
+      .select()
+      .from(approvalChainStages)
+      .where(eq(approvalChainStages.projectId, projectId))
+      .orderBy(approvalChainStages.category, approvalChainStages.stageOrder);
+  }
+  
+  // Swaps a category's whole chain at once; an empty list removes it
+  async replaceApprovalChain(projectId: number, category: string, stages: InsertApprovalChainStage[]): Promise<ApprovalChainStage[]> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(approvalChainStages)
+        .where(and(eq(approvalChainStages.projectId, projectId), eq(approvalChainStages.category, category)));
+      if (stages.length === 0) return [];
+      
+      return await tx.insert(approvalChainStages).values(stages).returning();
+    });
+  }
+  
+  async getDocumentApprovalStages(documentId: number): Promise<DocumentApprovalStageWithSigner[]> {
+    const rows = await db
+      .select({ stage: documentApprovalStages, signedOffByName: users.fullName })
+      .from(documentApprovalStages)
+      .leftJoin(users, eq(users.id, documentApprovalStages.signedOffById))
+      .where(eq(documentApprovalStages.documentId, documentId))
+      .orderBy(documentApprovalStages.stageOrder);
+    
+    return rows.map(({ stage, signedOffByName }) => ({ ...stage, signedOffByName }));
+  }
+  
+  // Returns only the rows this call created, so a concurrent start doesn't raise its tasks twice
+  async createDocumentApprovalStages(stages: InsertDocumentApprovalStage[]): Promise<DocumentApprovalStage[]> {
+    if (stages.length === 0) return [];
+    
+    return await db
+      .insert(documentApprovalStages)
+      .values(stages)
+      .onConflictDoNothing()
+      .returning();
+  }
+  
+  // Only applies while the stage is still in fromStatus, so two people can't both sign it off
+  async updateDocumentApprovalStage(id: number, fromStatus: string, data: Partial<DocumentApprovalStage>): Promise<DocumentApprovalStage | undefined> {
+    const [updated] = await db
+      .update(documentApprovalStages)
+      .set(data)
+      .where(and(eq(documentApprovalStages.id, id), eq(documentApprovalStages.status, fromStatus)))
+      .returning();
+    return updated;
+  }
+  
+  async deleteDocumentApprovalStages(documentId: number): Promise<void> {
+    await db
+      .delete(documentApprovalStages)
+      .where(eq(documentApprovalStages.documentId, documentId));
+  }
+  
+  // Approval attestation methods
+  async getApprovalAttestations(projectId: number): Promise<ApprovalAttestationWithReviewer[]> {
+    const rows = await db
+      .select({ attestation: approvalAttestations, reviewerName: users.fullName })
+      .from(approvalAttestations)
+      .leftJoin(users, eq(users.id, approvalAttestations.reviewerId))
+      .where(eq(approvalAttestations.projectId, projectId))
+      .orderBy(approvalAttestations.sequence);
+    
+    return rows.map(({ attestation, reviewerName }) => ({ ...attestation, reviewerName }));
+  }
+  
+  // Appends under a per-project lock, so two decisions can't both chain onto the same
+  // previous attestation. seal builds the row, including its hash, from that predecessor.
+  async appendApprovalAttestation(
+    projectId: number,
+    seal: (previous: ApprovalAttestation | undefined) => InsertApprovalAttestation
+  ): Promise<ApprovalAttestation> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('approval_attestations'), ${projectId})`);
+      
+      const [previous] = await tx
+        .select()
+        .from(approvalAttestations)
+        .where(eq(approvalAttestations.projectId, projectId))
+        .orderBy(desc(approvalAttestations.sequence))
+        .limit(1);
+      
+      const [created] = await tx
+        .insert(approvalAttestations)
+        .values(seal(previous))
+        .returning();
+      return created;
+    });
+  }
+  
   // Activity log methods
   async getActivityLogsByProject(projectId: number): Promise<ActivityLog[]> {
     return await db
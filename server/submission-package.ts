@@ -0,0 +1,267 @@
+import archiver from "archiver";
+import { createHash } from "crypto";
+import type { Readable, Writable } from "stream";
+import {
+  DocumentCategory,
+  DocumentCategoryLabels,
+  DocumentStatus,
+  type Document,
+  type Project,
+  type User
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-storage";
+import { generateSubmissionIndexPdf, type SubmissionIndexSection } from "./pdf-generator";
+
+// Categories in the order an authority expects to read them; the cover letter goes first on its own
+const CATEGORY_ORDER: string[] = Object.values(DocumentCategory).filter(
+  category => category !== DocumentCategory.COVER_LETTER
+);
+
+const INDEX_FILE_NAME = "00_Index.pdf";
+const MANIFEST_FILE_NAME = "manifest.json";
+
+export class SubmissionPackageError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface SubmissionPackageEntry {
+  path: string;
+  document: Document;
+}
+
+export interface SubmissionPackagePlan {
+  coverLetter: SubmissionPackageEntry | null;
+  // The newest cover letter when none is approved yet; it isn't packaged, only listed as missing
+  unapprovedCoverLetter: Document | null;
+  sections: Array<{ category: string; title: string; entries: SubmissionPackageEntry[] }>;
+}
+
+// Keeps names valid on Windows and inside a zip
+function sanitizePathSegment(name: string): string {
+  return name.replace(/[<>:"/\\|?*\u0000-\u001f]/g, "_").replace(/\s+/g, " ").trim() || "document";
+}
+
+function categoryTitle(category: string): string {
+  return (DocumentCategoryLabels as Record<string, string>)[category]
+    ?? category.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+// Two documents in a folder can share a file name (e.g. two "plan.pdf" uploads)
+function uniqueFileName(fileName: string, taken: Set<string>): string {
+  const clean = sanitizePathSegment(fileName);
+  if (!taken.has(clean.toLowerCase())) {
+    taken.add(clean.toLowerCase());
+    return clean;
+  }
+
+  const dot = clean.lastIndexOf(".");
+  const [base, extension] = dot > 0 ? [clean.slice(0, dot), clean.slice(dot)] : [clean, ""];
+  for (let counter = 2; ; counter++) {
+    const candidate = `${base} (${counter})${extension}`;
+    if (!taken.has(candidate.toLowerCase())) {
+      taken.add(candidate.toLowerCase());
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Decides what goes into a project's submission package: the approved, current
+ * version of every document, foldered by category, plus the latest approved
+ * cover letter. Superseded versions never qualify, since a newer upload
+ * replaces approval.
+ */
+export async function planSubmissionPackage(projectId: number): Promise<SubmissionPackagePlan> {
+  const documents = await storage.getDocumentsByProject(projectId);
+
+  const coverLetters = documents
+    .filter(doc => doc.category === DocumentCategory.COVER_LETTER && doc.status !== DocumentStatus.SUPERSEDED)
+    .sort((a, b) => new Date(b.uploadedAt ?? 0).getTime() - new Date(a.uploadedAt ?? 0).getTime());
+  const approvedCoverLetter = coverLetters.find(doc => doc.status === DocumentStatus.APPROVED);
+  const coverLetter = approvedCoverLetter
+    ? { path: `00_Cover_Letter/${sanitizePathSegment(approvedCoverLetter.fileName)}`, document: approvedCoverLetter }
+    : null;
+  const unapprovedCoverLetter = approvedCoverLetter ? null : coverLetters[0] ?? null;
+
+  const approved = documents.filter(doc =>
+    doc.category !== DocumentCategory.COVER_LETTER && doc.status === DocumentStatus.APPROVED
+  );
+  const categories = Array.from(new Set(approved.map(doc => doc.category))).sort((a, b) => {
+    const aIndex = CATEGORY_ORDER.indexOf(a);
+    const bIndex = CATEGORY_ORDER.indexOf(b);
+    // Categories we don't know about go last, alphabetically
+    return (aIndex === -1 ? CATEGORY_ORDER.length : aIndex) - (bIndex === -1 ? CATEGORY_ORDER.length : bIndex)
+      || a.localeCompare(b);
+  });
+
+  const sections = categories.map((category, index) => {
+    const title = categoryTitle(category);
+    const folder = `${String(index + 1).padStart(2, "0")}_${sanitizePathSegment(title).replace(/ /g, "_")}`;
+    const taken = new Set<string>();
+    const entries = approved
+      .filter(doc => doc.category === category)
+      .sort((a, b) => a.fileName.localeCompare(b.fileName))
+      .map(document => ({ path: `${folder}/${uniqueFileName(document.fileName, taken)}`, document }));
+    return { category, title, entries };
+  });
+
+  return { coverLetter, unapprovedCoverLetter, sections };
+}
+
+// Adds one entry and waits until it has been written, so the next file's stream
+// isn't opened until this one is done
+function appendEntry(archive: archiver.Archiver, source: Readable | Buffer, data: archiver.EntryData): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEntry = () => {
+      archive.off("error", onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      archive.off("entry", onEntry);
+      reject(error);
+    };
+    archive.once("entry", onEntry);
+    archive.once("error", onError);
+    archive.append(source, data);
+  });
+}
+
+interface ManifestFile {
+  path: string;
+  documentId: number | null;
+  category: string | null;
+  fileName: string;
+  version: number | null;
+  status: string | null;
+  size: number;
+  sha256: string;
+  approvedAt: Date | null;
+}
+
+/**
+ * Streams the package as a ZIP into `output`. Document bytes are streamed
+ * from the blob store one file at a time, so memory use doesn't grow with the
+ * size of the project. The index sheet and a manifest with a SHA-256 for every
+ * file are generated alongside the documents.
+ */
+export async function writeSubmissionPackage(
+  project: Project,
+  plan: SubmissionPackagePlan,
+  generatedBy: User,
+  output: Writable
+): Promise<void> {
+  const generatedAt = new Date();
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    output.on("error", reject);
+    output.on("close", resolve);
+    output.on("finish", resolve);
+  });
+  // Errors are also surfaced through appendEntry; this only keeps an early one from going unhandled
+  finished.catch(() => {});
+  archive.pipe(output);
+
+  const blobStore = await getBlobStore();
+  const files: ManifestFile[] = [];
+
+  const indexSections: SubmissionIndexSection[] = plan.sections.map(section => ({
+    title: section.title,
+    entries: section.entries.map(({ path, document }) => ({
+      path,
+      fileName: document.fileName,
+      version: document.version,
+      fileSize: document.fileSize,
+      reviewedAt: document.reviewedAt,
+    })),
+  }));
+  if (plan.coverLetter) {
+    const { path, document } = plan.coverLetter;
+    indexSections.unshift({
+      title: "Cover Letter",
+      entries: [{ path, fileName: document.fileName, version: document.version, fileSize: document.fileSize }],
+    });
+  }
+
+  const index = await generateSubmissionIndexPdf(project, indexSections, generatedAt);
+  await appendEntry(archive, index, { name: INDEX_FILE_NAME, date: generatedAt });
+  files.push({
+    path: INDEX_FILE_NAME,
+    documentId: null,
+    category: null,
+    fileName: INDEX_FILE_NAME,
+    version: null,
+    status: null,
+    size: index.length,
+    sha256: createHash("sha256").update(index).digest("hex"),
+    approvedAt: null,
+  });
+
+  const entries = [
+    ...(plan.coverLetter ? [plan.coverLetter] : []),
+    ...plan.sections.flatMap(section => section.entries),
+  ];
+
+  for (const { path, document } of entries) {
+    let sha256 = document.contentHash;
+    const stream = document.contentHash ? await blobStore.getStream(document.contentHash) : undefined;
+
+    if (stream) {
+      await appendEntry(archive, stream, { name: path, date: document.uploadedAt ?? generatedAt });
+    } else {
+      // Rows not yet migrated to the blob store still carry their bytes inline
+      const content = await storage.getDocumentContent(document);
+      if (!content) {
+        archive.abort();
+        throw new SubmissionPackageError(404, `Content of "${document.fileName}" could not be found`);
+      }
+      sha256 = createHash("sha256").update(content).digest("hex");
+      await appendEntry(archive, content, { name: path, date: document.uploadedAt ?? generatedAt });
+    }
+
+    files.push({
+      path,
+      documentId: document.id,
+      category: document.category,
+      fileName: document.fileName,
+      version: document.version,
+      status: document.status,
+      size: document.fileSize,
+      sha256: sha256!,
+      approvedAt: document.status === DocumentStatus.APPROVED ? document.reviewedAt : null,
+    });
+  }
+
+  const manifest = {
+    project: {
+      id: project.id,
+      name: project.name,
+      clientName: project.clientName,
+      facilityAddress: project.facilityAddress,
+      jurisdiction: project.jurisdiction,
+      permitNumber: project.permitNumber,
+    },
+    generatedAt: generatedAt.toISOString(),
+    generatedBy: generatedBy.fullName || generatedBy.username,
+    checksumAlgorithm: "sha256",
+    files,
+    // Documents the package would contain once they are approved
+    missing: plan.unapprovedCoverLetter
+      ? [{
+          documentId: plan.unapprovedCoverLetter.id,
+          category: plan.unapprovedCoverLetter.category,
+          fileName: plan.unapprovedCoverLetter.fileName,
+          version: plan.unapprovedCoverLetter.version,
+          status: plan.unapprovedCoverLetter.status,
+          reason: "The cover letter has not been approved",
+        }]
+      : [],
+  };
+  await appendEntry(archive, Buffer.from(JSON.stringify(manifest, null, 2)), { name: MANIFEST_FILE_NAME, date: generatedAt });
+
+  await archive.finalize();
+  await finished;
+}
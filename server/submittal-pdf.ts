@@ -0,0 +1,369 @@
+import {
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFHexString,
+  PDFDict,
+  PDFRef,
+  StandardFonts,
+  rgb,
+  degrees,
+  type PDFFont,
+  type PDFPage
+} from "pdf-lib";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import type { Document, Project } from "@shared/schema";
+import { storage } from "./storage";
+import { extractDocumentText } from "./document-text";
+import { generatePdfFromText, generateSubmittalTocPdf, type SubmittalTocSection } from "./pdf-generator";
+import { planSubmissionPackage, SubmissionPackageError } from "./submission-package";
+
+// Every file is held in memory while it is bound in, so very large drawing sets
+// have to go out as the ZIP package instead
+const MAX_SUBMITTAL_BYTES = 250 * 1024 * 1024;
+
+const LETTER_SIZE: [number, number] = [612, 792];
+const PAGE_MARGIN = 36;
+const FOOTER_FONT_SIZE = 8;
+const FOOTER_OFFSET = 10;
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+interface BoundFile {
+  document: Document;
+  // null when the file couldn't be bound in and a notice page stands in for it
+  source: PDFDocument | null;
+  note?: string;
+}
+
+interface OutlineItem {
+  title: string;
+  pageIndex: number;
+  children?: OutlineItem[];
+}
+
+export interface SubmittalPdf {
+  content: Buffer;
+  pageCount: number;
+  documentCount: number;
+}
+
+function isPdf(document: Document): boolean {
+  return document.fileType === "application/pdf" || document.fileName.toLowerCase().endsWith(".pdf");
+}
+
+// Images are placed on a letter page, turned to landscape if they are wider than tall
+async function imageToPdf(content: Buffer, fileType: string): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  let image;
+  if (fileType === "image/png") {
+    image = await pdf.embedPng(content);
+  } else if (fileType === "image/jpeg" || fileType === "image/jpg") {
+    image = await pdf.embedJpg(content);
+  } else {
+    // GIF and WebP have to be re-encoded first
+    const decoded = await loadImage(content);
+    const canvas = createCanvas(decoded.width, decoded.height);
+    canvas.getContext("2d").drawImage(decoded, 0, 0);
+    image = await pdf.embedPng(await canvas.encode("png"));
+  }
+
+  const [width, height] = image.width > image.height ? [LETTER_SIZE[1], LETTER_SIZE[0]] : LETTER_SIZE;
+  const page = pdf.addPage([width, height]);
+  // Leave room at the bottom for the footer stamp
+  const scale = Math.min(1, (width - PAGE_MARGIN * 2) / image.width, (height - PAGE_MARGIN * 3) / image.height);
+  const drawnWidth = image.width * scale;
+  const drawnHeight = image.height * scale;
+  page.drawImage(image, {
+    x: (width - drawnWidth) / 2,
+    y: PAGE_MARGIN * 2 + (height - PAGE_MARGIN * 3 - drawnHeight) / 2,
+    width: drawnWidth,
+    height: drawnHeight,
+  });
+  return pdf;
+}
+
+// Cover letters are generated as Word files; they are bound in with the same
+// layout used for the PDF cover letter
+async function coverLetterToPdf(content: Buffer, document: Document): Promise<PDFDocument | null> {
+  const pages = await extractDocumentText(content, document);
+  if (!pages || pages.length === 0) return null;
+  const text = pages.map(page => page.content).join("\n\n");
+  return await PDFDocument.load(Buffer.from(await generatePdfFromText(text), "base64"));
+}
+
+async function loadBoundFile(document: Document, isCoverLetter: boolean): Promise<BoundFile> {
+  const content = await storage.getDocumentContent(document);
+  if (!content) {
+    throw new SubmissionPackageError(404, `Content of "${document.fileName}" could not be found`);
+  }
+
+  try {
+    if (isPdf(document)) {
+      const source = await PDFDocument.load(content, { ignoreEncryption: true, updateMetadata: false });
+      if (source.isEncrypted) {
+        return { document, source: null, note: "This PDF is password protected and could not be bound into the submittal." };
+      }
+      return { document, source };
+    }
+    if (document.fileType.startsWith("image/")) {
+      return { document, source: await imageToPdf(content, document.fileType) };
+    }
+    if (isCoverLetter && (document.fileType === DOCX_MIME_TYPE || document.fileName.toLowerCase().endsWith(".docx"))) {
+      const source = await coverLetterToPdf(content, document);
+      if (source) return { document, source };
+    }
+  } catch (error) {
+    console.error(`Error reading document ${document.id} for the bound submittal:`, error);
+    return { document, source: null, note: "This file could not be read and was not bound into the submittal." };
+  }
+
+  return {
+    document,
+    source: null,
+    note: "This file type can't be bound into a PDF. It is included in the submission package ZIP.",
+  };
+}
+
+// Stands in for a file that couldn't be bound in, so the table of contents still accounts for it
+function addNoticePage(output: PDFDocument, font: PDFFont, boldFont: PDFFont, file: BoundFile): void {
+  const page = output.addPage(LETTER_SIZE);
+  const maxWidth = LETTER_SIZE[0] - PAGE_MARGIN * 4;
+  let y = LETTER_SIZE[1] - PAGE_MARGIN * 4;
+
+  page.drawText(toWinAnsi(boldFont, file.document.fileName), { x: PAGE_MARGIN * 2, y, size: 14, font: boldFont, maxWidth });
+  y -= 28;
+  page.drawText(toWinAnsi(font, `Version ${file.document.version} - ${file.document.fileType}`), { x: PAGE_MARGIN * 2, y, size: 10, font, color: rgb(0.4, 0.4, 0.4) });
+  y -= 28;
+  page.drawText(toWinAnsi(font, file.note ?? ""), { x: PAGE_MARGIN * 2, y, size: 11, font, maxWidth, lineHeight: 15 });
+}
+
+// The standard PDF fonts only cover WinAnsi; any other character would make pdf-lib throw
+function toWinAnsi(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text).map(char => supported.has(char.codePointAt(0)!) ? char : "?").join("");
+}
+
+/**
+ * Stamps "Page N of M" and the project name at the bottom of every page.
+ * Rotated pages (common for drawing sets) are stamped along the edge that is
+ * at the bottom when the page is viewed.
+ */
+function stampFooters(output: PDFDocument, font: PDFFont, project: Project): void {
+  const pages = output.getPages();
+  const label = toWinAnsi(font, project.permitNumber ? `${project.name} - Permit ${project.permitNumber}` : project.name);
+
+  pages.forEach((page, index) => {
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    const box = page.getCropBox();
+    const rotation = ((Math.round(page.getRotation().angle / 90) * 90) % 360 + 360) % 360;
+    const viewWidth = rotation % 180 === 0 ? box.width : box.height;
+
+    // Maps a point measured from the bottom-left corner as the page is viewed into page space
+    const toPageSpace = (x: number, y: number) => {
+      switch (rotation) {
+        case 90: return { x: box.x + box.width - y, y: box.y + x };
+        case 180: return { x: box.x + box.width - x, y: box.y + box.height - y };
+        case 270: return { x: box.x + y, y: box.y + box.height - x };
+        default: return { x: box.x + x, y: box.y + y };
+      }
+    };
+
+    const labelWidth = font.widthOfTextAtSize(label, FOOTER_FONT_SIZE);
+    const pageLabelWidth = font.widthOfTextAtSize(pageLabel, FOOTER_FONT_SIZE);
+    const stamps = [
+      { text: label, x: PAGE_MARGIN, width: labelWidth },
+      { text: pageLabel, x: viewWidth - PAGE_MARGIN - pageLabelWidth, width: pageLabelWidth },
+    ];
+
+    stamps.forEach(stamp => {
+      // A white backing keeps the stamp legible over drawing content
+      page.drawRectangle({
+        ...toPageSpace(stamp.x - 3, FOOTER_OFFSET - 3),
+        width: stamp.width + 6,
+        height: FOOTER_FONT_SIZE + 5,
+        color: rgb(1, 1, 1),
+        opacity: 0.85,
+        rotate: degrees(rotation),
+      });
+      page.drawText(stamp.text, {
+        ...toPageSpace(stamp.x, FOOTER_OFFSET),
+        size: FOOTER_FONT_SIZE,
+        font,
+        color: rgb(0.25, 0.25, 0.25),
+        rotate: degrees(rotation),
+      });
+    });
+  });
+}
+
+/**
+ * Writes the bookmark tree. pdf-lib has no API for outlines, so the
+ * dictionaries are built by hand.
+ */
+function addOutline(output: PDFDocument, items: OutlineItem[]): void {
+  const context = output.context;
+  const pageRefs = output.getPages().map((page: PDFPage) => page.ref);
+
+  // Returns the number of entries shown, which the parent records as its Count
+  const writeLevel = (levelItems: OutlineItem[], parentRef: PDFRef, parent: PDFDict): number => {
+    const refs = levelItems.map(() => context.nextRef());
+    let visible = levelItems.length;
+
+    levelItems.forEach((item, index) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parentRef,
+        Dest: [pageRefs[item.pageIndex], "Fit"],
+      }) as PDFDict;
+      if (index > 0) dict.set(PDFName.of("Prev"), refs[index - 1]);
+      if (index < refs.length - 1) dict.set(PDFName.of("Next"), refs[index + 1]);
+      if (item.children?.length) {
+        visible += writeLevel(item.children, refs[index], dict);
+      }
+      context.assign(refs[index], dict);
+    });
+
+    if (refs.length > 0) {
+      parent.set(PDFName.of("First"), refs[0]);
+      parent.set(PDFName.of("Last"), refs[refs.length - 1]);
+      parent.set(PDFName.of("Count"), PDFNumber.of(visible));
+    }
+    return visible;
+  };
+
+  const outlinesRef = context.nextRef();
+  const outlines = context.obj({ Type: "Outlines" }) as PDFDict;
+  writeLevel(items, outlinesRef, outlines);
+  context.assign(outlinesRef, outlines);
+
+  output.catalog.set(PDFName.of("Outlines"), outlinesRef);
+  // Open with the bookmarks panel showing
+  output.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+async function appendFile(output: PDFDocument, font: PDFFont, boldFont: PDFFont, file: BoundFile): Promise<number> {
+  if (!file.source) {
+    addNoticePage(output, font, boldFont, file);
+    return 1;
+  }
+
+  try {
+    const pages = await output.copyPages(file.source, file.source.getPageIndices());
+    pages.forEach(page => output.addPage(page));
+    return pages.length;
+  } catch (error) {
+    console.error(`Error binding document ${file.document.id} into the submittal:`, error);
+    file.note = "This file could not be read and was not bound into the submittal.";
+    addNoticePage(output, font, boldFont, file);
+    return 1;
+  }
+}
+
+/**
+ * Binds a project's submittal into a single PDF: the cover letter, a table of
+ * contents, then every approved current document in category order. Adds a
+ * bookmark per category and file, and stamps page numbers in the footer.
+ * Uses the same selection as the ZIP submission package.
+ */
+export async function generateSubmittalPdf(project: Project): Promise<SubmittalPdf> {
+  const plan = await planSubmissionPackage(project.id);
+  const documentCount = plan.sections.reduce((sum, section) => sum + section.entries.length, 0);
+  if (documentCount === 0) {
+    throw new SubmissionPackageError(409, "There are no approved documents to include in the submittal");
+  }
+
+  const totalBytes = plan.sections
+    .flatMap(section => section.entries)
+    .reduce((sum, entry) => sum + entry.document.fileSize, plan.coverLetter?.document.fileSize ?? 0);
+  if (totalBytes > MAX_SUBMITTAL_BYTES) {
+    throw new SubmissionPackageError(413, "These documents are too large to bind into one PDF. Download the submission package ZIP instead.");
+  }
+
+  const generatedAt = new Date();
+  const output = await PDFDocument.create();
+  output.setTitle(`${project.name} - Permit Submittal`);
+  output.setAuthor("Intralog Permit Services");
+  output.setSubject("High-Piled Storage Permit Submittal");
+  output.setCreator("PainlessPermit by Intralog");
+  const font = await output.embedFont(StandardFonts.Helvetica);
+  const boldFont = await output.embedFont(StandardFonts.HelveticaBold);
+
+  // Files are bound in one at a time so only one source is held in memory at once
+  let coverLetterPages = 0;
+  if (plan.coverLetter) {
+    const file = await loadBoundFile(plan.coverLetter.document, true);
+    coverLetterPages = await appendFile(output, font, boldFont, file);
+  }
+
+  const boundSections: Array<{ title: string; files: Array<{ file: BoundFile; pageOffset: number; pageCount: number }> }> = [];
+  let documentPages = 0;
+  for (const section of plan.sections) {
+    const files = [];
+    for (const { document } of section.entries) {
+      const file = await loadBoundFile(document, false);
+      const pageCount = await appendFile(output, font, boldFont, file);
+      files.push({ file: { ...file, source: null }, pageOffset: documentPages, pageCount });
+      documentPages += pageCount;
+    }
+    boundSections.push({ title: section.title, files });
+  }
+
+  // The table of contents lists final page numbers, which depend on its own length;
+  // lay it out until the page count it assumed is the one it came out at
+  const buildToc = (tocPages: number): SubmittalTocSection[] => {
+    const firstDocumentPage = coverLetterPages + tocPages + 1;
+    const tocSections: SubmittalTocSection[] = boundSections.map(section => ({
+      title: section.title,
+      startPage: firstDocumentPage + section.files[0].pageOffset,
+      entries: section.files.map(({ file, pageOffset, pageCount }) => ({
+        fileName: file.document.fileName,
+        version: file.document.version,
+        startPage: firstDocumentPage + pageOffset,
+        pageCount,
+        note: file.note,
+      })),
+    }));
+    if (plan.coverLetter) {
+      const { document } = plan.coverLetter;
+      tocSections.unshift({
+        title: "Cover Letter",
+        startPage: 1,
+        entries: [{ fileName: document.fileName, version: document.version, startPage: 1, pageCount: coverLetterPages }],
+      });
+    }
+    return tocSections;
+  };
+
+  let tocPages = 1;
+  let toc = await PDFDocument.load(await generateSubmittalTocPdf(project, buildToc(tocPages), generatedAt));
+  for (let attempt = 0; attempt < 3 && toc.getPageCount() !== tocPages; attempt++) {
+    tocPages = toc.getPageCount();
+    toc = await PDFDocument.load(await generateSubmittalTocPdf(project, buildToc(tocPages), generatedAt));
+  }
+  const tocCopies = await output.copyPages(toc, toc.getPageIndices());
+  tocCopies.forEach((page, index) => output.insertPage(coverLetterPages + index, page));
+
+  const firstDocumentIndex = coverLetterPages + tocCopies.length;
+  const outline: OutlineItem[] = [];
+  if (plan.coverLetter) {
+    outline.push({ title: "Cover Letter", pageIndex: 0 });
+  }
+  outline.push({ title: "Table of Contents", pageIndex: coverLetterPages });
+  boundSections.forEach(section => {
+    outline.push({
+      title: section.title,
+      pageIndex: firstDocumentIndex + section.files[0].pageOffset,
+      children: section.files.map(({ file, pageOffset }) => ({
+        title: `${file.document.fileName} (v${file.document.version})`,
+        pageIndex: firstDocumentIndex + pageOffset,
+      })),
+    });
+  });
+  addOutline(output, outline);
+
+  stampFooters(output, font, project);
+
+  const content = Buffer.from(await output.save({ useObjectStreams: true }));
+  return { content, pageCount: output.getPageCount(), documentCount };
+}
@@ -0,0 +1,205 @@
+import {
+  DocumentCategory,
+  DocumentCategoryLabels,
+  type Commodity,
+  type StorageArray
+} from "@shared/schema";
+import { RackType } from "@shared/storage-arrays";
+import { storage } from "./storage";
+
+// IFC 202: storage over 12 ft, or over 6 ft for high-hazard commodities, is high-piled
+export const HIGH_PILED_HEIGHT = 12;
+export const HIGH_PILED_HEIGHT_HIGH_HAZARD = 6;
+// Racks 8 ft and taller need stamped calculations and special inspection (IBC 1705.12.7);
+// from 5 ft 9 in the manufacturer's installation specs are enough
+const ENGINEERED_RACK_HEIGHT = 8;
+const MANUFACTURER_RACK_HEIGHT = 5.75;
+// Table 3206.2 asks nothing extra of 500 sq ft or less of Class I-IV storage
+export const SMALL_STORAGE_AREA = 500;
+// Beyond these heights the sprinkler design has to be specially engineered
+export const EXTRA_HIGH_HEIGHT = 40;
+export const EXTRA_HIGH_HEIGHT_HIGH_HAZARD = 30;
+
+const CLASS_I_TO_IV = ["class_i", "class_ii", "class_iii", "class_iv"];
+const RACK_STORAGE_METHODS = ["racks", "shelves", "back_to_back"];
+const CATEGORY_ORDER: string[] = Object.values(DocumentCategory);
+
+/**
+ * The facts about a project's storage that decide what goes in the submittal.
+ * Missing facts are treated conservatively, so a category is required until
+ * the data shows it isn't.
+ */
+export interface SubmittalFacts {
+  classification: string | null;
+  storageMethod: string | null;
+  rackHeight: number | null;
+  topOfStorageHeight: number | null;
+  storageArea: number | null;
+}
+
+export interface CategoryRequirement {
+  category: string;
+  title: string;
+  required: boolean;
+  reason: string;
+}
+
+export interface ProjectRequirements {
+  facts: SubmittalFacts | null;
+  // Every category except the generated cover letter, required ones first
+  categories: CategoryRequirement[];
+  required: string[];
+}
+
+function requirement(category: string, required: boolean, reason: string): CategoryRequirement {
+  return {
+    category,
+    title: (DocumentCategoryLabels as Record<string, string>)[category] ?? category,
+    required,
+    reason,
+  };
+}
+
+// Group A plastics are high-hazard; a mixed load is treated as its worst commodity
+export function isHighHazard(classification: string | null): boolean {
+  return !!classification && !CLASS_I_TO_IV.includes(classification);
+}
+
+export function formatFeet(height: number): string {
+  const feet = Math.floor(height);
+  const inches = Math.round((height - feet) * 12);
+  return inches > 0 ? `${feet} ft ${inches} in` : `${feet} ft`;
+}
+
+function storageRules(facts: SubmittalFacts): CategoryRequirement[] {
+  const highHazard = isHighHazard(facts.classification);
+  const threshold = highHazard ? HIGH_PILED_HEIGHT_HIGH_HAZARD : HIGH_PILED_HEIGHT;
+  const height = facts.topOfStorageHeight;
+  const highPiled = height === null || height > threshold;
+  const heightNote = height === null
+    ? "Top of storage height not entered"
+    : `Top of storage ${formatFeet(height)}`;
+
+  const rules: CategoryRequirement[] = [];
+
+  rules.push(highPiled
+    ? requirement(DocumentCategory.COMMODITIES, true,
+      `${heightNote}: commodity class per IFC Table 3203.8 and packaging method`)
+    : requirement(DocumentCategory.COMMODITIES, false,
+      `${heightNote} is not high-piled storage, so IFC Chapter 32 does not apply`));
+
+  if (!highPiled) {
+    rules.push(requirement(DocumentCategory.FIRE_PROTECTION, false,
+      `${heightNote} is not high-piled storage; 1½ in. hose outlets are not required`));
+  } else if (!highHazard && facts.storageArea !== null && facts.storageArea <= SMALL_STORAGE_AREA) {
+    rules.push(requirement(DocumentCategory.FIRE_PROTECTION, false,
+      `${facts.storageArea.toLocaleString()} sq ft of Class I-IV storage needs no added protection under IFC Table 3206.2`));
+  } else {
+    const extraHigh = height !== null && height > (highHazard ? EXTRA_HIGH_HEIGHT_HIGH_HAZARD : EXTRA_HIGH_HEIGHT);
+    rules.push(requirement(DocumentCategory.FIRE_PROTECTION, true, extraHigh
+      ? `${heightNote} is extra-high storage: a specially engineered sprinkler design is required`
+      : `${heightNote}: existing sprinkler data and conformance with IFC 3206-3209`));
+  }
+
+  const rackHeight = facts.rackHeight;
+  const hasRacks = rackHeight !== null || facts.storageMethod === null || RACK_STORAGE_METHODS.includes(facts.storageMethod);
+  if (!hasRacks) {
+    const reason = "No storage racks, so there is nothing to anchor or inspect";
+    rules.push(requirement(DocumentCategory.STRUCTURAL_PLANS, false, reason));
+    rules.push(requirement(DocumentCategory.SPECIAL_INSPECTION, false, reason));
+  } else if (rackHeight === null || rackHeight >= ENGINEERED_RACK_HEIGHT) {
+    const rackNote = rackHeight === null ? "Rack height not entered" : `Racks ${formatFeet(rackHeight)} tall`;
+    rules.push(requirement(DocumentCategory.STRUCTURAL_PLANS, true,
+      `${rackNote}: calculations signed and sealed by a structural engineer (ASCE 7 § 15.5.3)`));
+    rules.push(requirement(DocumentCategory.SPECIAL_INSPECTION, true,
+      `${rackNote}: special inspection of storage racks (IBC 1705.12.7)`));
+  } else if (rackHeight >= MANUFACTURER_RACK_HEIGHT) {
+    rules.push(requirement(DocumentCategory.STRUCTURAL_PLANS, true,
+      `Racks ${formatFeet(rackHeight)} tall: manufacturer's installation specifications, no engineer's stamp needed`));
+    rules.push(requirement(DocumentCategory.SPECIAL_INSPECTION, false,
+      `Racks under ${ENGINEERED_RACK_HEIGHT} ft do not need special inspection`));
+  } else {
+    const reason = `Racks ${formatFeet(rackHeight)} tall are below the 5 ft 9 in permit threshold`;
+    rules.push(requirement(DocumentCategory.STRUCTURAL_PLANS, false, reason));
+    rules.push(requirement(DocumentCategory.SPECIAL_INSPECTION, false, reason));
+  }
+
+  return rules;
+}
+
+/**
+ * Works out which document categories a submittal needs from the project's
+ * storage facts, following the core submittal package and its conditional
+ * requirements. Without any facts the full core package is required.
+ */
+export function deriveSubmittalRequirements(facts: SubmittalFacts | null): ProjectRequirements {
+  const categories = [
+    requirement(DocumentCategory.SITE_PLAN, true, "Part of every submittal: streets, hydrants and fire department access"),
+    requirement(DocumentCategory.FACILITY_PLAN, true, "Part of every submittal: racking layout and fire department access doors"),
+    requirement(DocumentCategory.EGRESS_PLAN, true, "Part of every submittal: aisle widths, exits and dead-end aisles"),
+  ];
+
+  if (facts) {
+    categories.push(...storageRules(facts));
+  } else {
+    const reason = "Commodity and storage data not entered yet, so the full core package is assumed";
+    categories.push(
+      requirement(DocumentCategory.STRUCTURAL_PLANS, true, reason),
+      requirement(DocumentCategory.COMMODITIES, true, reason),
+      requirement(DocumentCategory.FIRE_PROTECTION, true, reason),
+      requirement(DocumentCategory.SPECIAL_INSPECTION, true, reason),
+    );
+  }
+
+  categories.sort((a, b) =>
+    Number(b.required) - Number(a.required) || CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category));
+  return {
+    facts,
+    categories,
+    required: categories.filter(category => category.required).map(category => category.category),
+  };
+}
+
+export function submittalFactsFrom(commodity: Commodity | undefined): SubmittalFacts | null {
+  if (!commodity) return null;
+  return {
+    classification: commodity.classification || null,
+    storageMethod: commodity.storageMethod || null,
+    rackHeight: commodity.rackHeight,
+    topOfStorageHeight: commodity.topOfStorageHeight,
+    storageArea: commodity.storageArea,
+  };
+}
+
+/**
+ * The facts for a project with storage arrays, taken at their worst: the most
+ * hazardous class, the tallest racks and storage, and the arrays' combined area.
+ */
+export function submittalFactsFromArrays(arrays: StorageArray[]): SubmittalFacts | null {
+  if (arrays.length === 0) return null;
+  const worst = arrays.reduce((most, array) => {
+    if (isHighHazard(most.classification)) return most;
+    if (isHighHazard(array.classification)) return array;
+    return CLASS_I_TO_IV.indexOf(array.classification) > CLASS_I_TO_IV.indexOf(most.classification) ? array : most;
+  });
+  const rackHeights = arrays.flatMap(array => array.rackHeight === null ? [] : [array.rackHeight]);
+
+  return {
+    classification: worst.classification,
+    storageMethod: arrays.some(array => array.rackType !== RackType.SOLID_PILE) ? "racks" : "solid_pile",
+    rackHeight: rackHeights.length > 0 ? Math.max(...rackHeights) : null,
+    topOfStorageHeight: Math.max(...arrays.map(array => array.topOfStorageHeight)),
+    storageArea: arrays.reduce((total, array) => total + array.storageArea, 0),
+  };
+}
+
+/**
+ * The required categories for a project, from its storage arrays or, for a
+ * project without any, its commodity data.
+ */
+export async function getProjectRequirements(projectId: number): Promise<ProjectRequirements> {
+  const arrays = await storage.getStorageArraysByProject(projectId);
+  return deriveSubmittalRequirements(arrays.length > 0
+    ? submittalFactsFromArrays(arrays)
+    : submittalFactsFrom(await storage.getProjectCommodity(projectId)));
+}
@@ -0,0 +1,253 @@
+import busboy from "busboy";
+import { createHash, randomBytes } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { Request } from "express";
+
+// Upper bound for a single document, whether streamed as multipart or in chunks
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 500) * 1024 * 1024;
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+export const MIN_CHUNK_SIZE = 256 * 1024;
+export const MAX_CHUNK_SIZE = 32 * 1024 * 1024;
+
+// Unfinished chunked uploads can be resumed for this long
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const uploadRoot = path.resolve(process.env.UPLOAD_TEMP_DIR || "storage/uploads");
+
+/**
+ * Error raised while receiving an upload. `status` is the HTTP status the
+ * route should answer with.
+ */
+export class UploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export interface ReceivedFile {
+  tempPath: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface MultipartUpload {
+  fields: Record<string, string>;
+  file: ReceivedFile;
+}
+
+export function createUploadSessionId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+async function createTempFilePath(): Promise<string> {
+  const tempDir = path.join(uploadRoot, "tmp");
+  await fs.mkdir(tempDir, { recursive: true });
+  return path.join(tempDir, `${Date.now()}-${randomBytes(8).toString("hex")}`);
+}
+
+// Counts and hashes bytes as they stream past, failing once `limit` is exceeded
+function createMeter(limit: number) {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > limit) {
+        callback(new UploadError(413, `File is too large. Maximum allowed size is ${formatMegabytes(limit)}.`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    stream,
+    get size() {
+      return size;
+    },
+    digest: () => hash.digest("hex"),
+  };
+}
+
+/**
+ * Streams a multipart/form-data request to a temp file on disk. Text fields
+ * that precede the file part are collected into `fields`; only the first
+ * file part is accepted. Files over `maxBytes` are cut off while streaming.
+ */
+export function receiveMultipartUpload(req: Request, maxBytes: number = MAX_UPLOAD_BYTES): Promise<MultipartUpload> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { files: 1, fields: 20, fieldSize: 64 * 1024, fileSize: maxBytes },
+      });
+    } catch (error) {
+      reject(new UploadError(400, "Expected a multipart/form-data request"));
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    let filePromise: Promise<ReceivedFile> | null = null;
+
+    parser.on("field", (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on("file", (_name, stream, info) => {
+      // Listen before anything is awaited, or a small limit can be hit before the listener exists
+      let truncated = false;
+      stream.on("limit", () => {
+        truncated = true;
+      });
+      filePromise = (async () => {
+        const tempPath = await createTempFilePath();
+
+        try {
+          const meter = createMeter(maxBytes);
+          await pipeline(stream, meter.stream, createWriteStream(tempPath));
+
+          if (truncated) {
+            throw new UploadError(413, `File is too large. Maximum allowed size is ${formatMegabytes(maxBytes)}.`);
+          }
+
+          return {
+            tempPath,
+            fileName: info.filename,
+            mimeType: info.mimeType || "application/octet-stream",
+            size: meter.size,
+          };
+        } catch (error) {
+          await fs.rm(tempPath, { force: true });
+          throw error;
+        }
+      })();
+      // Surface failures through the "close" handler below
+      filePromise.catch(() => undefined);
+    });
+
+    parser.on("error", (error) => {
+      reject(new UploadError(400, `Malformed upload: ${(error as Error).message}`));
+    });
+
+    parser.on("close", async () => {
+      if (!filePromise) {
+        reject(new UploadError(400, "No file was included in the upload"));
+        return;
+      }
+
+      try {
+        resolve({ fields, file: await filePromise });
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    req.on("aborted", () => {
+      reject(new UploadError(408, "Upload was interrupted before it finished"));
+    });
+
+    req.pipe(parser);
+  });
+}
+
+function sessionDir(sessionId: string): string {
+  if (!/^[a-f0-9]{32}$/.test(sessionId)) {
+    throw new UploadError(400, "Invalid upload session id");
+  }
+  return path.join(uploadRoot, "sessions", sessionId);
+}
+
+function chunkPath(sessionId: string, index: number): string {
+  return path.join(sessionDir(sessionId), `${index}.part`);
+}
+
+/**
+ * Streams one chunk of a resumable upload to disk and verifies its size and
+ * SHA-256 against what the client declared. A chunk that fails verification
+ * is discarded so the client can simply retry it.
+ */
+export async function writeUploadChunk(
+  sessionId: string,
+  index: number,
+  req: Request,
+  expectedSize: number,
+  expectedChecksum: string
+): Promise<string> {
+  const target = chunkPath(sessionId, index);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+
+  const tempPath = `${target}.${randomBytes(4).toString("hex")}.tmp`;
+  const meter = createMeter(expectedSize);
+
+  try {
+    await pipeline(req, meter.stream, createWriteStream(tempPath));
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    if (error instanceof UploadError) {
+      throw new UploadError(400, `Chunk ${index} is larger than the expected ${expectedSize} bytes`);
+    }
+    throw new UploadError(408, `Chunk ${index} was interrupted before it finished`);
+  }
+
+  if (meter.size !== expectedSize) {
+    await fs.rm(tempPath, { force: true });
+    throw new UploadError(400, `Chunk ${index} should be ${expectedSize} bytes but ${meter.size} were received`);
+  }
+
+  const checksum = meter.digest();
+  if (checksum !== expectedChecksum.toLowerCase()) {
+    await fs.rm(tempPath, { force: true });
+    throw new UploadError(422, `Checksum mismatch for chunk ${index}`);
+  }
+
+  await fs.rename(tempPath, target);
+  return checksum;
+}
+
+/**
+ * Concatenates every chunk of a session, in order, into a single temp file and
+ * returns its path. The caller owns the returned file.
+ */
+export async function assembleUploadChunks(sessionId: string, totalChunks: number): Promise<string> {
+  const tempPath = await createTempFilePath();
+  const output = createWriteStream(tempPath);
+
+  try {
+    for (let index = 0; index < totalChunks; index++) {
+      await pipeline(createReadStream(chunkPath(sessionId, index)), output, { end: false });
+    }
+    await new Promise<void>((resolve, reject) => {
+      output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+    return tempPath;
+  } catch (error) {
+    output.destroy();
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export async function removeUploadChunks(sessionId: string): Promise<void> {
+  await fs.rm(sessionDir(sessionId), { recursive: true, force: true });
+}
+
+export async function removeTempFile(tempPath: string): Promise<void> {
+  await fs.rm(tempPath, { force: true });
+}
+
+export function expectedChunkSize(fileSize: number, chunkSize: number, index: number): number {
+  return Math.min(chunkSize, fileSize - index * chunkSize);
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
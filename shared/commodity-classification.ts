@@ -0,0 +1,179 @@
+import { z } from "zod";
+
+// Commodity classes of IFC Section 3203. The ids are what commodities.classification
+// stores; "mixed" only appears on rows filed before classes were computed.
+export const CommodityClass = {
+  CLASS_I: 'class_i',
+  CLASS_II: 'class_ii',
+  CLASS_III: 'class_iii',
+  CLASS_IV: 'class_iv',
+  GROUP_A_UNEXPOSED: 'group_a_unexposed',
+  GROUP_A_EXPOSED: 'group_a_exposed',
+} as const;
+
+export type CommodityClassType = typeof CommodityClass[keyof typeof CommodityClass];
+
+export const commodityClassLabels: Record<string, string> = {
+  [CommodityClass.CLASS_I]: "Class I - Noncombustible",
+  [CommodityClass.CLASS_II]: "Class II - Limited Combustible",
+  [CommodityClass.CLASS_III]: "Class III - Combustible",
+  [CommodityClass.CLASS_IV]: "Class IV - Limited High-Hazard",
+  [CommodityClass.GROUP_A_UNEXPOSED]: "Group A Plastics - Cartoned",
+  [CommodityClass.GROUP_A_EXPOSED]: "Group A Plastics - Exposed",
+  mixed: "Mixed Commodities",
+};
+
+// What the products are made of, apart from any Group A plastics, least hazardous first
+export const ProductMakeup = {
+  NONCOMBUSTIBLE: 'noncombustible',
+  ORDINARY_COMBUSTIBLE: 'ordinary_combustible',
+  GROUP_B_PLASTIC: 'group_b_plastic',
+} as const;
+
+export const CommodityPackaging = {
+  CARTONED: 'cartoned',
+  CRATED: 'crated',
+  EXPOSED: 'exposed',
+  ENCAPSULATED: 'encapsulated',
+} as const;
+
+export const PalletType = {
+  NONE: 'none',
+  WOOD: 'wood',
+  METAL: 'metal',
+  PLASTIC_UNREINFORCED: 'plastic_unreinforced',
+  PLASTIC_REINFORCED: 'plastic_reinforced',
+} as const;
+
+export const productMakeupOptions = [
+  { id: ProductMakeup.NONCOMBUSTIBLE, label: "Noncombustible", description: "Metal, glass, ceramics, canned or bottled goods" },
+  { id: ProductMakeup.ORDINARY_COMBUSTIBLE, label: "Ordinary combustibles", description: "Wood, paper, natural fiber cloth or Group C plastics" },
+  { id: ProductMakeup.GROUP_B_PLASTIC, label: "Group B plastics", description: "Cellulosics, nylon, natural or silicone rubber and similar" },
+];
+
+export const packagingOptions = [
+  { id: CommodityPackaging.CARTONED, label: "Cartoned", description: "Ordinary corrugated cartons or paper wrapping" },
+  { id: CommodityPackaging.CRATED, label: "Crated", description: "Wooden crates, solid wood boxes or multiple-thickness cartons" },
+  { id: CommodityPackaging.EXPOSED, label: "Exposed", description: "No packaging, or shrink wrap only" },
+  { id: CommodityPackaging.ENCAPSULATED, label: "Encapsulated", description: "Plastic sheet enclosing the sides and top of the pallet load" },
+];
+
+export const palletTypeOptions = [
+  { id: PalletType.NONE, label: "No pallets" },
+  { id: PalletType.WOOD, label: "Wood pallets" },
+  { id: PalletType.METAL, label: "Metal pallets" },
+  { id: PalletType.PLASTIC_UNREINFORCED, label: "Plastic pallets, unreinforced" },
+  { id: PalletType.PLASTIC_REINFORCED, label: "Plastic pallets, reinforced" },
+];
+
+// What each commodity type says about the answers: the least hazardous makeup it
+// can be and whether it brings Group A plastics with it ("most" of the product or "some")
+export const commodityTypeOptions: Array<{
+  id: string;
+  label: string;
+  minimumMakeup?: string;
+  groupAPlastic?: "most" | "some";
+}> = [
+  { id: "paper", label: "Paper Products", minimumMakeup: ProductMakeup.ORDINARY_COMBUSTIBLE },
+  { id: "wood", label: "Wood Products", minimumMakeup: ProductMakeup.ORDINARY_COMBUSTIBLE },
+  { id: "textiles", label: "Textiles", minimumMakeup: ProductMakeup.ORDINARY_COMBUSTIBLE },
+  { id: "furniture", label: "Furniture", minimumMakeup: ProductMakeup.ORDINARY_COMBUSTIBLE },
+  { id: "plastic", label: "Plastic Products", groupAPlastic: "most" },
+  { id: "rubber", label: "Rubber Products", groupAPlastic: "some" },
+  { id: "electronics", label: "Electronics", groupAPlastic: "some" },
+  { id: "food", label: "Food Products" },
+  { id: "metal", label: "Metal Products" },
+  { id: "glass", label: "Glass Products" },
+  { id: "other", label: "Other" },
+];
+
+// IFC 3203.3-3203.7: up to 5% Group A plastics leaves Class I-III alone; beyond that the
+// load is Class IV, and beyond 15% by weight (25% by volume when expanded) it is Group A
+export const LIMITED_GROUP_A_PERCENT = 5;
+export const GROUP_A_PERCENT_BY_WEIGHT = 15;
+export const GROUP_A_PERCENT_BY_VOLUME_EXPANDED = 25;
+
+// The wizard's answers, stored with the commodity so the class can be recomputed
+export const classificationAnswersSchema = z.object({
+  productMakeup: z.enum([ProductMakeup.NONCOMBUSTIBLE, ProductMakeup.ORDINARY_COMBUSTIBLE, ProductMakeup.GROUP_B_PLASTIC]),
+  // Share of Group A plastics in the products and their packaging: by volume when expanded, otherwise by weight
+  groupAPlasticPercent: z.number().min(0).max(100),
+  expandedPlastic: z.boolean().default(false),
+  freeFlowingPlastic: z.boolean().default(false), // Pellets, flakes or powder
+  packaging: z.enum([CommodityPackaging.CARTONED, CommodityPackaging.CRATED, CommodityPackaging.EXPOSED, CommodityPackaging.ENCAPSULATED]),
+  palletType: z.enum([PalletType.NONE, PalletType.WOOD, PalletType.METAL, PalletType.PLASTIC_UNREINFORCED, PalletType.PLASTIC_REINFORCED]),
+});
+
+export const commodityClassificationInputSchema = classificationAnswersSchema.extend({
+  commodityTypes: z.array(z.string()).min(1, "Select at least one commodity type"),
+});
+
+export type ClassificationAnswers = z.infer<typeof classificationAnswersSchema>;
+export type CommodityClassificationInput = z.infer<typeof commodityClassificationInputSchema>;
+
+export interface ClassificationConflict {
+  field: keyof CommodityClassificationInput;
+  message: string;
+}
+
+// As computed by server/commodity-classification.ts
+export interface CommodityClassificationResult {
+  classification: CommodityClassType;
+  label: string;
+  // The code rule that settled the class
+  rule: string;
+  // Each step taken, in order, for showing the working
+  reasoning: string[];
+  encapsulated: boolean;
+}
+
+const makeupOrder: string[] = Object.values(ProductMakeup);
+
+export function getGroupAPercentThreshold(expandedPlastic: boolean | undefined): number {
+  return expandedPlastic ? GROUP_A_PERCENT_BY_VOLUME_EXPANDED : GROUP_A_PERCENT_BY_WEIGHT;
+}
+
+/**
+ * Answers that contradict each other, such as plastic products with no Group
+ * A plastics in them. Unanswered fields are skipped, so the wizard can check
+ * as it goes; the server refuses to classify while any remain.
+ */
+export function findClassificationConflicts(input: Partial<CommodityClassificationInput>): ClassificationConflict[] {
+  const conflicts: ClassificationConflict[] = [];
+  const types = commodityTypeOptions.filter(option => input.commodityTypes?.includes(option.id));
+  const percent = input.groupAPlasticPercent;
+
+  if (input.productMakeup) {
+    for (const type of types) {
+      if (type.minimumMakeup && makeupOrder.indexOf(input.productMakeup) < makeupOrder.indexOf(type.minimumMakeup)) {
+        conflicts.push({ field: "productMakeup", message: `${type.label} are combustible, so the load can't be noncombustible` });
+      }
+    }
+  }
+
+  if (percent !== undefined) {
+    for (const type of types) {
+      if (type.groupAPlastic === "most" && percent <= getGroupAPercentThreshold(input.expandedPlastic)) {
+        conflicts.push({
+          field: "groupAPlasticPercent",
+          message: `${type.label} are mostly Group A plastic: more than ${getGroupAPercentThreshold(input.expandedPlastic)}% ${input.expandedPlastic ? "by volume" : "by weight"}`,
+        });
+      } else if (type.groupAPlastic === "some" && percent === 0) {
+        conflicts.push({ field: "groupAPlasticPercent", message: `${type.label} contain Group A plastics; enter their share` });
+      }
+    }
+    if (percent === 0 && (input.expandedPlastic || input.freeFlowingPlastic)) {
+      conflicts.push({ field: input.expandedPlastic ? "expandedPlastic" : "freeFlowingPlastic", message: "There are no Group A plastics to be expanded or free-flowing" });
+    }
+  }
+
+  if (input.expandedPlastic && input.freeFlowingPlastic) {
+    conflicts.push({ field: "freeFlowingPlastic", message: "Expanded (foam) plastics can't also be free-flowing pellets or powder" });
+  }
+
+  if (input.packaging === CommodityPackaging.ENCAPSULATED && input.palletType === PalletType.NONE) {
+    conflicts.push({ field: "packaging", message: "Encapsulation wraps a pallet load, so it needs pallets" });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,23 @@
+// What a commodity revision changed: the commodities form data or one storage array
+export const RevisionSubject = {
+  COMMODITIES: 'commodities',
+  STORAGE_ARRAY: 'storage_array',
+} as const;
+
+export type RevisionSubjectType = typeof RevisionSubject[keyof typeof RevisionSubject];
+
+export const RevisionAction = {
+  CREATED: 'created',
+  UPDATED: 'updated',
+  DELETED: 'deleted',
+} as const;
+
+export type RevisionActionType = typeof RevisionAction[keyof typeof RevisionAction];
+
+// One field's value before and after a revision, formatted for display; null where it had no value
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
@@ -0,0 +1,31 @@
+import { addMonths } from "date-fns";
+
+// How long documents in each category usually stay valid once they take effect, used to
+// suggest an expiry date. Special inspection agreements are renewed yearly, hydraulic test
+// reports on the fire protection system go stale after a year, and most jurisdictions want
+// engineer-stamped structural calculations re-sealed after two. Other categories don't expire.
+export const suggestedValidityMonths: Record<string, number> = {
+  special_inspection: 12,
+  fire_protection: 12,
+  structural_plans: 24,
+};
+
+// Expirations within this many days show on the dashboard even when they don't conflict
+export const EXPIRY_WARNING_DAYS = 60;
+
+export function getSuggestedValidityMonths(category: string): number | null {
+  return suggestedValidityMonths[category] ?? null;
+}
+
+export function suggestExpiryDate(category: string, effectiveDate: Date): Date | null {
+  const months = getSuggestedValidityMonths(category);
+  return months ? addMonths(effectiveDate, months) : null;
+}
+
+// The date a document has to stay valid until: the later of the project deadline and
+// the end of the permit's validity window, or null when neither is known
+export function getRequiredValidUntil(project: { deadline: Date | null; permitExpiresAt: Date | null }): Date | null {
+  const dates = [project.deadline, project.permitExpiresAt].filter((date): date is Date => !!date);
+  if (dates.length === 0) return null;
+  return new Date(Math.max(...dates.map(date => date.getTime())));
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+// What protects the storage area today; ESFR sprinklers waive smoke and heat
+// removal and draft curtains under IFC Table 3206.2
+export const SprinklerSystem = {
+  NONE: 'none',
+  STANDARD: 'standard',
+  ESFR: 'esfr',
+} as const;
+
+export const sprinklerSystemOptions = [
+  { id: SprinklerSystem.NONE, label: "Not sprinklered" },
+  { id: SprinklerSystem.STANDARD, label: "Sprinklered (control mode)", description: "Standard spray or CMSA sprinklers designed to NFPA 13" },
+  { id: SprinklerSystem.ESFR, label: "Sprinklered (ESFR)", description: "Early suppression fast response sprinklers" },
+];
+
+export const ProtectionFeature = {
+  SPRINKLERS: 'sprinklers',
+  FIRE_DETECTION: 'fire_detection',
+  BUILDING_ACCESS: 'building_access',
+  SMOKE_HEAT_REMOVAL: 'smoke_heat_removal',
+  DRAFT_CURTAINS: 'draft_curtains',
+} as const;
+
+export type ProtectionFeatureType = typeof ProtectionFeature[keyof typeof ProtectionFeature];
+
+export const protectionFeatureLabels: Record<ProtectionFeatureType, string> = {
+  [ProtectionFeature.SPRINKLERS]: "Automatic sprinkler system",
+  [ProtectionFeature.FIRE_DETECTION]: "Fire detection system",
+  [ProtectionFeature.BUILDING_ACCESS]: "Fire department access doors",
+  [ProtectionFeature.SMOKE_HEAT_REMOVAL]: "Smoke and heat removal",
+  [ProtectionFeature.DRAFT_CURTAINS]: "Draft curtains",
+};
+
+export const protectionRequirementsInputSchema = z.object({
+  classification: z.string().min(1),
+  storageArea: z.number().positive().max(10000000), // Square feet
+  topOfStorageHeight: z.number().positive().max(200), // Feet
+  sprinklerSystem: z.enum([SprinklerSystem.NONE, SprinklerSystem.STANDARD, SprinklerSystem.ESFR]),
+  openToPublic: z.boolean().default(false),
+});
+
+export type ProtectionRequirementsInput = z.infer<typeof protectionRequirementsInputSchema>;
+
+export interface ProtectionFeatureRequirement {
+  id: ProtectionFeatureType;
+  label: string;
+  required: boolean;
+  citation: string;
+  reason: string;
+}
+
+// As computed by server/protection-requirements.ts
+export interface ProtectionRequirements {
+  input: ProtectionRequirementsInput;
+  highPiled: boolean;
+  highHazard: boolean;
+  // The Table 3206.2 row the storage falls in, e.g. "2,501-12,000 sq ft, not open to the public (Option 2)"
+  tableRow: string | null;
+  features: ProtectionFeatureRequirement[];
+  // Things the table leaves to the fire code official, or that the storage can't have as entered
+  warnings: string[];
+}
+
+export interface StorageAreaProtection {
+  // Null when the area is the project's commodities form data rather than a storage array
+  storageArrayId: number | null;
+  name: string;
+  requirements: ProtectionRequirements;
+}
+
+// As returned by GET /api/projects/:id/protection-requirements
+export interface ProjectProtectionRequirements {
+  commodityId: number | null;
+  // Storage facts the table needs that the latest commodity data doesn't have
+  missing: string[];
+  // One per storage array, or the commodities form data for a project without arrays
+  areas: StorageAreaProtection[];
+}
@@ -0,0 +1,41 @@
+import type { RackFootprint, RackTypeValue } from "./storage-arrays";
+
+export const RackLayoutFormat = {
+  CSV: 'csv',
+  DXF: 'dxf',
+} as const;
+
+export type RackLayoutFormatType = typeof RackLayoutFormat[keyof typeof RackLayoutFormat];
+
+// One storage array proposed from a rack layout, before the commodity and sprinkler
+// answers are added on confirming. Lengths in feet, flue spaces and aisles in inches.
+export interface ImportedStorageArray {
+  name: string;
+  rackType: RackTypeValue;
+  storageArea: number; // Total rack footprint, in square feet
+  rackCount: number;
+  rackHeight: number | null;
+  topOfStorageHeight: number | null;
+  longitudinalFlueSpace: number | null;
+  transverseFlueSpace: number | null;
+  aisleWidth: number | null;
+  tiers: number | null;
+  footprints: RackFootprint[] | null; // Only DXF layouts give rack positions
+  source: string; // Where in the file it came from, e.g. "CSV rows 2-9" or "DXF layer RACK-A"
+}
+
+// Something in the file the importer could not turn into racks, and why
+export interface UnmappedEntity {
+  source: string;
+  reason: string;
+}
+
+// As returned by POST /api/projects/:id/storage-arrays/import/preview
+export interface RackLayoutPreview {
+  format: RackLayoutFormatType;
+  fileName: string;
+  arrays: ImportedStorageArray[];
+  unmapped: UnmappedEntity[];
+  warnings: string[];
+  totalStorageArea: number;
+}
@@ -0,0 +1,50 @@
+import { categoryChecklists, getChecklistForCategory } from "./checklists";
+
+// Reason codes a reviewer picks when rejecting a document. Each category's codes are
+// its review checklist items (a rejection is usually an item that wasn't met), plus
+// a few that apply to any submittal. Shared so reports and the reject dialogs agree.
+export interface RejectionReason {
+  code: string;
+  label: string;
+  // Set when the reason is a checklist item not being met
+  checklistItemId?: string;
+}
+
+export const generalRejectionReasons: RejectionReason[] = [
+  { code: "incomplete_submission", label: "Submission is incomplete" },
+  { code: "illegible", label: "Illegible or unreadable" },
+  { code: "wrong_document", label: "Wrong document for this category" },
+  { code: "inconsistent_sheets", label: "Conflicts with other submitted documents" },
+];
+
+export function getRejectionReasons(category: string): RejectionReason[] {
+  const checklistReasons = getChecklistForCategory(category).items.map(item => ({
+    code: item.id,
+    label: item.label,
+    checklistItemId: item.id,
+  }));
+  return [...checklistReasons, ...generalRejectionReasons];
+}
+
+// The reasons that apply to every one of the categories, for rejecting a mixed selection at once
+export function getCommonRejectionReasons(categories: string[]): RejectionReason[] {
+  const [first, ...rest] = Array.from(new Set(categories));
+  if (!first) return generalRejectionReasons;
+  return getRejectionReasons(first).filter(reason => rest.every(category => isRejectionReasonCode(category, reason.code)));
+}
+
+export function isRejectionReasonCode(category: string, code: string): boolean {
+  return getRejectionReasons(category).some(reason => reason.code === code);
+}
+
+// Codes are unique across categories, so a code alone is enough to label it in reports
+const reasonLabels = new Map<string, string>(
+  [
+    ...Object.keys(categoryChecklists).flatMap(category => getRejectionReasons(category)),
+    ...getRejectionReasons("other"),
+  ].map(reason => [reason.code, reason.label])
+);
+
+export function getRejectionReasonLabel(code: string): string {
+  return reasonLabels.get(code) ?? code.replace(/_/g, " ");
+}
@@ -0,0 +1,23 @@
+import { DocumentCategory } from "./schema";
+
+// How many calendar days a document may wait in the review queue, by category.
+// Shared so the queue page can show the targets it is measured against.
+export const reviewSlaDays: Record<string, number> = {
+  [DocumentCategory.SITE_PLAN]: 3,
+  [DocumentCategory.FACILITY_PLAN]: 3,
+  [DocumentCategory.EGRESS_PLAN]: 3,
+  [DocumentCategory.STRUCTURAL_PLANS]: 5,
+  [DocumentCategory.COMMODITIES]: 3,
+  [DocumentCategory.FIRE_PROTECTION]: 5,
+  [DocumentCategory.SPECIAL_INSPECTION]: 3,
+  [DocumentCategory.COVER_LETTER]: 1,
+};
+
+export const DEFAULT_REVIEW_SLA_DAYS = 3;
+
+// A document is due soon once this share of its SLA has gone by
+export const REVIEW_DUE_SOON_FRACTION = 0.75;
+
+export function getReviewSlaDays(category: string): number {
+  return reviewSlaDays[category] ?? DEFAULT_REVIEW_SLA_DAYS;
+}
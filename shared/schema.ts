@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, doublePrecision, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { classificationAnswersSchema } from "./commodity-classification";
+import { SprinklerSystem } from "./protection-requirements";
+import { RackType, ShelfType, rackFootprintSchema } from "./storage-arrays";
 
 // User Schema
 export const users = pgTable("users", {
@@ -60,6 +64,7 @@ export const projects = pgTable("projects", {
   contactEmail: text("contact_email"),
   contactPhone: text("contact_phone"),
   permitNumber: text("permit_number"),
+  permitExpiresAt: timestamp("permit_expires_at"), // End of the issued permit's validity window
   zipCode: text("zip_code"),
   status: text("status").notNull().default("not_started"), // not_started, in_progress, ready_for_submission, under_review, approved, rejected
   createdAt: timestamp("created_at").defaultNow(),
@@ -71,6 +76,8 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
   permitNumber: true,
+  permitExpiresAt: true,
+  status: true, // New projects always start not_started; later changes go through transitionProjectStatus
 }).extend({
   // Ensure deadline is treated as a string during form submission
   deadline: z.string().optional().transform(val => 
@@ -88,22 +95,348 @@ export const documents = pgTable("documents", {
   fileName: text("file_name").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size").notNull(),
-  fileContent: text("file_content").notNull(), // base64 encoded for in-memory storage
-  status: text("status").notNull().default("not_submitted"), // not_submitted, pending_review, approved, rejected
+  fileContent: text("file_content"), // Legacy base64 payload, emptied by server/migrate-document-blobs.ts
+  contentHash: text("content_hash"), // SHA-256 of the file bytes, used as the blob store key
+  status: text("status").notNull().default("not_submitted"), // not_submitted, pending_review, approved, rejected, superseded
+  statusChangedAt: timestamp("status_changed_at").defaultNow(), // How long the version has been in its status; null on rows from before this was tracked
+  assignedReviewerId: integer("assigned_reviewer_id"), // The specialist responsible for reviewing this version
+  reviewAssignedAt: timestamp("review_assigned_at"),
+  groupId: text("group_id"), // Stable lineage identity shared by every version of a document, independent of fileName
+  supersededById: integer("superseded_by_id"), // The newer version that replaced this one
+  supersededAt: timestamp("superseded_at"),
+  textIndexStatus: text("text_index_status"), // indexed, unsupported, failed; null until text extraction has run
+  previewStatus: text("preview_status"), // ready, unsupported, failed; null while previews are being rendered
+  pageCount: integer("page_count"), // Known once previews have been rendered
   uploadedById: integer("uploaded_by_id").notNull(),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
   reviewedById: integer("reviewed_by_id"),
   reviewedAt: timestamp("reviewed_at"),
   comments: text("comments"),
+  rejectionReasons: text("rejection_reasons").array(), // Reason codes of the current rejection, from shared/rejection-reasons.ts
+  effectiveDate: timestamp("effective_date"), // Validity period of time-limited documents such as inspection agreements and test reports
+  expiresAt: timestamp("expires_at"),
+  expiryFlaggedAt: timestamp("expiry_flagged_at"), // Set by the daily expiry check while the version expires before the project still needs it
+  commodityRevisionId: integer("commodity_revision_id"), // On generated documents such as cover letters, the commodity data revision they were based on
   version: integer("version").notNull().default(1),
-});
+}, (table) => [
+  uniqueIndex("documents_group_version_idx").on(table.groupId, table.version),
+]);
 
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   uploadedAt: true,
   reviewedAt: true,
   reviewedById: true,
-  version: true
+  version: true,
+  fileContent: true, // File bytes go through the blob store, not the row
+  contentHash: true,
+  groupId: true, // Lineage is assigned by storage.createDocument
+  supersededById: true,
+  supersededAt: true,
+  textIndexStatus: true,
+  previewStatus: true,
+  pageCount: true,
+  statusChangedAt: true,
+  assignedReviewerId: true, // Assigned through the review queue
+  reviewAssignedAt: true,
+  rejectionReasons: true,
+  effectiveDate: true, // Set through PUT /api/documents/:id/validity
+  expiresAt: true,
+  expiryFlaggedAt: true
+});
+
+// Resumable chunked uploads. Chunks are staged on disk until the session is completed,
+// at which point they are assembled into a single blob and a document row is created.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: text("id").primaryKey(), // Random token the client keeps to resume the upload
+  projectId: integer("project_id").notNull(),
+  category: text("category").notNull(),
+  fileName: text("file_name").notNull(),
+  fileType: text("file_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  chunkSize: integer("chunk_size").notNull(),
+  totalChunks: integer("total_chunks").notNull(),
+  receivedChunks: json("received_chunks").notNull().default({}), // Map of chunk index -> SHA-256 of the chunk
+  checksum: text("checksum"), // Optional SHA-256 of the whole file, verified when the upload completes
+  previousVersionId: integer("previous_version_id"), // Set when uploading a new version of an existing document
+  status: text("status").notNull().default("pending"), // pending, completing, completed
+  documentId: integer("document_id"),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  createdAt: true,
+  receivedChunks: true,
+  status: true,
+  documentId: true
+});
+
+// Cached visual/text comparisons between two document revisions. Keyed by content hash,
+// so re-uploading identical bytes reuses the existing result. Comparisons are run in the
+// background (server/document-comparisons.ts), so a row is pending until its result is in.
+export const documentComparisons = pgTable("document_comparisons", {
+  id: serial("id").primaryKey(),
+  baseContentHash: text("base_content_hash").notNull(),
+  targetContentHash: text("target_content_hash").notNull(),
+  status: text("status").notNull().default("ready"), // pending, ready, failed
+  result: json("result"), // PdfComparison from server/pdf-compare.ts once ready; overlay images live in the blob store
+  startedAt: timestamp("started_at").defaultNow(), // When the current attempt was queued
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDocumentComparisonSchema = createInsertSchema(documentComparisons).omit({
+  id: true,
+  startedAt: true,
+  createdAt: true
+});
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  }
+});
+
+// Text extracted from each document version for full-text search, one row per page.
+// Formats without reliable page boundaries are stored as a single row with no page number.
+export const documentText = pgTable("document_text", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number"),
+  content: text("content").notNull(),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector('english', content)`),
+}, (table) => [
+  index("document_text_document_id_idx").on(table.documentId),
+  index("document_text_search_idx").using("gin", table.searchVector),
+]);
+
+// search_vector is generated by Postgres, so it is never part of an insert
+export const insertDocumentTextSchema = createInsertSchema(documentText).omit({
+  id: true
+});
+
+// Rendered PNG thumbnails and page previews, keyed by the content hash of the source file
+// so identical uploads share them. The images themselves live in the blob store.
+export const documentPreviews = pgTable("document_previews", {
+  id: serial("id").primaryKey(),
+  contentHash: text("content_hash").notNull(),
+  kind: text("kind").notNull(), // thumbnail, page
+  pageNumber: integer("page_number").notNull(),
+  blobKey: text("blob_key").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_previews_source_idx").on(table.contentHash, table.kind, table.pageNumber),
+]);
+
+export const insertDocumentPreviewSchema = createInsertSchema(documentPreviews).omit({
+  id: true,
+  createdAt: true
+});
+
+// Reviewer markup pinned to a spot on one page of a document version. Coordinates are
+// fractions (0-1) of the page as displayed, measured from its top-left corner, so they
+// hold at any zoom level. Unresolved annotations are copied to each new version.
+export const documentAnnotations = pgTable("document_annotations", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number").notNull(),
+  shape: text("shape").notNull(), // pin, rectangle, cloud
+  x: doublePrecision("x").notNull(),
+  y: doublePrecision("y").notNull(),
+  width: doublePrecision("width"), // null for pins
+  height: doublePrecision("height"),
+  text: text("text").notNull(),
+  authorId: integer("author_id").notNull(),
+  resolved: boolean("resolved").notNull().default(false),
+  resolvedById: integer("resolved_by_id"),
+  resolvedAt: timestamp("resolved_at"),
+  carriedFromId: integer("carried_from_id"), // The annotation on the previous version this one was copied from
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("document_annotations_document_id_idx").on(table.documentId),
+]);
+
+export const insertDocumentAnnotationSchema = createInsertSchema(documentAnnotations).omit({
+  id: true,
+  createdAt: true,
+  resolved: true,
+  resolvedById: true,
+  resolvedAt: true,
+  carriedFromId: true
+}).extend({
+  shape: z.enum(["pin", "rectangle", "cloud"]),
+  pageNumber: z.number().int().min(1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1).nullish(),
+  height: z.number().min(0).max(1).nullish(),
+  text: z.string().trim().min(1, "Annotation text is required").max(2000),
+}).refine(
+  annotation => annotation.shape === "pin" || (!!annotation.width && !!annotation.height),
+  { message: "Rectangles and clouds need a width and height" }
+);
+
+// A reviewer's answers to the category checklist (shared/checklists.ts) for one document
+// version, one row per item. Approval is refused until every required item is checked.
+export const checklistResponses = pgTable("checklist_responses", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  reviewerId: integer("reviewer_id").notNull(),
+  itemId: text("item_id").notNull(),
+  checked: boolean("checked").notNull().default(false),
+  note: text("note"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("checklist_responses_item_idx").on(table.documentId, table.reviewerId, table.itemId),
+]);
+
+export const insertChecklistResponseSchema = createInsertSchema(checklistResponses).omit({
+  id: true,
+  updatedAt: true
+}).extend({
+  note: z.string().trim().max(2000).nullish().transform(note => note || null),
+});
+
+// A formal plan-review pass over a project. Opening a round snapshots the document
+// versions awaiting review; closing it freezes the consolidated comment letter.
+export const reviewRounds = pgTable("review_rounds", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  roundNumber: integer("round_number").notNull(),
+  status: text("status").notNull().default("open"), // open, closed
+  openedById: integer("opened_by_id").notNull(),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedById: integer("closed_by_id"),
+  closedAt: timestamp("closed_at"),
+  summary: text("summary"), // General remarks printed at the top of the comment letter
+  commentLetter: json("comment_letter"), // CommentLetter from server/review-rounds.ts, set when the round is closed
+}, (table) => [
+  uniqueIndex("review_rounds_number_idx").on(table.projectId, table.roundNumber),
+]);
+
+// Round numbers are assigned by storage when the round is created
+export const insertReviewRoundSchema = createInsertSchema(reviewRounds).omit({
+  id: true,
+  roundNumber: true,
+  status: true,
+  openedAt: true,
+  closedById: true,
+  closedAt: true,
+  commentLetter: true
+});
+
+// The document versions a round covers, fixed when it is opened
+export const reviewRoundDocuments = pgTable("review_round_documents", {
+  id: serial("id").primaryKey(),
+  roundId: integer("round_id").notNull().references(() => reviewRounds.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+}, (table) => [
+  uniqueIndex("review_round_documents_idx").on(table.roundId, table.documentId),
+]);
+
+// Each reviewer's latest decision on a document within a round
+export const reviewRoundDecisions = pgTable("review_round_decisions", {
+  id: serial("id").primaryKey(),
+  roundId: integer("round_id").notNull().references(() => reviewRounds.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  reviewerId: integer("reviewer_id").notNull(),
+  decision: text("decision").notNull(), // approved, rejected
+  comments: text("comments"),
+  decidedAt: timestamp("decided_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("review_round_decisions_idx").on(table.roundId, table.documentId, table.reviewerId),
+]);
+
+export const insertReviewRoundDecisionSchema = createInsertSchema(reviewRoundDecisions).omit({
+  id: true,
+  decidedAt: true
+});
+
+// Plan-check corrections returned by the building department for one of the project's
+// submittals, each tracked until it has a resolution for the response letter.
+export const correctionComments = pgTable("correction_comments", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  submissionNumber: integer("submission_number").notNull().default(1), // 1 for the first submittal, 2 for the first resubmittal, ...
+  commentNumber: text("comment_number").notNull(), // As numbered by the authority, e.g. "3" or "B-2"
+  text: text("text").notNull(),
+  category: text("category"), // Document category the comment applies to
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }), // Specific version, if any
+  assignedStakeholderId: integer("assigned_stakeholder_id").references(() => projectStakeholders.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("open"), // open, in_progress, resolved
+  resolution: text("resolution"),
+  revisedSheetReference: text("revised_sheet_reference"), // e.g. "A2.1 rev 1"
+  resolvedById: integer("resolved_by_id"),
+  resolvedAt: timestamp("resolved_at"),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("correction_comments_project_id_idx").on(table.projectId),
+]);
+
+export const insertCorrectionCommentSchema = createInsertSchema(correctionComments).omit({
+  id: true,
+  status: true,
+  resolution: true,
+  revisedSheetReference: true,
+  resolvedById: true,
+  resolvedAt: true,
+  createdAt: true
+}).extend({
+  submissionNumber: z.number().int().min(1).max(99).default(1),
+  commentNumber: z.string().trim().min(1, "Comment number is required").max(20),
+  text: z.string().trim().min(1, "Comment text is required").max(10000),
+});
+
+// Each time the permit package is sent to the building department. Numbers match the
+// submissionNumber on correction comments; a project can't go under review without one.
+export const authoritySubmissions = pgTable("authority_submissions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  submissionNumber: integer("submission_number").notNull(),
+  submittedAt: timestamp("submitted_at").notNull(), // When it reached the authority, which may be before it was recorded
+  method: text("method"), // e.g. portal, email, in person
+  referenceNumber: text("reference_number"), // The authority's intake or tracking number
+  notes: text("notes"),
+  recordedById: integer("recorded_by_id").notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("authority_submissions_number_idx").on(table.projectId, table.submissionNumber),
+]);
+
+// Submission numbers are assigned by storage
+export const insertAuthoritySubmissionSchema = createInsertSchema(authoritySubmissions).omit({
+  id: true,
+  submissionNumber: true,
+  recordedAt: true
+}).extend({
+  submittedAt: z.coerce.date(),
+  method: z.string().trim().max(50).nullish(),
+  referenceNumber: z.string().trim().max(100).nullish(),
+  notes: z.string().trim().max(5000).nullish(),
+});
+
+// Audit trail of project status changes. Overrides skip the transition guards and
+// always carry the reason given for them.
+export const projectStatusChanges = pgTable("project_status_changes", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  override: boolean("override").notNull().default(false),
+  reason: text("reason"),
+  changedById: integer("changed_by_id").notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  index("project_status_changes_project_id_idx").on(table.projectId),
+]);
+
+export const insertProjectStatusChangeSchema = createInsertSchema(projectStatusChanges).omit({
+  id: true,
+  changedAt: true
 });
 
 // Commodities Schema (for the specialized form)
@@ -112,16 +445,120 @@ export const commodities = pgTable("commodities", {
   projectId: integer("project_id").notNull(),
   commodityTypes: json("commodity_types").notNull(), // Array of commodity types
   storageMethod: text("storage_method").notNull(), // pallets, cardboard_boxes, plastic, etc.
-  classification: text("classification").notNull(), // Based on Table 3203.8 in IFC Chapter 32
+  classification: text("classification").notNull(), // Computed from classificationInputs by server/commodity-classification.ts
+  classificationInputs: json("classification_inputs"), // The classification wizard's answers; null on rows filed before it
+  classificationRule: text("classification_rule"), // The code rule that settled the class
+  // Storage facts the submittal rules (server/submittal-rules.ts) depend on
+  rackHeight: doublePrecision("rack_height"), // Tallest rack, in feet
+  topOfStorageHeight: doublePrecision("top_of_storage_height"), // Floor to top of storage, in feet
+  storageArea: doublePrecision("storage_area"), // High-piled storage area, in square feet
+  // Protection facts IFC Table 3206.2 depends on (server/protection-requirements.ts)
+  sprinklerSystem: text("sprinkler_system"), // none, standard, esfr; null on rows filed before it was asked
+  openToPublic: boolean("open_to_public").notNull().default(false),
   createdById: integer("created_by_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
-});
+}, (table) => [
+  // One row per project, updated in place; older duplicates are removed by server/migrate-commodities.ts
+  uniqueIndex("commodities_project_idx").on(table.projectId),
+]);
 
+// The class is computed on the server from classificationInputs, never taken from the client
 export const insertCommoditiesSchema = createInsertSchema(commodities).omit({
   id: true,
   createdAt: true,
-  updatedAt: true
+  updatedAt: true,
+  classification: true,
+  classificationRule: true
+}).extend({
+  commodityTypes: z.array(z.string()).min(1, "Select at least one commodity type"),
+  classificationInputs: classificationAnswersSchema,
+  rackHeight: z.number().positive().max(200).nullish(),
+  topOfStorageHeight: z.number().positive().max(200).nullish(),
+  storageArea: z.number().positive().max(10000000).nullish(),
+  sprinklerSystem: z.enum([SprinklerSystem.NONE, SprinklerSystem.STANDARD, SprinklerSystem.ESFR]).nullish(),
+});
+
+// One high-piled storage area of a warehouse, with its own racks, heights and commodity
+// mix. Projects with arrays are assessed array by array rather than from commodities.
+export const storageArrays = pgTable("storage_arrays", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // As labelled on the floor plan, e.g. "Array A"
+  storageArea: doublePrecision("storage_area").notNull(), // Square feet
+  rackType: text("rack_type").notNull(), // selective, double_deep, ..., shelving, solid_pile
+  rackHeight: doublePrecision("rack_height"), // Feet; null when there are no racks
+  topOfStorageHeight: doublePrecision("top_of_storage_height").notNull(), // Floor to top of storage, in feet
+  shelfType: text("shelf_type").notNull().default("none"), // none, wire_mesh, slatted, solid
+  longitudinalFlueSpace: doublePrecision("longitudinal_flue_space"), // Inches
+  transverseFlueSpace: doublePrecision("transverse_flue_space"), // Inches
+  aisleWidth: doublePrecision("aisle_width"), // Narrowest aisle, in inches
+  tiers: integer("tiers"), // Storage levels, counting the floor
+  footprints: json("footprints"), // RackFootprint[] from an imported rack layout; null when entered by hand
+  sprinklerSystem: text("sprinkler_system").notNull(), // none, standard, esfr
+  commodityTypes: json("commodity_types").notNull(),
+  classificationInputs: json("classification_inputs").notNull(), // The classification wizard's answers
+  classification: text("classification").notNull(), // Computed by server/commodity-classification.ts
+  classificationRule: text("classification_rule").notNull(),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+}, (table) => [
+  index("storage_arrays_project_id_idx").on(table.projectId),
+]);
+
+// As with commodities, the class is computed on the server from classificationInputs
+export const insertStorageArraySchema = createInsertSchema(storageArrays).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  classification: true,
+  classificationRule: true
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  storageArea: z.number().positive().max(10000000),
+  rackType: z.enum([
+    RackType.SELECTIVE, RackType.DOUBLE_DEEP, RackType.DRIVE_IN, RackType.PUSH_BACK, RackType.PALLET_FLOW,
+    RackType.CANTILEVER, RackType.MOBILE, RackType.SHELVING, RackType.SOLID_PILE
+  ]),
+  rackHeight: z.number().positive().max(200).nullish(),
+  topOfStorageHeight: z.number().positive().max(200),
+  shelfType: z.enum([ShelfType.NONE, ShelfType.WIRE_MESH, ShelfType.SLATTED, ShelfType.SOLID]).default(ShelfType.NONE),
+  longitudinalFlueSpace: z.number().min(0).max(120).nullish(),
+  transverseFlueSpace: z.number().min(0).max(120).nullish(),
+  aisleWidth: z.number().positive().max(1200).nullish(),
+  tiers: z.number().int().min(1).max(50).nullish(),
+  footprints: z.array(rackFootprintSchema).max(5000).nullish(),
+  sprinklerSystem: z.enum([SprinklerSystem.NONE, SprinklerSystem.STANDARD, SprinklerSystem.ESFR]),
+  commodityTypes: z.array(z.string()).min(1, "Select at least one commodity type"),
+  classificationInputs: classificationAnswersSchema,
+});
+
+// Audit trail of a project's commodity and storage array data. Each save is one numbered
+// revision, so generated documents can record the data they were based on.
+export const commodityRevisions = pgTable("commodity_revisions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  revisionNumber: integer("revision_number").notNull(),
+  subject: text("subject").notNull(), // commodities, storage_array
+  commodityId: integer("commodity_id"),
+  storageArrayId: integer("storage_array_id"), // Kept after the array is deleted
+  subjectName: text("subject_name").notNull(), // "Commodities" or the array's name at the time
+  action: text("action").notNull(), // created, updated, deleted
+  changes: json("changes").notNull(), // FieldChange[] from shared/commodity-revisions.ts
+  snapshot: json("snapshot").notNull(), // The row after the change, or before it was deleted
+  classification: text("classification").notNull(), // Class of the snapshot
+  changedById: integer("changed_by_id").notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("commodity_revisions_number_idx").on(table.projectId, table.revisionNumber),
+]);
+
+// Revision numbers are assigned by storage when the revision is recorded
+export const insertCommodityRevisionSchema = createInsertSchema(commodityRevisions).omit({
+  id: true,
+  revisionNumber: true,
+  changedAt: true
 });
 
 // Project Stakeholders
@@ -161,6 +598,101 @@ export const insertStakeholderTaskSchema = createInsertSchema(stakeholderTasks).
   completedAt: true
 });
 
+// The sign-off stages a project's documents in one category go through before they count
+// as approved, in stage order. Categories without stages are approved in a single step.
+export const approvalChainStages = pgTable("approval_chain_stages", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  category: text("category").notNull(),
+  stageOrder: integer("stage_order").notNull(),
+  name: text("name").notNull(), // e.g. "Engineer review", "Building owner approval"
+  role: text("role").notNull(), // A stakeholder role, or 'specialist' for the permit specialists
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("approval_chain_stages_order_idx").on(table.projectId, table.category, table.stageOrder),
+]);
+
+export const insertApprovalChainStageSchema = createInsertSchema(approvalChainStages).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+// A document version's copy of its category's chain, made when the version enters review
+// so editing the chain doesn't move documents already part-way through it.
+export const documentApprovalStages = pgTable("document_approval_stages", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  stageOrder: integer("stage_order").notNull(),
+  name: text("name").notNull(),
+  role: text("role").notNull(),
+  status: text("status").notNull().default("waiting"), // waiting, active, signed_off, rejected
+  taskIds: integer("task_ids").array().notNull().default([]), // Stakeholder tasks raised when the stage became active
+  activatedAt: timestamp("activated_at"),
+  signedOffById: integer("signed_off_by_id"), // Who signed off or rejected the stage
+  signedOffAt: timestamp("signed_off_at"),
+  comments: text("comments"),
+}, (table) => [
+  uniqueIndex("document_approval_stages_order_idx").on(table.documentId, table.stageOrder),
+]);
+
+export const insertDocumentApprovalStageSchema = createInsertSchema(documentApprovalStages).omit({
+  id: true,
+  status: true,
+  taskIds: true,
+  activatedAt: true,
+  signedOffById: true,
+  signedOffAt: true,
+  comments: true
+});
+
+// A tamper-evident record of each review decision, bound to the SHA-256 of the exact bytes
+// reviewed. Every row's hash covers the project's previous row, so editing or deleting one
+// breaks the chain. There are deliberately no foreign keys: the record outlives the document.
+export const approvalAttestations = pgTable("approval_attestations", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  sequence: integer("sequence").notNull(), // Position in the project's chain, from 1
+  documentId: integer("document_id").notNull(),
+  documentVersion: integer("document_version").notNull(),
+  fileName: text("file_name").notNull(),
+  decision: text("decision").notNull(), // approved, rejected, signed_off
+  stageName: text("stage_name"), // The approval chain stage, when the category has one
+  comments: text("comments"),
+  reviewerId: integer("reviewer_id").notNull(),
+  attestedAt: timestamp("attested_at").notNull(),
+  contentHash: text("content_hash").notNull(), // SHA-256 of the version's bytes at the time of the decision
+  previousHash: text("previous_hash"), // Null for the first attestation in the project
+  hash: text("hash").notNull(), // See hashAttestation in server/attestations.ts
+}, (table) => [
+  uniqueIndex("approval_attestations_sequence_idx").on(table.projectId, table.sequence),
+]);
+
+// Sequence and the chain hashes are filled in by storage and server/attestations.ts
+export const insertApprovalAttestationSchema = createInsertSchema(approvalAttestations).omit({
+  id: true
+});
+
+// Every rejection with its reason codes, kept after the version is revised or approved
+// so reports can show why submittals bounce.
+export const documentRejections = pgTable("document_rejections", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  category: text("category").notNull(),
+  reasonCodes: text("reason_codes").array().notNull(),
+  comments: text("comments"),
+  rejectedById: integer("rejected_by_id").notNull(),
+  rejectedAt: timestamp("rejected_at").defaultNow(),
+});
+
+export const insertDocumentRejectionSchema = createInsertSchema(documentRejections).omit({
+  id: true,
+  rejectedAt: true
+});
+
 // Activity Log
 export const activityLogs = pgTable("activity_logs", {
   id: serial("id").primaryKey(),
@@ -203,15 +735,68 @@ export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+
+export type DocumentComparison = typeof documentComparisons.$inferSelect;
+export type InsertDocumentComparison = z.infer<typeof insertDocumentComparisonSchema>;
+
+export type DocumentText = typeof documentText.$inferSelect;
+export type InsertDocumentText = z.infer<typeof insertDocumentTextSchema>;
+
+export type DocumentPreview = typeof documentPreviews.$inferSelect;
+export type InsertDocumentPreview = z.infer<typeof insertDocumentPreviewSchema>;
+
+export type DocumentAnnotation = typeof documentAnnotations.$inferSelect;
+export type InsertDocumentAnnotation = z.infer<typeof insertDocumentAnnotationSchema>;
+
+export type ChecklistResponse = typeof checklistResponses.$inferSelect;
+export type InsertChecklistResponse = z.infer<typeof insertChecklistResponseSchema>;
+
+export type ReviewRound = typeof reviewRounds.$inferSelect;
+export type InsertReviewRound = z.infer<typeof insertReviewRoundSchema>;
+
+export type ReviewRoundDocument = typeof reviewRoundDocuments.$inferSelect;
+
+export type ReviewRoundDecision = typeof reviewRoundDecisions.$inferSelect;
+export type InsertReviewRoundDecision = z.infer<typeof insertReviewRoundDecisionSchema>;
+
+export type CorrectionComment = typeof correctionComments.$inferSelect;
+export type InsertCorrectionComment = z.infer<typeof insertCorrectionCommentSchema>;
+
+export type AuthoritySubmission = typeof authoritySubmissions.$inferSelect;
+export type InsertAuthoritySubmission = z.infer<typeof insertAuthoritySubmissionSchema>;
+
+export type ProjectStatusChange = typeof projectStatusChanges.$inferSelect;
+export type InsertProjectStatusChange = z.infer<typeof insertProjectStatusChangeSchema>;
+
 export type Commodity = typeof commodities.$inferSelect;
 export type InsertCommodity = z.infer<typeof insertCommoditiesSchema>;
 
+export type StorageArray = typeof storageArrays.$inferSelect;
+export type InsertStorageArray = z.infer<typeof insertStorageArraySchema>;
+
+export type CommodityRevision = typeof commodityRevisions.$inferSelect;
+export type InsertCommodityRevision = z.infer<typeof insertCommodityRevisionSchema>;
+
 export type ProjectStakeholder = typeof projectStakeholders.$inferSelect;
 export type InsertProjectStakeholder = z.infer<typeof insertProjectStakeholderSchema>;
 
 export type StakeholderTask = typeof stakeholderTasks.$inferSelect;
 export type InsertStakeholderTask = z.infer<typeof insertStakeholderTaskSchema>;
 
+export type ApprovalChainStage = typeof approvalChainStages.$inferSelect;
+export type InsertApprovalChainStage = z.infer<typeof insertApprovalChainStageSchema>;
+
+export type DocumentApprovalStage = typeof documentApprovalStages.$inferSelect;
+export type InsertDocumentApprovalStage = z.infer<typeof insertDocumentApprovalStageSchema>;
+
+export type ApprovalAttestation = typeof approvalAttestations.$inferSelect;
+export type InsertApprovalAttestation = z.infer<typeof insertApprovalAttestationSchema>;
+
+export type DocumentRejection = typeof documentRejections.$inferSelect;
+export type InsertDocumentRejection = z.infer<typeof insertDocumentRejectionSchema>;
+
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 
@@ -232,6 +817,17 @@ export const DocumentCategory = {
 
 export type DocumentCategoryType = typeof DocumentCategory[keyof typeof DocumentCategory];
 
+export const DocumentCategoryLabels: Record<DocumentCategoryType, string> = {
+  [DocumentCategory.SITE_PLAN]: "Site Plan",
+  [DocumentCategory.FACILITY_PLAN]: "Facility Plan",
+  [DocumentCategory.EGRESS_PLAN]: "Egress Plan",
+  [DocumentCategory.STRUCTURAL_PLANS]: "Structural Plans",
+  [DocumentCategory.COMMODITIES]: "Commodities Form",
+  [DocumentCategory.FIRE_PROTECTION]: "Fire Protection",
+  [DocumentCategory.SPECIAL_INSPECTION]: "Special Inspection",
+  [DocumentCategory.COVER_LETTER]: "Cover Letter",
+};
+
 // Project status enum for front-end use
 export const ProjectStatus = {
   NOT_STARTED: 'not_started',
@@ -250,10 +846,57 @@ export const DocumentStatus = {
   PENDING_REVIEW: 'pending_review',
   APPROVED: 'approved',
   REJECTED: 'rejected',
+  SUPERSEDED: 'superseded',
 } as const;
 
 export type DocumentStatusType = typeof DocumentStatus[keyof typeof DocumentStatus];
 
+// Bulk review action enum for front-end use. Requesting changes keeps the
+// documents in review with the reviewer's comment.
+export const BulkReviewAction = {
+  APPROVE: 'approve',
+  REJECT: 'reject',
+  REQUEST_CHANGES: 'request_changes',
+} as const;
+
+export type BulkReviewActionType = typeof BulkReviewAction[keyof typeof BulkReviewAction];
+
+// Annotation shapes enum for front-end use
+export const AnnotationShape = {
+  PIN: 'pin',
+  RECTANGLE: 'rectangle',
+  CLOUD: 'cloud',
+} as const;
+
+export type AnnotationShapeType = typeof AnnotationShape[keyof typeof AnnotationShape];
+
+// Review round statuses enum for front-end use
+export const ReviewRoundStatus = {
+  OPEN: 'open',
+  CLOSED: 'closed',
+} as const;
+
+export type ReviewRoundStatusType = typeof ReviewRoundStatus[keyof typeof ReviewRoundStatus];
+
+// Correction comment statuses enum for front-end use
+export const CorrectionStatus = {
+  OPEN: 'open',
+  IN_PROGRESS: 'in_progress',
+  RESOLVED: 'resolved',
+} as const;
+
+export type CorrectionStatusType = typeof CorrectionStatus[keyof typeof CorrectionStatus];
+
+// Document approval stage statuses enum for front-end use
+export const ApprovalStageStatus = {
+  WAITING: 'waiting',
+  ACTIVE: 'active',
+  SIGNED_OFF: 'signed_off',
+  REJECTED: 'rejected',
+} as const;
+
+export type ApprovalStageStatusType = typeof ApprovalStageStatus[keyof typeof ApprovalStageStatus];
+
 // User roles enum for front-end use
 export const UserRole = {
   SPECIALIST: 'specialist',
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+// How each storage array is stored. Solid piles and shelving have no storage racks
+// to anchor or inspect; the rest are rack storage under IFC Section 3208.
+export const RackType = {
+  SELECTIVE: 'selective',
+  DOUBLE_DEEP: 'double_deep',
+  DRIVE_IN: 'drive_in',
+  PUSH_BACK: 'push_back',
+  PALLET_FLOW: 'pallet_flow',
+  CANTILEVER: 'cantilever',
+  MOBILE: 'mobile',
+  SHELVING: 'shelving',
+  SOLID_PILE: 'solid_pile',
+} as const;
+
+export type RackTypeValue = typeof RackType[keyof typeof RackType];
+
+export const rackTypeOptions: Array<{ id: RackTypeValue; label: string }> = [
+  { id: RackType.SELECTIVE, label: "Selective pallet rack" },
+  { id: RackType.DOUBLE_DEEP, label: "Double-deep rack" },
+  { id: RackType.DRIVE_IN, label: "Drive-in / drive-through rack" },
+  { id: RackType.PUSH_BACK, label: "Push-back rack" },
+  { id: RackType.PALLET_FLOW, label: "Pallet flow rack" },
+  { id: RackType.CANTILEVER, label: "Cantilever rack" },
+  { id: RackType.MOBILE, label: "Mobile rack" },
+  { id: RackType.SHELVING, label: "Shelving" },
+  { id: RackType.SOLID_PILE, label: "Solid-piled / palletized (no racks)" },
+];
+
+export const rackTypeLabels: Record<string, string> = Object.fromEntries(
+  rackTypeOptions.map(option => [option.id, option.label])
+);
+
+export function isRackStorage(rackType: string): boolean {
+  return rackType !== RackType.SOLID_PILE && rackType !== RackType.SHELVING;
+}
+
+// Shelves block water from ceiling sprinklers in proportion to how solid they are
+export const ShelfType = {
+  NONE: 'none',
+  WIRE_MESH: 'wire_mesh',
+  SLATTED: 'slatted',
+  SOLID: 'solid',
+} as const;
+
+export const shelfTypeOptions = [
+  { id: ShelfType.NONE, label: "No shelves (beams only)" },
+  { id: ShelfType.WIRE_MESH, label: "Wire mesh decking" },
+  { id: ShelfType.SLATTED, label: "Slatted shelves" },
+  { id: ShelfType.SOLID, label: "Solid shelves" },
+];
+
+export const shelfTypeLabels: Record<string, string> = Object.fromEntries(
+  shelfTypeOptions.map(option => [option.id, option.label])
+);
+
+// Outline of one rack on the floor plan, as read from an imported layout: corner points in feet
+export const rackFootprintSchema = z.object({
+  points: z.array(z.tuple([z.number(), z.number()])).min(3).max(64),
+});
+
+export type RackFootprint = z.infer<typeof rackFootprintSchema>;